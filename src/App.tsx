@@ -1,17 +1,28 @@
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState } from 'react';
 import { useNetworkStore } from './store/useNetworkStore';
 import { RoutingTableEditor } from './components/RoutingTableEditor';
+import { ACLEditor } from './components/ACLEditor';
+import { RouterConsole } from './components/RouterConsole';
+import { DynamicRoutingPanel } from './components/DynamicRoutingPanel';
 import { DeviceEditor } from './components/DeviceEditor';
 import { ControlPanel } from './components/ControlPanel';
 import { AddDevicePanel } from './components/AddDevicePanel';
+import { RouteGeneratorModal } from './components/RouteGeneratorModal';
+import { ReachabilityMatrixModal } from './components/ReachabilityMatrixModal';
 import { ConnectionManager } from './components/ConnectionManager';
 import { InteractiveCanvas } from './components/InteractiveCanvas';
 import { InterfaceManager } from './components/InterfaceManager';
 import { DNSManager } from './components/DNSManager';
 import { WebServerManager } from './components/WebServerManager';
+import { MACAddressTable } from './components/MACAddressTable';
+import { ARPTable } from './components/ARPTable';
+import { HostCommandPrompt } from './components/HostCommandPrompt';
+import { DHCPServerPanel } from './components/DHCPServerPanel';
 import { BrowserSimulator } from './components/BrowserSimulator';
 import { ScenarioSelector } from './components/ScenarioSelector';
 import { GlobalAnimationControl } from './components/GlobalAnimationControl';
+import { TrafficFlowList } from './components/TrafficFlowList';
+import { CapturePanel } from './components/CapturePanel';
 import { HTMLPreviewModal } from './components/HTMLPreviewModal';
 import { WelcomeGuide } from './components/WelcomeGuide';
 import { AssignmentSubmission } from './components/AssignmentSubmission';
@@ -24,22 +35,19 @@ function App() {
     devices,
     selectedDevice,
     selectDevice,
-    simulationResult,
-    simulationType,
     currentStudentInfo
   } = useNetworkStore();
 
   const [editingDevice, setEditingDevice] = useState<string | null>(null);
-  const [isAnimating, setIsAnimating] = useState(false);
-  const [animationPath, setAnimationPath] = useState<string[]>([]);
   const [showAddDevice, setShowAddDevice] = useState(false);
   const [showConnectionManager, setShowConnectionManager] = useState(false);
+  const [showRouteGenerator, setShowRouteGenerator] = useState(false);
+  const [showReachability, setShowReachability] = useState(false);
   const [showWelcomeGuide, setShowWelcomeGuide] = useState(false);
   const [showSubmission, setShowSubmission] = useState(false);
   const [showGrading, setShowGrading] = useState(false);
   const [showPasswordDialog, setShowPasswordDialog] = useState(false);
   const [isCanvasMaximized, setIsCanvasMaximized] = useState(false);
-  const handleAnimationDone = useCallback(() => setIsAnimating(false), []);
 
   // 页面加载时检查是否需要显示欢迎引导
   useEffect(() => {
@@ -49,14 +57,6 @@ function App() {
     }
   }, []);
 
-  // 当有新的模拟结果时，触发动画
-  useEffect(() => {
-    if (simulationResult && simulationResult.success && simulationResult.path.length > 0) {
-      setAnimationPath(simulationResult.path);
-      setIsAnimating(true);
-    }
-  }, [simulationResult]);
-
   const handleDeviceClick = (deviceId: string) => {
     const device = devices.find(d => d.id === deviceId);
     if (device) {
@@ -166,6 +166,18 @@ function App() {
                   >
                     ➕ 添加设备
                   </button>
+                  <button
+                    onClick={() => setShowRouteGenerator(true)}
+                    className="bg-blue-600 text-white px-3 py-1 rounded-lg hover:bg-blue-700 transition-colors text-sm font-bold"
+                  >
+                    🧮 生成路由
+                  </button>
+                  <button
+                    onClick={() => setShowReachability(true)}
+                    className="bg-teal-600 text-white px-3 py-1 rounded-lg hover:bg-teal-700 transition-colors text-sm font-bold"
+                  >
+                    🩺 连通矩阵
+                  </button>
                   <button
                     onClick={() => setIsCanvasMaximized(true)}
                     className="px-3 py-1 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-100 transition-colors font-semibold"
@@ -180,9 +192,6 @@ function App() {
               <InteractiveCanvas
                 onDeviceClick={handleDeviceClick}
                 onDeviceDoubleClick={handleDeviceDoubleClick}
-                animationPath={isAnimating ? animationPath : []}
-                animationType={isAnimating ? simulationType : null}
-                onAnimationComplete={handleAnimationDone}
               />
               </div>
 
@@ -207,6 +216,16 @@ function App() {
                   </div>
                 </div>
               </div>
+
+              {/* 同时进行的通信流 */}
+              <div className="mt-4">
+                <TrafficFlowList />
+              </div>
+
+              {/* 抓包 */}
+              <div className="mt-4">
+                <CapturePanel />
+              </div>
             </div>
 
             {/* 设备配置区 */}
@@ -220,11 +239,46 @@ function App() {
                   <RoutingTableEditor device={selectedDevice} />
                 )}
 
+                {/* 动态路由 - 仅路由器 */}
+                {selectedDevice.type === 'router' && (
+                  <DynamicRoutingPanel device={selectedDevice} />
+                )}
+
+                {/* 访问控制列表 - 仅路由器 */}
+                {selectedDevice.type === 'router' && (
+                  <ACLEditor device={selectedDevice} />
+                )}
+
+                {/* 命令行控制台 - 仅路由器 */}
+                {selectedDevice.type === 'router' && (
+                  <RouterConsole device={selectedDevice} />
+                )}
+
                 {/* DNS管理器 - 仅DNS服务器 */}
                 {selectedDevice.type === 'dns' && (
                   <DNSManager device={selectedDevice} />
                 )}
 
+                {/* DHCP服务 - 路由器和服务器 */}
+                {(selectedDevice.type === 'router' || selectedDevice.type === 'server') && (
+                  <DHCPServerPanel device={selectedDevice} />
+                )}
+
+                {/* ARP缓存 - 三层设备（交换机没有IP） */}
+                {selectedDevice.type !== 'switch' && (
+                  <ARPTable device={selectedDevice} />
+                )}
+
+                {/* 命令提示符 - 终端设备（PC和各类服务器） */}
+                {selectedDevice.type !== 'switch' && selectedDevice.type !== 'router' && (
+                  <HostCommandPrompt device={selectedDevice} />
+                )}
+
+                {/* MAC地址表 - 仅交换机 */}
+                {selectedDevice.type === 'switch' && (
+                  <MACAddressTable device={selectedDevice} />
+                )}
+
                 {/* Web服务器管理器 - 仅Web服务器 */}
                 {selectedDevice.type === 'web' && (
                   <WebServerManager device={selectedDevice} />
@@ -288,8 +342,9 @@ function App() {
       </div>
           <div className="flex-1 min-h-0 bg-gray-100 p-6 flex flex-col gap-4 overflow-hidden">
             {/* 全局动画控制（最大化模式也可操作单步/速度） */}
-            <div className="flex-shrink-0">
+            <div className="flex-shrink-0 grid grid-cols-1 lg:grid-cols-2 gap-4">
               <GlobalAnimationControl />
+              <TrafficFlowList />
             </div>
 
             {/* InteractiveCanvas - 自动填充剩余空间 */}
@@ -297,9 +352,6 @@ function App() {
               <InteractiveCanvas
                 onDeviceClick={handleDeviceClick}
                 onDeviceDoubleClick={handleDeviceDoubleClick}
-                animationPath={isAnimating ? animationPath : []}
-                animationType={isAnimating ? simulationType : null}
-                onAnimationComplete={handleAnimationDone}
                 showDeviceDetails
               />
             </div>
@@ -312,6 +364,16 @@ function App() {
         <AddDevicePanel onClose={() => setShowAddDevice(false)} />
       )}
 
+      {/* 自动生成静态路由 */}
+      {showRouteGenerator && (
+        <RouteGeneratorModal onClose={() => setShowRouteGenerator(false)} />
+      )}
+
+      {/* 全网连通矩阵 */}
+      {showReachability && (
+        <ReachabilityMatrixModal onClose={() => setShowReachability(false)} />
+      )}
+
       {/* 连接管理器 */}
       {showConnectionManager && (
         <ConnectionManager onClose={() => setShowConnectionManager(false)} />
@@ -0,0 +1,246 @@
+import React, { useEffect, useState } from 'react';
+import { ACLProtocol, ACLRule, Device } from '../types';
+import { useNetworkStore } from '../store/useNetworkStore';
+import { ACL_DEFAULT_PORTS, formatACLRule, parseACLAddress, validateACLRule } from '../utils/aclUtils';
+
+interface ACLEditorProps {
+  device: Device;
+}
+
+const DIRECTION_LABELS: Record<ACLRule['direction'], string> = {
+  in: '入方向 (in)',
+  out: '出方向 (out)'
+};
+
+export const ACLEditor: React.FC<ACLEditorProps> = ({ device }) => {
+  const { devices, updateDevice } = useNetworkStore();
+  const interfaces = device.interfaces.filter((iface) => iface.ip);
+
+  const [interfaceName, setInterfaceName] = useState(interfaces[0]?.name || 'LAN');
+  const [direction, setDirection] = useState<ACLRule['direction']>('in');
+  const [action, setAction] = useState<ACLRule['action']>('deny');
+  const [protocol, setProtocol] = useState<ACLProtocol>('any');
+  const [source, setSource] = useState('any');
+  const [destination, setDestination] = useState('any');
+  const [port, setPort] = useState('');
+  const [error, setError] = useState('');
+
+  // 切换设备时重置表单
+  useEffect(() => {
+    setInterfaceName(device.interfaces.find((iface) => iface.ip)?.name || 'LAN');
+    setError('');
+  }, [device.id]);
+
+  // 实时从store获取最新的设备数据
+  const currentDevice = devices.find(d => d.id === device.id) || device;
+  const rules = currentDevice.aclRules || [];
+
+  // 按接口和方向分组显示，组内顺序就是匹配顺序
+  const groups = rules.reduce<Array<{ key: string; interfaceName: string; direction: ACLRule['direction']; rules: ACLRule[] }>>(
+    (result, rule) => {
+      const key = `${rule.interfaceName}-${rule.direction}`;
+      const group = result.find((g) => g.key === key);
+      if (group) {
+        group.rules.push(rule);
+      } else {
+        result.push({ key, interfaceName: rule.interfaceName, direction: rule.direction, rules: [rule] });
+      }
+      return result;
+    },
+    []
+  );
+
+  const handleProtocolChange = (value: ACLProtocol) => {
+    setProtocol(value);
+    const defaultPort = ACL_DEFAULT_PORTS[value];
+    setPort(defaultPort !== undefined ? String(defaultPort) : '');
+    setError('');
+  };
+
+  const handleAddRule = () => {
+    const src = parseACLAddress(source);
+    const dst = parseACLAddress(destination);
+    if (!src || !dst) {
+      setError(`${!src ? '源' : '目的'}网络格式错误，请填写 any、主机IP 或 网络/前缀（如 192.168.1.0/24）`);
+      return;
+    }
+
+    const rule: ACLRule = {
+      id: `acl-${Date.now()}`,
+      interfaceName,
+      direction,
+      action,
+      protocol,
+      source: src.address,
+      sourceMask: src.mask,
+      destination: dst.address,
+      destinationMask: dst.mask,
+      ...(port.trim() !== '' ? { port: Number(port) } : {})
+    };
+    const validation = validateACLRule(rule, currentDevice);
+    if (!validation.valid) {
+      setError(validation.error || '规则错误');
+      return;
+    }
+
+    updateDevice(currentDevice.id, { aclRules: [...rules, rule] });
+    setError('');
+  };
+
+  const handleDelete = (id: string) => {
+    updateDevice(currentDevice.id, { aclRules: rules.filter((rule) => rule.id !== id) });
+  };
+
+  // 在同一接口同一方向的规则之间上移/下移
+  const handleMove = (rule: ACLRule, offset: -1 | 1) => {
+    const siblings = rules
+      .map((r, index) => ({ r, index }))
+      .filter(({ r }) => r.interfaceName === rule.interfaceName && r.direction === rule.direction);
+    const position = siblings.findIndex(({ r }) => r.id === rule.id);
+    const target = siblings[position + offset];
+    if (!target) return;
+
+    const newRules = [...rules];
+    newRules[siblings[position].index] = target.r;
+    newRules[target.index] = rule;
+    updateDevice(currentDevice.id, { aclRules: newRules });
+  };
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow">
+      <h3 className="text-lg font-bold mb-3">🛡️ {currentDevice.name} 访问控制列表（ACL）</h3>
+
+      {groups.length === 0 ? (
+        <div className="p-3 bg-gray-50 rounded text-sm text-gray-500">
+          暂无规则，所有报文按路由表转发。
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {groups.map((group) => (
+            <div key={group.key} className="border rounded">
+              <div className="px-2 py-1 bg-gray-100 text-sm font-medium">
+                {group.interfaceName} {DIRECTION_LABELS[group.direction]}
+              </div>
+              <table className="w-full text-xs">
+                <tbody>
+                  {group.rules.map((rule, index) => (
+                    <tr key={rule.id} className={`border-b ${rule.action === 'deny' ? 'bg-red-50' : 'bg-green-50'}`}>
+                      <td className="px-2 py-1 w-8 font-bold">{index + 1}</td>
+                      <td className="px-2 py-1 font-mono">{formatACLRule(rule)}</td>
+                      <td className="px-2 py-1 text-right whitespace-nowrap">
+                        <button
+                          onClick={() => handleMove(rule, -1)}
+                          disabled={index === 0}
+                          className="px-1 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                          title="上移"
+                        >
+                          ↑
+                        </button>
+                        <button
+                          onClick={() => handleMove(rule, 1)}
+                          disabled={index === group.rules.length - 1}
+                          className="px-1 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                          title="下移"
+                        >
+                          ↓
+                        </button>
+                        <button
+                          onClick={() => handleDelete(rule.id)}
+                          className="px-1 text-red-600 hover:text-red-800"
+                          title="删除"
+                        >
+                          ✕
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="text-gray-400">
+                    <td className="px-2 py-1">—</td>
+                    <td className="px-2 py-1 font-mono" colSpan={2}>deny IP any → any（隐含，拒绝其余所有报文）</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-4 p-3 bg-gray-50 rounded text-sm space-y-2">
+        <div className="font-medium">➕ 添加规则：</div>
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            value={interfaceName}
+            onChange={(e) => setInterfaceName(e.target.value)}
+            className="px-2 py-1 border rounded bg-white"
+          >
+            {interfaces.map((iface) => (
+              <option key={iface.name} value={iface.name}>
+                {iface.name} ({iface.ip})
+              </option>
+            ))}
+          </select>
+          <select
+            value={direction}
+            onChange={(e) => setDirection(e.target.value as ACLRule['direction'])}
+            className="px-2 py-1 border rounded bg-white"
+          >
+            <option value="in">{DIRECTION_LABELS.in}</option>
+            <option value="out">{DIRECTION_LABELS.out}</option>
+          </select>
+          <select
+            value={action}
+            onChange={(e) => setAction(e.target.value as ACLRule['action'])}
+            className="px-2 py-1 border rounded bg-white"
+          >
+            <option value="deny">拒绝 (deny)</option>
+            <option value="permit">允许 (permit)</option>
+          </select>
+          <select
+            value={protocol}
+            onChange={(e) => handleProtocolChange(e.target.value as ACLProtocol)}
+            className="px-2 py-1 border rounded bg-white"
+          >
+            <option value="any">所有协议</option>
+            <option value="ICMP">ICMP (Ping)</option>
+            <option value="DNS">DNS</option>
+            <option value="HTTP">HTTP</option>
+          </select>
+          <input
+            type="text"
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            placeholder="源网络，如 192.168.1.0/24"
+            className="px-2 py-1 border rounded font-mono"
+          />
+          <input
+            type="text"
+            value={destination}
+            onChange={(e) => setDestination(e.target.value)}
+            placeholder="目的网络，如 any"
+            className="px-2 py-1 border rounded font-mono"
+          />
+          <input
+            type="number"
+            value={port}
+            onChange={(e) => setPort(e.target.value)}
+            disabled={protocol !== 'DNS' && protocol !== 'HTTP'}
+            placeholder="目的端口（可不填）"
+            className="px-2 py-1 border rounded font-mono disabled:bg-gray-100"
+          />
+          <button
+            onClick={handleAddRule}
+            className="py-1 bg-blue-500 text-white rounded hover:bg-blue-600 font-bold"
+          >
+            添加
+          </button>
+        </div>
+        {error && <p className="text-xs text-red-600">❌ {error}</p>}
+      </div>
+
+      <div className="mt-3 p-2 bg-blue-50 rounded text-xs text-blue-700">
+        💡 报文进入（in）或离开（out）接口时，从第1条规则开始逐条比较，第一条匹配的规则决定允许还是拒绝，后面的规则不再检查。
+        接口一旦配置了规则，末尾就有一条看不见的“拒绝所有”，没写 permit 的流量都会被丢弃。
+      </div>
+    </div>
+  );
+};
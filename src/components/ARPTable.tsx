@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react';
+import { Device } from '../types';
+import { useNetworkStore } from '../store/useNetworkStore';
+import { formatARPTable, isARPEntryExpired } from '../utils/arpUtils';
+
+interface ARPTableProps {
+  device: Device;
+}
+
+export const ARPTable: React.FC<ARPTableProps> = ({ device }) => {
+  const { devices, clearARPCache } = useNetworkStore();
+  const [now, setNow] = useState(Date.now());
+
+  // 每秒刷新一次，显示剩余时间并让过期条目自动消失
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // 实时从store获取最新的设备数据（通信时ARP缓存会更新）
+  const currentDevice = devices.find(d => d.id === device.id) || device;
+  const activeCount = (currentDevice.arpTable || []).filter(entry => !isARPEntryExpired(entry, now)).length;
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-bold">📇 {currentDevice.name} ARP缓存</h3>
+        <div className="flex gap-2">
+          <button
+            onClick={() => clearARPCache(currentDevice.id)}
+            disabled={activeCount === 0}
+            className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            🗑️ 清空本机
+          </button>
+          <button
+            onClick={() => clearARPCache()}
+            className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+          >
+            🧹 清空所有设备
+          </button>
+        </div>
+      </div>
+
+      <div className="text-xs text-gray-500 mb-1 font-mono">C:\&gt; arp -a</div>
+      <pre className="p-3 bg-gray-900 text-green-300 rounded text-xs font-mono overflow-x-auto whitespace-pre">
+        {formatARPTable(currentDevice, now)}
+      </pre>
+
+      <div className="mt-3 p-2 bg-blue-50 rounded text-xs text-blue-700">
+        💡 发送数据前要知道下一跳的MAC地址：缓存里没有时先广播ARP请求“谁是这个IP？”，对方单播应答后才发送IP报文。
+        条目超过老化时间会被删除，清空缓存后再 Ping 可以重新看到ARP过程。
+      </div>
+    </div>
+  );
+};
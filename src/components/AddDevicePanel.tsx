@@ -2,7 +2,8 @@ import React, { useState } from 'react';
 import { Device, DeviceType } from '../types';
 import { useNetworkStore } from '../store/useNetworkStore';
 import { validateIPAddress, validateIPInput } from '../utils/ipValidator';
-import { calculateSubnet, isValidSubnetMask } from '../utils/subnetUtils';
+import { DEFAULT_SUBNET_MASK, calculateSubnet, isValidSubnetMask } from '../utils/subnetUtils';
+import { createSwitchPorts, SWITCH_PORT_COUNT } from '../utils/switchUtils';
 
 interface AddDevicePanelProps {
   onClose: () => void;
@@ -15,12 +16,14 @@ export const AddDevicePanel: React.FC<AddDevicePanelProps> = ({ onClose }) => {
   const [deviceIP, setDeviceIP] = useState('192.168.1.1');
   const [ipError, setIpError] = useState<string>('');
   const [ipWarning, setIpWarning] = useState<string>('');
+  const [gateway, setGateway] = useState('');
   const [webPort, setWebPort] = useState('80');
   const [portError, setPortError] = useState<string>('');
+  const [useDHCP, setUseDHCP] = useState(false);
 
   // 路由器专属字段
   const [lanIP, setLanIP] = useState('192.168.1.1');
-  const [subnetMask, setSubnetMask] = useState('255.255.255.0');
+  const [subnetMask, setSubnetMask] = useState(DEFAULT_SUBNET_MASK);
   const [maskError, setMaskError] = useState<string>('');
 
   const handleIPChange = (value: string) => {
@@ -42,6 +45,7 @@ export const AddDevicePanel: React.FC<AddDevicePanelProps> = ({ onClose }) => {
     const defaultNames: Record<DeviceType, string> = {
       pc: `PC${devices.filter(d => d.type === 'pc').length + 1}`,
       router: `R${devices.filter(d => d.type === 'router').length + 1}`,
+      switch: `SW${devices.filter(d => d.type === 'switch').length + 1}`,
       server: `Server${devices.filter(d => d.type === 'server').length + 1}`,
       dns: `DNS${devices.filter(d => d.type === 'dns').length + 1}`,
       web: `Web${devices.filter(d => d.type === 'web').length + 1}`,
@@ -50,7 +54,7 @@ export const AddDevicePanel: React.FC<AddDevicePanelProps> = ({ onClose }) => {
     // 路由器：创建时生成LAN接口
     if (deviceType === 'router') {
       // 验证LAN IP
-      const ipValidation = validateIPAddress(lanIP);
+      const ipValidation = validateIPAddress(lanIP, isValidSubnetMask(subnetMask) ? subnetMask : undefined);
       if (!ipValidation.valid) {
         setIpError(ipValidation.error || '');
         alert(`❌ LAN IP地址错误\n\n${ipValidation.error}`);
@@ -90,6 +94,42 @@ export const AddDevicePanel: React.FC<AddDevicePanelProps> = ({ onClose }) => {
       return;
     }
 
+    // 交换机：二层设备，没有IP，创建时生成固定端口
+    if (deviceType === 'switch') {
+      const newSwitch: Device = {
+        id,
+        name: deviceName || defaultNames[deviceType],
+        type: 'switch',
+        ip: '',
+        interfaces: createSwitchPorts(id),
+        position: { x: 400, y: 300 },
+        macTable: [],
+      };
+
+      addDevice(newSwitch);
+      onClose();
+      return;
+    }
+
+    // PC自动获取地址：先不配置IP，连线后在设备编辑中点击“获取地址”
+    if (deviceType === 'pc' && useDHCP) {
+      const newPC: Device = {
+        id,
+        name: deviceName || defaultNames[deviceType],
+        type: 'pc',
+        ip: '',
+        ipMode: 'dhcp',
+        interfaces: [
+          { id: `${id}-eth0`, name: 'eth0', ip: '' }
+        ],
+        position: { x: 400, y: 300 },
+      };
+
+      addDevice(newPC);
+      onClose();
+      return;
+    }
+
     // 其他设备（PC/DNS/Web）
     const ipValidation = validateIPAddress(deviceIP);
     if (!ipValidation.valid) {
@@ -131,6 +171,7 @@ export const AddDevicePanel: React.FC<AddDevicePanelProps> = ({ onClose }) => {
       webContent: deviceType === 'web' ? '' : undefined,
       domain: deviceType === 'web' ? '' : undefined,
       port: deviceType === 'web' ? resolvedPort : undefined,
+      gateway: gateway.trim() || undefined,
     };
 
     addDevice(newDevice);
@@ -179,6 +220,17 @@ export const AddDevicePanel: React.FC<AddDevicePanelProps> = ({ onClose }) => {
                 <div className="text-2xl mb-1">🔀</div>
                 <div className="font-bold text-sm">路由器</div>
               </button>
+              <button
+                onClick={() => setDeviceType('switch')}
+                className={`py-3 px-3 rounded-lg border-2 transition-all ${
+                  deviceType === 'switch'
+                    ? 'border-slate-500 bg-slate-50 text-slate-700'
+                    : 'border-gray-300 bg-white text-gray-600 hover:border-gray-400'
+                }`}
+              >
+                <div className="text-2xl mb-1">🔌</div>
+                <div className="font-bold text-sm">交换机</div>
+              </button>
               <button
                 onClick={() => setDeviceType('dns')}
                 className={`py-3 px-3 rounded-lg border-2 transition-all ${
@@ -201,6 +253,17 @@ export const AddDevicePanel: React.FC<AddDevicePanelProps> = ({ onClose }) => {
                 <div className="text-2xl mb-1">🌐</div>
                 <div className="font-bold text-sm">Web服务器</div>
               </button>
+              <button
+                onClick={() => setDeviceType('server')}
+                className={`py-3 px-3 rounded-lg border-2 transition-all ${
+                  deviceType === 'server'
+                    ? 'border-indigo-500 bg-indigo-50 text-indigo-700'
+                    : 'border-gray-300 bg-white text-gray-600 hover:border-gray-400'
+                }`}
+              >
+                <div className="text-2xl mb-1">🖥️</div>
+                <div className="font-bold text-sm">服务器</div>
+              </button>
             </div>
           </div>
 
@@ -213,13 +276,41 @@ export const AddDevicePanel: React.FC<AddDevicePanelProps> = ({ onClose }) => {
               type="text"
               value={deviceName}
               onChange={(e) => setDeviceName(e.target.value)}
-              placeholder={`例如: ${deviceType === 'pc' ? 'PC1' : deviceType === 'router' ? 'R1' : deviceType === 'dns' ? 'DNS1' : 'Web1'}`}
+              placeholder={`例如: ${deviceType === 'pc' ? 'PC1' : deviceType === 'router' ? 'R1' : deviceType === 'switch' ? 'SW1' : deviceType === 'dns' ? 'DNS1' : deviceType === 'server' ? 'Server1' : 'Web1'}`}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
           </div>
 
+          {/* 交换机说明 */}
+          {deviceType === 'switch' && (
+            <div className="p-3 bg-slate-50 rounded-lg border border-slate-200">
+              <p className="text-sm text-slate-700">
+                交换机工作在二层，不需要配置IP地址。共有 {SWITCH_PORT_COUNT} 个端口（Fa0/1 ~ Fa0/{SWITCH_PORT_COUNT}），
+                连线时自动占用空闲端口。
+              </p>
+              <p className="text-xs text-slate-500 mt-1">
+                接在同一交换机上的设备属于同一网段，网关仍需填写路由器接口IP。
+              </p>
+            </div>
+          )}
+
+          {/* PC：IP获取方式 */}
+          {deviceType === 'pc' && (
+            <label className="flex items-center gap-2 p-3 bg-purple-50 rounded-lg border border-purple-200 text-sm text-purple-800 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={useDHCP}
+                onChange={(e) => setUseDHCP(e.target.checked)}
+              />
+              <span>
+                <strong>自动获取IP地址（DHCP）</strong>
+                <span className="block text-xs text-purple-600">连接到提供DHCP服务的路由器/服务器后，在设备编辑中点击“获取地址”</span>
+              </span>
+            </label>
+          )}
+
           {/* 路由器专属配置 */}
-          {deviceType === 'router' ? (
+          {deviceType === 'switch' || (deviceType === 'pc' && useDHCP) ? null : deviceType === 'router' ? (
             <>
               {/* LAN IP地址 */}
               <div>
@@ -322,6 +413,24 @@ export const AddDevicePanel: React.FC<AddDevicePanelProps> = ({ onClose }) => {
             </div>
           )}
 
+          {deviceType !== 'router' && deviceType !== 'switch' && !(deviceType === 'pc' && useDHCP) && (
+            <div>
+              <label className="block text-sm font-bold text-gray-700 mb-2">
+                默认网关
+              </label>
+              <input
+                type="text"
+                value={gateway}
+                onChange={(e) => setGateway(e.target.value)}
+                placeholder={`${deviceIP.split('.').slice(0, 3).join('.')}.1`}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                填写所连路由器LAN接口的IP；不填写则无法访问其他网段（可稍后双击设备修改）
+              </p>
+            </div>
+          )}
+
           {deviceType === 'web' && (
             <div className="mt-4">
               <label className="block text-sm font-bold text-gray-700 mb-2">
@@ -353,6 +462,8 @@ export const AddDevicePanel: React.FC<AddDevicePanelProps> = ({ onClose }) => {
             <p className="text-sm text-yellow-700">
               💡 <strong>提示：</strong>添加设备后，需要手动连接到其他设备
               {deviceType === 'router' && '，并配置路由表'}
+              {deviceType === 'switch' && '，MAC地址表会在通信时自动学习'}
+              {deviceType === 'server' && '，可在下方开启DHCP服务'}
               {deviceType === 'dns' && '，并添加DNS记录'}
               {deviceType === 'web' && '，并配置网页内容与端口'}。
             </p>
@@ -1,20 +1,29 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useNetworkStore } from '../store/useNetworkStore';
 import { HTTPHandler } from '../utils/httpHandler';
-import { DNSQueryResult, HTTPResponse } from '../types';
+import { stripIPv6Brackets } from '../utils/ipv6Utils';
+import { DNSQueryResult, HTTPResponse, SimulationResult } from '../types';
+import { PacketInspector } from './PacketInspector';
+
+// 输入框中的主机部分（IPv6地址写成 [2001:db8::10]，取出时去掉方括号）
+const getInputHost = (input: string): string => {
+  const host = input.replace(/^https?:\/\//, '').split('/')[0];
+  const bracketed = host.match(/^\[([^\]]+)\]/);
+  if (bracketed) return bracketed[1];
+  // 不带方括号的IPv6地址含多个冒号，不能按冒号截掉端口
+  return host.split(':').length > 2 ? host : host.split(':')[0];
+};
 
 export const BrowserSimulator: React.FC = () => {
   const {
     devices,
     simulateDNSQuery,
     simulateHTTPRequest,
-    clearSimulation,
-    stopSimulation,
     setHTMLPreviewContent,
     browserState,
     setBrowserState,
     gradingTools,
-    simulationType
+    flows
   } = useNetworkStore();
 
   // 使用store中的状态
@@ -30,6 +39,11 @@ export const BrowserSimulator: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [showSteps, setShowSteps] = useState(true);
   const [animationPhase, setAnimationPhase] = useState<'idle' | 'dns' | 'http'>('idle');
+  // 最近一次HTTP请求的模拟结果（用于显示报文头）
+  const [httpSimulation, setHttpSimulation] = useState<SimulationResult | null>(null);
+  // 上一次访问还没结束时可以再次访问（如换一台PC同时浏览）：之前那次的报文照常走完，但只有最近一次访问更新界面
+  const visitIdRef = useRef(0);
+  const [currentFlowId, setCurrentFlowId] = useState<string | null>(null);
 
   const pcDevices = devices.filter((d) => d.type === 'pc');
   const dnsServers = devices.filter((d) => d.type === 'dns');
@@ -56,29 +70,32 @@ export const BrowserSimulator: React.FC = () => {
     }
   }, [devices, sourceIP]);
 
-  // 监听simulationType，当Ping测试开始时清空浏览器的结果（实现工具互不干扰）
+  // 通信流被“全部停止”取消时不会再有完成回调，结束本次访问
+  const currentFlowStopped = flows.some((flow) => flow.id === currentFlowId && flow.status === 'stopped');
   useEffect(() => {
-    if (simulationType === 'ping') {
-      // Ping测试开始了，清空浏览器的本地状态
-      setDnsResult(null);
-      setHttpResponse(null);
+    if (currentFlowStopped) {
       setIsLoading(false);
       setAnimationPhase('idle');
     }
-  }, [simulationType]);
+  }, [currentFlowStopped]);
 
   const handleVisit = () => {
+    const visitId = ++visitIdRef.current;
+    // 只在这仍是最近一次访问时更新界面
+    const ifCurrentVisit = (update: () => void) => {
+      if (visitId === visitIdRef.current) update();
+    };
     setIsLoading(true);
     setDnsResult(null);
     setHttpResponse(null);
-    clearSimulation(); // 清除之前的动画（包括Ping测试的结果）
+    setHttpSimulation(null);
 
     // 解析URL提取域名或IP（不处理端口，端口由单独的输入框控制）
-    let parsedInput = url;
+    let parsedInput = stripIPv6Brackets(url);
     try {
       if (url.startsWith('http://') || url.startsWith('https://')) {
         const urlObj = new URL(url);
-        parsedInput = urlObj.hostname;
+        parsedInput = HTTPHandler.getURLHost(urlObj);
       }
     } catch (error) {
       setHttpResponse({
@@ -149,18 +166,18 @@ export const BrowserSimulator: React.FC = () => {
       setAnimationPhase('http');
       console.log('🚀 开始 HTTP 请求动画（IP直接访问）');
 
-      simulateHTTPRequest(
+      const flowId = simulateHTTPRequest(
         sourceIP,
         parsedInput, // 目标IP
         httpResponse.success,
         httpResponse.statusCode,
-        () => {
+        (httpSimulationResult) => ifCurrentVisit(() => {
           // HTTP 动画完成的回调
           console.log('✅ HTTP 动画完成，显示最终结果');
+          setHttpSimulation(httpSimulationResult);
           setHttpResponse(httpResponse);
           setIsLoading(false);
           setAnimationPhase('idle');
-          stopSimulation();
 
           // 如果HTTP请求成功且有内容，弹出渲染窗口
           if (httpResponse.success && httpResponse.content) {
@@ -171,9 +188,11 @@ export const BrowserSimulator: React.FC = () => {
               port: port
             });
           }
-        },
-        httpResponse.message
+        }),
+        httpResponse.message,
+        port
       );
+      setCurrentFlowId(flowId);
       return;
     }
 
@@ -205,49 +224,49 @@ export const BrowserSimulator: React.FC = () => {
     setAnimationPhase('dns');
     console.log('🚀 开始 DNS 查询动画（域名访问）');
 
-    simulateDNSQuery(sourceIP, dnsServerIP, parsedInput, () => {
+    const dnsFlowId = simulateDNSQuery(sourceIP, dnsServerIP, parsedInput, (dnsSimulationResult) => {
       // DNS 动画完成的回调
       console.log('✅ DNS 动画完成，显示DNS结果');
-      const latestSimulationResult = useNetworkStore.getState().simulationResult;
-      const routingFailed = latestSimulationResult ? !latestSimulationResult.success : false;
-
-      if (routingFailed) {
-        const failureMessage =
-          latestSimulationResult?.message ||
-          `❌ DNS查询失败：无法到达DNS服务器 ${dnsServerIP}`;
-        const failureSteps =
-          latestSimulationResult?.steps && latestSimulationResult.steps.length > 0
-            ? latestSimulationResult.steps.map((step) => ({
-                action: step.router || '路由检查',
-                details: step.action,
-              }))
-            : [
-                {
-                  action: '路由检查',
-                  details: failureMessage,
-                },
-              ];
-
-        setDnsResult({
-          success: false,
-          domain: parsedInput,
-          message: failureMessage,
-          steps: failureSteps,
-        });
+      if (!dnsSimulationResult.success) {
+        ifCurrentVisit(() => {
+          const failureMessage =
+            dnsSimulationResult.message ||
+            `❌ DNS查询失败：无法到达DNS服务器 ${dnsServerIP}`;
+          const failureSteps =
+            dnsSimulationResult.steps && dnsSimulationResult.steps.length > 0
+              ? dnsSimulationResult.steps.map((step) => ({
+                  action: step.router || '路由检查',
+                  details: step.action,
+                }))
+              : [
+                  {
+                    action: '路由检查',
+                    details: failureMessage,
+                  },
+                ];
+
+          setDnsResult({
+            success: false,
+            domain: parsedInput,
+            message: failureMessage,
+            steps: failureSteps,
+          });
+
+          setHttpResponse({
+            success: false,
+            statusCode: 0,
+            message: dnsSimulationResult.requestSuccess
+              ? `${failureMessage}\n\nHTTP 请求已终止：DNS 服务器的响应未能返回本机。`
+              : `${failureMessage}\n\nHTTP 请求已终止：DNS 查询未成功抵达 DNS 服务器。`,
+          });
 
-        setHttpResponse({
-          success: false,
-          statusCode: 0,
-          message: `${failureMessage}\n\nHTTP 请求已终止：DNS 查询未成功抵达 DNS 服务器。`,
+          setIsLoading(false);
+          setAnimationPhase('idle');
         });
-
-        setIsLoading(false);
-        setAnimationPhase('idle');
-        stopSimulation();
         return;
       }
 
-      setDnsResult(httpResult.dnsResult || null);
+      ifCurrentVisit(() => setDnsResult(httpResult.dnsResult || null));
 
       // 第二阶段：HTTP请求动画（如果DNS解析成功）
       const dnsQueryOutcome = httpResult.dnsResult;
@@ -260,41 +279,40 @@ export const BrowserSimulator: React.FC = () => {
           mode === 'step' ? 200 :
           150;
         setTimeout(() => {
-          setAnimationPhase('http');
+          ifCurrentVisit(() => setAnimationPhase('http'));
           console.log('🚀 开始 HTTP 请求动画');
 
-          simulateHTTPRequest(
+          const httpFlowId = simulateHTTPRequest(
             sourceIP,
             resolvedIP,
             httpResult.response.success,
             httpResult.response.statusCode,
-            () => {
+            (httpSimulationResult) => ifCurrentVisit(() => {
               // HTTP 动画完成的回调
               console.log('✅ HTTP 动画完成，显示最终结果');
-              const latestHTTPSimulation = useNetworkStore.getState().simulationResult;
-              const httpRoutingFailed = latestHTTPSimulation ? !latestHTTPSimulation.success : false;
+              setHttpSimulation(httpSimulationResult);
 
-              if (httpRoutingFailed) {
+              if (!httpSimulationResult.success) {
                 const httpFailureMessage =
-                  latestHTTPSimulation?.message ||
+                  httpSimulationResult.message ||
                   `❌ HTTP请求失败：无法到达Web服务器 ${resolvedIP}`;
 
                 setHttpResponse({
                   success: false,
                   statusCode: 0,
-                  message: `${httpFailureMessage}\n\nHTTP 请求已终止：请检查路由表或物理连接。`,
+                  message: httpSimulationResult.requestSuccess
+                    ? `${httpFailureMessage}\n\nWeb服务器已收到请求，但响应未能返回本机：请检查回程路由。`
+                    : `${httpFailureMessage}\n\nHTTP 请求已终止：请检查路由表或物理连接。`,
                 });
 
                 setIsLoading(false);
                 setAnimationPhase('idle');
-                stopSimulation();
                 return;
               }
 
               setHttpResponse(httpResult.response);
               setIsLoading(false);
               setAnimationPhase('idle');
-              stopSimulation(); // 停止模拟状态
 
               // 如果HTTP请求成功且有内容，弹出渲染窗口
               if (httpResult.response.success && httpResult.response.content) {
@@ -305,18 +323,22 @@ export const BrowserSimulator: React.FC = () => {
                   port: port
                 });
               }
-            },
-            httpResult.response.message
+            }),
+            httpResult.response.message,
+            port
           );
+          ifCurrentVisit(() => setCurrentFlowId(httpFlowId));
         }, transitionDelay); // 加快过渡速度
       } else {
         // DNS解析失败，直接显示结果
-        setHttpResponse(httpResult.response);
-        setIsLoading(false);
-        setAnimationPhase('idle');
-        stopSimulation(); // 停止模拟状态
+        ifCurrentVisit(() => {
+          setHttpResponse(httpResult.response);
+          setIsLoading(false);
+          setAnimationPhase('idle');
+        });
       }
     });
+    setCurrentFlowId(dnsFlowId);
   };
 
   const renderDNSSteps = () => {
@@ -406,7 +428,6 @@ export const BrowserSimulator: React.FC = () => {
             value={sourceIP}
             onChange={(e) => handlePCChange(e.target.value)}
             className="w-full px-3 py-2 border border-gray-300 rounded-md"
-            disabled={isLoading}
           >
             <option value="">选择PC</option>
             {pcDevices.map((pc) => (
@@ -449,7 +470,6 @@ export const BrowserSimulator: React.FC = () => {
                   value="domain"
                   checked={urlType === 'domain'}
                   onChange={(e) => setBrowserState({ ...browserState, urlType: e.target.value as 'domain' | 'ip' })}
-                  disabled={isLoading}
                   className="cursor-pointer"
                 />
                 <span className="text-sm text-gray-700">域名</span>
@@ -460,7 +480,6 @@ export const BrowserSimulator: React.FC = () => {
                   value="ip"
                   checked={urlType === 'ip'}
                   onChange={(e) => setBrowserState({ ...browserState, urlType: e.target.value as 'domain' | 'ip' })}
-                  disabled={isLoading}
                   className="cursor-pointer"
                 />
                 <span className="text-sm text-gray-700">IP地址</span>
@@ -471,12 +490,11 @@ export const BrowserSimulator: React.FC = () => {
             type="text"
             value={url}
             onChange={(e) => setBrowserState({ ...browserState, url: e.target.value })}
-            placeholder={urlType === 'domain' ? 'www.example.com' : '10.2.0.10'}
+            placeholder={urlType === 'domain' ? 'www.example.com' : '10.2.0.10 或 [2001:db8:2::10]'}
             className="w-full px-3 py-2 border border-gray-300 rounded-md"
-            disabled={isLoading}
           />
           <p className="text-xs text-gray-500 mt-1">
-            💡 {urlType === 'domain' ? '域名访问需要DNS服务器' : 'IP访问将跳过DNS解析'}，端口由下方单独设置
+            💡 {urlType === 'domain' ? '域名访问需要DNS服务器，双栈主机查到AAAA记录时优先走IPv6' : 'IP访问将跳过DNS解析，IPv6地址在URL中要加方括号'}，端口由下方单独设置
           </p>
         </div>
 
@@ -492,7 +510,6 @@ export const BrowserSimulator: React.FC = () => {
             min="1"
             max="65535"
             className="w-full px-3 py-2 border border-gray-300 rounded-md"
-            disabled={isLoading}
           />
           <p className="text-xs text-gray-500 mt-1">
             💡 默认: 80 (HTTP), 443 (HTTPS)。需要与Web服务器监听端口一致
@@ -505,13 +522,12 @@ export const BrowserSimulator: React.FC = () => {
             disabled={
               !sourceIP ||
               !url ||
-              isLoading ||
               // 只有域名访问才需要DNS，IP直接访问不需要
-              (!HTTPHandler.checkIsIPAddress(url.replace(/^https?:\/\//, '').split(/[:/]/)[0]) && !dnsServerIP)
+              (!HTTPHandler.checkIsIPAddress(getInputHost(url)) && !dnsServerIP)
             }
             className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
           >
-            {isLoading ? '访问中...' : '🌐 访问'}
+            {isLoading ? '🌐 再次访问' : '🌐 访问'}
           </button>
 
           <label className="flex items-center text-sm">
@@ -537,6 +553,9 @@ export const BrowserSimulator: React.FC = () => {
         <div className="space-y-4">
           {renderDNSSteps()}
           {renderHTTPResponse()}
+          {showSteps && !isLoading && httpSimulation && (httpSimulation.packetHeaders || httpSimulation.vlanTags) && (
+            <PacketInspector headers={httpSimulation.packetHeaders || []} vlanTags={httpSimulation.vlanTags} />
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,247 @@
+import React, { useMemo, useState } from 'react';
+import { CaptureTarget } from '../types';
+import { useNetworkStore } from '../store/useNetworkStore';
+import { getLinkInterface } from '../utils/linkUtils';
+import {
+  MAX_CAPTURED_PACKETS,
+  buildPcapFile,
+  compileCaptureFilter,
+  describeCapturedPacketLayers,
+  getPacketProtocol,
+  summarizeCapturedPacket
+} from '../utils/captureUtils';
+
+/**
+ * 抓包面板（仿 Wireshark）
+ *
+ * 功能：
+ * - 在全部链路、某条链路或某个接口上记录模拟中经过的每一帧
+ * - 列表显示时间、源、目的、协议和摘要，点击一行查看逐层的头部字段
+ * - 显示过滤器支持 ip.addr==、dns、http、tcp.port== 等表达式，可用 && || ! 组合
+ * - 导出为 pcap 文件，可以直接用 Wireshark 打开
+ */
+
+// 协议对应的行颜色（接近 Wireshark 默认的着色规则）
+const PROTOCOL_ROW_STYLES: Record<string, string> = {
+  ARP: 'bg-yellow-50',
+  ICMP: 'bg-pink-50',
+  ICMPv6: 'bg-pink-50',
+  DNS: 'bg-sky-50',
+  HTTP: 'bg-green-50',
+  TCP: 'bg-purple-50',
+  DHCP: 'bg-blue-50'
+};
+
+// 下拉框的取值与抓包位置互相转换
+const encodeTarget = (target: CaptureTarget) =>
+  target.kind === 'all' ? 'all' : target.kind === 'link' ? `link:${target.connectionId}` : `iface:${target.deviceId}:${target.interfaceId}`;
+
+const decodeTarget = (value: string): CaptureTarget => {
+  const [kind, first, second] = value.split(':');
+  if (kind === 'link') return { kind: 'link', connectionId: first };
+  if (kind === 'iface') return { kind: 'interface', deviceId: first, interfaceId: second };
+  return { kind: 'all' };
+};
+
+export const CapturePanel: React.FC = () => {
+  const { devices, connections, capture, startCapture, stopCapture, clearCapture } = useNetworkStore();
+  const [target, setTarget] = useState<CaptureTarget>(capture.target);
+  const [filterText, setFilterText] = useState('');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const findDevice = (id: string) => devices.find((d) => d.id === id);
+
+  // 每条连线两端所接的接口都可以作为抓包位置
+  const interfaceOptions = useMemo(() => {
+    const options = new Map<string, string>();
+    connections.forEach((connection) => {
+      const ends = [findDevice(connection.source), findDevice(connection.target)];
+      ends.forEach((device, index) => {
+        const peer = ends[1 - index];
+        if (!device || !peer) return;
+        const iface = getLinkInterface(device, peer, connection);
+        if (iface) options.set(`iface:${device.id}:${iface.id}`, `${device.name} ${iface.name}`);
+      });
+    });
+    return [...options].sort((a, b) => a[1].localeCompare(b[1]));
+  }, [devices, connections]);
+
+  const compiled = useMemo(() => compileCaptureFilter(filterText), [filterText]);
+  const filterError = 'error' in compiled ? compiled.error : null;
+  const displayed = useMemo(
+    () => ('match' in compiled ? capture.packets.filter(compiled.match) : capture.packets),
+    [capture.packets, compiled]
+  );
+  const selected = displayed.find((packet) => packet.id === selectedId) || null;
+
+  const handleStart = () => {
+    setSelectedId(null);
+    startCapture(target);
+  };
+
+  const handleClear = () => {
+    setSelectedId(null);
+    clearCapture();
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([buildPcapFile(displayed, capture.startedWallClock)], { type: 'application/vnd.tcpdump.pcap' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `capture_${new Date(capture.startedWallClock || Date.now()).toISOString().replace(/[:.]/g, '-')}.pcap`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-bold">
+          🦈 抓包
+          {capture.running && <span className="ml-2 text-xs font-normal text-red-600">● 正在抓包</span>}
+        </h3>
+        <div className="flex gap-2">
+          {capture.running ? (
+            <button
+              onClick={stopCapture}
+              className="px-3 py-1 bg-red-500 text-white rounded text-xs hover:bg-red-600"
+            >
+              ⏹ 停止
+            </button>
+          ) : (
+            <button
+              onClick={handleStart}
+              className="px-3 py-1 bg-green-500 text-white rounded text-xs hover:bg-green-600"
+            >
+              ▶ 开始抓包
+            </button>
+          )}
+          <button
+            onClick={handleClear}
+            disabled={capture.packets.length === 0}
+            className="px-3 py-1 bg-gray-200 text-gray-700 rounded text-xs hover:bg-gray-300 disabled:text-gray-400"
+          >
+            清空
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={displayed.length === 0}
+            className="px-3 py-1 bg-blue-500 text-white rounded text-xs hover:bg-blue-600 disabled:bg-gray-300"
+          >
+            💾 导出 pcap
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-2 text-sm">
+        <label className="text-gray-600">抓包位置</label>
+        <select
+          value={encodeTarget(target)}
+          onChange={(e) => setTarget(decodeTarget(e.target.value))}
+          disabled={capture.running}
+          className="px-2 py-1 border rounded text-sm disabled:bg-gray-100"
+        >
+          <option value="all">全部链路</option>
+          <optgroup label="链路">
+            {connections.map((connection) => (
+              <option key={connection.id} value={`link:${connection.id}`}>
+                {findDevice(connection.source)?.name || '?'} ⇄ {findDevice(connection.target)?.name || '?'}
+              </option>
+            ))}
+          </optgroup>
+          <optgroup label="接口">
+            {interfaceOptions.map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </optgroup>
+        </select>
+        <span className="text-xs text-gray-500">
+          共 {capture.packets.length} 帧{filterText.trim() && !filterError ? `，显示 ${displayed.length} 帧` : ''}
+          {capture.packets.length >= MAX_CAPTURED_PACKETS && `（已达上限 ${MAX_CAPTURED_PACKETS}，只保留最新的帧）`}
+        </span>
+      </div>
+
+      <input
+        value={filterText}
+        onChange={(e) => setFilterText(e.target.value)}
+        placeholder="显示过滤器，如 ip.addr==192.168.1.10 && dns、http、tcp.port==80、!arp"
+        spellCheck={false}
+        className={`w-full px-2 py-1 border rounded font-mono text-sm ${
+          filterError ? 'border-red-400 bg-red-50' : filterText.trim() ? 'border-green-400 bg-green-50' : ''
+        }`}
+      />
+      {filterError && <p className="mt-1 text-xs text-red-600">❌ {filterError}</p>}
+
+      <div className="mt-2 h-64 overflow-y-auto border rounded">
+        <table className="w-full text-xs font-mono">
+          <thead className="sticky top-0 bg-gray-100 text-left">
+            <tr>
+              <th className="px-2 py-1 w-12">No.</th>
+              <th className="px-2 py-1 w-24">Time</th>
+              <th className="px-2 py-1">Source</th>
+              <th className="px-2 py-1">Destination</th>
+              <th className="px-2 py-1 w-16">Protocol</th>
+              <th className="px-2 py-1 w-14">Length</th>
+              <th className="px-2 py-1">Info</th>
+            </tr>
+          </thead>
+          <tbody>
+            {displayed.map((packet) => {
+              const row = summarizeCapturedPacket(packet);
+              const isSelected = packet.id === selectedId;
+              return (
+                <tr
+                  key={packet.id}
+                  onClick={() => setSelectedId(packet.id)}
+                  className={`cursor-pointer ${
+                    isSelected ? 'bg-blue-600 text-white' : packet.icmp?.type === 'unreachable' || packet.icmp?.type === 'time-exceeded'
+                      ? 'bg-gray-800 text-red-300'
+                      : PROTOCOL_ROW_STYLES[getPacketProtocol(packet)] || ''
+                  }`}
+                >
+                  <td className="px-2 py-0.5">{packet.id}</td>
+                  <td className="px-2 py-0.5">{(packet.time / 1000).toFixed(6)}</td>
+                  <td className="px-2 py-0.5 whitespace-nowrap">{row.source}</td>
+                  <td className="px-2 py-0.5 whitespace-nowrap">{row.destination}</td>
+                  <td className="px-2 py-0.5">{row.protocol}</td>
+                  <td className="px-2 py-0.5">{row.length}</td>
+                  <td className="px-2 py-0.5 whitespace-nowrap">{row.info}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {displayed.length === 0 && (
+          <p className="p-4 text-center text-sm text-gray-400">
+            {capture.packets.length > 0
+              ? '没有符合过滤条件的帧'
+              : capture.running ? '等待报文经过……运行Ping、DNS查询或浏览器访问试试' : '点击“开始抓包”，然后运行Ping、DNS查询或浏览器访问'}
+          </p>
+        )}
+      </div>
+
+      {selected && (
+        <div className="mt-2 max-h-64 overflow-y-auto border rounded p-2 bg-gray-50 text-xs font-mono">
+          {describeCapturedPacketLayers(selected).map((layer) => (
+            <details key={layer.title} open>
+              <summary className="cursor-pointer font-bold text-gray-800">{layer.title}</summary>
+              <ul className="ml-5 text-gray-700">
+                {layer.fields.map((field, index) => (
+                  <li key={index} className="whitespace-pre-wrap break-all">{field}</li>
+                ))}
+              </ul>
+            </details>
+          ))}
+        </div>
+      )}
+
+      <p className="mt-2 text-xs text-gray-500">
+        过滤字段：ip.addr、ip.src、ip.dst、ipv6.addr、eth.addr、vlan.id、tcp.port、udp.port、dns.qry.name、http.response.code、frame.number；
+        协议：arp、icmp、dns、http、dhcp、tcp、udp、vlan。导出的是当前显示的帧。
+      </p>
+    </div>
+  );
+};
@@ -1,50 +1,63 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useMemo } from 'react';
 import { useNetworkStore } from '../store/useNetworkStore';
+import { formatRouteDestination } from '../utils/routeUtils';
+import { PacketInspector } from './PacketInspector';
+import { PING_DEFAULT_COUNT, PING_MAX_COUNT } from '../utils/pingUtils';
+import { TrafficFlow } from '../types';
+
+// 结果显示在本面板的通信类型（DNS/HTTP的结果显示在浏览器模拟器中）
+const PANEL_FLOW_TYPES: TrafficFlow['type'][] = ['ping', 'tracert', 'dhcp', 'routing'];
 
 export const ControlPanel: React.FC = () => {
   const {
     simulatePing,
-    clearSimulation,
-    simulationResult,
-    isSimulating,
+    simulateTraceroute,
     testToolState,
     setTestToolState,
-    simulationType,
+    flows,
     devices
   } = useNetworkStore();
 
-  // 本地状态：Ping测试结果（当浏览器测试开始时会被清空）
-  const [localSimulationResult, setLocalSimulationResult] = useState(simulationResult);
+  // 本面板最近发起的通信流（其他通信同时进行时不影响本面板的按钮）
+  const [testFlowId, setTestFlowId] = useState<string | null>(null);
+  const isTesting = flows.some((flow) => flow.id === testFlowId && flow.status === 'running');
+
+  // 显示最近一次出结果的 Ping/路由追踪/DHCP/动态路由；点“清除结果”后隐藏，直到有新的结果
+  const [clearedFlowId, setClearedFlowId] = useState<string | null>(null);
+  const latestFlow = useMemo(
+    () => [...flows].reverse().find((flow) => flow.result && PANEL_FLOW_TYPES.includes(flow.type)),
+    [flows]
+  );
+  const localSimulationResult = latestFlow && latestFlow.id !== clearedFlowId ? latestFlow.result : undefined;
 
   const sourceIP = testToolState.sourceIP;
   const destIP = testToolState.destIP;
 
   const deviceOptions = useMemo(() => {
-    return devices.map((device) => ({
-      value: device.ip,
-      label: `${device.name} (${device.ip})`
-    }));
+    // 交换机没有IP、DHCP客户端还没获取到地址时，不能作为Ping的源或目标；双栈设备的IPv6地址单独列出
+    return devices.filter((device) => device.type !== 'switch').flatMap((device) => [
+      ...(device.ip ? [{ value: device.ip, label: `${device.name} (${device.ip})` }] : []),
+      ...(device.ipv6 ? [{ value: device.ipv6, label: `${device.name} (IPv6 ${device.ipv6})` }] : [])
+    ]);
   }, [devices]);
 
   const setSourceIP = (ip: string) => setTestToolState({ ...testToolState, sourceIP: ip });
   const setDestIP = (ip: string) => setTestToolState({ ...testToolState, destIP: ip });
-
-  // 监听simulationType，当浏览器测试开始时清空Ping结果（实现工具互不干扰）
-  useEffect(() => {
-    if (simulationType === 'dns' || simulationType === 'http') {
-      // 浏览器测试开始了，清空Ping的本地结果
-      setLocalSimulationResult(null);
-    } else if (simulationType === 'ping') {
-      // Ping测试开始，更新本地结果
-      setLocalSimulationResult(simulationResult);
-    }
-  }, [simulationType, simulationResult]);
+  const setPingCount = (value: string) =>
+    setTestToolState({ ...testToolState, count: value === '' ? undefined : Math.min(PING_MAX_COUNT, Math.max(1, Number(value))) });
+  const setPingSeed = (value: string) =>
+    setTestToolState({ ...testToolState, seed: value === '' || !Number.isInteger(Number(value)) ? undefined : Number(value) });
 
   const handlePing = () => {
-    // 开始Ping测试（simulatePing会设置simulationType='ping'，触发浏览器组件清空状态）
-    simulatePing(sourceIP, destIP);
+    setTestFlowId(simulatePing(sourceIP, destIP, { count: testToolState.count, seed: testToolState.seed }));
   };
 
+  const handleTraceroute = () => {
+    setTestFlowId(simulateTraceroute(sourceIP, destIP));
+  };
+
+  const tracerouteHops = localSimulationResult?.tracerouteHops;
+
   return (
     <div className="p-4 bg-white rounded-lg shadow space-y-4">
       <h3 className="text-lg font-bold mb-4">连通测试工具</h3>
@@ -87,22 +100,50 @@ export const ControlPanel: React.FC = () => {
             )}
           </select>
         </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-sm font-medium mb-1">Ping次数：</label>
+            <input
+              type="number"
+              min={1}
+              max={PING_MAX_COUNT}
+              value={testToolState.count ?? ''}
+              placeholder={String(PING_DEFAULT_COUNT)}
+              onChange={(e) => setPingCount(e.target.value)}
+              className="w-full px-3 py-2 border rounded focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">随机种子：</label>
+            <input
+              type="number"
+              value={testToolState.seed ?? ''}
+              placeholder="每次随机"
+              onChange={(e) => setPingSeed(e.target.value)}
+              className="w-full px-3 py-2 border rounded focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
       </div>
 
       {/* 操作按钮 */}
       <div className="space-y-2">
         <button
           onClick={handlePing}
-          disabled={isSimulating}
+          disabled={isTesting}
           className="w-full px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300 transition"
         >
-          {isSimulating ? '正在模拟...' : '📍 连通测试'}
+          {isTesting ? '正在模拟...' : '📍 连通测试'}
         </button>
         <button
-          onClick={() => {
-            clearSimulation();
-            setLocalSimulationResult(null);
-          }}
+          onClick={handleTraceroute}
+          disabled={isTesting}
+          className="w-full px-4 py-2 bg-orange-500 text-white rounded hover:bg-orange-600 disabled:bg-gray-300 transition"
+        >
+          {isTesting ? '正在模拟...' : '🧭 路由追踪 (tracert)'}
+        </button>
+        <button
+          onClick={() => setClearedFlowId(latestFlow?.id ?? null)}
           className="w-full px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition"
         >
           清除结果
@@ -113,15 +154,57 @@ export const ControlPanel: React.FC = () => {
       {localSimulationResult && (
         <div className={`p-4 rounded-lg ${localSimulationResult.success ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'}`}>
           <h4 className="font-bold mb-2">
-            {localSimulationResult.success ? '✅ 连接成功' : '❌ 连接失败'}
+            {tracerouteHops
+              ? (localSimulationResult.success ? '✅ 跟踪完成' : '❌ 路径中断')
+              : localSimulationResult.dhcpMessages
+                ? (localSimulationResult.success ? '✅ DHCP获取地址成功' : '❌ DHCP获取地址失败')
+                : localSimulationResult.routingRounds
+                  ? (localSimulationResult.success ? '✅ 动态路由已收敛' : '❌ 动态路由未收敛')
+                  : (localSimulationResult.success ? '✅ 连接成功' : '❌ 连接失败')}
           </h4>
-          <p className="text-sm mb-2">{localSimulationResult.message}</p>
+          {tracerouteHops ? (
+            <>
+              <table className="w-full mb-2 text-xs bg-white rounded">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="p-1">跳数</th>
+                    <th className="p-1">应答设备</th>
+                    <th className="p-1">接口IP</th>
+                    <th className="p-1">结果</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {tracerouteHops.map((hop) => (
+                    <tr key={hop.ttl} className="border-b last:border-b-0">
+                      <td className="p-1 font-mono">{hop.ttl}</td>
+                      <td className="p-1">{hop.device}</td>
+                      <td className="p-1 font-mono">{hop.ip}</td>
+                      <td className={`p-1 ${hop.status === 'timeout' || hop.status === 'unreachable' ? 'text-red-600' : hop.status === 'reached' ? 'text-green-600' : 'text-orange-600'}`}>
+                        {hop.status === 'timeout' ? '请求超时' : hop.status === 'unreachable' ? '目标不可达' : hop.status === 'reached' ? '到达目标' : 'TTL超时'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <pre className="text-xs mb-2 whitespace-pre-wrap font-mono">{localSimulationResult.message}</pre>
+            </>
+          ) : localSimulationResult.dhcpMessages || localSimulationResult.routingRounds || localSimulationResult.pingStatistics ? (
+            <pre className="text-xs mb-2 whitespace-pre-wrap font-mono">{localSimulationResult.message}</pre>
+          ) : (
+            <p className="text-sm mb-2">{localSimulationResult.message}</p>
+          )}
           <div className="text-sm">
-            <strong>路径：</strong>
+            <strong>{localSimulationResult.routingRounds ? '参与的路由器：' : '路径：'}</strong>
             <div className="mt-1 p-2 bg-white rounded font-mono text-xs">
               {localSimulationResult.path.join(' → ')}
             </div>
           </div>
+          {!tracerouteHops && (localSimulationResult.packetHeaders || localSimulationResult.vlanTags) && (
+            <PacketInspector
+              headers={localSimulationResult.packetHeaders || []}
+              vlanTags={localSimulationResult.vlanTags}
+            />
+          )}
           {localSimulationResult.steps.length > 0 && (
             <div className="mt-3">
               <strong className="text-sm">详细步骤：</strong>
@@ -132,7 +215,7 @@ export const ControlPanel: React.FC = () => {
                     <div className="text-gray-600">{step.action}</div>
                     {step.routeEntry && (
                       <div className="mt-1 text-gray-500">
-                        路由条目：{step.routeEntry.destination} → {step.routeEntry.nextHop} (权重: {step.routeEntry.metric})
+                        路由条目：{formatRouteDestination(step.routeEntry)} → {step.routeEntry.nextHop} (权重: {step.routeEntry.metric})
                       </div>
                     )}
                   </div>
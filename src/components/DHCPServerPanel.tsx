@@ -0,0 +1,261 @@
+import React, { useEffect, useState } from 'react';
+import { Device, DHCPServerConfig } from '../types';
+import { useNetworkStore } from '../store/useNetworkStore';
+import {
+  createDefaultDHCPConfig,
+  findPoolConflicts,
+  getActiveLeases,
+  validateDHCPConfig
+} from '../utils/dhcpUtils';
+import { DEFAULT_SUBNET_MASK } from '../utils/subnetUtils';
+
+interface DHCPServerPanelProps {
+  device: Device;
+}
+
+// 服务接口的IP和掩码：路由器按接口名查找，服务器使用eth0
+function getServiceInterface(device: Device, interfaceName?: string): { ip: string; mask: string } {
+  if (device.type === 'router') {
+    const iface = device.interfaces.find((i) => i.name === (interfaceName || 'LAN'));
+    return { ip: iface?.ip || device.ip, mask: iface?.subnetMask || DEFAULT_SUBNET_MASK };
+  }
+  const eth0 = device.interfaces.find((i) => i.name === 'eth0');
+  return { ip: device.ip, mask: eth0?.subnetMask || DEFAULT_SUBNET_MASK };
+}
+
+function buildDefaultConfig(device: Device, interfaceName?: string): DHCPServerConfig {
+  const service = getServiceInterface(device, interfaceName);
+  // 路由器自己就是网关；服务器下发它自己配置的网关
+  const gateway = device.type === 'router' ? service.ip : (device.gateway || service.ip);
+  return {
+    ...createDefaultDHCPConfig(service.ip, service.mask, gateway),
+    interfaceName: device.type === 'router' ? (interfaceName || 'LAN') : undefined
+  };
+}
+
+export const DHCPServerPanel: React.FC<DHCPServerPanelProps> = ({ device }) => {
+  const { devices, updateDevice } = useNetworkStore();
+  const [error, setError] = useState('');
+
+  // 实时从store获取最新的设备数据（获取地址时租约会更新）
+  const currentDevice = devices.find(d => d.id === device.id) || device;
+  const savedConfig = currentDevice.dhcpServer;
+
+  const [draft, setDraft] = useState<DHCPServerConfig>(savedConfig || buildDefaultConfig(currentDevice));
+
+  // 切换设备时重新加载配置
+  useEffect(() => {
+    setDraft(currentDevice.dhcpServer || buildDefaultConfig(currentDevice));
+    setError('');
+  }, [device.id]);
+
+  const service = getServiceInterface(currentDevice, draft.interfaceName);
+  const conflicts = findPoolConflicts(draft, devices);
+  const leases = savedConfig ? getActiveLeases(savedConfig) : [];
+
+  const updateDraft = (updates: Partial<DHCPServerConfig>) => {
+    setDraft({ ...draft, ...updates });
+    setError('');
+  };
+
+  const handleInterfaceChange = (interfaceName: string) => {
+    // 换接口后地址池也要换到新网段
+    const defaults = buildDefaultConfig(currentDevice, interfaceName);
+    setDraft({ ...defaults, enabled: draft.enabled, leaseTime: draft.leaseTime, dnsServer: draft.dnsServer, leases: draft.leases });
+    setError('');
+  };
+
+  const handleSave = () => {
+    const config: DHCPServerConfig = {
+      ...draft,
+      startIP: draft.startIP.trim(),
+      endIP: draft.endIP.trim(),
+      subnetMask: draft.subnetMask.trim(),
+      gateway: draft.gateway.trim(),
+      dnsServer: draft.dnsServer?.trim() || undefined,
+      leases: savedConfig?.leases || []
+    };
+
+    const validation = validateDHCPConfig(config, service.ip);
+    if (!validation.valid) {
+      setError(validation.error || '配置错误');
+      return;
+    }
+
+    updateDevice(currentDevice.id, { dhcpServer: config });
+    setDraft(config);
+    setError('');
+  };
+
+  const handleRelease = (ip: string) => {
+    if (!savedConfig) return;
+    updateDevice(currentDevice.id, {
+      dhcpServer: { ...savedConfig, leases: savedConfig.leases.filter((lease) => lease.ip !== ip) }
+    });
+  };
+
+  const routerInterfaces = currentDevice.type === 'router'
+    ? currentDevice.interfaces.filter((iface) => iface.ip)
+    : [];
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-bold">📡 {currentDevice.name} DHCP服务</h3>
+        <label className="flex items-center gap-2 text-sm font-medium cursor-pointer">
+          <input
+            type="checkbox"
+            checked={draft.enabled}
+            onChange={(e) => updateDraft({ enabled: e.target.checked })}
+          />
+          启用
+        </label>
+      </div>
+
+      <div className="space-y-2 text-sm">
+        {currentDevice.type === 'router' && (
+          <div>
+            <label className="block font-medium mb-1">服务接口：</label>
+            <select
+              value={draft.interfaceName || 'LAN'}
+              onChange={(e) => handleInterfaceChange(e.target.value)}
+              className="w-full px-3 py-2 border rounded bg-white"
+            >
+              {routerInterfaces.map((iface) => (
+                <option key={iface.name} value={iface.name}>
+                  {iface.name} ({iface.ip})
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block font-medium mb-1">起始地址：</label>
+            <input
+              type="text"
+              value={draft.startIP}
+              onChange={(e) => updateDraft({ startIP: e.target.value })}
+              className="w-full px-3 py-2 border rounded font-mono"
+            />
+          </div>
+          <div>
+            <label className="block font-medium mb-1">结束地址：</label>
+            <input
+              type="text"
+              value={draft.endIP}
+              onChange={(e) => updateDraft({ endIP: e.target.value })}
+              className="w-full px-3 py-2 border rounded font-mono"
+            />
+          </div>
+          <div>
+            <label className="block font-medium mb-1">子网掩码：</label>
+            <input
+              type="text"
+              value={draft.subnetMask}
+              onChange={(e) => updateDraft({ subnetMask: e.target.value })}
+              className="w-full px-3 py-2 border rounded font-mono"
+            />
+          </div>
+          <div>
+            <label className="block font-medium mb-1">默认网关：</label>
+            <input
+              type="text"
+              value={draft.gateway}
+              onChange={(e) => updateDraft({ gateway: e.target.value })}
+              className="w-full px-3 py-2 border rounded font-mono"
+            />
+          </div>
+          <div>
+            <label className="block font-medium mb-1">DNS服务器：</label>
+            <input
+              type="text"
+              value={draft.dnsServer || ''}
+              onChange={(e) => updateDraft({ dnsServer: e.target.value })}
+              placeholder="可不填"
+              className="w-full px-3 py-2 border rounded font-mono"
+            />
+          </div>
+          <div>
+            <label className="block font-medium mb-1">租期（秒）：</label>
+            <input
+              type="number"
+              min={1}
+              value={draft.leaseTime}
+              onChange={(e) => updateDraft({ leaseTime: Number(e.target.value) })}
+              className="w-full px-3 py-2 border rounded font-mono"
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="p-2 bg-red-50 border border-red-200 rounded text-red-700">❌ {error}</div>
+        )}
+
+        {conflicts.length > 0 && (
+          <div className="p-2 bg-red-50 border border-red-200 rounded text-xs text-red-700 space-y-0.5">
+            <div className="font-bold">❌ 地址池与手动配置的地址冲突：</div>
+            {conflicts.map((conflict) => (
+              <div key={conflict.ip} className="font-mono">
+                {conflict.ip} ← {conflict.device}
+              </div>
+            ))}
+            <div>分配时会跳过这些地址；建议缩小地址池，或把这些设备改为自动获取。</div>
+          </div>
+        )}
+
+        <button
+          onClick={handleSave}
+          className="w-full py-2 bg-purple-500 text-white rounded hover:bg-purple-600 font-bold"
+        >
+          💾 保存DHCP配置
+        </button>
+      </div>
+
+      <div className="mt-4">
+        <div className="font-bold text-sm mb-2">已分配租约（{leases.length}）</div>
+        {leases.length === 0 ? (
+          <div className="p-3 bg-gray-50 rounded text-sm text-gray-500">
+            暂无租约。把PC设为“自动获取”，连接到本设备所在网段后点击“获取地址”。
+          </div>
+        ) : (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="bg-gray-100">
+                <th className="px-2 py-1 text-left">IP地址</th>
+                <th className="px-2 py-1 text-left">客户端</th>
+                <th className="px-2 py-1 text-left">MAC地址</th>
+                <th className="px-2 py-1 text-left">到期</th>
+                <th className="px-2 py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {leases.map((lease) => (
+                <tr key={lease.ip} className="border-b hover:bg-gray-50">
+                  <td className="px-2 py-1 font-mono font-bold">{lease.ip}</td>
+                  <td className="px-2 py-1">{lease.clientName}</td>
+                  <td className="px-2 py-1 font-mono">{lease.mac}</td>
+                  <td className="px-2 py-1 text-gray-500">{new Date(lease.expiresAt).toLocaleTimeString()}</td>
+                  <td className="px-2 py-1 text-right">
+                    <button
+                      onClick={() => handleRelease(lease.ip)}
+                      className="px-2 py-0.5 bg-gray-200 rounded hover:bg-gray-300"
+                    >
+                      释放
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="mt-3 p-2 bg-blue-50 rounded text-xs text-blue-700">
+        💡 DHCP客户端还没有IP，只能广播 DISCOVER；服务器从地址池挑一个空闲地址 OFFER 给它，
+        客户端 REQUEST 确认后服务器回 ACK，同时下发网关和DNS。地址池用完时新客户端拿不到地址。
+      </div>
+    </div>
+  );
+};
@@ -11,12 +11,14 @@ export const DNSManager: React.FC<DNSManagerProps> = ({ device }) => {
   const { updateDevice, devices } = useNetworkStore();
   const [newDomain, setNewDomain] = useState('');
   const [newIP, setNewIP] = useState('');
+  const [newType, setNewType] = useState<DNSRecord['type']>('A');
   const [error, setError] = useState('');
 
   // 编辑状态
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editDomain, setEditDomain] = useState('');
   const [editIP, setEditIP] = useState('');
+  const [editType, setEditType] = useState<DNSRecord['type']>('A');
 
   // 实时从store获取最新的设备数据
   const currentDevice = devices.find(d => d.id === device.id) || device;
@@ -31,15 +33,15 @@ export const DNSManager: React.FC<DNSManagerProps> = ({ device }) => {
       return;
     }
 
-    // 验证IP格式
-    if (!DNSResolver.validateIP(newIP)) {
-      setError('❌ IP地址格式不正确');
+    // 验证IP格式（A记录填IPv4地址，AAAA记录填IPv6地址）
+    if (!DNSResolver.validateRecordIP(newIP, newType)) {
+      setError(newType === 'AAAA' ? '❌ AAAA记录需要填写IPv6地址' : '❌ IP地址格式不正确');
       return;
     }
 
-    // 检查域名是否已存在
-    if (dnsRecords.some((r) => r.domain.toLowerCase() === newDomain.toLowerCase())) {
-      setError('❌ 该域名已存在');
+    // 检查域名是否已存在（同一域名可以同时有一条A记录和一条AAAA记录）
+    if (dnsRecords.some((r) => r.type === newType && r.domain.toLowerCase() === newDomain.toLowerCase())) {
+      setError(`❌ 该域名已有${newType}记录`);
       return;
     }
 
@@ -47,7 +49,7 @@ export const DNSManager: React.FC<DNSManagerProps> = ({ device }) => {
       id: `dns-${Date.now()}`,
       domain: newDomain,
       ip: newIP,
-      type: 'A',
+      type: newType,
     };
 
     updateDevice(device.id, {
@@ -70,6 +72,7 @@ export const DNSManager: React.FC<DNSManagerProps> = ({ device }) => {
     setEditingId(record.id);
     setEditDomain(record.domain);
     setEditIP(record.ip);
+    setEditType(record.type);
     setError('');
   };
 
@@ -83,14 +86,14 @@ export const DNSManager: React.FC<DNSManagerProps> = ({ device }) => {
     }
 
     // 验证IP格式
-    if (!DNSResolver.validateIP(editIP)) {
-      setError('❌ IP地址格式不正确');
+    if (!DNSResolver.validateRecordIP(editIP, editType)) {
+      setError(editType === 'AAAA' ? '❌ AAAA记录需要填写IPv6地址' : '❌ IP地址格式不正确');
       return;
     }
 
     // 检查域名是否与其他记录冲突（排除当前编辑的记录）
-    if (dnsRecords.some((r) => r.id !== editingId && r.domain.toLowerCase() === editDomain.toLowerCase())) {
-      setError('❌ 该域名已存在');
+    if (dnsRecords.some((r) => r.id !== editingId && r.type === editType && r.domain.toLowerCase() === editDomain.toLowerCase())) {
+      setError(`❌ 该域名已有${editType}记录`);
       return;
     }
 
@@ -98,7 +101,7 @@ export const DNSManager: React.FC<DNSManagerProps> = ({ device }) => {
     updateDevice(device.id, {
       dnsRecords: dnsRecords.map((r) =>
         r.id === editingId
-          ? { ...r, domain: editDomain, ip: editIP, type: 'A' }
+          ? { ...r, domain: editDomain, ip: editIP, type: editType }
           : r
       ),
     });
@@ -172,6 +175,19 @@ export const DNSManager: React.FC<DNSManagerProps> = ({ device }) => {
                           className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-green-500"
                         />
                       </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">
+                          类型
+                        </label>
+                        <select
+                          value={editType}
+                          onChange={(e) => setEditType(e.target.value as DNSRecord['type'])}
+                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-green-500"
+                        >
+                          <option value="A">A（IPv4）</option>
+                          <option value="AAAA">AAAA（IPv6）</option>
+                        </select>
+                      </div>
                     </div>
                     <div className="flex gap-2">
                       <button
@@ -198,6 +214,7 @@ export const DNSManager: React.FC<DNSManagerProps> = ({ device }) => {
                         </span>
                         <span className="text-gray-400">→</span>
                         <span className="font-mono text-blue-600">{record.ip}</span>
+                        <span className="text-xs px-1.5 py-0.5 rounded bg-blue-100 text-blue-700">{record.type}</span>
                       </div>
                     </div>
                     <div className="flex gap-1">
@@ -241,6 +258,20 @@ export const DNSManager: React.FC<DNSManagerProps> = ({ device }) => {
             />
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              记录类型
+            </label>
+            <select
+              value={newType}
+              onChange={(e) => setNewType(e.target.value as DNSRecord['type'])}
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="A">A（域名 → IPv4地址）</option>
+              <option value="AAAA">AAAA（域名 → IPv6地址）</option>
+            </select>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               目标IP地址 <span className="text-red-500">*</span>
@@ -249,7 +280,7 @@ export const DNSManager: React.FC<DNSManagerProps> = ({ device }) => {
               type="text"
               value={newIP}
               onChange={(e) => setNewIP(e.target.value)}
-              placeholder="例如：192.168.1.100"
+              placeholder={newType === 'AAAA' ? '例如：2001:db8:2::10' : '例如：192.168.1.100'}
               className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
           </div>
@@ -278,6 +309,7 @@ export const DNSManager: React.FC<DNSManagerProps> = ({ device }) => {
         <ul className="text-xs text-yellow-700 mt-1 ml-4 space-y-1">
           <li>• DNS将域名（如www.school.com）转换为IP地址</li>
           <li>• A记录：直接映射域名到IP地址</li>
+          <li>• AAAA记录：映射域名到IPv6地址，双栈主机查到时优先使用IPv6</li>
           <li>• 对应课本第7课《域名解析换编码》</li>
         </ul>
       </div>
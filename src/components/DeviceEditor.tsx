@@ -1,45 +1,75 @@
 import React, { useState, useEffect } from 'react';
-import { Device } from '../types';
+import { Device, NetworkInterface, PortForwardRule, RouteEntry } from '../types';
 import { useNetworkStore } from '../store/useNetworkStore';
-import { validateIPAddress, validateIPInput } from '../utils/ipValidator';
-import { calculateSubnet, isValidSubnetMask } from '../utils/subnetUtils';
+import { validateGateway, validateIPAddress, validateIPInput, validateIPv6Address, validateIPv6PrefixLength } from '../utils/ipValidator';
+import { DEFAULT_SUBNET_MASK, calculateSubnet, isValidSubnetMask } from '../utils/subnetUtils';
+import { normalizeIPv6 } from '../utils/ipv6Utils';
+import { isSubInterface, isValidVLAN, parseVLANList } from '../utils/vlanUtils';
+import { NATSettings } from './NATSettings';
+import { IPv6HostDraft, IPv6InterfaceDraft, IPv6Settings, getIPv6HostDraft, getIPv6InterfaceDrafts } from './IPv6Settings';
+import { SwitchPortDraft, VLANSettings, getSubInterfaces, getSwitchPortDrafts } from './VLANSettings';
 
 interface DeviceEditorProps {
   device: Device;
   onClose: () => void;
 }
 
-const DEFAULT_ENDPOINT_MASK = '255.255.255.0';
+type NATRole = NonNullable<NetworkInterface['nat']> | '';
+
+const getNATRoles = (device: Device): Record<string, NATRole> =>
+  Object.fromEntries((device.interfaces || []).map((iface) => [iface.name, iface.nat || '']));
 
 export const DeviceEditor: React.FC<DeviceEditorProps> = ({ device, onClose }) => {
-  const { updateDevice, deleteDevice, devices, connections } = useNetworkStore();
+  const { updateDevice, deleteDevice, devices, connections, requestDHCPLease } = useNetworkStore();
   const [name, setName] = useState(device.name);
   const [ip, setIp] = useState(device.ip);
   const [dnsServer, setDnsServer] = useState(device.dnsServer || '');
+  const [gateway, setGateway] = useState(device.gateway || '');
+  const [endpointMask, setEndpointMask] = useState(device.interfaces?.[0]?.subnetMask || DEFAULT_SUBNET_MASK);
   const [port, setPort] = useState(device.port || 80);
+  const [ipMode, setIpMode] = useState<'static' | 'dhcp'>(device.ipMode || 'static');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [ipError, setIpError] = useState<string>('');
   const [ipWarning, setIpWarning] = useState<string>('');
 
   // 路由器专属字段
-  const [lanSubnetMask, setLanSubnetMask] = useState('255.255.255.0');
+  const [lanSubnetMask, setLanSubnetMask] = useState(DEFAULT_SUBNET_MASK);
   const [maskError, setMaskError] = useState<string>('');
+  const [natRoles, setNatRoles] = useState<Record<string, NATRole>>(getNATRoles(device));
+  const [portForwards, setPortForwards] = useState<PortForwardRule[]>(device.portForwards || []);
+
+  // IPv6（路由器按接口配置，终端设备配置eth0）
+  const [ipv6Interfaces, setIpv6Interfaces] = useState<Record<string, IPv6InterfaceDraft>>(getIPv6InterfaceDrafts(device));
+  const [ipv6Host, setIpv6Host] = useState<IPv6HostDraft>(getIPv6HostDraft(device));
+
+  // VLAN（交换机按端口划分，路由器配置单臂路由子接口）
+  const [switchPorts, setSwitchPorts] = useState<Record<string, SwitchPortDraft>>(getSwitchPortDrafts(device));
+  const [subInterfaces, setSubInterfaces] = useState<NetworkInterface[]>(getSubInterfaces(device));
 
   // 当device变化时，重置编辑状态
   useEffect(() => {
     setName(device.name);
     setIp(device.ip);
     setDnsServer(device.dnsServer || '');
+    setGateway(device.gateway || '');
+    setEndpointMask(device.interfaces?.[0]?.subnetMask || DEFAULT_SUBNET_MASK);
     setPort(device.port || 80);
+    setIpMode(device.ipMode || 'static');
     setIpError('');
     setIpWarning('');
 
     // 路由器：加载LAN接口子网掩码
     if (device.type === 'router') {
       const lanInterface = device.interfaces?.find(i => i.name === 'LAN');
-      setLanSubnetMask(lanInterface?.subnetMask || '255.255.255.0');
+      setLanSubnetMask(lanInterface?.subnetMask || DEFAULT_SUBNET_MASK);
     }
     setMaskError('');
+    setNatRoles(getNATRoles(device));
+    setPortForwards(device.portForwards || []);
+    setIpv6Interfaces(getIPv6InterfaceDrafts(device));
+    setIpv6Host(getIPv6HostDraft(device));
+    setSwitchPorts(getSwitchPortDrafts(device));
+    setSubInterfaces(getSubInterfaces(device));
   }, [device.id]);
 
   // 获取所有DNS服务器列表
@@ -58,6 +88,15 @@ export const DeviceEditor: React.FC<DeviceEditorProps> = ({ device, onClose }) =
 
   const ipHint = getIPHint();
 
+  // 终端设备：按当前输入实时检查默认网关（与路由模拟使用同一套规则）
+  const isEndpoint = device.type !== 'router' && device.type !== 'switch';
+  const isSwitch = device.type === 'switch';
+  // PC自动获取地址时，IP/掩码/网关/DNS都由DHCP服务器下发，不能手动修改
+  const usesDHCP = device.type === 'pc' && ipMode === 'dhcp';
+  const gatewayCheck = isEndpoint
+    ? validateGateway(ip, isValidSubnetMask(endpointMask) ? endpointMask : DEFAULT_SUBNET_MASK, gateway, devices)
+    : null;
+
   const handleIPChange = (value: string) => {
     setIp(value);
 
@@ -69,7 +108,114 @@ export const DeviceEditor: React.FC<DeviceEditorProps> = ({ device, onClose }) =
     setIpError('');
   };
 
+  // IPv6：校验编辑中的地址和前缀长度（留空表示不启用IPv6）
+  const validateIPv6Drafts = (): boolean => {
+    const drafts = device.type === 'router'
+      ? Object.entries(ipv6Interfaces).map(([name, draft]) => ({ label: `${name} 接口`, draft }))
+      : [{ label: '', draft: ipv6Host }];
+    for (const { label, draft } of drafts) {
+      if (!draft.address.trim()) continue;
+      const check = validateIPv6Address(draft.address.trim());
+      const prefixCheck = validateIPv6PrefixLength(Number(draft.prefixLength));
+      if (!check.valid || !prefixCheck.valid) {
+        alert(`❌ ${label}IPv6配置错误\n\n${check.error || prefixCheck.error}`);
+        return false;
+      }
+    }
+    return true;
+  };
+
+  // IPv6：把编辑中的配置写入设备字段
+  const withIPv6 = (interfaces: NetworkInterface[]): Partial<Device> => {
+    const toFields = (draft: IPv6InterfaceDraft | undefined) => {
+      const address = draft?.address.trim();
+      return address
+        ? { ipv6: normalizeIPv6(address), ipv6PrefixLength: Number(draft!.prefixLength) }
+        : { ipv6: undefined, ipv6PrefixLength: undefined };
+    };
+    if (device.type === 'router') {
+      return { interfaces: interfaces.map((iface) => ({ ...iface, ...toFields(ipv6Interfaces[iface.name]) })) };
+    }
+    const fields = toFields(ipv6Host);
+    return {
+      ipv6: fields.ipv6,
+      ipv6Gateway: fields.ipv6 ? ipv6Host.gateway.trim() || undefined : undefined,
+      ipv6Mode: ipv6Host.mode,
+      interfaces: interfaces.map((iface, index) => (index === 0 ? { ...iface, ...fields } : iface))
+    };
+  };
+
+  // 交换机：把编辑中的端口VLAN配置写入端口；有错误时提示并返回 null
+  const buildSwitchPorts = (): NetworkInterface[] | null => {
+    const ports: NetworkInterface[] = [];
+    for (const port of device.interfaces) {
+      const draft = switchPorts[port.name];
+      if (!draft) {
+        ports.push(port);
+        continue;
+      }
+      if (draft.mode === 'trunk') {
+        const allowedVlans = parseVLANList(draft.allowedVlans);
+        if (allowedVlans === null) {
+          alert(`❌ 端口 ${port.name} 的允许VLAN列表格式错误\n\n请填写如 10,20,30-32 的列表（1-4094），留空表示全部允许。`);
+          return null;
+        }
+        ports.push({ ...port, vlanMode: 'trunk', vlan: undefined, allowedVlans });
+        continue;
+      }
+      const vlan = Number(draft.vlan);
+      if (!isValidVLAN(vlan)) {
+        alert(`❌ 端口 ${port.name} 的VLAN ID错误\n\nVLAN ID 需为 1-4094 的整数。`);
+        return null;
+      }
+      ports.push({ ...port, vlanMode: 'access', vlan, allowedVlans: undefined });
+    }
+    return ports;
+  };
+
+  // 路由器：子接口网段自动添加直连路由，删除子接口时去掉它的直连路由
+  const withSubInterfaceRoutes = (): RouteEntry[] => {
+    const removed = getSubInterfaces(device)
+      .filter((old) => !subInterfaces.some((iface) => iface.name === old.name))
+      .map((old) => old.name);
+    const table = (device.routingTable || []).filter(
+      (route) => !(route.nextHop === '直连' && removed.includes(route.interface))
+    );
+    const added = subInterfaces
+      .filter((iface) => !table.some((route) => route.nextHop === '直连' && route.interface === iface.name))
+      .map((iface): RouteEntry => ({
+        destination: calculateSubnet(iface.ip, iface.subnetMask),
+        subnetMask: iface.subnetMask,
+        nextHop: '直连',
+        interface: iface.name,
+        metric: 0
+      }));
+    return [...table, ...added];
+  };
+
   const handleSave = () => {
+    // 交换机没有IP，只能改名称和端口VLAN
+    if (isSwitch) {
+      const ports = buildSwitchPorts();
+      if (!ports) {
+        return;
+      }
+      updateDevice(device.id, { name, interfaces: ports });
+      onClose();
+      return;
+    }
+
+    if (!validateIPv6Drafts()) {
+      return;
+    }
+
+    // 自动获取：只保存名称和获取方式，地址等点击“获取地址”时由DHCP下发
+    if (usesDHCP) {
+      updateDevice(device.id, { name, ipMode: 'dhcp', ...withIPv6(device.interfaces) });
+      onClose();
+      return;
+    }
+
     const ipChanged = ip !== device.ip;
     const relatedConnections = connections.filter(
       (conn) => conn.source === device.id || conn.target === device.id
@@ -77,8 +223,8 @@ export const DeviceEditor: React.FC<DeviceEditorProps> = ({ device, onClose }) =
     const hasConnections = relatedConnections.length > 0;
 
     if (device.type !== 'router' && ipChanged && hasConnections) {
-      const originalNetwork = calculateSubnet(device.ip, DEFAULT_ENDPOINT_MASK);
-      const newNetwork = calculateSubnet(ip, DEFAULT_ENDPOINT_MASK);
+      const originalNetwork = calculateSubnet(device.ip, endpointMask);
+      const newNetwork = calculateSubnet(ip, endpointMask);
       const networkChanged = originalNetwork !== newNetwork;
       if (networkChanged) {
         alert('⚠️ 当前设备仍在线，如需切换到不同网段，请先断开与路由器的连线后再修改IP。');
@@ -86,19 +232,26 @@ export const DeviceEditor: React.FC<DeviceEditorProps> = ({ device, onClose }) =
       }
     }
 
-    // IP地址验证
-    const ipValidation = validateIPAddress(ip);
+    // IP地址验证（网段地址、广播地址按所填掩码判断；掩码本身的错误在下面提示）
+    const ipMask = device.type === 'router' ? lanSubnetMask : endpointMask;
+    const ipValidation = validateIPAddress(ip, isValidSubnetMask(ipMask) ? ipMask : DEFAULT_SUBNET_MASK);
     if (!ipValidation.valid) {
       setIpError(ipValidation.error || '');
       alert(`❌ IP地址错误\n\n${ipValidation.error}`);
       return;
     }
 
+    // 终端设备：验证子网掩码
+    if (isEndpoint && !isValidSubnetMask(endpointMask)) {
+      alert(`❌ 子网掩码错误\n\n请使用标准格式（如 255.255.255.0）`);
+      return;
+    }
+
     // 路由器：验证子网掩码
     if (device.type === 'router') {
       const lanInterface = device.interfaces?.find((iface) => iface.name === 'LAN');
       const originalLanIP = lanInterface?.ip || device.ip;
-      const originalNetwork = calculateSubnet(originalLanIP, lanInterface?.subnetMask || DEFAULT_ENDPOINT_MASK);
+      const originalNetwork = calculateSubnet(originalLanIP, lanInterface?.subnetMask || DEFAULT_SUBNET_MASK);
       const newNetwork = calculateSubnet(ip, lanSubnetMask);
       const routerNetworkChanged = originalNetwork !== newNetwork;
 
@@ -112,12 +265,19 @@ export const DeviceEditor: React.FC<DeviceEditorProps> = ({ device, onClose }) =
         alert(`❌ 子网掩码错误\n\n请使用标准格式（如 255.255.255.0）`);
         return;
       }
+
+      // NAT至少需要一个内网接口和一个外网接口
+      const roles = Object.values(natRoles);
+      if (roles.some(Boolean) && !(roles.includes('inside') && roles.includes('outside'))) {
+        alert('❌ NAT配置不完整\n\n请至少把一个接口设为内网 (inside)、一个接口设为外网 (outside)，或全部设为“不参与NAT”。');
+        return;
+      }
     }
 
     const updates: Partial<Device> = {
       name,
       ip,
-      interfaces: device.interfaces.map((iface) => {
+      interfaces: [...device.interfaces.filter((iface) => !isSubInterface(iface)), ...subInterfaces].map((iface) => {
         // 路由器：更新LAN接口的IP和子网掩码
         if (device.type === 'router' && iface.name === 'LAN') {
           const subnet = calculateSubnet(ip, lanSubnetMask);
@@ -126,16 +286,36 @@ export const DeviceEditor: React.FC<DeviceEditorProps> = ({ device, onClose }) =
             ip,
             subnet,
             subnetMask: lanSubnetMask,
+            nat: natRoles[iface.name] || undefined,
           };
         }
-        // PC/DNS/Web：更新第一个接口的IP
-        if (device.type !== 'router' && iface.name === 'eth0') {
-          return { ...iface, ip };
+        // 路由器其他接口：只更新NAT角色
+        if (device.type === 'router') {
+          return { ...iface, nat: natRoles[iface.name] || undefined };
+        }
+        // PC/DNS/Web：更新第一个接口的IP和子网掩码
+        if (iface.name === 'eth0') {
+          return { ...iface, ip, subnetMask: endpointMask };
         }
         return iface;
       })
     };
 
+    // 终端设备：保存默认网关和子网掩码（旧拓扑可能没有eth0接口，需要补上）
+    if (isEndpoint) {
+      updates.gateway = gateway.trim() || undefined;
+      if (device.type === 'pc') {
+        updates.ipMode = 'static';
+        updates.dhcpLease = undefined;
+      }
+      if (!updates.interfaces!.some((iface) => iface.name === 'eth0')) {
+        updates.interfaces = [
+          { id: `${device.id}-eth0`, name: 'eth0', ip, subnetMask: endpointMask },
+          ...updates.interfaces!
+        ];
+      }
+    }
+
     // 只为PC设备保存DNS服务器配置
     if (device.type === 'pc') {
       // ✅ 验证DNS服务器是否仍然有效
@@ -157,15 +337,28 @@ export const DeviceEditor: React.FC<DeviceEditorProps> = ({ device, onClose }) =
       }
     }
 
+    // 路由器：保存端口转发规则和子接口的直连路由
+    if (device.type === 'router') {
+      updates.portForwards = portForwards;
+      updates.routingTable = withSubInterfaceRoutes();
+    }
+
     // 为Web服务器保存端口配置
     if (device.type === 'web') {
       updates.port = port;
     }
 
+    Object.assign(updates, withIPv6(updates.interfaces!));
     updateDevice(device.id, updates);
     onClose();
   };
 
+  const handleRenewDHCP = () => {
+    updateDevice(device.id, { name, ipMode: 'dhcp' });
+    requestDHCPLease(device.id);
+    onClose();
+  };
+
   const handleDelete = () => {
     deleteDevice(device.id);
     onClose();
@@ -173,7 +366,7 @@ export const DeviceEditor: React.FC<DeviceEditorProps> = ({ device, onClose }) =
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-      <div className="bg-white rounded-lg p-6 w-96 shadow-xl">
+      <div className="bg-white rounded-lg p-6 w-96 shadow-xl max-h-[90vh] overflow-y-auto">
         <h3 className="text-lg font-bold mb-4">编辑设备 - {device.id}</h3>
 
         <div className="space-y-4">
@@ -188,6 +381,82 @@ export const DeviceEditor: React.FC<DeviceEditorProps> = ({ device, onClose }) =
             />
           </div>
 
+          {/* 交换机：二层设备，不配置IP */}
+          {isSwitch && (
+            <div className="p-3 bg-slate-50 border border-slate-200 rounded text-sm text-slate-700">
+              <p>
+                🔌 二层交换机，共 {device.interfaces.length} 个端口，已使用{' '}
+                {connections.filter((conn) => conn.source === device.id || conn.target === device.id).length} 个。
+              </p>
+              <p className="text-xs text-slate-500 mt-1">
+                交换机按MAC地址转发帧，不需要IP地址；MAC地址表可在右侧面板查看。
+              </p>
+            </div>
+          )}
+
+          {/* 交换机：端口VLAN划分 */}
+          {isSwitch && (
+            <VLANSettings
+              device={device}
+              ports={switchPorts}
+              onPortChange={(name, draft) => setSwitchPorts({ ...switchPorts, [name]: draft })}
+              subInterfaces={subInterfaces}
+              onSubInterfacesChange={setSubInterfaces}
+            />
+          )}
+
+          {/* PC：IP获取方式 */}
+          {device.type === 'pc' && (
+            <div>
+              <label className="block text-sm font-medium mb-1">IP获取方式：</label>
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={() => setIpMode('static')}
+                  className={`py-2 rounded border-2 text-sm font-bold ${
+                    ipMode === 'static' ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-600'
+                  }`}
+                >
+                  ✍️ 手动配置
+                </button>
+                <button
+                  onClick={() => setIpMode('dhcp')}
+                  className={`py-2 rounded border-2 text-sm font-bold ${
+                    ipMode === 'dhcp' ? 'border-purple-500 bg-purple-50 text-purple-700' : 'border-gray-300 text-gray-600'
+                  }`}
+                >
+                  🔄 自动获取 (DHCP)
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* PC自动获取：显示DHCP下发的配置 */}
+          {usesDHCP && (
+            <div className="p-3 bg-purple-50 border border-purple-200 rounded text-sm space-y-1">
+              <div className="font-mono text-xs text-purple-900 space-y-0.5">
+                <div>IP地址: {device.ip || '未获取'}</div>
+                <div>子网掩码: {device.ip ? endpointMask : '-'}</div>
+                <div>默认网关: {device.gateway || '-'}</div>
+                <div>DNS服务器: {device.dnsServer || '-'}</div>
+                {device.dhcpLease && (
+                  <div>
+                    租约: {device.dhcpLease.server}，到期 {new Date(device.dhcpLease.expiresAt).toLocaleTimeString()}
+                  </div>
+                )}
+              </div>
+              <button
+                onClick={handleRenewDHCP}
+                className="w-full mt-2 py-2 bg-purple-500 text-white rounded hover:bg-purple-600 font-bold"
+              >
+                🔄 {device.ip ? '续订地址' : '获取地址'} (ipconfig /renew)
+              </button>
+              <p className="text-xs text-purple-700">
+                PC广播 DISCOVER → 服务器 OFFER → PC 广播 REQUEST → 服务器 ACK，完成后自动填入IP、网关和DNS。
+              </p>
+            </div>
+          )}
+
+          {!isSwitch && !usesDHCP && (
           <div>
             <label className="block text-sm font-medium mb-1">
               {device.type === 'router' ? 'LAN IP地址（局域网网关）：' : 'IP地址：'}
@@ -235,6 +504,7 @@ export const DeviceEditor: React.FC<DeviceEditorProps> = ({ device, onClose }) =
               </div>
             )}
           </div>
+          )}
 
           {/* 路由器专用：子网掩码配置 */}
           {device.type === 'router' && (
@@ -274,8 +544,84 @@ export const DeviceEditor: React.FC<DeviceEditorProps> = ({ device, onClose }) =
             </div>
           )}
 
+          {/* 路由器专用：NAT */}
+          {device.type === 'router' && (
+            <NATSettings
+              device={device}
+              roles={natRoles}
+              onRoleChange={(name, role) => setNatRoles({ ...natRoles, [name]: role })}
+              portForwards={portForwards}
+              onPortForwardsChange={setPortForwards}
+            />
+          )}
+
+          {/* 路由器专用：子接口（单臂路由） */}
+          {device.type === 'router' && (
+            <VLANSettings
+              device={device}
+              ports={switchPorts}
+              onPortChange={(name, draft) => setSwitchPorts({ ...switchPorts, [name]: draft })}
+              subInterfaces={subInterfaces}
+              onSubInterfacesChange={setSubInterfaces}
+            />
+          )}
+
+          {/* 终端设备：子网掩码与默认网关 */}
+          {isEndpoint && !usesDHCP && (
+            <>
+              <div>
+                <label className="block text-sm font-medium mb-1">子网掩码：</label>
+                <input
+                  type="text"
+                  value={endpointMask}
+                  onChange={(e) => setEndpointMask(e.target.value)}
+                  className="w-full px-3 py-2 border rounded focus:ring-2 focus:ring-blue-500 font-mono"
+                  placeholder="255.255.255.0"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">默认网关：</label>
+                <input
+                  type="text"
+                  value={gateway}
+                  onChange={(e) => setGateway(e.target.value)}
+                  className={`w-full px-3 py-2 border rounded focus:ring-2 font-mono ${
+                    gatewayCheck && !gatewayCheck.valid
+                      ? 'border-red-500 focus:ring-red-500'
+                      : 'border-gray-300 focus:ring-blue-500'
+                  }`}
+                  placeholder="192.168.1.1"
+                />
+                {gatewayCheck && !gatewayCheck.valid && (
+                  <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded text-sm">
+                    <p className="text-red-700">❌ {gatewayCheck.error}</p>
+                  </div>
+                )}
+                {gatewayCheck?.valid && gatewayCheck.router && (
+                  <p className="text-xs text-green-700 mt-1">
+                    ✅ 网关是 {gatewayCheck.router.name} 的 {gatewayCheck.iface?.name} 接口
+                  </p>
+                )}
+                <p className="text-xs text-gray-500 mt-1">
+                  发往其他网段的数据包会先交给默认网关（所连路由器接口的IP）
+                </p>
+              </div>
+            </>
+          )}
+
+          {/* IPv6（与IPv4同时运行） */}
+          {!isSwitch && (
+            <IPv6Settings
+              device={device}
+              interfaces={ipv6Interfaces}
+              onInterfaceChange={(name, draft) => setIpv6Interfaces({ ...ipv6Interfaces, [name]: draft })}
+              host={ipv6Host}
+              onHostChange={setIpv6Host}
+            />
+          )}
+
           {/* PC设备专用：DNS服务器配置 */}
-          {device.type === 'pc' && (
+          {device.type === 'pc' && !usesDHCP && (
             <div>
               <label className="block text-sm font-medium mb-1">DNS服务器：</label>
               <select
@@ -315,11 +661,13 @@ export const DeviceEditor: React.FC<DeviceEditorProps> = ({ device, onClose }) =
             </div>
           )}
 
-          <div className="p-3 bg-yellow-50 rounded text-sm">
-            <p className="text-yellow-800">
-              ⚠️ <strong>注意：</strong>修改IP地址后，相关的路由表配置可能需要手动调整。
-            </p>
-          </div>
+          {!isSwitch && (
+            <div className="p-3 bg-yellow-50 rounded text-sm">
+              <p className="text-yellow-800">
+                ⚠️ <strong>注意：</strong>修改IP地址后，相关的路由表配置可能需要手动调整。
+              </p>
+            </div>
+          )}
         </div>
 
         <div className="mt-6 flex justify-between items-center">
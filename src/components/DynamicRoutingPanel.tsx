@@ -0,0 +1,152 @@
+import React from 'react';
+import { Device, DynamicRoutingConfig } from '../types';
+import { useNetworkStore } from '../store/useNetworkStore';
+import { getStaticRoutes } from '../utils/ripUtils';
+import { OSPF_DEFAULT_COST, getConnectionCost } from '../utils/ospfUtils';
+
+interface DynamicRoutingPanelProps {
+  device: Device;
+}
+
+const MODE_OPTIONS: Array<{ mode: 'static' | DynamicRoutingConfig['protocol']; label: string; active: string }> = [
+  { mode: 'static', label: '✍️ 静态路由', active: 'border-blue-500 bg-blue-50 text-blue-700' },
+  { mode: 'rip', label: '🔄 RIP（距离矢量）', active: 'border-violet-500 bg-violet-50 text-violet-700' },
+  { mode: 'ospf', label: '🗺️ OSPF（链路状态）', active: 'border-sky-500 bg-sky-50 text-sky-700' }
+];
+
+export const DynamicRoutingPanel: React.FC<DynamicRoutingPanelProps> = ({ device }) => {
+  const { devices, connections, updateDevice, setConnectionCost, runDynamicRouting, isSimulating } = useNetworkStore();
+
+  // 实时从store获取最新的设备数据（收敛后路由表会更新）
+  const currentDevice = devices.find(d => d.id === device.id) || device;
+  const config = currentDevice.dynamicRouting;
+  const mode = config?.protocol || 'static';
+  const dynamicRouters = devices.filter((d) => d.type === 'router' && d.dynamicRouting);
+  const learnedCount = (currentDevice.routingTable || []).filter((entry) => entry.source === config?.protocol).length;
+  const links = connections.filter((c) => c.source === currentDevice.id || c.target === currentDevice.id);
+
+  const handleModeChange = (newMode: 'static' | DynamicRoutingConfig['protocol']) => {
+    if (newMode === mode) return;
+    // 切换协议时删除原协议自动生成的路由，只保留手动配置的
+    updateDevice(currentDevice.id, {
+      dynamicRouting: newMode === 'static' ? undefined : { protocol: newMode, splitHorizon: config?.splitHorizon ?? true },
+      routingTable: getStaticRoutes(currentDevice.routingTable),
+      spfTree: undefined
+    });
+  };
+
+  const handleCostChange = (connectionId: string, value: string) => {
+    const cost = Number(value);
+    const current = connections.find((c) => c.id === connectionId)?.cost;
+    const next = value.trim() === '' || !Number.isInteger(cost) || cost < 1 ? undefined : cost;
+    if (next === current) return;
+    setConnectionCost(connectionId, next);
+  };
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow">
+      <h3 className="text-lg font-bold mb-3">📡 {currentDevice.name} 动态路由</h3>
+
+      <div className="space-y-3 text-sm">
+        <div className="grid grid-cols-3 gap-2">
+          {MODE_OPTIONS.map((option) => (
+            <button
+              key={option.mode}
+              onClick={() => handleModeChange(option.mode)}
+              className={`py-2 rounded border-2 font-medium ${
+                mode === option.mode ? option.active : 'border-gray-300 text-gray-600'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {config?.protocol === 'rip' && (
+          <label className="flex items-start gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={config.splitHorizon}
+              onChange={(e) => updateDevice(currentDevice.id, { dynamicRouting: { ...config, splitHorizon: e.target.checked } })}
+            />
+            <span>
+              <span className="font-medium">水平分割（split horizon）</span>
+              <span className="block text-xs text-gray-500">从哪个接口学到的路由，就不再从这个接口通告回去</span>
+            </span>
+          </label>
+        )}
+
+        {config?.protocol === 'ospf' && (
+          <div>
+            <div className="font-medium mb-1">链路开销（未填写为 {OSPF_DEFAULT_COST}）：</div>
+            {links.length === 0 ? (
+              <div className="text-xs text-gray-500">该路由器还没有连线</div>
+            ) : (
+              <div className="space-y-1">
+                {links.map((link) => {
+                  const peer = devices.find((d) => d.id === (link.source === currentDevice.id ? link.target : link.source));
+                  return (
+                    <div key={link.id} className="flex items-center gap-2">
+                      <span className="flex-1 text-xs">↔ {peer?.name || '未知设备'}</span>
+                      {/* 输入完成（失去焦点或回车）后才提交，避免每输入一位数字就重新计算一次 */}
+                      <input
+                        key={`${link.id}-${link.cost ?? ''}`}
+                        type="number"
+                        min={1}
+                        defaultValue={link.cost ?? ''}
+                        placeholder={String(getConnectionCost(link))}
+                        onBlur={(e) => handleCostChange(link.id, e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                        disabled={isSimulating}
+                        className="w-20 px-2 py-1 border rounded font-mono text-xs"
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            {currentDevice.spfTree && (
+              <div className="mt-2 p-2 bg-amber-50 rounded text-xs text-amber-800">
+                🌳 最短路径树（画布上的橙色高亮）：
+                {currentDevice.spfTree.filter((node) => node.parent).map((node) => (
+                  <div key={node.router} className="font-mono">
+                    {node.parent} → {node.router}，总开销 {node.cost}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {config && (
+          <div className="p-2 bg-gray-50 rounded text-xs text-gray-600">
+            已通过{config.protocol === 'rip' ? 'RIP学到' : 'OSPF算出'} <strong>{learnedCount}</strong> 条路由；
+            全网共 {dynamicRouters.length} 台路由器启用了动态路由
+            （{dynamicRouters.map((d) => `${d.name}: ${d.dynamicRouting!.protocol.toUpperCase()}`).join('、')}）
+          </div>
+        )}
+
+        <button
+          onClick={runDynamicRouting}
+          disabled={isSimulating || dynamicRouters.length === 0}
+          className="w-full py-2 bg-violet-500 text-white rounded hover:bg-violet-600 disabled:bg-gray-300 font-bold"
+        >
+          ▶ 运行路由协议，观察收敛过程
+        </button>
+      </div>
+
+      <div className="mt-3 p-2 bg-blue-50 rounded text-xs text-blue-700 space-y-1">
+        <p>
+          💡 RIP路由器每一轮把自己的路由表告诉直连邻居，邻居把跳数加1后记下“经过谁、有多远”，
+          直到某一轮谁都没有变化（收敛）。关闭水平分割后删除连线，失效的网络会在路由器之间来回通告，
+          跳数不断增加直到16（不可达），这就是“计数到无穷”。
+        </p>
+        <p>
+          💡 OSPF路由器把自己的链路和开销（LSA）泛洪给全网，每台路由器都掌握完整的拓扑，
+          再以自己为根用Dijkstra算出开销最小的路径。修改链路开销或增删连线后会自动重新计算。
+        </p>
+      </div>
+    </div>
+  );
+};
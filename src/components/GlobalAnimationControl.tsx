@@ -6,11 +6,23 @@ import { useNetworkStore } from '../store/useNetworkStore';
  *
  * 功能：
  * - 控制所有模拟动画的速度（连通测试/DNS/HTTP）
- * - 提供单步模式的"下一步"按钮
+ * - 暂停/继续虚拟时钟，调整倍速
+ * - 单步模式或暂停时提供"下一步"按钮，推进到下一个报文动作
  * - 显示清晰的说明文字，强调这是全局设置
  */
+const SPEED_OPTIONS = [0.5, 1, 2, 4];
+
 export const GlobalAnimationControl: React.FC = () => {
-  const { gradingTools, setAnimationMode, isSimulating, stepForward } = useNetworkStore();
+  const {
+    gradingTools,
+    setAnimationMode,
+    isSimulating,
+    simulationClock,
+    pauseSimulation,
+    resumeSimulation,
+    stepSimulation,
+    setSimulationSpeed
+  } = useNetworkStore();
   const animationMode = gradingTools.animationMode || 'normal';
 
   return (
@@ -25,7 +37,7 @@ export const GlobalAnimationControl: React.FC = () => {
         </p>
       </div>
 
-      {/* 第二行：速度选择器 + 单步按钮（占位） */}
+      {/* 第二行：速度选择器 + 暂停/倍速 + 单步按钮（占位） */}
       <div className="mt-2 flex items-center gap-3">
         {/* 速度选择器 */}
         <div className="w-64">
@@ -40,11 +52,35 @@ export const GlobalAnimationControl: React.FC = () => {
           </select>
         </div>
 
-        {/* 单步按钮（仅单步模式显示，其他模式保留占位） */}
+        {/* 暂停/继续和倍速（单步模式下时钟始终暂停） */}
+        {animationMode !== 'step' && (
+          <>
+            <button
+              onClick={simulationClock.paused ? resumeSimulation : pauseSimulation}
+              className="px-3 py-2 bg-white border-2 border-purple-300 text-purple-800 rounded-lg hover:bg-purple-100
+                         font-medium text-sm shadow-sm whitespace-nowrap"
+              title="暂停后报文停在原地，可用“下一步”逐个推进"
+            >
+              {simulationClock.paused ? '▶️ 继续' : '⏸️ 暂停'}
+            </button>
+            <select
+              value={simulationClock.speed}
+              onChange={(e) => setSimulationSpeed(Number(e.target.value))}
+              className="px-2 py-2 border-2 border-purple-300 rounded-lg bg-white text-sm font-medium shadow-sm"
+              title="动画倍速"
+            >
+              {SPEED_OPTIONS.map((speed) => (
+                <option key={speed} value={speed}>{speed}×</option>
+              ))}
+            </select>
+          </>
+        )}
+
+        {/* 单步按钮（单步模式或暂停时显示，其他时候保留占位） */}
         <div className="w-24">
-          {animationMode === 'step' && (
+          {simulationClock.paused && (
             <button
-              onClick={stepForward}
+              onClick={stepSimulation}
               disabled={!isSimulating}
               className="w-full px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700
                          disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm
@@ -61,6 +97,7 @@ export const GlobalAnimationControl: React.FC = () => {
       <div className="mt-2 pt-2 border-t border-purple-200">
         <p className="text-xs text-purple-600">
           💡 <strong>单步模式</strong>：单步展示通信过程 |
+          <strong className="ml-2">暂停</strong>：报文停在原地 |
           <strong className="ml-2">快速模式</strong>：快速验证配置
         </p>
       </div>
@@ -0,0 +1,265 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Device, SimulationResult } from '../types';
+import { useNetworkStore } from '../store/useNetworkStore';
+import { DNSResolver } from '../utils/dnsResolver';
+import { HTTPHandler } from '../utils/httpHandler';
+import {
+  HostCommandEffect,
+  executeHostCommand,
+  formatCurlResult,
+  formatNslookup,
+  formatUnresolvedHost,
+  formatWindowsPing,
+  formatWindowsTracert,
+  getHostPrompt
+} from '../utils/hostCommands';
+
+/**
+ * 终端设备命令提示符（仿 Windows）
+ *
+ * 功能：
+ * - 在PC、服务器上输入 ipconfig、ping、tracert、nslookup、arp、curl 等命令
+ * - 需要发送报文的命令与测试工具、浏览器使用同一套模拟，画布上同步播放动画
+ * - 动画结束后按 Windows 的格式输出结果；↑↓ 翻看历史命令，cls 清屏
+ */
+interface HostCommandPromptProps {
+  device: Device;
+}
+
+// 终端最多保留的行数
+const MAX_LINES = 500;
+
+// 正在等待结果的通信流：结束后由 onFinish 给出要输出的结果；
+// 返回空表示又发起了下一个通信流（如 curl 先查DNS再发HTTP请求）
+interface PendingFlow {
+  flowId: string;
+  onFinish: (result: SimulationResult) => string[] | undefined;
+}
+
+const BANNER = [
+  'Microsoft Windows [版本 10.0.19045]',
+  '(c) Microsoft Corporation。保留所有权利。',
+  ''
+];
+
+export const HostCommandPrompt: React.FC<HostCommandPromptProps> = ({ device }) => {
+  const {
+    devices,
+    connections,
+    flows,
+    clearARPCache,
+    simulatePing,
+    simulateTraceroute,
+    simulateDNSQuery,
+    simulateHTTPRequest
+  } = useNetworkStore();
+  const [lines, setLines] = useState<string[]>(BANNER);
+  const [input, setInput] = useState('');
+  const [history, setHistory] = useState<string[]>([]);
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const [pending, setPending] = useState<PendingFlow | null>(null);
+  const outputRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // 实时从store获取最新的设备数据
+  const currentDevice = devices.find((d) => d.id === device.id) || device;
+  const context = { device: currentDevice, devices, connections };
+  const prompt = getHostPrompt(currentDevice);
+  const sourceIP = currentDevice.ip || currentDevice.ipv6 || '';
+
+  // 切换设备时打开新的命令提示符
+  useEffect(() => {
+    setLines(BANNER);
+    setInput('');
+    setHistory([]);
+    setHistoryIndex(null);
+    setPending(null);
+  }, [device.id]);
+
+  useEffect(() => {
+    outputRef.current?.scrollTo({ top: outputRef.current.scrollHeight });
+  }, [lines]);
+
+  const append = (newLines: string[]) => {
+    setLines((previous) => [...previous, ...newLines].slice(-MAX_LINES));
+  };
+
+  // 通信流结束后输出结果；流被停止或清除时视为按了 Ctrl+C
+  useEffect(() => {
+    if (!pending) return;
+    const flow = flows.find((f) => f.id === pending.flowId);
+    if (flow?.status === 'running') return;
+    setPending(null);
+    const output = !flow?.result || flow.status === 'stopped' ? ['^C'] : pending.onFinish(flow.result);
+    if (output) append([...output, '']);
+    inputRef.current?.focus();
+  }, [flows, pending]);
+
+  const runCurl = (effect: Extract<HostCommandEffect, { type: 'curl' }>) => {
+    const httpHandler = new HTTPHandler(devices);
+    const request = { method: 'GET' as const, url: effect.url, domain: '', sourceIP, targetIP: effect.host, port: effect.port };
+
+    const sendRequest = (targetIP: string, response = httpHandler.handleDirectIPRequest({ ...request, targetIP })) => {
+      setPending({
+        flowId: simulateHTTPRequest(sourceIP, targetIP, response.success, response.statusCode, undefined, response.message, effect.port),
+        onFinish: (result) => formatCurlResult(effect.host, effect.port, response, result, effect.includeHeaders)
+      });
+    };
+
+    if (!effect.dnsServerIP) {
+      sendRequest(effect.host);
+      return;
+    }
+    // 域名：先向DNS服务器查询，查询报文往返成功后再发HTTP请求
+    const dnsServerIP = effect.dnsServerIP;
+    setPending({
+      flowId: simulateDNSQuery(sourceIP, dnsServerIP, effect.host),
+      onFinish: (result) => {
+        const { response, dnsResult } = httpHandler.handleRequest({ ...request, domain: effect.host, targetIP: '' }, dnsServerIP);
+        if (!result.success || !dnsResult?.resolvedIP) {
+          return [`curl: (6) Could not resolve host: ${effect.host}`];
+        }
+        sendRequest(dnsResult.resolvedIP, response);
+        return undefined;
+      }
+    });
+  };
+
+  // ping/tracert 的目标是域名时先向DNS服务器查询（与 curl 相同），查询报文往返成功后再发出报文
+  const runWithTarget = (
+    effect: Extract<HostCommandEffect, { type: 'ping' | 'tracert' }>,
+    send: (destIP: string, host?: string) => void
+  ) => {
+    const dnsServerIP = effect.dnsServerIP;
+    if (!dnsServerIP) {
+      send(effect.host);
+      return;
+    }
+    setPending({
+      flowId: simulateDNSQuery(sourceIP, dnsServerIP, effect.host),
+      onFinish: (result) => {
+        const dnsResult = result.success
+          ? new DNSResolver(devices).resolveDomain({ domain: effect.host, sourceIP, dnsServerIP })
+          : null;
+        if (!dnsResult?.resolvedIP) {
+          return formatUnresolvedHost(effect.type, effect.host);
+        }
+        send(dnsResult.resolvedIP, effect.host);
+        return undefined;
+      }
+    });
+  };
+
+  const applyEffect = (effect: HostCommandEffect) => {
+    switch (effect.type) {
+      case 'ping':
+        runWithTarget(effect, (destIP, host) => setPending({
+          flowId: simulatePing(sourceIP, destIP, { count: effect.count }),
+          onFinish: (result) => (result.pingStatistics ? formatWindowsPing(result.pingStatistics, host) : ['', result.message])
+        }));
+        break;
+      case 'tracert':
+        runWithTarget(effect, (destIP, host) => setPending({
+          flowId: simulateTraceroute(sourceIP, destIP),
+          onFinish: (result) => formatWindowsTracert(context, destIP, result.tracerouteHops || [], host)
+        }));
+        break;
+      case 'nslookup':
+        setPending({
+          flowId: simulateDNSQuery(sourceIP, effect.serverIP, effect.domain),
+          onFinish: (result) => {
+            const dnsResult = result.success
+              ? new DNSResolver(devices).resolveDomain({ domain: effect.domain, sourceIP, dnsServerIP: effect.serverIP })
+              : null;
+            return formatNslookup(context, effect.serverIP, effect.domain, dnsResult);
+          }
+        });
+        break;
+      case 'curl':
+        runCurl(effect);
+        break;
+      case 'clear-arp':
+        clearARPCache(currentDevice.id);
+        break;
+    }
+  };
+
+  const runCommand = (line: string) => {
+    const result = executeHostCommand(context, line);
+    // 发送报文的命令等通信流结束后再输出结果
+    const waitsForFlow = result.effect && result.effect.type !== 'clear-arp';
+    if (result.clearScreen) {
+      setLines([]);
+    } else {
+      append([`${prompt}${line}`, ...result.output, ...(waitsForFlow ? [] : [''])]);
+    }
+    if (line.trim()) {
+      setHistory((previous) => [...previous.filter((entry) => entry !== line), line]);
+    }
+    setHistoryIndex(null);
+    setInput('');
+    if (result.effect) applyEffect(result.effect);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      runCommand(input);
+    } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      if (history.length === 0) return;
+      const index = e.key === 'ArrowUp'
+        ? Math.max(0, (historyIndex ?? history.length) - 1)
+        : (historyIndex ?? history.length) + 1;
+      if (index >= history.length) {
+        setHistoryIndex(null);
+        setInput('');
+      } else {
+        setHistoryIndex(index);
+        setInput(history[index]);
+      }
+    }
+  };
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-bold">🖥️ {currentDevice.name} 命令提示符</h3>
+        <button
+          onClick={() => setLines([])}
+          className="px-3 py-1 bg-gray-200 text-gray-700 rounded text-xs hover:bg-gray-300"
+        >
+          清屏
+        </button>
+      </div>
+
+      <div
+        ref={outputRef}
+        onClick={() => inputRef.current?.focus()}
+        className="h-72 overflow-y-auto bg-black text-gray-200 font-mono text-xs p-3 rounded cursor-text"
+      >
+        {lines.map((line, index) => (
+          <div key={index} className="whitespace-pre">{line || ' '}</div>
+        ))}
+        <div className="flex whitespace-pre">
+          <span>{pending ? '' : prompt}</span>
+          <input
+            ref={inputRef}
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            disabled={!!pending}
+            spellCheck={false}
+            autoComplete="off"
+            className="flex-1 bg-transparent outline-none text-gray-200 font-mono"
+          />
+        </div>
+      </div>
+
+      <p className="mt-2 text-xs text-gray-500">
+        支持 ipconfig [/all]、ping [-n 次数]、tracert、nslookup 域名 [DNS服务器]、arp -a、arp -d、curl [-i] URL、cls、help。
+        ping/tracert 可以直接使用域名（先用本机的DNS服务器解析），↑↓ 翻看历史命令。
+      </p>
+    </div>
+  );
+};
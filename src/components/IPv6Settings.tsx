@@ -0,0 +1,192 @@
+import React from 'react';
+import { Device } from '../types';
+import { useNetworkStore } from '../store/useNetworkStore';
+import { validateIPv6Gateway } from '../utils/ipValidator';
+import { IPV6_DEFAULT_PREFIX_LENGTH, calculateIPv6Prefix, getLinkLocalAddress, isIPv6Address } from '../utils/ipv6Utils';
+
+// 编辑中的IPv6配置（输入框里的文字，保存时再校验）
+export interface IPv6InterfaceDraft {
+  address: string;
+  prefixLength: string;
+}
+
+export interface IPv6HostDraft extends IPv6InterfaceDraft {
+  mode: NonNullable<Device['ipv6Mode']>;
+  gateway: string;
+}
+
+export const getIPv6InterfaceDrafts = (device: Device): Record<string, IPv6InterfaceDraft> =>
+  Object.fromEntries((device.interfaces || []).map((iface) => [iface.name, {
+    address: iface.ipv6 || '',
+    prefixLength: String(iface.ipv6PrefixLength || IPV6_DEFAULT_PREFIX_LENGTH)
+  }]));
+
+export const getIPv6HostDraft = (device: Device): IPv6HostDraft => ({
+  mode: device.ipv6Mode || 'static',
+  address: device.ipv6 || '',
+  prefixLength: String(device.interfaces?.[0]?.ipv6PrefixLength || IPV6_DEFAULT_PREFIX_LENGTH),
+  gateway: device.ipv6Gateway || ''
+});
+
+interface IPv6SettingsProps {
+  device: Device;
+  interfaces: Record<string, IPv6InterfaceDraft>;
+  onInterfaceChange: (interfaceName: string, draft: IPv6InterfaceDraft) => void;
+  host: IPv6HostDraft;
+  onHostChange: (draft: IPv6HostDraft) => void;
+}
+
+export const IPv6Settings: React.FC<IPv6SettingsProps> = ({
+  device,
+  interfaces,
+  onInterfaceChange,
+  host,
+  onHostChange
+}) => {
+  const { devices, configureIPv6SLAAC } = useNetworkStore();
+  const isRouter = device.type === 'router';
+
+  // 终端设备：按当前输入实时检查IPv6默认网关（与路由模拟使用同一套规则）
+  const prefixLength = Number(host.prefixLength) || IPV6_DEFAULT_PREFIX_LENGTH;
+  const gatewayCheck = !isRouter && isIPv6Address(host.address) && host.gateway.trim()
+    ? validateIPv6Gateway(host.address, prefixLength, host.gateway.trim(), devices)
+    : null;
+
+  const handleSLAAC = () => {
+    const result = configureIPv6SLAAC(device.id);
+    alert(result.message);
+    if (result.success) {
+      const configured = useNetworkStore.getState().devices.find((d) => d.id === device.id);
+      if (configured) onHostChange(getIPv6HostDraft(configured));
+    }
+  };
+
+  if (isRouter) {
+    return (
+      <div className="p-3 bg-teal-50 border border-teal-200 rounded text-sm space-y-2">
+        <div className="font-bold text-teal-900">🌐 IPv6地址（双栈）</div>
+        {device.interfaces.map((iface) => {
+          const draft = interfaces[iface.name] || { address: '', prefixLength: String(IPV6_DEFAULT_PREFIX_LENGTH) };
+          return (
+            <div key={iface.name} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="font-mono text-xs w-12">{iface.name}</span>
+                <input
+                  type="text"
+                  value={draft.address}
+                  onChange={(e) => onInterfaceChange(iface.name, { ...draft, address: e.target.value })}
+                  className="flex-1 min-w-0 px-2 py-1 border rounded bg-white font-mono text-xs"
+                  placeholder="2001:db8:1::1（留空不启用）"
+                />
+                <span className="text-xs text-gray-500">/</span>
+                <input
+                  type="number"
+                  value={draft.prefixLength}
+                  onChange={(e) => onInterfaceChange(iface.name, { ...draft, prefixLength: e.target.value })}
+                  className="w-14 px-2 py-1 border rounded bg-white font-mono text-xs"
+                  min="1"
+                  max="128"
+                />
+              </div>
+              {draft.address.trim() && (
+                <div className="text-xs text-teal-700 font-mono pl-14">
+                  链路本地: {getLinkLocalAddress(device, iface)}
+                </div>
+              )}
+            </div>
+          );
+        })}
+        <p className="text-xs text-teal-700">
+          启用IPv6的接口会自动生成链路本地地址（fe80::，由接口MAC按EUI-64生成），并向所连主机通告 /64 前缀供SLAAC使用。
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 bg-teal-50 border border-teal-200 rounded text-sm space-y-2">
+      <div className="font-bold text-teal-900">🌐 IPv6地址（双栈）</div>
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => onHostChange({ ...host, mode: 'static' })}
+          className={`py-1 rounded border-2 text-xs font-bold ${
+            host.mode === 'static' ? 'border-teal-500 bg-white text-teal-700' : 'border-gray-300 text-gray-600'
+          }`}
+        >
+          ✍️ 手动配置
+        </button>
+        <button
+          onClick={() => onHostChange({ ...host, mode: 'slaac' })}
+          className={`py-1 rounded border-2 text-xs font-bold ${
+            host.mode === 'slaac' ? 'border-teal-500 bg-white text-teal-700' : 'border-gray-300 text-gray-600'
+          }`}
+        >
+          🔄 自动配置 (SLAAC)
+        </button>
+      </div>
+
+      {host.mode === 'slaac' ? (
+        <>
+          <div className="font-mono text-xs text-teal-900 space-y-0.5">
+            <div>IPv6地址: {host.address ? `${host.address}/${host.prefixLength}` : '未获取'}</div>
+            <div>前缀: {host.address ? `${calculateIPv6Prefix(host.address, prefixLength)}/${prefixLength}` : '-'}</div>
+            <div>默认网关: {host.gateway || '-'}</div>
+          </div>
+          <button
+            onClick={handleSLAAC}
+            className="w-full py-2 bg-teal-500 text-white rounded hover:bg-teal-600 font-bold"
+          >
+            🔄 {host.address ? '重新获取' : '获取'}IPv6地址
+          </button>
+          <p className="text-xs text-teal-700">
+            主机收到所连路由器的路由器通告（RA），用通告的 /64 前缀加上由自己MAC生成的接口标识组成地址，网关为路由器的链路本地地址。
+          </p>
+        </>
+      ) : (
+        <>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={host.address}
+              onChange={(e) => onHostChange({ ...host, address: e.target.value })}
+              className="flex-1 min-w-0 px-2 py-1 border rounded bg-white font-mono text-xs"
+              placeholder="2001:db8:1::10（留空不启用）"
+            />
+            <span className="text-xs text-gray-500">/</span>
+            <input
+              type="number"
+              value={host.prefixLength}
+              onChange={(e) => onHostChange({ ...host, prefixLength: e.target.value })}
+              className="w-14 px-2 py-1 border rounded bg-white font-mono text-xs"
+              min="1"
+              max="128"
+            />
+          </div>
+          <input
+            type="text"
+            value={host.gateway}
+            onChange={(e) => onHostChange({ ...host, gateway: e.target.value })}
+            className={`w-full px-2 py-1 border rounded bg-white font-mono text-xs ${
+              gatewayCheck && !gatewayCheck.valid ? 'border-red-500' : ''
+            }`}
+            placeholder="IPv6默认网关，如 fe80::1 或 2001:db8:1::1"
+          />
+          {gatewayCheck && !gatewayCheck.valid && (
+            <p className="text-xs text-red-700">❌ {gatewayCheck.error}</p>
+          )}
+          {gatewayCheck?.valid && gatewayCheck.router && (
+            <p className="text-xs text-green-700">
+              ✅ 网关是 {gatewayCheck.router.name} 的 {gatewayCheck.iface?.name} 接口
+            </p>
+          )}
+        </>
+      )}
+
+      {host.address && (
+        <div className="text-xs text-teal-700 font-mono">
+          链路本地: {getLinkLocalAddress(device, device.interfaces?.[0])}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,36 +1,41 @@
-import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { useNetworkStore } from '../store/useNetworkStore';
-import { Device } from '../types';
+import { DHCPMessage, Device, PacketMovement, RoutingUpdateRound, TracerouteHop, TrafficFlow } from '../types';
 import { RoundTripAnimation } from './RoundTripAnimation';
+import { useSimulationFlow } from './useSimulationFlow';
+import { formatRouteDestination } from '../utils/routeUtils';
+import { RIP_INFINITY } from '../utils/ripUtils';
+import { getConnectionCost } from '../utils/ospfUtils';
+import { DEFAULT_SUBNET_MASK, calculateSubnet, maskToCIDR } from '../utils/subnetUtils';
+import { LINK_KIND_LABELS, describeLinkEnd, getLinkInterface, getLinkKind, getLinkProperties, isConnectionUp, isInterfaceUp } from '../utils/linkUtils';
 
 interface InteractiveCanvasProps {
   onDeviceClick: (deviceId: string) => void;
   onDeviceDoubleClick: (deviceId: string) => void;
-  animationPath?: string[];
-  animationType?: 'ping' | 'dns' | 'http' | null;
-  onAnimationComplete?: () => void;
   showDeviceDetails?: boolean;
 }
 
 const DEVICE_VISUALS: Record<Device['type'], { fill: string; icon: string }> = {
   pc: { fill: '#dbeafe', icon: '💻' },
   router: { fill: '#dcfce7', icon: '🔀' },
+  switch: { fill: '#e5e7eb', icon: '🔌' },
   server: { fill: '#e0e7ff', icon: '🖥️' },
   dns: { fill: '#fef3c7', icon: '🔍' },
   web: { fill: '#fee2e2', icon: '🌐' }
 };
 
-const formatNetwork = (ip?: string): string => {
-  if (!ip || !ip.includes('.')) return '未知网段';
-  const parts = ip.split('.');
-  if (parts.length !== 4) return '未知网段';
-  return `${parts[0]}.${parts[1]}.${parts[2]}.0`;
+// 按接口子网掩码显示网段（如 10.1.0.0/16）
+const formatNetwork = (ip?: string, subnetMask: string = DEFAULT_SUBNET_MASK): string => {
+  const subnet = ip ? calculateSubnet(ip, subnetMask) : '';
+  return subnet ? `${subnet}/${maskToCIDR(subnetMask)}` : '未知网段';
 };
 
 const getDeviceDetails = (device: Device): string[] => {
   switch (device.type) {
     case 'pc':
       return [
+        ...(device.ipMode === 'dhcp' ? ['地址: DHCP自动获取'] : []),
+        `网关: ${device.gateway || '未配置'}`,
         `DNS: ${device.dnsServer || '未配置'}`
       ];
     case 'dns': {
@@ -46,11 +51,12 @@ const getDeviceDetails = (device: Device): string[] => {
     }
     case 'router': {
       const table = device.routingTable || [];
-      const lines = [`LAN: ${formatNetwork(device.ip)}`];
+      const lan = device.interfaces?.find(iface => iface.name === 'LAN');
+      const lines = [`LAN: ${formatNetwork(lan?.ip || device.ip, lan?.subnetMask)}`];
       if (table.length === 0) {
         lines.push('路由表: 未配置');
       } else {
-        const entries = table.slice(0, 4).map(entry => `${entry.destination} → ${entry.nextHop || '-'} (${entry.interface || ''})`);
+        const entries = table.slice(0, 4).map(entry => `${formatRouteDestination(entry)} → ${entry.nextHop || '-'} (${entry.interface || ''})`);
         if (table.length > 4) {
           entries.push(`... 共 ${table.length} 条`);
         }
@@ -62,6 +68,20 @@ const getDeviceDetails = (device: Device): string[] => {
       return [
         `端口: ${device.port || 80}`
       ];
+    case 'switch': {
+      const macTable = device.macTable || [];
+      const lines = [`端口: ${device.interfaces.length} 个`];
+      if (macTable.length === 0) {
+        lines.push('MAC表: 空');
+      } else {
+        const entries = macTable.slice(0, 4).map(entry => `${entry.port} → ${entry.device}`);
+        if (macTable.length > 4) {
+          entries.push(`... 共 ${macTable.length} 条`);
+        }
+        lines.push(...entries);
+      }
+      return lines;
+    }
     case 'server':
     default:
       return [];
@@ -71,9 +91,6 @@ const getDeviceDetails = (device: Device): string[] => {
 export const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
   onDeviceClick,
   onDeviceDoubleClick,
-  animationPath = [],
-  animationType = null,
-  onAnimationComplete,
   showDeviceDetails = false
 }) => {
   const {
@@ -82,11 +99,12 @@ export const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
     updateDevice,
     addConnection,
     deleteConnection,
-    simulationResult,
-    gradingTools,
+    setConnectionStatus,
+    setConnectionProperties,
+    setInterfaceStatus,
+    flows,
     selectedDevice,
-    selectDevice,
-    stopSimulation
+    selectDevice
   } = useNetworkStore();
 
   // 缓存devicePositions，避免每次渲染都创建新对象
@@ -98,20 +116,17 @@ export const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
     }, {} as Record<string, { x: number; y: number }>);
   }, [devices]);
 
-  // 缓存onComplete回调，避免每次渲染都创建新函数
-  const handleAnimationComplete = useCallback(() => {
-    // 动画完成后，结束模拟状态
-    stopSimulation();
-    if (onAnimationComplete) {
-      onAnimationComplete();
-    }
-  }, [onAnimationComplete, stopSimulation]);
+  // OSPF：显示链路开销，以及选中路由器的最短路径树
+  const showLinkCosts = devices.some((d) => d.dynamicRouting?.protocol === 'ospf');
+  const spfRoot = devices.find(
+    (d) => d.id === selectedDevice?.id && d.dynamicRouting?.protocol === 'ospf' && d.spfTree
+  );
 
-  // 缓存路径数组，避免引用变化导致重新渲染
-  const cachedRequestPath = useMemo(() => simulationResult?.requestPath || [], [simulationResult?.requestPath?.join('-')]);
-  const cachedResponsePath = useMemo(() => simulationResult?.responsePath || [], [simulationResult?.responsePath?.join('-')]);
-  const cachedRequestLabel = useMemo(() => simulationResult?.requestLabel || '', [simulationResult?.requestLabel]);
-  const cachedResponseLabel = useMemo(() => simulationResult?.responseLabel || '', [simulationResult?.responseLabel]);
+  // 正在进行的通信流：结果就绪后各自播放动画，结束后从画布上消失
+  const runningFlows = useMemo(
+    () => flows.filter((flow) => flow.status === 'running' && flow.result),
+    [flows]
+  );
 
   // 拖拽状态
   const [draggingDevice, setDraggingDevice] = useState<string | null>(null);
@@ -121,6 +136,9 @@ export const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
   const [connectingFrom, setConnectingFrom] = useState<string | null>(null);
   const [tempLineEnd, setTempLineEnd] = useState<{ x: number; y: number } | null>(null);
 
+  // 点击连接线弹出的操作菜单
+  const [selectedConnectionId, setSelectedConnectionId] = useState<string | null>(null);
+
   // 画布视口状态（缩放和平移）
   // 初始缩放0.65，靠左上显示，确保所有设备完整显示（设备范围: 45-755px宽, 45-515px高）
   const [viewport, setViewport] = useState({
@@ -169,19 +187,12 @@ export const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
           );
 
           if (!existingConnection) {
-            // 检查物理连接合法性
-            const sourceDevice = devices.find(d => d.id === connectingFrom);
-            const targetDevice = device;
-
-            if (isPhysicalConnectionValid(sourceDevice!, targetDevice)) {
-              addConnection({
-                id: `conn-${Date.now()}`,
-                source: connectingFrom,
-                target: device.id
-              });
-            } else {
-              alert('⚠️ 物理连接不合法：请确保设备在同一网段或通过合适的接口连接');
-            }
+            // 连线是否合法（终端能否直连、IP是否在路由器LAN网段内等）由 addConnection 按子网掩码检查
+            addConnection({
+              id: `conn-${Date.now()}`,
+              source: connectingFrom,
+              target: device.id
+            });
           }
         }
         // 完成连接，重置状态
@@ -203,69 +214,6 @@ export const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
     e.stopPropagation();
   };
 
-  // 物理连接合法性检查
-  const isPhysicalConnectionValid = (source: Device, target: Device): boolean => {
-    // 检查IP网段
-    const getNetwork = (ip: string) => {
-      const parts = ip.split('.');
-      return `${parts[0]}.${parts[1]}.${parts[2]}`;
-    };
-
-    const sourceNet = getNetwork(source.ip);
-    const targetNet = getNetwork(target.ip);
-
-    // 1. 路由器之间可以跨网段连接（骨干网）
-    if (source.type === 'router' && target.type === 'router') {
-      return true;
-    }
-
-    // 2. PC之间只能在同一网段连接
-    if (source.type === 'pc' && target.type === 'pc') {
-      return sourceNet === targetNet;
-    }
-
-    // 3. PC连接路由器：必须在同一网段
-    if (source.type === 'pc' && target.type === 'router') {
-      return target.interfaces?.some(iface => getNetwork(iface.ip) === sourceNet) || false;
-    }
-
-    if (source.type === 'router' && target.type === 'pc') {
-      return source.interfaces?.some(iface => getNetwork(iface.ip) === targetNet) || false;
-    }
-
-    // 4. DNS服务器连接
-    if (source.type === 'dns' || target.type === 'dns') {
-      const dnsDevice = source.type === 'dns' ? source : target;
-      const otherDevice = source.type === 'dns' ? target : source;
-      const dnsNet = getNetwork(dnsDevice.ip);
-      const otherNet = getNetwork(otherDevice.ip);
-
-      // DNS可以连接到路由器（任意网段）
-      if (otherDevice.type === 'router') {
-        return otherDevice.interfaces?.some(iface => getNetwork(iface.ip) === dnsNet) || false;
-      }
-      // DNS连接PC/其他服务器：必须同网段
-      return dnsNet === otherNet;
-    }
-
-    // 5. Web服务器连接
-    if (source.type === 'web' || target.type === 'web') {
-      const webDevice = source.type === 'web' ? source : target;
-      const otherDevice = source.type === 'web' ? target : source;
-      const webNet = getNetwork(webDevice.ip);
-      const otherNet = getNetwork(otherDevice.ip);
-
-      // Web可以连接到路由器（任意网段）
-      if (otherDevice.type === 'router') {
-        return otherDevice.interfaces?.some(iface => getNetwork(iface.ip) === webNet) || false;
-      }
-      // Web连接PC/其他服务器：必须同网段
-      return webNet === otherNet;
-    }
-
-    return true;
-  };
-
   // 处理设备点击
   const handleDeviceClick = (e: React.MouseEvent, deviceId: string) => {
     // 阻止事件冒泡到画布，避免触发取消选中
@@ -413,35 +361,41 @@ export const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
 
     if (isBackgroundClick) {
       selectDevice(null);
+      setSelectedConnectionId(null);
     }
   };
 
-  // 处理连接线点击（删除）
+  // 处理连接线点击（弹出开关/删除菜单）
   const handleConnectionClick = (e: React.MouseEvent, connectionId: string) => {
     e.stopPropagation();
-    if (confirm('确定删除这条连接？')) {
-      deleteConnection(connectionId);
-    }
+    setSelectedConnectionId(selectedConnectionId === connectionId ? null : connectionId);
   };
 
-  // 检查连接是否在动画路径中
-  const isConnectionActive = (sourceId: string, targetId: string): boolean => {
-    if (animationPath.length === 0) return false;
-
-    const sourceName = devices.find(d => d.id === sourceId)?.name.toLowerCase() || '';
-    const targetName = devices.find(d => d.id === targetId)?.name.toLowerCase() || '';
-
-    for (let i = 0; i < animationPath.length - 1; i++) {
-      const current = animationPath[i].toLowerCase();
-      const next = animationPath[i + 1].toLowerCase();
+  // 链路属性输入完成后提交，留空表示使用链路类型的默认值
+  const handleLinkPropertyChange = (connectionId: string, key: 'latency' | 'bandwidth' | 'lossRate', value: string) => {
+    const number = Number(value);
+    const next = value.trim() === '' || !Number.isFinite(number) || number < 0 ? undefined : number;
+    if (next === connections.find((c) => c.id === connectionId)?.[key]) return;
+    setConnectionProperties(connectionId, { [key]: next });
+  };
 
-      if ((current === sourceName && next === targetName) ||
-          (current === targetName && next === sourceName)) {
-        return true;
-      }
+  const handleDeleteConnection = (connectionId: string) => {
+    setSelectedConnectionId(null);
+    if (confirm('确定删除这条连接？')) {
+      deleteConnection(connectionId);
     }
+  };
 
-    return false;
+  // 经过这条连接的通信流（多条流共享同一条链路时分别画出）
+  const getFlowsOnConnection = (sourceId: string, targetId: string) => {
+    const sourceName = devices.find(d => d.id === sourceId)?.name;
+    const targetName = devices.find(d => d.id === targetId)?.name;
+    return runningFlows.filter((flow) => getFlowPaths(flow).some((path) =>
+      path.some((name, i) =>
+        i > 0 &&
+        ((path[i - 1] === sourceName && name === targetName) || (path[i - 1] === targetName && name === sourceName))
+      )
+    ));
   };
 
   // 重置视口
@@ -542,7 +496,10 @@ export const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
 
             if (!source || !target) return null;
 
-            const isActive = isConnectionActive(conn.source, conn.target);
+            const linkFlows = getFlowsOnConnection(conn.source, conn.target);
+            const isActive = linkFlows.length > 0;
+            // 连线或任一端接口被关闭时画成红色虚线
+            const isDown = !isConnectionUp(conn, devices);
 
             return (
               <g key={conn.id}>
@@ -552,13 +509,51 @@ export const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
                   y1={source.position.y}
                   x2={target.position.x}
                   y2={target.position.y}
-                  stroke={isActive ? '#10b981' : '#9ca3af'}
+                  stroke={isActive ? (linkFlows.length === 1 ? linkFlows[0].color : '#d1d5db') : isDown ? '#ef4444' : '#9ca3af'}
                   strokeWidth={isActive ? '4' : '2'}
+                  strokeDasharray={isDown ? '6,4' : undefined}
                   className={`transition-all cursor-pointer hover:stroke-red-500 ${
                     isActive ? 'path-highlight' : ''
                   }`}
                   onClick={(e) => handleConnectionClick(e, conn.id)}
                 />
+                {/* 多条流共享这条链路：每条流一条平行的彩色线，并标出共享的流数 */}
+                {linkFlows.length > 1 && (() => {
+                  const dx = target.position.x - source.position.x;
+                  const dy = target.position.y - source.position.y;
+                  const length = Math.hypot(dx, dy) || 1;
+                  const normal = { x: -dy / length, y: dx / length };
+                  return (
+                    <g className="pointer-events-none">
+                      {linkFlows.map((flow, index) => {
+                        const offset = (index - (linkFlows.length - 1) / 2) * 5;
+                        return (
+                          <line
+                            key={flow.id}
+                            x1={source.position.x + normal.x * offset}
+                            y1={source.position.y + normal.y * offset}
+                            x2={target.position.x + normal.x * offset}
+                            y2={target.position.y + normal.y * offset}
+                            stroke={flow.color}
+                            strokeWidth="3"
+                            className="path-highlight"
+                          />
+                        );
+                      })}
+                      <text
+                        x={(source.position.x + target.position.x) / 2 + normal.x * 16}
+                        y={(source.position.y + target.position.y) / 2 + normal.y * 16}
+                        fontSize="11"
+                        fontWeight="bold"
+                        textAnchor="middle"
+                        fill="#4b5563"
+                        style={{ textShadow: '0 0 3px white' }}
+                      >
+                        共享 ×{linkFlows.length}
+                      </text>
+                    </g>
+                  );
+                })()}
                 {/* 连接线中点（可点击区域） */}
                 <circle
                   cx={(source.position.x + target.position.x) / 2}
@@ -568,10 +563,99 @@ export const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
                   className="cursor-pointer hover:fill-red-300 hover:fill-opacity-50"
                   onClick={(e) => handleConnectionClick(e, conn.id)}
                 />
+                {/* 两端所接的接口和地址 */}
+                {(() => {
+                  const dx = target.position.x - source.position.x;
+                  const dy = target.position.y - source.position.y;
+                  const length = Math.hypot(dx, dy) || 1;
+                  const distance = Math.min(50, length * 0.3);
+                  const ends = [
+                    { device: source, peer: target, sign: 1 },
+                    { device: target, peer: source, sign: -1 }
+                  ];
+                  return (
+                    <g className="pointer-events-none">
+                      {ends.map(({ device, peer, sign }) => {
+                        const label = describeLinkEnd(device, peer, conn);
+                        if (!label) return null;
+                        return (
+                          <text
+                            key={device.id}
+                            x={device.position.x + (sign * dx / length) * distance - (dy / length) * 8}
+                            y={device.position.y + (sign * dy / length) * distance + (dx / length) * 8}
+                            fontSize="9"
+                            textAnchor="middle"
+                            fill="#374151"
+                            className="font-mono"
+                            style={{ textShadow: '0 0 3px white' }}
+                          >
+                            {label}
+                          </text>
+                        );
+                      })}
+                    </g>
+                  );
+                })()}
+                {/* 链路开销（OSPF） */}
+                {showLinkCosts && (
+                  <text
+                    x={(source.position.x + target.position.x) / 2}
+                    y={(source.position.y + target.position.y) / 2 - 14}
+                    fontSize="11"
+                    fontWeight="bold"
+                    textAnchor="middle"
+                    fill="#0369a1"
+                    className="pointer-events-none select-none"
+                    style={{ textShadow: '0 0 3px white' }}
+                  >
+                    开销 {getConnectionCost(conn)}
+                  </text>
+                )}
               </g>
             );
           })}
 
+          {/* 选中路由器的最短路径树（OSPF） */}
+          {spfRoot && !runningFlows.some((flow) => flow.type === 'routing') && (
+            <g className="pointer-events-none">
+              {spfRoot.spfTree!.filter((node) => node.parent).map((node) => {
+                const points = node.path
+                  .map((name) => devices.find((d) => d.name === name)?.position)
+                  .filter((position): position is { x: number; y: number } => !!position);
+                return (
+                  <polyline
+                    key={`spf-${node.router}`}
+                    points={points.map((p) => `${p.x},${p.y}`).join(' ')}
+                    fill="none"
+                    stroke="#f59e0b"
+                    strokeWidth="8"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    opacity={0.55}
+                  />
+                );
+              })}
+              {spfRoot.spfTree!.map((node) => {
+                const device = devices.find((d) => d.name === node.router);
+                if (!device) return null;
+                return (
+                  <text
+                    key={`spf-cost-${node.router}`}
+                    x={device.position.x}
+                    y={device.position.y - 44}
+                    fontSize="11"
+                    fontWeight="bold"
+                    textAnchor="middle"
+                    fill="#b45309"
+                    style={{ textShadow: '0 0 3px white' }}
+                  >
+                    {node.parent ? `SPF 开销 ${node.cost}` : '🌳 最短路径树的根'}
+                  </text>
+                );
+              })}
+            </g>
+          )}
+
           {/* 临时连接线（正在绘制） */}
           {connectingFrom && tempLineEnd && (
             <line
@@ -644,7 +728,7 @@ export const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
                   fill="#6b7280"
                   className="pointer-events-none select-none"
                 >
-                  {device.ip}
+                  {device.ip || (device.type === 'switch' ? '二层交换机' : device.ipMode === 'dhcp' ? '等待DHCP分配' : '')}
                 </text>
 
                 {/* 详细信息 */}
@@ -675,50 +759,127 @@ export const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
             );
           })}
 
-          {/* 动画效果：Ping (SVG动画) */}
-          {animationType === 'ping' && animationPath.length > 0 && (
-            <AnimatedPacket
-              path={animationPath}
-              devices={devices}
-              animationMode={gradingTools.animationMode || (gradingTools.fastMode ? 'fast' : 'normal')}
-              stepToken={gradingTools.stepToken || 0}
-              onComplete={handleAnimationComplete}
-            />
-          )}
+          {/* 连接线操作菜单：开关链路、开关两端接口、删除 */}
+          {selectedConnectionId &&
+            (() => {
+              const conn = connections.find((c) => c.id === selectedConnectionId);
+              const source = devices.find((d) => d.id === conn?.source);
+              const target = devices.find((d) => d.id === conn?.target);
+              if (!conn || !source || !target) return null;
+              const linkDown = conn.status === 'down';
+              const ends = [
+                { device: source, iface: getLinkInterface(source, target, conn) },
+                { device: target, iface: getLinkInterface(target, source, conn) }
+              ].filter((end) => end.device.type === 'router' && end.iface);
+              const link = getLinkProperties(conn, devices);
+              const propertyFields = [
+                { key: 'latency' as const, label: '时延(ms)', value: conn.latency, placeholder: link.latency },
+                { key: 'bandwidth' as const, label: '带宽(Mbps)', value: conn.bandwidth, placeholder: link.bandwidth },
+                { key: 'lossRate' as const, label: '丢包率(%)', value: conn.lossRate, placeholder: link.lossRate }
+              ];
+              return (
+                <foreignObject
+                  x={(source.position.x + target.position.x) / 2 + 12}
+                  y={(source.position.y + target.position.y) / 2 - 12}
+                  width={200}
+                  height={160 + ends.length * 28}
+                >
+                  <div
+                    className="bg-white border border-gray-300 rounded-md shadow-lg p-1 text-xs space-y-1"
+                    onClick={(e) => e.stopPropagation()}
+                  >
+                    <div className="px-1 font-bold text-gray-700 truncate">
+                      {source.name} ↔ {target.name}
+                    </div>
+                    <button
+                      className="w-full text-left px-2 py-1 rounded hover:bg-gray-100"
+                      onClick={() => setConnectionStatus(conn.id, linkDown ? 'up' : 'down')}
+                    >
+                      {linkDown ? '🟢 恢复链路' : '🔴 断开链路（拔线）'}
+                    </button>
+                    {ends.map(({ device, iface }) => {
+                      const up = isInterfaceUp(iface!);
+                      return (
+                        <button
+                          key={device.id}
+                          className="w-full text-left px-2 py-1 rounded hover:bg-gray-100 truncate"
+                          onClick={() => setInterfaceStatus(device.id, iface!.name, up ? 'down' : 'up')}
+                        >
+                          {up ? '⏻ 关闭' : '⏻ 开启'} {device.name} {iface!.name}
+                          {!up && <span className="ml-1 text-red-500">(shutdown)</span>}
+                        </button>
+                      );
+                    })}
+                    <div className="px-1 pt-1 border-t text-gray-500">{LINK_KIND_LABELS[getLinkKind(source, target)]}</div>
+                    {propertyFields.map((field) => (
+                      <label key={field.key} className="flex items-center gap-1 px-1">
+                        <span className="flex-1 text-gray-600">{field.label}</span>
+                        <input
+                          key={`${conn.id}-${field.key}-${field.value ?? ''}`}
+                          type="number"
+                          min={0}
+                          defaultValue={field.value ?? ''}
+                          placeholder={String(field.placeholder)}
+                          onBlur={(e) => handleLinkPropertyChange(conn.id, field.key, e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                          className="w-16 px-1 py-0.5 border rounded font-mono"
+                        />
+                      </label>
+                    ))}
+                    <button
+                      className="w-full text-left px-2 py-1 rounded hover:bg-red-50 text-red-600"
+                      onClick={() => handleDeleteConnection(conn.id)}
+                    >
+                      🗑️ 删除连线
+                    </button>
+                  </div>
+                </foreignObject>
+              );
+            })()}
+
+          {/* 动画效果：每条正在进行的通信流各播放各的，颜色区分 */}
+          {runningFlows.map((flow) => {
+            const result = flow.result!;
+            switch (flow.type) {
+              case 'ping':
+                return <FlowPacket key={flow.id} flowId={flow.id} color={flow.color} devices={devices} />;
+              case 'dhcp':
+                // DHCP 获取地址 (四步报文交换)
+                return result.dhcpMessages ? (
+                  <AnimatedDHCP key={flow.id} flowId={flow.id} color={flow.color} messages={result.dhcpMessages} devices={devices} />
+                ) : null;
+              case 'routing':
+                // 动态路由收敛 (逐轮交换路由更新)
+                return result.routingRounds ? (
+                  <AnimatedRoutingRounds key={flow.id} flowId={flow.id} color={flow.color} rounds={result.routingRounds} devices={devices} />
+                ) : null;
+              case 'tracert':
+                // 路由追踪 (逐跳探测)
+                return result.tracerouteHops ? (
+                  <AnimatedTraceroute key={flow.id} flowId={flow.id} color={flow.color} hops={result.tracerouteHops} devices={devices} />
+                ) : null;
+              default:
+                return null;
+            }
+          })}
         </g>
       </svg>
 
       {/* 双向动画：DNS和HTTP (DOM动画) */}
-      {(() => {
-        // 检查条件：必须有animationType、是DNS或HTTP、有roundTrip数据、并且requestPath有内容
-        if (!animationType ||
-            (animationType !== 'dns' && animationType !== 'http') ||
-            !simulationResult?.isRoundTrip ||
-            !simulationResult?.requestPath ||
-            simulationResult.requestPath.length === 0) {
-          return null;
-        }
-
-        const animationKey = `${animationType}-${simulationResult.requestPath?.join('-') || ''}`;
-        console.log(`🔑 渲染动画组件，key: ${animationKey}`);
-
-        return (
+      {runningFlows
+        .filter((flow) => (flow.type === 'dns' || flow.type === 'http') && flow.result?.isRoundTrip)
+        .map((flow) => (
           <RoundTripAnimation
-            key={animationKey}
-            requestPath={cachedRequestPath}
-            responsePath={cachedResponsePath}
+            key={flow.id}
+            flowId={flow.id}
+            color={flow.color}
             devicePositions={devicePositions}
-            requestLabel={cachedRequestLabel}
-            responseLabel={cachedResponseLabel}
-            animationType={animationType}
-            onComplete={handleAnimationComplete}
-            httpSuccess={simulationResult.httpSuccess}
+            animationType={flow.type as 'dns' | 'http'}
+            httpSuccess={flow.result!.httpSuccess}
+            responseIsICMP={!!flow.result!.icmpError}
             viewport={viewport}
-            animationMode={gradingTools.animationMode || (gradingTools.fastMode ? 'fast' : 'normal')}
-            stepToken={gradingTools.stepToken || 0}
           />
-        );
-      })()}
+        ))}
 
       {/* 空状态提示 */}
       {devices.length === 0 && (
@@ -733,148 +894,163 @@ export const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
   );
 };
 
-// 动画数据包组件 - 完全重写
-interface AnimatedPacketProps {
-  path: string[];
-  devices: Device[];
-  onComplete?: () => void;
-  animationMode: 'step' | 'normal' | 'fast';
-  stepToken: number;
-}
-
-const AnimatedPacket: React.FC<AnimatedPacketProps> = ({ path, devices, onComplete, animationMode, stepToken }) => {
-  const [segmentIndex, setSegmentIndex] = useState(0);
-  const [position, setPosition] = useState({ x: 0, y: 0 });
-  const [isReturning, setIsReturning] = useState(false);
-  const animationRef = useRef<number>();
-  const lastStepTokenRef = useRef<number>(stepToken);
-  const applySpeed = (base: number) => {
-    if (animationMode === 'fast') return Math.max(50, base * 0.4);
-    return base;
-  };
-
-  useEffect(() => {
-    console.log('[AnimatedPacket] init/reset', { animationMode, path, stepToken });
-    setSegmentIndex(0);
-    setIsReturning(false);
-    if (path.length > 0 && devices.length > 0) {
-      const firstDeviceName = path[0].toLowerCase();
-      const firstDevice = devices.find(d =>
-        d.id.toLowerCase() === firstDeviceName ||
-        d.name.toLowerCase() === firstDeviceName
-      );
-      if (firstDevice) {
-        setPosition({ x: firstDevice.position.x, y: firstDevice.position.y });
-      }
-    }
-    return () => {
-      if (animationRef.current) cancelAnimationFrame(animationRef.current);
-    };
-  }, [path, devices, animationMode]);
-
-  // 非单步动画
-  useEffect(() => {
-    if (animationMode === 'step') return;
-    if (path.length < 2) return;
-    const currentPath = isReturning ? [...path].reverse() : path;
-
-    if (segmentIndex >= currentPath.length - 1) {
-      if (!isReturning) {
-        setIsReturning(true);
-        setSegmentIndex(0);
-        return;
-      }
-      if (animationRef.current) cancelAnimationFrame(animationRef.current);
-      if (onComplete) setTimeout(onComplete, 200);
-      return;
-    }
-
-    const startName = currentPath[segmentIndex].toLowerCase();
-    const endName = currentPath[segmentIndex + 1].toLowerCase();
-
-    const startDevice = devices.find(d =>
-      d.id.toLowerCase() === startName ||
-      d.name.toLowerCase() === startName
-    );
-    const endDevice = devices.find(d =>
-      d.id.toLowerCase() === endName ||
-      d.name.toLowerCase() === endName
-    );
-
-    if (!startDevice || !endDevice) {
-      setSegmentIndex(prev => prev + 1);
-      return;
-    }
-
-    const duration = 600;
-    const startTime = Date.now();
-
-    const animate = () => {
-      const elapsed = Date.now() - startTime;
-      const progress = Math.min(elapsed / applySpeed(duration), 1);
-      const eased = 1 - Math.pow(1 - progress, 3);
-      const x = startDevice.position.x + (endDevice.position.x - startDevice.position.x) * eased;
-      const y = startDevice.position.y + (endDevice.position.y - startDevice.position.y) * eased;
-      setPosition({ x, y });
-
-      if (progress < 1) {
-        animationRef.current = requestAnimationFrame(animate);
-      } else {
-        setTimeout(() => {
-          setSegmentIndex(prev => prev + 1);
-        }, applySpeed(60));
-      }
-    };
-
-    animationRef.current = requestAnimationFrame(animate);
+// 通信流经过的路径：去程、回程和ICMP差错报文（动态路由的 path 只是参与的路由器，不算）
+const getFlowPaths = (flow: TrafficFlow): string[][] => {
+  const result = flow.result;
+  if (!result || flow.type === 'routing') return [];
+  if (result.tracerouteHops) return result.tracerouteHops.flatMap((hop) => [hop.probePath, hop.replyPath || []]);
+  if (result.dhcpMessages) return result.dhcpMessages.map((message) => message.path);
+  return [result.path, result.responsePath || [], result.icmpError?.path || []];
+};
 
-    return () => {
-      if (animationRef.current) cancelAnimationFrame(animationRef.current);
-    };
-  }, [segmentIndex, isReturning, path, devices, onComplete, animationMode]);
+// 报文含义的颜色：请求蓝色、应答绿色、ICMP差错报文橙色、被丢弃红色
+const PACKET_TONE_COLORS: Record<PacketMovement['tone'], string> = {
+  request: '#3b82f6',
+  response: '#22c55e',
+  icmp: '#f97316',
+  failed: '#ef4444'
+};
 
-  // 单步推进：每次stepToken变化推进一段
-  useEffect(() => {
-    if (animationMode !== 'step') return;
-    if (stepToken === lastStepTokenRef.current) return;
-    lastStepTokenRef.current = stepToken;
-    if (path.length < 2) return;
-    const currentPath = isReturning ? [...path].reverse() : path;
-
-    if (segmentIndex >= currentPath.length - 1) {
-      if (!isReturning) {
-        setIsReturning(true);
-        setSegmentIndex(0);
-        return;
-      }
-      console.log('[AnimatedPacket] step complete (return done)');
-      if (onComplete) onComplete();
-      return;
-    }
+// 数据包图形：按调度器给出的报文动作和进度画出数据包，以及ARP广播、交换机泛洪/查表转发
+// 数据包主体用所属通信流的颜色，光晕表示报文的含义（请求/应答/差错报文，或DHCP报文类型、路由协议）
+interface PacketGlyphProps {
+  packet: PacketMovement;
+  progress: number;
+  devices: Device[];
+  color: string; // 通信流的颜色
+  accentColor?: string; // 默认按报文类型取色
+}
 
-    const endName = currentPath[segmentIndex + 1].toLowerCase();
-    const endDevice = devices.find(d =>
-      d.id.toLowerCase() === endName ||
-      d.name.toLowerCase() === endName
-    );
-    if (endDevice) {
-      setPosition({ x: endDevice.position.x, y: endDevice.position.y });
-    }
-    console.log('[AnimatedPacket] step move', {
-      segmentIndex,
-      nextIndex: segmentIndex + 1,
-      endName,
-      isReturning
-    });
-    setSegmentIndex(prev => prev + 1);
-  }, [stepToken, animationMode, path, devices, isReturning, segmentIndex, onComplete]);
+const PacketGlyph: React.FC<PacketGlyphProps> = ({ packet, progress, devices, color, accentColor }) => {
+  const findByName = (name: string) => devices.find(d => d.name === name);
+  const startDevice = findByName(packet.from);
+  const endDevice = findByName(packet.to) || startDevice;
+  if (!startDevice || !endDevice) return null;
 
-  // 渲染数据包
-  const packetColor = isReturning ? '#22c55e' : '#3b82f6';
+  const eased = 1 - Math.pow(1 - progress, 3);
+  const position = {
+    x: startDevice.position.x + (endDevice.position.x - startDevice.position.x) * eased,
+    y: startDevice.position.y + (endDevice.position.y - startDevice.position.y) * eased
+  };
+  const packetColor = color;
+  const haloColor = accentColor || PACKET_TONE_COLORS[packet.tone];
   const packetSize = 14;
 
+  // 数据包正从交换机出发：显示这次经过的转发记录
+  const switchEvent = packet.switchEvent;
+  const switchDevice = switchEvent && findByName(switchEvent.switchName);
+  const arpStage = packet.kind === 'arp-request' ? 'request' : packet.kind === 'arp-reply' ? 'reply' : null;
+  const activeARP = arpStage ? packet.arp : undefined;
+
   return (
     <g>
+      {/* ARP：请求在广播域内泛洪，目标设备单播应答 */}
+      {activeARP && (
+        <g className="pointer-events-none">
+          {activeARP.path.slice(0, -1).map((name, idx) => {
+            const from = findByName(name);
+            const to = findByName(activeARP.path[idx + 1]);
+            if (!from || !to) return null;
+            return (
+              <line
+                key={`arp-${name}`}
+                x1={from.position.x}
+                y1={from.position.y}
+                x2={to.position.x}
+                y2={to.position.y}
+                stroke={arpStage === 'request' ? '#a855f7' : '#14b8a6'}
+                strokeWidth="4"
+                strokeDasharray="10,5"
+                opacity="0.8"
+              />
+            );
+          })}
+          {arpStage === 'request' && activeARP.broadcastTo.map((name) => {
+            const device = findByName(name);
+            if (!device) return null;
+            return (
+              <text
+                key={`arp-bc-${name}`}
+                x={device.position.x}
+                y={device.position.y - 45}
+                fontSize="11"
+                fontWeight="bold"
+                textAnchor="middle"
+                fill="#9333ea"
+                style={{ textShadow: '0 0 3px white' }}
+              >
+                📢 收到ARP广播（不是我）
+              </text>
+            );
+          })}
+          {(() => {
+            const labelDevice = findByName(arpStage === 'request' ? activeARP.requester : activeARP.target);
+            if (!labelDevice) return null;
+            return (
+              <text
+                x={labelDevice.position.x}
+                y={labelDevice.position.y - 60}
+                fontSize="12"
+                fontWeight="bold"
+                textAnchor="middle"
+                fill={arpStage === 'request' ? '#9333ea' : '#0f766e'}
+                style={{ textShadow: '0 0 3px white' }}
+              >
+                {arpStage === 'request'
+                  ? `📢 ARP广播：谁是 ${activeARP.targetIP}？请告诉 ${activeARP.senderIP}`
+                  : `↩ ARP应答：${activeARP.targetIP} 的MAC是 ${activeARP.targetMAC}`}
+              </text>
+            );
+          })()}
+        </g>
+      )}
+
+      {/* 交换机转发：目的MAC未知时泛洪到其他端口，已知时查表转发 */}
+      {switchEvent && switchDevice && (
+        <g className="pointer-events-none">
+          {switchEvent.floodTargets.map((targetName) => {
+            const target = devices.find(d => d.name === targetName);
+            if (!target) return null;
+            return (
+              <g key={`flood-${targetName}`}>
+                <line
+                  x1={switchDevice.position.x}
+                  y1={switchDevice.position.y}
+                  x2={target.position.x}
+                  y2={target.position.y}
+                  stroke="#f97316"
+                  strokeWidth="3"
+                  strokeDasharray="6,4"
+                  opacity="0.8"
+                />
+                <text
+                  x={(switchDevice.position.x + target.position.x) / 2}
+                  y={(switchDevice.position.y + target.position.y) / 2 - 6}
+                  fontSize="11"
+                  fontWeight="bold"
+                  textAnchor="middle"
+                  fill="#ea580c"
+                  style={{ textShadow: '0 0 3px white' }}
+                >
+                  📢 泛洪
+                </text>
+              </g>
+            );
+          })}
+          <text
+            x={switchDevice.position.x}
+            y={switchDevice.position.y - 45}
+            fontSize="12"
+            fontWeight="bold"
+            textAnchor="middle"
+            fill={switchEvent.flooded ? '#ea580c' : '#0f766e'}
+            style={{ textShadow: '0 0 3px white' }}
+          >
+            {switchEvent.flooded ? '📢 目的MAC未知，泛洪' : '📋 查表转发'}
+          </text>
+        </g>
+      )}
+
       {/* 数据包主体 */}
       <circle
         cx={position.x}
@@ -896,7 +1072,7 @@ const AnimatedPacket: React.FC<AnimatedPacketProps> = ({ path, devices, onComple
         cx={position.x}
         cy={position.y}
         r={packetSize + 8}
-        fill={packetColor}
+        fill={haloColor}
         opacity="0.2"
       >
         <animate
@@ -923,8 +1099,229 @@ const AnimatedPacket: React.FC<AnimatedPacketProps> = ({ path, devices, onComple
         fill={packetColor}
         style={{ textShadow: '0 0 3px white' }}
       >
-        {isReturning ? '⬅ 应答' : '➡ 数据'}
+        {packet.label}
       </text>
     </g>
   );
 };
+
+// Ping：只有一个来回的数据包
+interface FlowPacketProps {
+  flowId: string;
+  color: string;
+  devices: Device[];
+}
+
+const FlowPacket: React.FC<FlowPacketProps> = ({ flowId, color, devices }) => {
+  const { packet, progress } = useSimulationFlow(flowId);
+  return packet ? <PacketGlyph packet={packet} progress={progress} devices={devices} color={color} /> : null;
+};
+
+// 路由追踪动画：依次发送 TTL=1,2,3... 的探测包，每跳应答后在设备旁留下跳数标记
+interface AnimatedTracerouteProps {
+  flowId: string;
+  color: string;
+  hops: TracerouteHop[];
+  devices: Device[];
+}
+
+const AnimatedTraceroute: React.FC<AnimatedTracerouteProps> = ({ flowId, color, hops, devices }) => {
+  const { packet, progress } = useSimulationFlow(flowId);
+  // 报文动作的组号就是第几个探测包，之前的探测包都已应答
+  const probeIndex = packet?.group ?? 0;
+
+  const findDevice = (name: string) => devices.find((d) => d.name === name);
+
+  return (
+    <g>
+      {/* 已应答的跳：在设备旁标出 TTL 和应答IP */}
+      {hops.slice(0, probeIndex).map((hop) => {
+        const lastName = hop.probePath[hop.probePath.length - 1];
+        const device = findDevice(lastName);
+        if (!device) return null;
+        const isTimeout = hop.status === 'timeout';
+        const color = isTimeout || hop.status === 'unreachable' ? '#dc2626' : hop.status === 'reached' ? '#16a34a' : '#ea580c';
+        return (
+          <g key={`hop-${hop.ttl}`}>
+            <rect
+              x={device.position.x + 30}
+              y={device.position.y - 44}
+              width={isTimeout ? 84 : 110}
+              height={18}
+              rx={4}
+              fill="white"
+              stroke={color}
+              strokeWidth={1.5}
+            />
+            <text
+              x={device.position.x + 36}
+              y={device.position.y - 31}
+              fontSize="11"
+              fontWeight="bold"
+              fill={color}
+            >
+              {isTimeout ? `#${hop.ttl} ✖ 超时` : `#${hop.ttl} ${hop.ip}`}
+            </text>
+          </g>
+        );
+      })}
+
+      {packet && <PacketGlyph packet={packet} progress={progress} devices={devices} color={color} />}
+    </g>
+  );
+};
+
+// DHCP 动画：DISCOVER → OFFER → REQUEST → ACK 依次播放，广播报文用紫色
+interface AnimatedDHCPProps {
+  flowId: string;
+  color: string;
+  messages: DHCPMessage[];
+  devices: Device[];
+}
+
+const DHCP_MESSAGE_COLORS: Record<DHCPMessage['type'], string> = {
+  DISCOVER: '#a855f7',
+  OFFER: '#0ea5e9',
+  REQUEST: '#a855f7',
+  ACK: '#22c55e'
+};
+
+const AnimatedDHCP: React.FC<AnimatedDHCPProps> = ({ flowId, color, messages, devices }) => {
+  const { packet, progress } = useSimulationFlow(flowId);
+  const currentMessage = packet?.group !== undefined ? messages[packet.group] : undefined;
+
+  if (!packet || !currentMessage) {
+    return null;
+  }
+
+  const server = devices.find((d) => d.name === currentMessage.path[currentMessage.path.length - 1]);
+
+  return (
+    <g>
+      {/* 报文内容说明：显示在本条报文的接收方上方 */}
+      {server && (
+        <text
+          x={server.position.x}
+          y={server.position.y - 48}
+          fontSize="12"
+          fontWeight="bold"
+          textAnchor="middle"
+          fill={DHCP_MESSAGE_COLORS[currentMessage.type]}
+          style={{ textShadow: '0 0 3px white' }}
+        >
+          {currentMessage.detail}
+        </text>
+      )}
+      <PacketGlyph
+        packet={packet}
+        progress={progress}
+        devices={devices}
+        color={color}
+        accentColor={DHCP_MESSAGE_COLORS[currentMessage.type]}
+      />
+    </g>
+  );
+};
+
+// 动态路由收敛动画：每一轮所有路由器同时向邻居发送路由更新，全部到达后在路由器旁显示本轮的路由变化
+interface AnimatedRoutingRoundsProps {
+  flowId: string;
+  color: string;
+  rounds: RoutingUpdateRound[];
+  devices: Device[];
+}
+
+const MAX_CHANGE_LINES = 3;
+
+const AnimatedRoutingRounds: React.FC<AnimatedRoutingRoundsProps> = ({ flowId, color, rounds, devices }) => {
+  const { packet, progress } = useSimulationFlow(flowId);
+  const currentRound = packet?.group !== undefined ? rounds[packet.group] : undefined;
+  if (!packet || !currentRound) return null;
+
+  const messages = currentRound.messages.filter((message) => message.path.length >= 2);
+  // round：本轮更新正在传送；settle：全部到达，展示路由变化
+  const delivered = packet.kind === 'settle';
+  const isOSPF = currentRound.protocol === 'ospf';
+  const isFlooding = isOSPF && currentRound.messages.length > 0;
+  const changedRouters = [...new Set(currentRound.changes.map((change) => change.router))];
+  const title = currentRound.round === 0
+    ? '🔌 链路断开'
+    : isOSPF && !isFlooding ? '🌳 SPF计算' : `📡 ${isOSPF ? 'OSPF' : 'RIP'} 第${currentRound.round}轮`;
+  const anchorRouter = messages[0]?.from
+    || rounds.find((round) => round.protocol === currentRound.protocol && round.messages.length > 0)?.messages[0].from;
+  const convergedAt = devices.find((d) => d.name === anchorRouter);
+
+  return (
+    <g>
+      {!delivered &&
+        messages.map((message, index) => {
+          // 所有路由器同时发送，沿各自的路径同时到达
+          const position = progress * (message.path.length - 1);
+          const segment = Math.min(message.path.length - 2, Math.floor(position));
+          return (
+            <PacketGlyph
+              key={`rip-${currentRound.round}-${index}`}
+              packet={{
+                ...packet,
+                kind: 'hop',
+                from: message.path[segment],
+                to: message.path[segment + 1],
+                label: `${isOSPF ? 'LSA' : 'RIP'} ${message.routeCount}条`
+              }}
+              progress={position - segment}
+              devices={devices}
+              color={color}
+              accentColor={isOSPF ? '#0ea5e9' : '#8b5cf6'}
+            />
+          );
+        })}
+
+      {/* 本轮的路由变化：显示在发生变化的路由器上方 */}
+      {delivered &&
+        changedRouters.map((routerName) => {
+          const device = devices.find((d) => d.name === routerName);
+          if (!device) return null;
+          const changes = currentRound.changes.filter((change) => change.router === routerName);
+          const metricText = (metric: number) => (isOSPF ? `开销${metric}` : `${metric}跳`);
+          const lines = changes.slice(0, MAX_CHANGE_LINES).map((change) =>
+            change.removed || (!isOSPF && change.metric >= RIP_INFINITY)
+              ? { text: `✖ ${change.destination} 不可达`, color: '#dc2626' }
+              : change.previousMetric === undefined || change.metric < change.previousMetric
+                ? { text: `＋ ${change.destination} ${metricText(change.metric)}`, color: '#16a34a' }
+                : { text: `↑ ${change.destination} ${metricText(change.metric)}`, color: '#ea580c' }
+          );
+          if (changes.length > MAX_CHANGE_LINES) {
+            lines.push({ text: `…另有 ${changes.length - MAX_CHANGE_LINES} 条`, color: '#6b7280' });
+          }
+          const top = device.position.y - 52 - lines.length * 14;
+          return (
+            <g key={`rip-change-${routerName}`} className="pointer-events-none">
+              <rect x={device.position.x - 80} y={top} width={160} height={lines.length * 14 + 20} rx={4} fill="white" stroke={isOSPF ? '#0ea5e9' : '#8b5cf6'} strokeWidth={1.5} opacity={0.95} />
+              <text x={device.position.x - 74} y={top + 13} fontSize="11" fontWeight="bold" fill={isOSPF ? '#0369a1' : '#7c3aed'}>
+                {title}
+              </text>
+              {lines.map((line, index) => (
+                <text key={index} x={device.position.x - 74} y={top + 27 + index * 14} fontSize="10" fill={line.color}>
+                  {line.text}
+                </text>
+              ))}
+            </g>
+          );
+        })}
+
+      {delivered && changedRouters.length === 0 && !isFlooding && convergedAt && (
+        <text
+          x={convergedAt.position.x}
+          y={convergedAt.position.y - 52}
+          fontSize="12"
+          fontWeight="bold"
+          textAnchor="middle"
+          fill="#16a34a"
+          style={{ textShadow: '0 0 3px white' }}
+        >
+          {title}：{isOSPF ? '路由表没有变化 ✅' : '没有变化，已收敛 ✅'}
+        </text>
+      )}
+    </g>
+  );
+};
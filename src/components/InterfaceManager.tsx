@@ -1,6 +1,10 @@
 import React from 'react';
 import { Device, NetworkInterface } from '../types';
 import { useNetworkStore } from '../store/useNetworkStore';
+import { getInterfaceMAC } from '../utils/arpUtils';
+import { IPV6_DEFAULT_PREFIX_LENGTH, getLinkLocalAddress } from '../utils/ipv6Utils';
+import { describePortVLAN, isSubInterface } from '../utils/vlanUtils';
+import { DEFAULT_SUBNET_MASK, calculateSubnet, interfaceContainsIP, maskToCIDR } from '../utils/subnetUtils';
 
 interface InterfaceManagerProps {
   device: Device;
@@ -9,11 +13,15 @@ interface InterfaceManagerProps {
 export const InterfaceManager: React.FC<InterfaceManagerProps> = ({ device }) => {
   const { devices, connections } = useNetworkStore();
 
-  // 获取网段（前3个字节）
-  const getNetwork = (ip: string) => {
-    const parts = ip.split('.');
-    return `${parts[0]}.${parts[1]}.${parts[2]}.0`;
-  };
+  // 获取网段（按子网掩码计算，如 10.1.0.0/16）
+  const getNetwork = (ip: string, subnetMask: string = DEFAULT_SUBNET_MASK) =>
+    `${calculateSubnet(ip, subnetMask)}/${maskToCIDR(subnetMask)}`;
+
+  // 两个路由器接口互相落在对方子网内才算同一网段
+  const sharesSubnet = (iface: NetworkInterface, peer: Device) =>
+    peer.interfaces?.some(
+      otherIface => interfaceContainsIP(iface, otherIface.ip) && interfaceContainsIP(otherIface, iface.ip)
+    ) || false;
 
   // 识别网段类型（私网/公网）
   const getNetworkType = (ip: string): { type: string; color: string; icon: string } => {
@@ -56,8 +64,6 @@ export const InterfaceManager: React.FC<InterfaceManagerProps> = ({ device }) =>
       const iface = device.interfaces?.find(i => i.name === interfaceName);
       if (!iface) return [];
 
-      const ifaceNetwork = getNetwork(iface.ip);
-
       // ✅ 遍历所有连接，收集所有匹配的设备（而不是返回第一个）
       for (const conn of deviceConnections) {
         const otherDeviceId = conn.source === device.id ? conn.target : conn.source;
@@ -67,15 +73,12 @@ export const InterfaceManager: React.FC<InterfaceManagerProps> = ({ device }) =>
 
         // 检查对端设备是否有接口在同一网段
         if (otherDevice.type === 'router' && otherDevice.interfaces) {
-          const hasMatchingInterface = otherDevice.interfaces.some(
-            otherIface => getNetwork(otherIface.ip) === ifaceNetwork
-          );
-          if (hasMatchingInterface) {
+          if (sharesSubnet(iface, otherDevice)) {
             connectedDevices.push(otherDevice); // ✅ 添加到数组，继续查找
           }
         } else if (otherDevice.type === 'pc' || otherDevice.type === 'web' || otherDevice.type === 'dns') {
           // PC、Web服务器、DNS服务器只有一个接口
-          if (getNetwork(otherDevice.ip) === ifaceNetwork) {
+          if (interfaceContainsIP(iface, otherDevice.ip)) {
             connectedDevices.push(otherDevice); // ✅ 添加到数组，继续查找
           }
         }
@@ -95,28 +98,25 @@ export const InterfaceManager: React.FC<InterfaceManagerProps> = ({ device }) =>
       return issues;
     }
 
-    const ifaceNetwork = getNetwork(iface.ip);
+    const ifaceNetwork = getNetwork(iface.ip, iface.subnetMask);
 
     // 检查所有对端设备是否有相同网段的接口
     for (const connectedDevice of connectedDevices) {
       if (connectedDevice.type === 'router') {
-        const hasMatchingInterface = connectedDevice.interfaces?.some(
-          otherIface => getNetwork(otherIface.ip) === ifaceNetwork
-        );
-
-        if (!hasMatchingInterface) {
+        if (!sharesSubnet(iface, connectedDevice)) {
           issues.push(`❌ 网段不匹配！${connectedDevice.name} 没有 ${ifaceNetwork} 网段的接口`);
 
           // 建议修复
-          const suggestedIP = connectedDevice.interfaces?.[0]?.ip;
-          if (suggestedIP) {
-            const suggestedNetwork = getNetwork(suggestedIP);
-            issues.push(`💡 建议：将此接口改为 ${suggestedNetwork}.X 网段`);
+          const suggestedInterface = connectedDevice.interfaces?.[0];
+          if (suggestedInterface?.ip) {
+            const suggestedNetwork = getNetwork(suggestedInterface.ip, suggestedInterface.subnetMask);
+            issues.push(`💡 建议：将此接口改为 ${suggestedNetwork} 网段`);
           }
         }
       } else if (connectedDevice.type === 'pc' || connectedDevice.type === 'web' || connectedDevice.type === 'dns') {
-        const deviceNetwork = getNetwork(connectedDevice.ip);
-        if (deviceNetwork !== ifaceNetwork) {
+        if (!interfaceContainsIP(iface, connectedDevice.ip)) {
+          // 终端只有一个网卡，掩码记在第一个接口上
+          const deviceNetwork = getNetwork(connectedDevice.ip, connectedDevice.interfaces?.[0]?.subnetMask);
           issues.push(`❌ 网段不匹配！${connectedDevice.name} 的IP是 ${connectedDevice.ip} (${deviceNetwork})`);
           issues.push(`💡 建议：将此接口改为 ${deviceNetwork} 网段`);
         }
@@ -126,12 +126,66 @@ export const InterfaceManager: React.FC<InterfaceManagerProps> = ({ device }) =>
     return issues;
   };
 
+  // 交换机：二层端口没有IP，只显示每个端口接了哪台设备
+  if (device.type === 'switch') {
+    const getPortNeighbor = (portId?: string): Device | undefined => {
+      const conn = connections.find(
+        c => (c.source === device.id && c.sourceInterfaceId === portId) ||
+             (c.target === device.id && c.targetInterfaceId === portId)
+      );
+      if (!conn) return undefined;
+      return devices.find(d => d.id === (conn.source === device.id ? conn.target : conn.source));
+    };
+
+    return (
+      <div className="p-4 bg-white rounded-lg shadow">
+        <h3 className="text-lg font-bold mb-3">🔌 {device.name} 端口状态</h3>
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          {device.interfaces.map((port) => {
+            const neighbor = getPortNeighbor(port.id);
+            return (
+              <div
+                key={port.id}
+                className={`flex items-center justify-between px-3 py-2 rounded border ${
+                  neighbor ? 'bg-green-50 border-green-200' : 'bg-gray-50 border-gray-200'
+                }`}
+              >
+                <span>
+                  <span className="font-mono font-bold">{port.name}</span>
+                  <span className="block text-xs text-violet-700">{describePortVLAN(port)}</span>
+                </span>
+                {neighbor ? (
+                  <span className="text-green-700 font-bold">{neighbor.name}</span>
+                ) : (
+                  <span className="text-gray-400">空闲</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        <p className="mt-3 text-xs text-gray-500">
+          💡 Shift+连接时自动占用空闲端口；删除连线后端口恢复空闲；双击交换机可划分端口VLAN
+        </p>
+      </div>
+    );
+  }
+
   if (device.type !== 'router') {
     return (
       <div className="p-4 bg-gray-50 rounded-lg">
         <p className="text-gray-500">PC设备只有一个默认接口</p>
         <div className="mt-2 p-2 bg-white rounded">
           <span className="font-mono">eth0: {device.ip}</span>
+          <span className="font-mono text-xs text-gray-500 ml-3">
+            MAC {getInterfaceMAC(device, device.interfaces?.find(i => i.name === 'eth0'))}
+          </span>
+          {device.ipv6 && (
+            <div className="font-mono text-xs text-teal-700 mt-1">
+              IPv6: {device.ipv6}/{device.interfaces?.[0]?.ipv6PrefixLength || IPV6_DEFAULT_PREFIX_LENGTH}
+              {device.ipv6Mode === 'slaac' && ' (SLAAC)'}
+              <span className="text-gray-500 ml-3">链路本地 {getLinkLocalAddress(device, device.interfaces?.[0])}</span>
+            </div>
+          )}
         </div>
       </div>
     );
@@ -169,6 +223,8 @@ export const InterfaceManager: React.FC<InterfaceManagerProps> = ({ device }) =>
               <th className="px-3 py-2 text-left">接口</th>
               <th className="px-3 py-2 text-left">IP地址</th>
               <th className="px-3 py-2 text-left">子网掩码</th>
+              <th className="px-3 py-2 text-left">IPv6地址</th>
+              <th className="px-3 py-2 text-left">MAC地址</th>
               <th className="px-3 py-2 text-left">网段</th>
               <th className="px-3 py-2 text-left">连接到</th>
               <th className="px-3 py-2 text-left">状态</th>
@@ -184,19 +240,39 @@ export const InterfaceManager: React.FC<InterfaceManagerProps> = ({ device }) =>
                   <tr className="border-b hover:bg-gray-50">
                     <td className="px-3 py-2 font-mono font-bold">
                       {iface.name}
+                      {isSubInterface(iface) && (
+                        <div className="text-xs font-normal text-violet-700">
+                          🏷️ VLAN {iface.vlan}（{iface.parent} 的子接口）
+                        </div>
+                      )}
                     </td>
                     <td className="px-3 py-2">
                       <span className="font-mono">{iface.ip}</span>
                     </td>
                     <td className="px-3 py-2">
                       <span className="font-mono text-xs text-gray-600">
-                        {iface.subnetMask || '255.255.255.0'}
+                        {iface.subnetMask || DEFAULT_SUBNET_MASK}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2">
+                      {iface.ipv6 ? (
+                        <div className="font-mono text-xs">
+                          <div className="text-teal-700">{iface.ipv6}/{iface.ipv6PrefixLength || IPV6_DEFAULT_PREFIX_LENGTH}</div>
+                          <div className="text-gray-500">{getLinkLocalAddress(device, iface)}</div>
+                        </div>
+                      ) : (
+                        <span className="text-xs text-gray-400">未启用</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span className="font-mono text-xs text-gray-600">
+                        {getInterfaceMAC(device, iface)}
                       </span>
                     </td>
                     <td className="px-3 py-2">
                       <div className="flex items-center gap-2">
                         <span className="font-mono text-xs bg-gray-100 px-2 py-1 rounded">
-                          {getNetwork(iface.ip)}
+                          {getNetwork(iface.ip, iface.subnetMask)}
                         </span>
                         {(() => {
                           const netType = getNetworkType(iface.ip);
@@ -231,7 +307,7 @@ export const InterfaceManager: React.FC<InterfaceManagerProps> = ({ device }) =>
                   </tr>
                   {issues.length > 0 && (
                     <tr>
-                      <td colSpan={6} className="px-3 py-2 bg-red-50">
+                      <td colSpan={8} className="px-3 py-2 bg-red-50">
                         <div className="text-xs space-y-1">
                           {issues.map((issue, idx) => (
                             <div key={idx} className="text-red-700">{issue}</div>
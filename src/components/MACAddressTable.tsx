@@ -0,0 +1,67 @@
+import React from 'react';
+import { Device } from '../types';
+import { useNetworkStore } from '../store/useNetworkStore';
+import { DEFAULT_VLAN } from '../utils/vlanUtils';
+
+interface MACAddressTableProps {
+  device: Device;
+}
+
+export const MACAddressTable: React.FC<MACAddressTableProps> = ({ device }) => {
+  const { devices, clearMACTable } = useNetworkStore();
+
+  // 实时从store获取最新的设备数据（通信时MAC表会更新）
+  const currentDevice = devices.find(d => d.id === device.id) || device;
+  const macTable = currentDevice.macTable || [];
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-bold">📋 {currentDevice.name} MAC地址表</h3>
+        <button
+          onClick={() => clearMACTable(currentDevice.id)}
+          disabled={macTable.length === 0}
+          className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          🗑️ 清空MAC表
+        </button>
+      </div>
+
+      {macTable.length === 0 ? (
+        <div className="p-3 bg-gray-50 rounded text-sm text-gray-500">
+          MAC表为空。发送一次 Ping 后，交换机会记录每个帧的源MAC和收到它的端口；
+          目的MAC不在表中的帧会被泛洪到其他所有端口。
+        </div>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="px-3 py-2 text-left">VLAN</th>
+              <th className="px-3 py-2 text-left">MAC地址</th>
+              <th className="px-3 py-2 text-left">端口</th>
+              <th className="px-3 py-2 text-left">设备</th>
+              <th className="px-3 py-2 text-left">学习时间</th>
+            </tr>
+          </thead>
+          <tbody>
+            {macTable.map((entry) => (
+              <tr key={`${entry.vlan ?? DEFAULT_VLAN}-${entry.mac}`} className="border-b hover:bg-gray-50">
+                <td className="px-3 py-2 font-mono">{entry.vlan ?? DEFAULT_VLAN}</td>
+                <td className="px-3 py-2 font-mono">{entry.mac}</td>
+                <td className="px-3 py-2 font-mono font-bold">{entry.port}</td>
+                <td className="px-3 py-2">{entry.device}</td>
+                <td className="px-3 py-2 text-xs text-gray-500">
+                  {new Date(entry.learnedAt).toLocaleTimeString()}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="mt-3 p-2 bg-blue-50 rounded text-xs text-blue-700">
+        💡 交换机只看MAC地址，不看IP：ARP广播经过交换机时它就学到了双方的MAC；只清空MAC表（保留ARP缓存）再 Ping，可以看到目的MAC未知时的泛洪过程。每个VLAN各学各的，泛洪也只发往同一VLAN的端口。
+      </div>
+    </div>
+  );
+};
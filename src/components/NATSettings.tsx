@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { Device, NetworkInterface, PortForwardRule } from '../types';
+import { useNetworkStore } from '../store/useNetworkStore';
+import { formatEndpoint, validatePortForwardRule } from '../utils/natUtils';
+
+type NATRole = NonNullable<NetworkInterface['nat']> | '';
+
+interface NATSettingsProps {
+  device: Device;
+  roles: Record<string, NATRole>;
+  onRoleChange: (interfaceName: string, role: NATRole) => void;
+  portForwards: PortForwardRule[];
+  onPortForwardsChange: (rules: PortForwardRule[]) => void;
+}
+
+export const NATSettings: React.FC<NATSettingsProps> = ({
+  device,
+  roles,
+  onRoleChange,
+  portForwards,
+  onPortForwardsChange
+}) => {
+  const { devices, clearNATTable } = useNetworkStore();
+  const [protocol, setProtocol] = useState<PortForwardRule['protocol']>('TCP');
+  const [outsidePort, setOutsidePort] = useState('80');
+  const [insideIP, setInsideIP] = useState('');
+  const [insidePort, setInsidePort] = useState('80');
+  const [error, setError] = useState('');
+
+  // 转换表实时从store读取（通信时会新增条目）
+  const currentDevice = devices.find(d => d.id === device.id) || device;
+  const natTable = currentDevice.natTable || [];
+
+  const handleAddRule = () => {
+    const rule: PortForwardRule = {
+      id: `pf-${Date.now()}`,
+      protocol,
+      outsidePort: Number(outsidePort),
+      insideIP: insideIP.trim(),
+      insidePort: Number(insidePort)
+    };
+    // 按编辑中的接口角色和规则校验（尚未保存到设备）
+    const draftDevice: Device = {
+      ...device,
+      interfaces: device.interfaces.map((iface) => ({ ...iface, nat: roles[iface.name] || undefined })),
+      portForwards
+    };
+    const validation = validatePortForwardRule(rule, draftDevice);
+    if (!validation.valid) {
+      setError(validation.error || '规则错误');
+      return;
+    }
+    onPortForwardsChange([...portForwards, rule]);
+    setInsideIP('');
+    setError('');
+  };
+
+  return (
+    <div className="p-3 bg-indigo-50 border border-indigo-200 rounded text-sm space-y-3">
+      <div className="font-bold text-indigo-900">🔁 NAT地址转换</div>
+
+      <div className="space-y-1">
+        {device.interfaces.filter((iface) => iface.ip).map((iface) => (
+          <div key={iface.name} className="flex items-center justify-between gap-2">
+            <span className="font-mono text-xs">{iface.name} ({iface.ip})</span>
+            <select
+              value={roles[iface.name] || ''}
+              onChange={(e) => onRoleChange(iface.name, e.target.value as NATRole)}
+              className="px-2 py-1 border rounded bg-white text-xs"
+            >
+              <option value="">不参与NAT</option>
+              <option value="inside">内网 (inside)</option>
+              <option value="outside">外网 (outside)</option>
+            </select>
+          </div>
+        ))}
+        <p className="text-xs text-indigo-700">
+          内网主机访问外网时，源地址会被改写成外网接口的地址（多台主机共用，靠端口区分）。
+        </p>
+      </div>
+
+      <div>
+        <div className="font-medium mb-1">端口转发（外网访问内网服务器）：</div>
+        {portForwards.length > 0 && (
+          <div className="space-y-1 mb-2">
+            {portForwards.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between bg-white rounded px-2 py-1 text-xs font-mono">
+                <span>{rule.protocol} 外网:{rule.outsidePort} → {rule.insideIP}:{rule.insidePort}</span>
+                <button
+                  onClick={() => onPortForwardsChange(portForwards.filter((r) => r.id !== rule.id))}
+                  className="text-red-600 hover:text-red-800"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="grid grid-cols-4 gap-1">
+          <select
+            value={protocol}
+            onChange={(e) => setProtocol(e.target.value as PortForwardRule['protocol'])}
+            className="px-1 py-1 border rounded bg-white text-xs"
+          >
+            <option value="TCP">TCP</option>
+            <option value="UDP">UDP</option>
+          </select>
+          <input
+            type="number"
+            value={outsidePort}
+            onChange={(e) => setOutsidePort(e.target.value)}
+            placeholder="外网端口"
+            className="px-1 py-1 border rounded text-xs font-mono"
+          />
+          <input
+            type="text"
+            value={insideIP}
+            onChange={(e) => setInsideIP(e.target.value)}
+            placeholder="内网IP"
+            className="px-1 py-1 border rounded text-xs font-mono"
+          />
+          <input
+            type="number"
+            value={insidePort}
+            onChange={(e) => setInsidePort(e.target.value)}
+            placeholder="内网端口"
+            className="px-1 py-1 border rounded text-xs font-mono"
+          />
+        </div>
+        {error && <p className="mt-1 text-xs text-red-600">❌ {error}</p>}
+        <button
+          onClick={handleAddRule}
+          className="mt-1 w-full py-1 bg-indigo-500 text-white rounded hover:bg-indigo-600 text-xs"
+        >
+          ➕ 添加端口转发
+        </button>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <span className="font-medium">NAT转换表：</span>
+          <button
+            onClick={() => clearNATTable(device.id)}
+            disabled={natTable.length === 0}
+            className="px-2 py-0.5 text-xs bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+          >
+            🗑️ 清空
+          </button>
+        </div>
+        {natTable.length === 0 ? (
+          <p className="text-xs text-gray-500">暂无转换。内网主机 Ping 或访问外网后会出现条目。</p>
+        ) : (
+          <table className="w-full text-xs bg-white rounded">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="p-1">协议</th>
+                <th className="p-1">内网地址</th>
+                <th className="p-1">外网地址</th>
+                <th className="p-1">对端</th>
+              </tr>
+            </thead>
+            <tbody>
+              {natTable.map((entry, index) => (
+                <tr key={index} className="border-b last:border-b-0 font-mono">
+                  <td className="p-1">{entry.protocol}{entry.type === 'port-forward' ? '*' : ''}</td>
+                  <td className="p-1">{formatEndpoint(entry.protocol, entry.insideIP, entry.insidePort)}</td>
+                  <td className="p-1">{formatEndpoint(entry.protocol, entry.outsideIP, entry.outsidePort)}</td>
+                  <td className="p-1">{formatEndpoint(entry.protocol, entry.remoteIP, entry.remotePort)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {natTable.some((entry) => entry.type === 'port-forward') && (
+          <p className="mt-1 text-xs text-gray-500">* 由端口转发规则建立的会话</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import { PacketHeaderSnapshot, VLANTagEvent } from '../types';
+import { formatEndpoint } from '../utils/natUtils';
+
+interface PacketInspectorProps {
+  headers: PacketHeaderSnapshot[];
+  vlanTags?: VLANTagEvent[]; // 帧在哪里加上/去掉802.1Q标签
+}
+
+const DIRECTION_LABELS: Record<PacketHeaderSnapshot['direction'], string> = {
+  request: '去程',
+  response: '回程'
+};
+
+export const PacketInspector: React.FC<PacketInspectorProps> = ({ headers, vlanTags = [] }) => {
+  if (headers.length === 0 && vlanTags.length === 0) return null;
+
+  const translated = headers.some((header) => header.natNote);
+  const directions = (['request', 'response'] as const).filter((direction) =>
+    headers.some((header) => header.direction === direction)
+  );
+
+  return (
+    <div className="mt-3">
+      {headers.length > 0 && <strong className="text-sm">📦 数据包检查（{headers[0].protocol}）：</strong>}
+      {directions.map((direction) => (
+        <table key={direction} className="w-full mt-2 text-xs bg-white rounded">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="p-1">{DIRECTION_LABELS[direction]}</th>
+              <th className="p-1">源地址</th>
+              <th className="p-1">目的地址</th>
+            </tr>
+          </thead>
+          <tbody>
+            {headers
+              .filter((header) => header.direction === direction)
+              .map((header, index) => (
+                <React.Fragment key={`${header.device}-${index}`}>
+                  <tr className={`border-b last:border-b-0 ${header.natNote ? 'bg-yellow-50' : ''}`}>
+                    <td className="p-1">{header.device}</td>
+                    <td className="p-1 font-mono">{formatEndpoint(header.protocol, header.srcIP, header.srcPort)}</td>
+                    <td className="p-1 font-mono">{formatEndpoint(header.protocol, header.dstIP, header.dstPort)}</td>
+                  </tr>
+                  {header.natNote && (
+                    <tr className="bg-yellow-50 border-b">
+                      <td colSpan={3} className="px-1 pb-1 text-yellow-800">🔁 NAT: {header.natNote}</td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+          </tbody>
+        </table>
+      ))}
+      {translated && (
+        <p className="mt-1 text-xs text-gray-500">
+          💡 每一行是报文离开该设备时的地址；黄色行表示该路由器改写了地址或端口。
+        </p>
+      )}
+      {vlanTags.length > 0 && (
+        <div className="mt-2">
+          <strong className="text-sm">🏷️ 802.1Q 标签：</strong>
+          <ul className="mt-1 p-2 bg-white rounded text-xs space-y-0.5">
+            {vlanTags.map((tag, index) => (
+              <li key={`${tag.device}-${index}`} className={tag.action === 'add' ? 'text-purple-700' : 'text-gray-600'}>
+                [{DIRECTION_LABELS[tag.direction]}] {tag.device} {tag.port}：
+                {tag.action === 'add' ? `➕ 加上 VLAN ${tag.vlan} 标签` : `➖ 去掉 VLAN ${tag.vlan} 标签`}
+              </li>
+            ))}
+          </ul>
+          <p className="mt-1 text-xs text-gray-500">
+            💡 帧从trunk端口或路由器子接口发出时带上VLAN标签，从access端口发出或被子接口收下时去掉标签。
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
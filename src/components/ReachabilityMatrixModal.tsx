@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { useNetworkStore } from '../store/useNetworkStore';
+import { ReachabilityCell, ReachabilityReport, RoutingHealthIssue } from '../types';
+
+interface ReachabilityMatrixModalProps {
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ReachabilityCell['status'], { label: string; mark: string; className: string }> = {
+  ok: { label: '连通', mark: '✓', className: 'bg-green-100 text-green-700' },
+  'no-route': { label: '无路由/黑洞', mark: '✗', className: 'bg-red-100 text-red-700' },
+  loop: { label: '路由环路', mark: '↻', className: 'bg-orange-100 text-orange-700' },
+  blocked: { label: 'ACL拒绝', mark: '⛔', className: 'bg-purple-100 text-purple-700' },
+  'reply-dropped': { label: '应答被丢弃', mark: '↩', className: 'bg-yellow-100 text-yellow-700' },
+  config: { label: '配置错误', mark: '⚠', className: 'bg-gray-200 text-gray-700' }
+};
+
+const ISSUE_LABELS: Record<RoutingHealthIssue['kind'], string> = {
+  'black-hole': '🕳️ 路由黑洞',
+  loop: '🔁 路由环路',
+  'invalid-next-hop': '🔌 下一站不直连',
+  'unused-route': '💤 没有用到的路由'
+};
+
+export const ReachabilityMatrixModal: React.FC<ReachabilityMatrixModalProps> = ({ onClose }) => {
+  const { checkReachability, setTestToolState, testToolState, simulatePing, isSimulating } = useNetworkStore();
+  const [report, setReport] = useState<ReachabilityReport>(() => checkReachability());
+  const [selected, setSelected] = useState<ReachabilityCell | null>(null);
+
+  const findCell = (source: string, destination: string) =>
+    report.cells.find((cell) => cell.source === source && cell.destination === destination);
+  const okCount = report.cells.filter((cell) => cell.status === 'ok').length;
+  const selectedSource = report.endpoints.find((e) => e.name === selected?.source);
+  const selectedDest = report.endpoints.find((e) => e.name === selected?.destination);
+
+  const handleRecheck = () => {
+    setReport(checkReachability());
+    setSelected(null);
+  };
+
+  // 用连通测试工具播放这一对终端的Ping动画
+  const handleReplay = () => {
+    if (!selectedSource || !selectedDest) return;
+    setTestToolState({ ...testToolState, sourceIP: selectedSource.ip, destIP: selectedDest.ip });
+    simulatePing(selectedSource.ip, selectedDest.ip);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-2xl p-6 w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold text-gray-800">🩺 全网连通矩阵</h3>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleRecheck}
+              className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 text-sm font-bold"
+            >
+              🔄 重新检测
+            </button>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700 text-2xl"
+            >
+              ✕
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4">
+          {report.endpoints.length < 2 ? (
+            <div className="p-4 text-center text-gray-500">至少需要两台配置了IP的终端（PC/服务器）</div>
+          ) : (
+            <>
+              <div className="text-sm text-gray-600">
+                行是源设备、列是目标设备，每格是一次Ping（含回程应答）：
+                <strong className="ml-1">{okCount}/{report.cells.length}</strong> 对连通
+              </div>
+              <div className="overflow-x-auto">
+                <table className="text-xs border-collapse">
+                  <thead>
+                    <tr>
+                      <th className="p-1 border bg-gray-50">源 ＼ 目标</th>
+                      {report.endpoints.map((endpoint) => (
+                        <th key={endpoint.name} className="p-1 border bg-gray-50 font-medium" title={endpoint.ip}>
+                          {endpoint.name}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.endpoints.map((source) => (
+                      <tr key={source.name}>
+                        <th className="p-1 border bg-gray-50 font-medium text-left whitespace-nowrap" title={source.ip}>
+                          {source.name}
+                        </th>
+                        {report.endpoints.map((destination) => {
+                          const cell = findCell(source.name, destination.name);
+                          if (!cell) {
+                            return <td key={destination.name} className="p-1 border bg-gray-50 text-center text-gray-300">—</td>;
+                          }
+                          const style = STATUS_STYLES[cell.status];
+                          const isSelected = selected === cell;
+                          return (
+                            <td
+                              key={destination.name}
+                              onClick={() => setSelected(cell)}
+                              title={cell.reason || style.label}
+                              className={`p-1 border text-center cursor-pointer font-bold ${style.className} ${
+                                isSelected ? 'ring-2 ring-blue-500' : ''
+                              }`}
+                            >
+                              {style.mark}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex flex-wrap gap-2 text-xs">
+                {Object.values(STATUS_STYLES).map((style) => (
+                  <span key={style.label} className={`px-2 py-0.5 rounded ${style.className}`}>
+                    {style.mark} {style.label}
+                  </span>
+                ))}
+              </div>
+
+              {selected && (
+                <div className="p-3 bg-gray-50 rounded text-sm space-y-1">
+                  <div className="font-bold">
+                    {selected.source} → {selected.destination}：{STATUS_STYLES[selected.status].label}
+                  </div>
+                  {selected.reason && <div className="text-red-600">{selected.reason}</div>}
+                  <div className="font-mono text-xs text-gray-600">路径：{selected.path.join(' → ') || '（没有发出）'}</div>
+                  <button
+                    onClick={handleReplay}
+                    disabled={isSimulating}
+                    className="mt-1 px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300 text-xs"
+                  >
+                    ▶ 在画布上演示这次Ping
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+
+          <div>
+            <h4 className="font-bold mb-2">📋 路由健康报告</h4>
+            {report.issues.length === 0 ? (
+              <div className="p-3 bg-green-50 rounded text-sm text-green-700">✅ 没有发现问题</div>
+            ) : (
+              <div className="space-y-2">
+                {(Object.keys(ISSUE_LABELS) as RoutingHealthIssue['kind'][]).map((kind) => {
+                  const issues = report.issues.filter((issue) => issue.kind === kind);
+                  if (issues.length === 0) return null;
+                  return (
+                    <div key={kind} className="border rounded">
+                      <div className="px-2 py-1 bg-gray-100 text-sm font-medium">
+                        {ISSUE_LABELS[kind]}（{issues.length}）
+                      </div>
+                      <ul className="text-xs p-2 space-y-0.5">
+                        {issues.map((issue, index) => (
+                          <li key={index}>
+                            <span className="font-medium">{issue.router}</span>：{issue.description}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
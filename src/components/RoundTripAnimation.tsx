@@ -1,108 +1,43 @@
-import React, { useEffect, useState, useRef } from 'react';
-import { useNetworkStore } from '../store/useNetworkStore';
+import React from 'react';
+import { useSimulationFlow } from './useSimulationFlow';
 
 interface RoundTripAnimationProps {
-  requestPath: string[];
-  responsePath: string[];
+  flowId: string; // 报文何时走到哪里由调度器中这次通信的事件决定
+  color: string; // 通信流的颜色：数据包主体用它，标签和外圈仍表示报文含义
   devicePositions: Record<string, { x: number; y: number }>;
-  requestLabel: string;
-  responseLabel: string;
   animationType: 'dns' | 'http';
-  onComplete: () => void;
   // HTTP状态信息（用于改变响应颜色）
   httpSuccess?: boolean;
+  // 请求在路由器处失败，回程是该路由器回送的ICMP差错报文
+  responseIsICMP?: boolean;
   viewport: {
     scale: number;
     translateX: number;
     translateY: number;
   };
-  animationMode: 'step' | 'normal' | 'fast';
-  stepToken: number;
 }
 
 const RoundTripAnimationComponent: React.FC<RoundTripAnimationProps> = ({
-  requestPath,
-  responsePath,
+  flowId,
+  color,
   devicePositions,
-  requestLabel,
-  responseLabel,
   animationType,
-  onComplete,
   httpSuccess,
-  viewport,
-  animationMode,
-  stepToken
+  responseIsICMP,
+  viewport
 }) => {
-  const { triggerAnimationComplete } = useNetworkStore();
-  const [phase, setPhase] = useState<'request' | 'response'>('request');
-  const [currentSegment, setCurrentSegment] = useState(0);
-  const speedFactor =
-    animationMode === 'fast' ? 0.4 :
-    animationMode === 'step' ? 1.5 :
-    1;
-  const applySpeed = (value: number) => Math.max(60, value * speedFactor);
-
-  // 初始化位置为第一个设备的位置（不是0,0）
-  const getInitialPosition = () => {
-    if (requestPath.length > 0) {
-      const firstKey = requestPath[0].toLowerCase();
-      const firstPos = devicePositions[firstKey];
-      if (firstPos) {
-        return firstPos;
-      }
-    }
-    return { x: 0, y: 0 }; // 如果找不到，才用(0,0)
-  };
-
-  const [position, setPosition] = useState(getInitialPosition());
-  const animationFrameRef = useRef<number>();
-  const isAnimatingRef = useRef(false);
-  const completionTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
-  const hasCompletedRef = useRef(false);
-  const lastStepTokenRef = useRef(stepToken);
-
-  // 使用 ref 保存初始路径，避免中途被修改
-  const initialRequestPathRef = useRef(requestPath);
-  const initialResponsePathRef = useRef(responsePath);
-  const initialRequestLabelRef = useRef(requestLabel);
-  const initialResponseLabelRef = useRef(responseLabel);
-
-  const currentPath = phase === 'request' ? initialRequestPathRef.current : initialResponsePathRef.current;
-  const currentLabel = phase === 'request' ? initialRequestLabelRef.current : initialResponseLabelRef.current;
-
-  // 初始化日志（只在组件挂载时打印一次）
-  useEffect(() => {
-    console.log('🎬 RoundTripAnimation 初始化:', {
-      animationType,
-      requestPath: initialRequestPathRef.current,
-      responsePath: initialResponsePathRef.current,
-      devicePositionKeys: Object.keys(devicePositions)
-    });
-
-    // 检查每个路径节点
-    initialRequestPathRef.current.forEach((nodeName, index) => {
-      const key = nodeName.toLowerCase();
-      if (!devicePositions[key]) {
-        console.error(`❌ 请求路径节点 ${index}: "${nodeName}" (key: "${key}") 找不到位置`);
-      } else {
-        console.log(`✅ 请求路径节点 ${index}: "${nodeName}" → ${JSON.stringify(devicePositions[key])}`);
-      }
-    });
-
-    // 注意：位置已经在useState初始化时设置好了，不需要在这里再设置
-
-    // 组件卸载时只清理timeout，不执行回调
-    return () => {
-      if (completionTimeoutRef.current) {
-        clearTimeout(completionTimeoutRef.current);
-      }
-      // ❌ 不要在卸载时执行回调，因为组件可能因为重新渲染而卸载
-      // 只有动画真正完成时才应该执行回调
-    };
-  }, []); // 只在挂载时执行一次
+  const { packet, progress } = useSimulationFlow(flowId);
 
   // 根据动画类型和HTTP状态设置颜色
   const getColors = () => {
+    if (responseIsICMP) {
+      return {
+        request: animationType === 'dns'
+          ? { bg: 'bg-blue-500', border: 'border-blue-300', icon: '🔍' }
+          : { bg: 'bg-green-500', border: 'border-green-300', icon: '📤' },
+        response: { bg: 'bg-orange-500', border: 'border-orange-300', icon: '⚠️' }
+      };
+    }
     if (animationType === 'dns') {
       return {
         request: { bg: 'bg-blue-500', border: 'border-blue-300', icon: '🔍' },
@@ -119,162 +54,103 @@ const RoundTripAnimationComponent: React.FC<RoundTripAnimationProps> = ({
     }
   };
 
-  const currentColors = getColors()[phase];
-
-  // 动画主逻辑
-  useEffect(() => {
-    if (animationMode === 'step') {
-      return; // 单步模式下由 stepToken 驱动
-    }
-    // 防止重复触发
-    if (isAnimatingRef.current) {
-      return;
-    }
-
-    console.log(`🎯 动画段 ${phase} ${currentSegment}/${currentPath.length - 1}`);
-
-    // 检查是否完成当前阶段
-    if (currentSegment >= currentPath.length - 1) {
-      if (phase === 'request') {
-        // 请求阶段完成，切换到响应阶段
-        console.log('✅ 请求阶段完成，切换到响应阶段');
-        setTimeout(() => {
-          setPhase('response');
-          setCurrentSegment(0);
-        }, applySpeed(200)); // 加快切换速度：500ms → 200ms
-      } else {
-        // 响应阶段完成，结束动画
-        console.log('✅ 响应阶段完成，动画结束');
-        completionTimeoutRef.current = setTimeout(() => {
-          if (!hasCompletedRef.current) {
-            hasCompletedRef.current = true;
-            console.log('🎊 执行完成回调');
-            onComplete();
-            triggerAnimationComplete(); // 触发 store 的回调
-          }
-        }, applySpeed(200)); // 加快完成速度：500ms → 200ms
-      }
-      return;
-    }
-
-    const startDeviceName = currentPath[currentSegment];
-    const endDeviceName = currentPath[currentSegment + 1];
-
-    const startKey = startDeviceName.toLowerCase();
-    const endKey = endDeviceName.toLowerCase();
-
-    const startPos = devicePositions[startKey];
-    const endPos = devicePositions[endKey];
-
-    if (!startPos || !endPos) {
-      console.error(`❌ 找不到设备位置: ${startDeviceName} 或 ${endDeviceName}`);
-      // 跳过这一段
-      setTimeout(() => {
-        setCurrentSegment(currentSegment + 1);
-      }, applySpeed(100));
-      return;
-    }
-
-    console.log(`🚀 动画: ${startDeviceName}(${startPos.x},${startPos.y}) → ${endDeviceName}(${endPos.x},${endPos.y})`);
-
-    // 标记正在动画
-    isAnimatingRef.current = true;
-
-    // 动画参数
-    const duration = applySpeed(500); // 加快动画速度：800ms → 500ms
-    const startTime = Date.now();
-
-    const animate = () => {
-      const elapsed = Date.now() - startTime;
-      const progress = Math.min(elapsed / duration, 1);
-
-      // 缓动函数（ease-in-out）
-      const easeProgress = progress < 0.5
-        ? 2 * progress * progress
-        : 1 - Math.pow(-2 * progress + 2, 2) / 2;
-
-      const x = startPos.x + (endPos.x - startPos.x) * easeProgress;
-      const y = startPos.y + (endPos.y - startPos.y) * easeProgress;
-
-      setPosition({ x, y });
-
-      if (progress < 1) {
-        animationFrameRef.current = requestAnimationFrame(animate);
-      } else {
-        // 当前段完成
-        console.log(`✅ 段完成: ${startDeviceName} → ${endDeviceName}`);
-        isAnimatingRef.current = false;
-        setTimeout(() => {
-          setCurrentSegment(currentSegment + 1);
-        }, applySpeed(100));
-      }
-    };
-
-    animationFrameRef.current = requestAnimationFrame(animate);
-
-    // 清理函数
-    return () => {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
-      isAnimatingRef.current = false;
-    };
-  }, [currentSegment, phase, animationMode]); // 只依赖 currentSegment、phase 与模式
-
-  // 单步推进：每次 stepToken 变化推进一段（请求→响应）
-  useEffect(() => {
-    if (animationMode !== 'step') return;
-    if (stepToken === lastStepTokenRef.current) return;
-    lastStepTokenRef.current = stepToken;
-
-    const path = phase === 'request' ? initialRequestPathRef.current : initialResponsePathRef.current;
-
-    // 无路径或单节点，直接完成
-    if (!path || path.length < 2) {
-      if (!hasCompletedRef.current) {
-        hasCompletedRef.current = true;
-        onComplete();
-        triggerAnimationComplete();
-      }
-      return;
-    }
-
-    // 当前阶段结束，尝试切换或完成
-    if (currentSegment >= path.length - 1) {
-      if (phase === 'request' && initialResponsePathRef.current.length > 1) {
-        // 切到响应阶段，并把位置放到响应起点
-        setPhase('response');
-        setCurrentSegment(0);
-        const startKey = initialResponsePathRef.current[0]?.toLowerCase();
-        const startPos = startKey ? devicePositions[startKey] : undefined;
-        if (startPos) {
-          setPosition(startPos);
-        }
-      } else {
-        if (!hasCompletedRef.current) {
-          hasCompletedRef.current = true;
-          onComplete();
-          triggerAnimationComplete();
-        }
-      }
-      return;
-    }
-
-    // 正常前进一步
-    const nextName = path[currentSegment + 1];
-    const nextKey = nextName.toLowerCase();
-    const nextPos = devicePositions[nextKey];
-    if (nextPos) {
-      setPosition(nextPos);
-    }
-    setCurrentSegment((seg) => seg + 1);
-  }, [animationMode, stepToken, phase, currentSegment, devicePositions, onComplete, triggerAnimationComplete]);
+  // 第一个报文动作触发之前还没有可显示的内容
+  if (!packet) return null;
+
+  const startPos = devicePositions[packet.from.toLowerCase()];
+  const endPos = devicePositions[packet.to.toLowerCase()] || startPos;
+  if (!startPos || !endPos) return null;
+
+  const dropped = packet.kind === 'drop';
+  const arpStage = packet.kind === 'arp-request' ? 'request' : packet.kind === 'arp-reply' ? 'reply' : null;
+  const activeARP = arpStage ? packet.arp : undefined;
+
+  const currentColors = dropped
+    ? { bg: 'bg-red-600', border: 'border-red-400', icon: '💥' }
+    : activeARP
+      ? arpStage === 'request'
+        ? { bg: 'bg-purple-500', border: 'border-purple-300', icon: '📢' }
+        : { bg: 'bg-teal-600', border: 'border-teal-300', icon: '↩' }
+      : getColors()[packet.direction];
+
+  // 缓动函数（ease-in-out）
+  const easeProgress = progress < 0.5
+    ? 2 * progress * progress
+    : 1 - Math.pow(-2 * progress + 2, 2) / 2;
+  const position = {
+    x: startPos.x + (endPos.x - startPos.x) * easeProgress,
+    y: startPos.y + (endPos.y - startPos.y) * easeProgress
+  };
 
   // 应用viewport变换，将设备坐标转换为屏幕坐标
-  const screenX = position.x * viewport.scale + viewport.translateX;
-  const screenY = position.y * viewport.scale + viewport.translateY;
+  const toScreen = (pos: { x: number; y: number }) => ({
+    x: pos.x * viewport.scale + viewport.translateX,
+    y: pos.y * viewport.scale + viewport.translateY
+  });
+  const { x: screenX, y: screenY } = toScreen(position);
+
+  // 数据包正从交换机出发：显示泛洪到的设备，或查表转发
+  const switchEvent = packet.switchEvent;
+  const switchPos = switchEvent && devicePositions[switchEvent.switchName.toLowerCase()];
 
   return (
+    <>
+    {activeARP && arpStage === 'request' && activeARP.broadcastTo.map((name) => {
+      const pos = devicePositions[name.toLowerCase()];
+      if (!pos) return null;
+      return (
+        <div
+          key={`arp-bc-${name}`}
+          className="absolute pointer-events-none z-40 animate-pulse"
+          style={{
+            left: `${toScreen(pos).x}px`,
+            top: `${toScreen(pos).y - 40}px`,
+            transform: 'translate(-50%, -50%)'
+          }}
+        >
+          <div className="px-1.5 py-0.5 bg-purple-100 border border-purple-400 text-purple-700 text-[10px] font-bold rounded whitespace-nowrap">
+            📢 收到ARP广播（不是我）
+          </div>
+        </div>
+      );
+    })}
+    {switchEvent && switchPos && (
+      <>
+        <div
+          className="absolute pointer-events-none z-40"
+          style={{
+            left: `${toScreen(switchPos).x}px`,
+            top: `${toScreen(switchPos).y - 48}px`,
+            transform: 'translate(-50%, -50%)'
+          }}
+        >
+          <div className={`px-2 py-0.5 text-white text-xs font-bold rounded whitespace-nowrap shadow ${
+            switchEvent.flooded ? 'bg-orange-500' : 'bg-teal-600'
+          }`}>
+            {switchEvent.flooded ? '📢 目的MAC未知，泛洪' : '📋 查表转发'}
+          </div>
+        </div>
+        {switchEvent.floodTargets.map((targetName) => {
+          const targetPos = devicePositions[targetName.toLowerCase()];
+          if (!targetPos) return null;
+          return (
+            <div
+              key={`flood-${targetName}`}
+              className="absolute pointer-events-none z-40 animate-pulse"
+              style={{
+                left: `${toScreen(targetPos).x}px`,
+                top: `${toScreen(targetPos).y - 40}px`,
+                transform: 'translate(-50%, -50%)'
+              }}
+            >
+              <div className="px-1.5 py-0.5 bg-orange-100 border border-orange-400 text-orange-700 text-[10px] font-bold rounded whitespace-nowrap">
+                📢 收到泛洪帧（丢弃）
+              </div>
+            </div>
+          );
+        })}
+      </>
+    )}
     <div
       className="absolute pointer-events-none z-50 transition-all duration-100"
       style={{
@@ -285,14 +161,17 @@ const RoundTripAnimationComponent: React.FC<RoundTripAnimationProps> = ({
     >
       <div className="relative">
         {/* 数据包图标 */}
-        <div className={`w-10 h-10 ${currentColors.bg} rounded-lg shadow-lg flex items-center justify-center animate-pulse`}>
+        <div
+          className="w-10 h-10 rounded-lg shadow-lg flex items-center justify-center animate-pulse"
+          style={{ backgroundColor: color }}
+        >
           <span className="text-white text-xl">{currentColors.icon}</span>
         </div>
 
         {/* 标签 */}
         <div className={`absolute -top-8 left-1/2 transform -translate-x-1/2
                         px-2 py-1 ${currentColors.bg} text-white text-xs font-bold rounded whitespace-nowrap shadow-lg`}>
-          {currentLabel}
+          {packet.label}
         </div>
 
         {/* 轨迹线 */}
@@ -300,6 +179,7 @@ const RoundTripAnimationComponent: React.FC<RoundTripAnimationProps> = ({
                         w-14 h-14 border-2 ${currentColors.border} rounded-full animate-ping opacity-75`}></div>
       </div>
     </div>
+    </>
   );
 };
 
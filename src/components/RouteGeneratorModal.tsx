@@ -0,0 +1,132 @@
+import React, { useMemo, useState } from 'react';
+import { useNetworkStore } from '../store/useNetworkStore';
+import { RouteDiffLine, RouteGenerationOptions, diffRoutingTables, formatGeneratedRoute } from '../utils/routeGenerator';
+
+interface RouteGeneratorModalProps {
+  onClose: () => void;
+}
+
+const DIFF_STYLES: Record<RouteDiffLine['status'], { mark: string; className: string }> = {
+  added: { mark: '＋', className: 'bg-green-50 text-green-700' },
+  removed: { mark: '－', className: 'bg-red-50 text-red-700 line-through' },
+  changed: { mark: '～', className: 'bg-orange-50 text-orange-700' },
+  unchanged: { mark: '　', className: 'text-gray-500' }
+};
+
+export const RouteGeneratorModal: React.FC<RouteGeneratorModalProps> = ({ onClose }) => {
+  const { devices, connections, generateRoutes, applyGeneratedRoutes } = useNetworkStore();
+  const [options, setOptions] = useState<RouteGenerationOptions>({
+    includeBackupRoutes: false,
+    includeLinkNetworks: false,
+    defaultRouteForStubs: false
+  });
+  const [onlyChanges, setOnlyChanges] = useState(false);
+
+  // 拓扑或选项变化时重新生成
+  const tables = useMemo(() => generateRoutes(options), [devices, connections, options, generateRoutes]);
+  const previews = tables.map((table) => {
+    const router = devices.find((d) => d.name === table.router);
+    return { ...table, diff: diffRoutingTables(router?.routingTable || [], table.routingTable) };
+  });
+  const changeCount = previews.reduce((sum, preview) => sum + preview.diff.filter((line) => line.status !== 'unchanged').length, 0);
+  const dynamicRouters = devices.filter((d) => d.type === 'router' && d.dynamicRouting);
+
+  const toggleOption = (key: keyof RouteGenerationOptions) => setOptions({ ...options, [key]: !options[key] });
+
+  const handleApply = () => {
+    if (!confirm(`将覆盖 ${tables.length} 台路由器的路由表（共 ${changeCount} 处变化），确定应用？`)) return;
+    applyGeneratedRoutes(tables);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-2xl p-6 w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold text-gray-800">🧮 自动生成静态路由</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 text-2xl"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="mb-3 p-3 bg-gray-50 rounded text-sm space-y-1">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={options.includeBackupRoutes} onChange={() => toggleOption('includeBackupRoutes')} />
+            有多条路径时添加备用路由（权重更高，主路由不通时才使用）
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={options.includeLinkNetworks} onChange={() => toggleOption('includeLinkNetworks')} />
+            包含路由器之间的互联网段（能Ping通对方路由器的接口）
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={options.defaultRouteForStubs} onChange={() => toggleOption('defaultRouteForStubs')} />
+            末端路由器（只有一个邻居）只配一条默认路由
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer text-gray-600">
+            <input type="checkbox" checked={onlyChanges} onChange={() => setOnlyChanges(!onlyChanges)} />
+            只显示有变化的条目
+          </label>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-3">
+          {previews.length === 0 && (
+            <div className="p-4 text-center text-gray-500">没有需要生成静态路由的路由器</div>
+          )}
+          {previews.map((preview) => {
+            const lines = onlyChanges ? preview.diff.filter((line) => line.status !== 'unchanged') : preview.diff;
+            return (
+              <div key={preview.router} className="border rounded">
+                <div className="px-3 py-1 bg-gray-100 font-medium text-sm flex justify-between">
+                  <span>{preview.router}</span>
+                  <span className="text-xs text-gray-500">
+                    {preview.routingTable.length} 条路由
+                    {preview.diff.every((line) => line.status === 'unchanged') && ' · 与当前一致 ✅'}
+                  </span>
+                </div>
+                <div className="font-mono text-xs">
+                  {lines.map((line, index) => (
+                    <div key={index} className={`px-3 py-0.5 ${DIFF_STYLES[line.status].className}`}>
+                      {DIFF_STYLES[line.status].mark} {formatGeneratedRoute(line.entry)}
+                      {line.previous && <span className="ml-2 text-gray-400">（原：{line.previous.interface}, 权重{line.previous.metric}）</span>}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+          {dynamicRouters.length > 0 && (
+            <div className="p-2 bg-violet-50 rounded text-xs text-violet-700">
+              {dynamicRouters.map((d) => d.name).join('、')} 启用了动态路由，路由表由协议维护，不生成静态路由
+            </div>
+          )}
+        </div>
+
+        <div className="mt-4 flex items-center justify-between">
+          <span className="text-sm text-gray-600">
+            共 <strong>{changeCount}</strong> 处变化（<span className="text-green-700">＋新增</span>
+            <span className="text-red-700 ml-1">－删除</span>
+            <span className="text-orange-700 ml-1">～修改</span>）
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+            >
+              取消
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={changeCount === 0}
+              className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300 font-bold"
+            >
+              应用到路由表
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,215 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Device } from '../types';
+import { useNetworkStore } from '../store/useNetworkStore';
+import {
+  CLIEffect,
+  CLISession,
+  INITIAL_CLI_SESSION,
+  IOS_PING_COUNT,
+  buildRunningConfig,
+  completeCLICommand,
+  describeCLIOptions,
+  executeCLICommand,
+  formatIOSPing,
+  formatIOSTraceroute,
+  getCLIPrompt
+} from '../utils/routerCLI';
+
+/**
+ * 路由器命令行控制台（仿 Cisco IOS）
+ *
+ * 功能：
+ * - 输入 IOS 风格的命令配置接口地址、静态路由，查看路由表、接口状态和 running-config
+ * - 命令修改的是与图形界面相同的设备配置，两边随时同步
+ * - Tab 补全、? 帮助、↑↓ 翻看历史命令，配置模式下 Ctrl+Z 退回特权模式
+ * - ping/traceroute 在画布上播放动画，结束后按 IOS 格式输出结果
+ */
+interface RouterConsoleProps {
+  device: Device;
+}
+
+// 终端最多保留的行数
+const MAX_LINES = 500;
+
+const getBanner = (device: Device) => [
+  `${device.name} 控制台已连接（仿 Cisco IOS 命令行）`,
+  '输入 enable 进入特权模式，按 ? 查看当前可用的命令',
+  ''
+];
+
+export const RouterConsole: React.FC<RouterConsoleProps> = ({ device }) => {
+  const { devices, connections, flows, updateDevice, setInterfaceStatus, simulatePing, simulateTraceroute } = useNetworkStore();
+  const [session, setSession] = useState<CLISession>(INITIAL_CLI_SESSION);
+  const [lines, setLines] = useState<string[]>(() => getBanner(device));
+  const [input, setInput] = useState('');
+  const [history, setHistory] = useState<string[]>([]);
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  // 正在等待结果的 ping/traceroute（结束前不接受新命令）
+  const [pending, setPending] = useState<{ flowId: string; type: 'ping' | 'traceroute' } | null>(null);
+  const outputRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // 实时从store获取最新的设备数据
+  const currentDevice = devices.find((d) => d.id === device.id) || device;
+  const context = { device: currentDevice, devices, connections };
+  const prompt = getCLIPrompt(currentDevice, session);
+
+  // 切换设备时重新连接控制台
+  useEffect(() => {
+    setSession(INITIAL_CLI_SESSION);
+    setLines(getBanner(device));
+    setInput('');
+    setHistory([]);
+    setHistoryIndex(null);
+    setPending(null);
+  }, [device.id]);
+
+  useEffect(() => {
+    outputRef.current?.scrollTo({ top: outputRef.current.scrollHeight });
+  }, [lines]);
+
+  const append = (newLines: string[]) => {
+    setLines((previous) => [...previous, ...newLines].slice(-MAX_LINES));
+  };
+
+  // 通信流结束后输出结果；流被停止或清除时视为中止
+  useEffect(() => {
+    if (!pending) return;
+    const flow = flows.find((f) => f.id === pending.flowId);
+    if (flow?.status === 'running') return;
+    const result = flow?.result;
+    if (pending.type === 'ping') {
+      append(result?.pingStatistics ? formatIOSPing(result.pingStatistics) : ['% Aborted.']);
+    } else {
+      append(result?.tracerouteHops ? formatIOSTraceroute(result.tracerouteHops) : ['% Aborted.']);
+    }
+    setPending(null);
+    inputRef.current?.focus();
+  }, [flows, pending]);
+
+  const applyEffect = (effect: CLIEffect) => {
+    switch (effect.type) {
+      case 'update':
+        updateDevice(currentDevice.id, effect.updates);
+        break;
+      case 'interface-status':
+        setInterfaceStatus(currentDevice.id, effect.interfaceName, effect.status);
+        break;
+      case 'ping':
+        setPending({ flowId: simulatePing(currentDevice.ip, effect.destIP, { count: IOS_PING_COUNT }), type: 'ping' });
+        break;
+      case 'traceroute':
+        setPending({ flowId: simulateTraceroute(currentDevice.ip, effect.destIP), type: 'traceroute' });
+        break;
+    }
+  };
+
+  const runCommand = (line: string) => {
+    const result = executeCLICommand(context, session, line);
+    append([`${prompt}${line}`, ...result.output]);
+    setSession(result.session);
+    if (line.trim()) {
+      setHistory((previous) => [...previous.filter((entry) => entry !== line), line]);
+    }
+    setHistoryIndex(null);
+    setInput('');
+    if (result.effect) applyEffect(result.effect);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      runCommand(input);
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      const completion = completeCLICommand(context, session, input);
+      if (completion.options.length > 1) {
+        append([`${prompt}${input}`, completion.options.join('  ')]);
+      }
+      setInput(completion.line);
+    } else if (e.key === '?') {
+      e.preventDefault();
+      append([`${prompt}${input}?`, ...describeCLIOptions(context, session, input)]);
+    } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      if (history.length === 0) return;
+      const index = e.key === 'ArrowUp'
+        ? Math.max(0, (historyIndex ?? history.length) - 1)
+        : (historyIndex ?? history.length) + 1;
+      if (index >= history.length) {
+        setHistoryIndex(null);
+        setInput('');
+      } else {
+        setHistoryIndex(index);
+        setInput(history[index]);
+      }
+    } else if (e.ctrlKey && e.key.toLowerCase() === 'z' && (session.mode === 'config' || session.mode === 'interface')) {
+      e.preventDefault();
+      runCommand('end');
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([buildRunningConfig(context)], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${currentDevice.name}_running-config.txt`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="p-4 bg-white rounded-lg shadow">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-bold">💻 {currentDevice.name} 命令行控制台</h3>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setLines([])}
+            className="px-3 py-1 bg-gray-200 text-gray-700 rounded text-xs hover:bg-gray-300"
+          >
+            清屏
+          </button>
+          <button
+            onClick={handleExport}
+            className="px-3 py-1 bg-blue-500 text-white rounded text-xs hover:bg-blue-600"
+          >
+            💾 导出 running-config
+          </button>
+        </div>
+      </div>
+
+      <div
+        ref={outputRef}
+        onClick={() => inputRef.current?.focus()}
+        className="h-72 overflow-y-auto bg-gray-900 text-green-300 font-mono text-xs p-3 rounded cursor-text"
+      >
+        {lines.map((line, index) => (
+          <div key={index} className="whitespace-pre">{line || ' '}</div>
+        ))}
+        <div className="flex whitespace-pre">
+          <span>{pending ? '' : prompt}</span>
+          <input
+            ref={inputRef}
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            disabled={!!pending}
+            spellCheck={false}
+            autoComplete="off"
+            className="flex-1 bg-transparent outline-none text-green-300 font-mono"
+          />
+        </div>
+      </div>
+
+      <p className="mt-2 text-xs text-gray-500">
+        支持 enable、configure terminal、interface、ip address、ip route、no ip route、shutdown、
+        show ip route、show ip interface brief、show running-config、ping、traceroute。
+        命令可缩写（如 conf t、sh ip ro），Tab 补全，? 查看帮助，↑↓ 翻看历史命令。
+        ping/traceroute 以 LAN 接口地址作为源地址。
+      </p>
+    </div>
+  );
+};
@@ -1,11 +1,30 @@
 import React, { useState, useEffect } from 'react';
-import { Device, RouteEntry } from '../types';
+import { Device, NetworkInterface, RouteEntry } from '../types';
 import { useNetworkStore } from '../store/useNetworkStore';
+import { DEFAULT_SUBNET_MASK, calculateSubnet, interfaceContainsIP, isValidRouteMask, maskToCIDR } from '../utils/subnetUtils';
+import {
+  DEFAULT_ROUTE_DESTINATION,
+  DEFAULT_ROUTE_MASK,
+  formatRouteDestination,
+  getRouteMask,
+  getRoutePrefixLength,
+  isDefaultRoute,
+  isIPv6Route,
+  parseCIDRDestination
+} from '../utils/routeUtils';
+import { IPV6_DEFAULT_ROUTE, calculateIPv6Prefix, normalizeIPv6 } from '../utils/ipv6Utils';
 
 interface RoutingTableEditorProps {
   device: Device;
 }
 
+// 动态路由协议自动生成的条目
+const ROUTE_SOURCE_LABELS: Record<NonNullable<RouteEntry['source']>, string> = {
+  connected: '直连(自动)',
+  rip: 'RIP',
+  ospf: 'OSPF'
+};
+
 export const RoutingTableEditor: React.FC<RoutingTableEditorProps> = ({ device }) => {
   const { updateDevice, devices } = useNetworkStore();
   const [isEditing, setIsEditing] = useState(false);
@@ -39,18 +58,56 @@ export const RoutingTableEditor: React.FC<RoutingTableEditorProps> = ({ device }
   }
 
   const handleSave = () => {
-    // 检查同一目标网络的权重是否重复
+    // 检查子网掩码格式，以及目标网络是否为该掩码下的网络地址
+    for (const entry of editedTable) {
+      // IPv6路由：按前缀长度检查
+      if (isIPv6Route(entry)) {
+        const prefixLength = getRoutePrefixLength(entry);
+        if (!Number.isInteger(prefixLength) || prefixLength < 0 || prefixLength > 128) {
+          alert(`❌ 保存失败：目标网络 ${entry.destination} 的前缀长度 /${prefixLength} 无效！\n\nIPv6前缀长度为 0~128（默认路由为 ::/0）。`);
+          return;
+        }
+        const prefix = calculateIPv6Prefix(entry.destination, prefixLength);
+        if (prefix !== normalizeIPv6(entry.destination)) {
+          alert(`❌ 保存失败：${entry.destination} 不是 /${prefixLength} 前缀的网络地址！\n\n💡 按前缀长度计算，目标网络应填写 ${prefix}。`);
+          return;
+        }
+        continue;
+      }
+      const mask = getRouteMask(entry);
+      if (!isValidRouteMask(mask)) {
+        alert(`❌ 保存失败：目标网络 ${entry.destination} 的子网掩码 ${mask} 无效！\n\n请使用标准格式（如 255.255.255.0、255.255.0.0，默认路由为 0.0.0.0）。`);
+        return;
+      }
+      const networkAddress = calculateSubnet(entry.destination, mask);
+      if (networkAddress !== entry.destination) {
+        alert(`❌ 保存失败：${entry.destination} 不是 /${maskToCIDR(mask)} 网段的网络地址！\n\n💡 按子网掩码 ${mask} 计算，目标网络应填写 ${networkAddress || '有效的网络地址'}。`);
+        return;
+      }
+    }
+
+    // 默认路由必须转发给下一站路由器，不能是直连
+    const directDefaultRoute = editedTable.find(
+      (entry) => isDefaultRoute(entry) && (entry.nextHop === '-' || entry.nextHop === '直连' || entry.nextHop === '0.0.0.0')
+    );
+    if (directDefaultRoute) {
+      alert(`❌ 保存失败：默认路由 ${formatRouteDestination(directDefaultRoute)} 的下一站不能是“直连”！\n\n💡 默认路由表示“其他所有网络都交给上游路由器”，请选择上游路由器（如ISP路由器）作为下一站。`);
+      return;
+    }
+
+    // 检查同一目标网络（网络地址+掩码）的权重是否重复
     const destinationMetricMap = new Map<string, Set<number>>();
 
     for (const entry of editedTable) {
-      if (!destinationMetricMap.has(entry.destination)) {
-        destinationMetricMap.set(entry.destination, new Set());
+      const destinationKey = formatRouteDestination(entry);
+      if (!destinationMetricMap.has(destinationKey)) {
+        destinationMetricMap.set(destinationKey, new Set());
       }
 
-      const metrics = destinationMetricMap.get(entry.destination)!;
+      const metrics = destinationMetricMap.get(destinationKey)!;
       if (metrics.has(entry.metric)) {
         // 发现重复权重
-        alert(`❌ 保存失败：目标网络 ${entry.destination} 存在重复的权重 ${entry.metric}！\n\n同一目标网络的不同路由必须使用不同的权重值。`);
+        alert(`❌ 保存失败：目标网络 ${destinationKey} 存在重复的权重 ${entry.metric}！\n\n同一目标网络的不同路由必须使用不同的权重值。`);
         return; // 阻止保存
       }
       metrics.add(entry.metric);
@@ -91,7 +148,48 @@ export const RoutingTableEditor: React.FC<RoutingTableEditorProps> = ({ device }
   const handleAddRow = () => {
     setEditedTable([
       ...editedTable,
-      { destination: '192.168.0.0', nextHop: '直连', metric: 0, interface: 'LAN' }
+      { destination: '192.168.0.0', subnetMask: DEFAULT_SUBNET_MASK, nextHop: '直连', metric: 0, interface: 'LAN' }
+    ]);
+  };
+
+  // 快捷添加默认路由：0.0.0.0/0 指向第一个相邻路由器
+  const handleAddDefaultRoute = () => {
+    const upstream = allRouters[0];
+    const entry: RouteEntry = {
+      destination: DEFAULT_ROUTE_DESTINATION,
+      subnetMask: DEFAULT_ROUTE_MASK,
+      nextHop: upstream?.name || '直连',
+      metric: 1,
+      interface: currentInterfaces[0]?.name || 'LAN'
+    };
+    const recommended = getRecommendedInterface(entry);
+    if (recommended) {
+      entry.interface = recommended;
+    }
+    setEditedTable([...editedTable, entry]);
+  };
+
+  // 快捷添加IPv6默认路由：::/0 指向第一个相邻路由器（IPv4和IPv6各用各的默认路由）
+  const handleAddIPv6DefaultRoute = () => {
+    const entry: RouteEntry = {
+      destination: IPV6_DEFAULT_ROUTE,
+      prefixLength: 0,
+      nextHop: allRouters[0]?.name || '直连',
+      metric: 1,
+      interface: currentInterfaces[0]?.name || 'LAN'
+    };
+    const recommended = getRecommendedInterface(entry);
+    if (recommended) {
+      entry.interface = recommended;
+    }
+    setEditedTable([...editedTable, entry]);
+  };
+
+  // 快捷添加汇总路由：用一条 /16 路由代替多条 /24 路由
+  const handleAddSummaryRoute = () => {
+    setEditedTable([
+      ...editedTable,
+      { destination: '192.168.0.0', subnetMask: '255.255.0.0', nextHop: allRouters[0]?.name || '直连', metric: 1, interface: currentInterfaces[0]?.name || 'LAN' }
     ]);
   };
 
@@ -110,15 +208,14 @@ export const RoutingTableEditor: React.FC<RoutingTableEditorProps> = ({ device }
 
   // 根据下一站和目标网络，获取推荐的接口
   const getRecommendedInterface = (entry: RouteEntry): string | null => {
-    const getNetwork = (ip: string) => {
-      const parts = ip.split('.');
-      return `${parts[0]}.${parts[1]}.${parts[2]}.0`;
-    };
+    // 按接口自己的子网掩码（IPv6按前缀长度）判断某个IP是否在该接口网段内
+    const ifaceContains = (iface: NetworkInterface, ip: string | undefined) => !!ip && interfaceContainsIP(iface, ip);
+    const ipv6 = isIPv6Route(entry);
 
     if (entry.nextHop === '-' || entry.nextHop === '直连' || entry.nextHop === '0.0.0.0') {
-      // 直连：接口应该和目标网络在同一网段
+      // 直连：目标网络应该落在接口网段内
       const iface = currentInterfaces.find(
-        iface => getNetwork(iface.ip) === entry.destination
+        iface => ifaceContains(iface, entry.destination)
       );
       return iface?.name || null;
     } else {
@@ -128,10 +225,9 @@ export const RoutingTableEditor: React.FC<RoutingTableEditorProps> = ({ device }
 
       // 查找和下一站路由器有共同网段的接口
       for (const myIface of currentInterfaces) {
-        const myNet = getNetwork(myIface.ip);
         for (const nextIface of (nextRouter.interfaces || [])) {
-          const nextNet = getNetwork(nextIface.ip);
-          if (myNet === nextNet) {
+          const [myIP, nextIP] = ipv6 ? [myIface.ipv6, nextIface.ipv6] : [myIface.ip, nextIface.ip];
+          if (ifaceContains(myIface, nextIP) && ifaceContains(nextIface, myIP)) {
             return myIface.name;
           }
         }
@@ -142,10 +238,19 @@ export const RoutingTableEditor: React.FC<RoutingTableEditorProps> = ({ device }
 
   const handleCellChange = (index: number, field: keyof RouteEntry, value: string | number) => {
     const newTable = [...editedTable];
-    newTable[index] = { ...newTable[index], [field]: value };
+    // 手动修改过的自动路由变为静态路由
+    newTable[index] = { ...newTable[index], [field]: value, source: undefined };
 
-    // 当修改destination或nextHop时,自动更新interface为推荐值
-    if (field === 'destination' || field === 'nextHop') {
+    // 目标网络支持直接输入CIDR写法（如 192.168.0.0/16、0.0.0.0/0），自动拆分出子网掩码
+    if (field === 'destination' && typeof value === 'string') {
+      const parsed = parseCIDRDestination(value);
+      if (parsed) {
+        newTable[index] = { ...newTable[index], subnetMask: undefined, prefixLength: undefined, ...parsed };
+      }
+    }
+
+    // 当修改destination、subnetMask或nextHop时,自动更新interface为推荐值
+    if (field === 'destination' || field === 'subnetMask' || field === 'nextHop') {
       const recommendedInterface = getRecommendedInterface(newTable[index]);
       if (recommendedInterface) {
         newTable[index].interface = recommendedInterface;
@@ -191,6 +296,7 @@ export const RoutingTableEditor: React.FC<RoutingTableEditorProps> = ({ device }
           <thead>
             <tr className="bg-gray-100">
               <th className="px-3 py-2 text-left">目标网络</th>
+              <th className="px-3 py-2 text-left">子网掩码</th>
               <th className="px-3 py-2 text-left">下一站</th>
               <th className="px-3 py-2 text-left">优先级</th>
               <th className="px-3 py-2 text-left">接口</th>
@@ -207,10 +313,51 @@ export const RoutingTableEditor: React.FC<RoutingTableEditorProps> = ({ device }
                       value={entry.destination}
                       onChange={(e) => handleCellChange(index, 'destination', e.target.value)}
                       className="w-full px-2 py-1 border rounded font-mono text-xs"
-                      placeholder="192.168.20.0"
+                      placeholder="192.168.20.0、0.0.0.0/0 或 2001:db8:2::/64"
+                    />
+                  ) : (
+                    <span className="font-mono">
+                      {entry.destination}
+                      {isDefaultRoute(entry) && (
+                        <span className="ml-1 text-xs px-1 rounded bg-purple-100 text-purple-700">默认路由</span>
+                      )}
+                      {entry.source && (
+                        <span className="ml-1 text-xs px-1 rounded bg-violet-100 text-violet-700">{ROUTE_SOURCE_LABELS[entry.source]}</span>
+                      )}
+                    </span>
+                  )}
+                </td>
+                <td className="px-3 py-2">
+                  {isIPv6Route(entry) ? (
+                    isEditing ? (
+                      <input
+                        type="number"
+                        value={getRoutePrefixLength(entry)}
+                        onChange={(e) => handleCellChange(index, 'prefixLength', parseInt(e.target.value) || 0)}
+                        className="w-full px-2 py-1 border rounded font-mono text-xs"
+                        min="0"
+                        max="128"
+                        title="IPv6前缀长度"
+                      />
+                    ) : (
+                      <span className="font-mono">
+                        /{getRoutePrefixLength(entry)}
+                        <span className="ml-1 text-xs text-gray-500">IPv6前缀</span>
+                      </span>
+                    )
+                  ) : isEditing ? (
+                    <input
+                      type="text"
+                      value={entry.subnetMask ?? getRouteMask(entry)}
+                      onChange={(e) => handleCellChange(index, 'subnetMask', e.target.value)}
+                      className="w-full px-2 py-1 border rounded font-mono text-xs"
+                      placeholder="255.255.255.0"
                     />
                   ) : (
-                    <span className="font-mono">{entry.destination}</span>
+                    <span className="font-mono">
+                      {getRouteMask(entry)}
+                      <span className="ml-1 text-xs text-gray-500">/{maskToCIDR(getRouteMask(entry))}</span>
+                    </span>
                   )}
                 </td>
                 <td className="px-3 py-2">
@@ -259,7 +406,7 @@ export const RoutingTableEditor: React.FC<RoutingTableEditorProps> = ({ device }
                           const isRecommended = iface.name === recommended;
                           return (
                             <option key={iface.id} value={iface.name}>
-                              {isRecommended ? '✅ ' : ''}{iface.name} ({iface.ip})
+                              {isRecommended ? '✅ ' : ''}{iface.name} ({isIPv6Route(entry) ? iface.ipv6 || '未启用IPv6' : iface.ip})
                             </option>
                           );
                         })}
@@ -315,12 +462,35 @@ export const RoutingTableEditor: React.FC<RoutingTableEditorProps> = ({ device }
       </div>
 
       {isEditing && (
-        <button
-          onClick={handleAddRow}
-          className="mt-3 px-4 py-2 bg-green-500 text-white rounded text-sm hover:bg-green-600 transition"
-        >
-          + 添加路由条目
-        </button>
+        <div className="mt-3 flex flex-wrap gap-2">
+          <button
+            onClick={handleAddRow}
+            className="px-4 py-2 bg-green-500 text-white rounded text-sm hover:bg-green-600 transition"
+          >
+            + 添加路由条目
+          </button>
+          <button
+            onClick={handleAddDefaultRoute}
+            className="px-4 py-2 bg-purple-500 text-white rounded text-sm hover:bg-purple-600 transition"
+            title="0.0.0.0/0：没有更精确路由时，全部交给上游路由器"
+          >
+            + 默认路由 0.0.0.0/0
+          </button>
+          <button
+            onClick={handleAddIPv6DefaultRoute}
+            className="px-4 py-2 bg-teal-500 text-white rounded text-sm hover:bg-teal-600 transition"
+            title="::/0：IPv6的默认路由，IPv4的 0.0.0.0/0 不会匹配IPv6目标"
+          >
+            + IPv6默认路由 ::/0
+          </button>
+          <button
+            onClick={handleAddSummaryRoute}
+            className="px-4 py-2 bg-indigo-500 text-white rounded text-sm hover:bg-indigo-600 transition"
+            title="用一条较短前缀的路由覆盖多个网段，如 192.168.0.0/16"
+          >
+            + 汇总路由
+          </button>
+        </div>
       )}
 
       <div className="mt-3 space-y-2">
@@ -328,6 +498,14 @@ export const RoutingTableEditor: React.FC<RoutingTableEditorProps> = ({ device }
           <p className="text-blue-800 font-bold mb-2">💡 路由表填写说明：</p>
           <ul className="text-blue-700 space-y-1 ml-4">
             <li><strong>目标网络：</strong>要到达的网络地址（如 192.168.20.0）</li>
+            <li><strong>子网掩码：</strong>目标网络的范围（如 255.255.255.128 即 /25）
+              <br/><span className="text-xs">⚠️ 多条路由同时匹配时，路由器选择<strong>前缀最长</strong>（掩码最长、最精确）的那一条！</span>
+            </li>
+            <li><strong>默认路由：</strong>目标 <code className="bg-white px-1 rounded">0.0.0.0</code>、掩码 <code className="bg-white px-1 rounded">0.0.0.0</code>（即 0.0.0.0/0），匹配所有目标，只在没有更精确路由时使用
+              <br/><span className="text-xs">🏠 家庭路由器通常只需要一条默认路由指向运营商（ISP）路由器</span>
+            </li>
+            <li><strong>IPv6路由：</strong>目标网络直接写成前缀形式，如 <code className="bg-white px-1 rounded">2001:db8:2::/64</code>，IPv6默认路由为 <code className="bg-white px-1 rounded">::/0</code>；IPv4和IPv6各查各的路由表条目</li>
+            <li><strong>汇总路由：</strong>用较短的前缀覆盖多个网段，如 192.168.0.0/16 同时包含 192.168.1.0/24 和 192.168.2.0/24</li>
             <li><strong>下一站：</strong>
               <ul className="ml-4 mt-1">
                 <li>• 选择 <code className="bg-white px-1 rounded">直连</code> = 这个网络直接连在本路由器上</li>
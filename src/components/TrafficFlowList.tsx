@@ -0,0 +1,79 @@
+import React from 'react';
+import { useNetworkStore } from '../store/useNetworkStore';
+import { TrafficFlow } from '../types';
+
+/**
+ * 通信流列表
+ *
+ * 功能：
+ * - 列出同时进行的各个通信（Ping、路由追踪、DNS、HTTP……），颜色与画布上的报文和链路一致
+ * - 显示每个通信流的状态（进行中/成功/失败/已停止）
+ * - 一键停止全部通信、清除已结束的通信
+ */
+const FLOW_TYPE_ICONS: Record<TrafficFlow['type'], string> = {
+  ping: '📍',
+  tracert: '🧭',
+  dhcp: '📡',
+  routing: '🔄',
+  dns: '🔍',
+  http: '🌐'
+};
+
+const FLOW_STATUS_STYLES: Record<TrafficFlow['status'], { label: string; className: string }> = {
+  running: { label: '⏳ 进行中', className: 'bg-blue-100 text-blue-700' },
+  success: { label: '✅ 成功', className: 'bg-green-100 text-green-700' },
+  failed: { label: '❌ 失败', className: 'bg-red-100 text-red-700' },
+  stopped: { label: '⏹ 已停止', className: 'bg-gray-100 text-gray-600' }
+};
+
+export const TrafficFlowList: React.FC = () => {
+  const { flows, stopSimulation, clearFinishedFlows } = useNetworkStore();
+
+  if (flows.length === 0) return null;
+
+  const runningCount = flows.filter((flow) => flow.status === 'running').length;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 border border-gray-200">
+      <div className="flex items-center justify-between mb-2">
+        <div>
+          <h3 className="text-sm font-bold text-gray-800">🚦 通信流（{runningCount} 个进行中）</h3>
+          <p className="text-xs text-gray-500 mt-0.5">
+            多个通信可同时进行；经过同一条链路时，画布上该链路会并排显示各通信流的颜色
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={stopSimulation}
+            disabled={runningCount === 0}
+            className="px-3 py-1 bg-red-500 text-white rounded text-xs hover:bg-red-600 disabled:bg-gray-300 transition"
+          >
+            ⏹ 全部停止
+          </button>
+          <button
+            onClick={clearFinishedFlows}
+            disabled={runningCount === flows.length}
+            className="px-3 py-1 bg-gray-200 text-gray-700 rounded text-xs hover:bg-gray-300 disabled:text-gray-400 transition"
+          >
+            清除已结束
+          </button>
+        </div>
+      </div>
+
+      <ul className="space-y-1 max-h-40 overflow-y-auto">
+        {[...flows].reverse().map((flow) => {
+          const status = FLOW_STATUS_STYLES[flow.status];
+          return (
+            <li key={flow.id} className="flex items-center gap-2 text-xs">
+              <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: flow.color }} />
+              <span>{FLOW_TYPE_ICONS[flow.type]}</span>
+              <span className="font-mono text-gray-500 uppercase w-14">{flow.type}</span>
+              <span className="flex-1 truncate text-gray-800" title={flow.result?.message}>{flow.label}</span>
+              <span className={`px-2 py-0.5 rounded ${status.className}`}>{status.label}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { Connection, Device, NetworkInterface } from '../types';
+import { useNetworkStore } from '../store/useNetworkStore';
+import { DEFAULT_SUBNET_MASK, calculateSubnet } from '../utils/subnetUtils';
+import {
+  DEFAULT_VLAN,
+  createSubInterface,
+  formatVLANList,
+  isSubInterface,
+  validateSubInterface
+} from '../utils/vlanUtils';
+
+// 编辑中的交换机端口VLAN配置（输入框里的文字，保存时再校验）
+export interface SwitchPortDraft {
+  mode: NonNullable<NetworkInterface['vlanMode']>;
+  vlan: string;
+  allowedVlans: string;
+}
+
+export const getSwitchPortDrafts = (device: Device): Record<string, SwitchPortDraft> =>
+  Object.fromEntries((device.interfaces || []).map((port) => [port.name, {
+    mode: port.vlanMode || 'access',
+    vlan: String(port.vlan || DEFAULT_VLAN),
+    allowedVlans: port.allowedVlans ? formatVLANList(port.allowedVlans) : ''
+  }]));
+
+export const getSubInterfaces = (device: Device): NetworkInterface[] =>
+  (device.interfaces || []).filter(isSubInterface);
+
+interface VLANSettingsProps {
+  device: Device;
+  ports: Record<string, SwitchPortDraft>;
+  onPortChange: (portName: string, draft: SwitchPortDraft) => void;
+  subInterfaces: NetworkInterface[];
+  onSubInterfacesChange: (subInterfaces: NetworkInterface[]) => void;
+}
+
+// 端口连接的设备名称（未连线时为空）
+const getPortPeer = (device: Device, port: NetworkInterface, devices: Device[], connections: Connection[]) => {
+  const connection = connections.find(
+    (c) => (c.source === device.id && c.sourceInterfaceId === port.id) || (c.target === device.id && c.targetInterfaceId === port.id)
+  );
+  const peerId = connection && (connection.source === device.id ? connection.target : connection.source);
+  return devices.find((d) => d.id === peerId)?.name || '';
+};
+
+export const VLANSettings: React.FC<VLANSettingsProps> = ({
+  device,
+  ports,
+  onPortChange,
+  subInterfaces,
+  onSubInterfacesChange
+}) => {
+  const { devices, connections } = useNetworkStore();
+  const physicalInterfaces = device.interfaces.filter((iface) => !isSubInterface(iface));
+  const [parent, setParent] = useState(physicalInterfaces.find((iface) => iface.name === 'LAN')?.name || physicalInterfaces[0]?.name || '');
+  const [vlan, setVlan] = useState('10');
+  const [ip, setIp] = useState('');
+  const [subnetMask, setSubnetMask] = useState(DEFAULT_SUBNET_MASK);
+  const [error, setError] = useState('');
+
+  if (device.type === 'switch') {
+    return (
+      <div className="p-3 bg-violet-50 border border-violet-200 rounded text-sm space-y-2">
+        <div className="font-bold text-violet-900">🏷️ VLAN划分</div>
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-violet-700">
+              <th className="py-1">端口</th>
+              <th className="py-1">模式</th>
+              <th className="py-1">VLAN</th>
+            </tr>
+          </thead>
+          <tbody>
+            {device.interfaces.map((port) => {
+              const draft = ports[port.name] || { mode: 'access', vlan: String(DEFAULT_VLAN), allowedVlans: '' };
+              const peer = getPortPeer(device, port, devices, connections);
+              return (
+                <tr key={port.name}>
+                  <td className="py-0.5 pr-1 font-mono" title={peer ? `连接 ${peer}` : '未连接'}>
+                    {port.name}
+                    {peer && <span className="text-gray-500"> ({peer})</span>}
+                  </td>
+                  <td className="py-0.5 pr-1">
+                    <select
+                      value={draft.mode}
+                      onChange={(e) => onPortChange(port.name, { ...draft, mode: e.target.value as SwitchPortDraft['mode'] })}
+                      className="px-1 py-0.5 border rounded bg-white text-xs"
+                    >
+                      <option value="access">access</option>
+                      <option value="trunk">trunk</option>
+                    </select>
+                  </td>
+                  <td className="py-0.5">
+                    {draft.mode === 'access' ? (
+                      <input
+                        type="number"
+                        value={draft.vlan}
+                        onChange={(e) => onPortChange(port.name, { ...draft, vlan: e.target.value })}
+                        className="w-20 px-1 py-0.5 border rounded bg-white font-mono text-xs"
+                        min="1"
+                        max="4094"
+                      />
+                    ) : (
+                      <input
+                        type="text"
+                        value={draft.allowedVlans}
+                        onChange={(e) => onPortChange(port.name, { ...draft, allowedVlans: e.target.value })}
+                        className="w-full px-1 py-0.5 border rounded bg-white font-mono text-xs"
+                        placeholder="全部（如 10,20,30-32）"
+                      />
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <p className="text-xs text-violet-700">
+          access端口只属于一个VLAN，帧不带标签；trunk端口用802.1Q标签同时承载多个VLAN（VLAN 1为本征VLAN，不带标签），
+          用于连接其他交换机或单臂路由的路由器。交换机只在同一VLAN内转发帧。
+        </p>
+      </div>
+    );
+  }
+
+  const handleAdd = () => {
+    const parentInterface = physicalInterfaces.find((iface) => iface.name === parent);
+    if (!parentInterface) {
+      setError('请选择物理接口');
+      return;
+    }
+    const subInterface = createSubInterface(device.id, parentInterface, Number(vlan), ip.trim(), subnetMask.trim());
+    // 按编辑中的子接口列表校验（尚未保存到设备）
+    const draftDevice: Device = { ...device, interfaces: [...physicalInterfaces, ...subInterfaces] };
+    const validation = validateSubInterface(draftDevice, subInterface);
+    if (!validation.valid) {
+      setError(validation.error || '子接口配置错误');
+      return;
+    }
+    onSubInterfacesChange([...subInterfaces, subInterface]);
+    setIp('');
+    setError('');
+  };
+
+  return (
+    <div className="p-3 bg-violet-50 border border-violet-200 rounded text-sm space-y-2">
+      <div className="font-bold text-violet-900">🏷️ 子接口（单臂路由）</div>
+      {subInterfaces.length > 0 && (
+        <div className="space-y-1">
+          {subInterfaces.map((iface) => (
+            <div key={iface.name} className="flex items-center justify-between bg-white rounded px-2 py-1 text-xs font-mono">
+              <span>
+                {iface.name} VLAN {iface.vlan} → {iface.ip} ({calculateSubnet(iface.ip, iface.subnetMask)})
+              </span>
+              <button
+                onClick={() => onSubInterfacesChange(subInterfaces.filter((s) => s.name !== iface.name))}
+                className="text-red-600 hover:text-red-800"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="grid grid-cols-4 gap-1">
+        <select
+          value={parent}
+          onChange={(e) => setParent(e.target.value)}
+          className="px-1 py-1 border rounded bg-white text-xs"
+        >
+          {physicalInterfaces.map((iface) => (
+            <option key={iface.name} value={iface.name}>{iface.name}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          value={vlan}
+          onChange={(e) => setVlan(e.target.value)}
+          placeholder="VLAN"
+          className="px-1 py-1 border rounded text-xs font-mono"
+          min="1"
+          max="4094"
+        />
+        <input
+          type="text"
+          value={ip}
+          onChange={(e) => setIp(e.target.value)}
+          placeholder="网关IP"
+          className="px-1 py-1 border rounded text-xs font-mono"
+        />
+        <input
+          type="text"
+          value={subnetMask}
+          onChange={(e) => setSubnetMask(e.target.value)}
+          placeholder="子网掩码"
+          className="px-1 py-1 border rounded text-xs font-mono"
+        />
+      </div>
+      {error && <p className="text-xs text-red-600">❌ {error}</p>}
+      <button
+        onClick={handleAdd}
+        className="w-full py-1 bg-violet-500 text-white rounded hover:bg-violet-600 text-xs"
+      >
+        ➕ 添加子接口
+      </button>
+      <p className="text-xs text-violet-700">
+        路由器的一个物理接口接到交换机的trunk端口，每个VLAN建一个子接口（如 LAN.10）作为该VLAN的网关，
+        子接口收发带对应VLAN标签的帧，不同VLAN之间的通信经路由器转发。保存时会自动为子接口网段添加直连路由。
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+/**
+ * 订阅一次通信的模拟事件
+ *
+ * 报文何时出发、走到哪一步都由调度器决定，动画组件只根据收到的报文动作和虚拟时间算出当前进度：
+ * 暂停时进度停住，倍速时跟着变快，单步时停在刚触发的动作起点
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useNetworkStore } from '../store/useNetworkStore';
+import { PacketMovement } from '../types';
+
+export interface SimulationFlowState {
+  packet?: PacketMovement; // 当前的报文动作，尚未开始时为空
+  progress: number; // 当前动作的进度 0~1（非移动动作始终为1）
+}
+
+/**
+ * @param flowId 要播放的通信流
+ * @param onComplete 这次通信结束（complete 事件）时调用
+ */
+export function useSimulationFlow(flowId: string | null, onComplete?: () => void): SimulationFlowState {
+  const [current, setCurrent] = useState<{ id: number; packet: PacketMovement; time: number } | null>(null);
+  // 进度记录所属的事件，避免切换到下一个动作的第一帧沿用上一个动作的进度
+  const [progress, setProgress] = useState({ id: 0, value: 0 });
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  useEffect(() => {
+    setCurrent(null);
+    if (!flowId) return;
+    const { subscribeSimulationEvents, getLastSimulationEvent } = useNetworkStore.getState();
+
+    // 组件可能在报文已经出发后才挂载：从最近触发的事件接着播放
+    const last = getLastSimulationEvent(flowId);
+    if (last?.payload.type === 'complete') {
+      onCompleteRef.current?.();
+      return;
+    }
+    if (last?.payload.packet) {
+      setCurrent({ id: last.id, packet: last.payload.packet, time: last.time });
+    }
+
+    return subscribeSimulationEvents((event) => {
+      if (event.flowId !== flowId) return;
+      if (event.payload.type === 'complete') {
+        onCompleteRef.current?.();
+      } else if (event.payload.packet) {
+        setCurrent({ id: event.id, packet: event.payload.packet, time: event.time });
+      }
+    });
+  }, [flowId]);
+
+  // 按虚拟时间逐帧计算进度
+  useEffect(() => {
+    if (!current) return;
+    if (current.packet.travel <= 0) {
+      setProgress({ id: current.id, value: 1 });
+      return;
+    }
+    const { getSimulationTime } = useNetworkStore.getState();
+    let frame: number;
+    const tick = () => {
+      const value = Math.min(1, Math.max(0, (getSimulationTime() - current.time) / current.packet.travel));
+      setProgress((prev) => (prev.id === current.id && prev.value === value ? prev : { id: current.id, value }));
+      if (value < 1) frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [current]);
+
+  return { packet: current?.packet, progress: current && progress.id === current.id ? progress.value : 0 };
+}
@@ -1,11 +1,71 @@
 import { create } from 'zustand';
-import { Device, Connection, SimulationResult, RouteEntry, DeviceType, NetworkInterface } from '../types';
-import { calculateSubnet } from '../utils/subnetUtils';
+import { Device, Connection, SimulationResult, RouteEntry, DeviceType, NetworkInterface, TracerouteHop, ICMPErrorReply, SwitchFrameEvent, ARPExchange, ARPEntry, DHCPMessage, NATEntry, PacketHeaderSnapshot, TransportProtocol, ACLRule, RoutingUpdateRound, ReachabilityCell, ReachabilityReport, RoutingHealthIssue, SimulationEvent, PacketMovement, TrafficFlow, VLANTagEvent, MACTableEntry, CaptureState, CaptureTarget } from '../types';
+import { DEFAULT_SUBNET_MASK, calculateSubnet, interfaceContainsIP, maskToCIDR } from '../utils/subnetUtils';
+import { validateGateway, validateIPv6Gateway } from '../utils/ipValidator';
+import {
+  IPV6_DEFAULT_PREFIX_LENGTH,
+  calculateIPv6Prefix,
+  generateSLAACAddress,
+  getLinkLocalAddress,
+  IPV6_DEFAULT_ROUTE,
+  isIPv6Address,
+  isInSameIPv6Prefix,
+  isSameAddress
+} from '../utils/ipv6Utils';
+import { findMatchingRoutes, formatRouteDestination, getRoutePrefixLength, isDefaultRoute, routeMatchesIP } from '../utils/routeUtils';
+import { createSwitchPorts, findFreeSwitchPort, findSwitchPort } from '../utils/switchUtils';
+import { assignInterfaceMACs, generateMAC, getInterfaceMAC, isARPEntryExpired } from '../utils/arpUtils';
+import { allocateDHCPAddress, getDHCPServiceIP, upsertLease } from '../utils/dhcpUtils';
+import {
+  ICMP_ECHO_ID,
+  allocateOutsidePort,
+  findInboundTranslation,
+  findOutboundTranslation,
+  findPortForward,
+  formatEndpoint,
+  getEphemeralPort,
+  getNATInterfaces,
+  isNATEnabled,
+  resolvePortForward
+} from '../utils/natUtils';
+import { ACLDecision, evaluateACL, formatACLRule } from '../utils/aclUtils';
+import { DNSResolver } from '../utils/dnsResolver';
+import {
+  RIPLink,
+  buildRoutingTable,
+  formatRoutingChange,
+  hasCountToInfinity,
+  restoreRIPState,
+  runRIPRounds
+} from '../utils/ripUtils';
+import {
+  OSPFAdjacency,
+  buildLSA,
+  buildOSPFRoutes,
+  buildOSPFRoutingTable,
+  diffOSPFRoutes,
+  floodLSAs,
+  formatOSPFChange,
+  getPathCost,
+  runSPF
+} from '../utils/ospfUtils';
+import { GeneratedRoutingTable, RouteGenerationOptions, generateStaticRoutes } from '../utils/routeGenerator';
+import { findConnectionBetween, getLinkInterface, isConnectionUp, isInterfaceUp } from '../utils/linkUtils';
+import { DEFAULT_VLAN, getIngressVLAN, getPhysicalInterface, isSubInterface, isTaggedOnPort, portCarriesVLAN } from '../utils/vlanUtils';
+import { PING_DEFAULT_COUNT, createPingSeed, formatPingReport, runPingSeries } from '../utils/pingUtils';
+import { ScheduledEvent, createEventScheduler } from '../utils/eventScheduler';
+import { buildPacketMovements, buildRoutingRoundMovements, buildSequentialMovements, PacketPhase } from '../utils/packetTimeline';
+import { CaptureConversation, CaptureFrame, CaptureLink, MAX_CAPTURED_PACKETS, buildCaptureFrames, getCaptureConnectionIds } from '../utils/captureUtils';
 
-const DEFAULT_SUBNET_MASK = '255.255.255.0';
 const BACKBONE_MASK = '255.255.255.0';
 const BACKBONE_PREFIX_PARTS = ['10', '0'];
 const ENDPOINT_TYPES: DeviceType[] = ['pc', 'dns', 'web'];
+const ICMP_ERROR_TEXT: Record<NonNullable<SimulationResult['failureType']>, { description: string; reply: string }> = {
+  'net-unreachable': { description: '网络不可达', reply: '无法访问目标网。' },
+  'host-unreachable': { description: '主机不可达', reply: '无法访问目标主机。' },
+  'ttl-exceeded': { description: 'TTL超时', reply: 'TTL 传输中过期。' },
+  'admin-prohibited': { description: '通信被管理禁止（ACL）', reply: '通信被管理员禁止。' }
+};
 
 const deriveSubnet = (ip: string, mask: string = DEFAULT_SUBNET_MASK): string => {
   const calculated = calculateSubnet(ip, mask);
@@ -18,8 +78,15 @@ const deriveSubnet = (ip: string, mask: string = DEFAULT_SUBNET_MASK): string =>
 };
 
 const isEndpointDevice = (device: Device) => ENDPOINT_TYPES.includes(device.type);
+const getEndpointMask = (device: Device) => device.interfaces?.[0]?.subnetMask || DEFAULT_SUBNET_MASK;
+const getEndpointPrefixLength = (device: Device) => device.interfaces?.[0]?.ipv6PrefixLength || IPV6_DEFAULT_PREFIX_LENGTH;
+const getInterfacePrefixLength = (iface: NetworkInterface) => iface.ipv6PrefixLength || IPV6_DEFAULT_PREFIX_LENGTH;
 const isRouterDevice = (device: Device) => device.type === 'router';
+const isSwitchDevice = (device: Device) => device.type === 'switch';
 const getLanInterface = (device: Device) => device.interfaces?.find((iface) => iface.name === 'LAN');
+// 接到交换机时设备一侧使用的接口（交换机端口另行分配）
+const getSwitchLinkInterface = (device: Device) =>
+  isRouterDevice(device) ? getLanInterface(device) : isSwitchDevice(device) ? undefined : device.interfaces?.[0];
 const isInSameSubnetHelper = (ip1: string, mask: string, ip2: string) =>
   deriveSubnet(ip1, mask) === deriveSubnet(ip2, mask);
 
@@ -64,8 +131,16 @@ const ensureRouterLanInterface = (device: Device): Device => {
   };
 };
 
+// 交换机没有端口时（如旧数据或手写JSON）补上默认端口
+const ensureSwitchPorts = (device: Device): Device => {
+  if (!isSwitchDevice(device) || (device.interfaces && device.interfaces.length > 0)) {
+    return device;
+  }
+  return { ...device, ip: '', interfaces: createSwitchPorts(device.id) };
+};
+
 const normalizeDevices = (devices: Device[] = []): Device[] =>
-  devices.map((device) => ensureRouterLanInterface(device));
+  devices.map((device) => assignInterfaceMACs(ensureSwitchPorts(ensureRouterLanInterface(device))));
 
 const collectUsedBackboneIndices = (devices: Device[]): Set<number> => {
   const used = new Set<number>();
@@ -116,13 +191,17 @@ const createRouterInterface = (
   name: string,
   ip: string,
   subnet: string
-): NetworkInterface => ({
-  id: generateInterfaceId(device, name),
-  name,
-  ip,
-  subnet,
-  subnetMask: BACKBONE_MASK
-});
+): NetworkInterface => {
+  const id = generateInterfaceId(device, name);
+  return {
+    id,
+    name,
+    ip,
+    subnet,
+    subnetMask: BACKBONE_MASK,
+    mac: generateMAC(id)
+  };
+};
 
 interface StudentInfo {
   name: string;
@@ -137,32 +216,40 @@ interface NetworkState {
   connections: Connection[];
   selectedDevice: Device | null;
   simulationResult: SimulationResult | null;
-  isSimulating: boolean;
-  simulationType: 'ping' | 'dns' | 'http' | null;
-  animationCompleteCallback: (() => void) | null;
+  isSimulating: boolean; // 是否有通信流正在进行
+  simulationType: 'ping' | 'tracert' | 'dns' | 'http' | 'dhcp' | 'routing' | null; // 最近开始的通信类型
+  flows: TrafficFlow[]; // 正在进行和最近结束的通信流，按开始顺序
+  simulationClock: { paused: boolean; speed: number }; // 虚拟时钟：暂停、倍速
+  capture: CaptureState; // 抓包：在选定的链路或接口上记录经过的帧
   htmlPreviewContent: { content: string; url: string; port: number } | null; // 要预览的HTML内容和访问信息
   currentStudentInfo: StudentInfo | null; // 当前加载的学生作业信息
-  testToolState: { sourceIP: string; destIP: string }; // 测试工具状态（Ping）
+  testToolState: { sourceIP: string; destIP: string; count?: number; seed?: number }; // 测试工具状态（Ping次数和随机种子可选）
   browserState: { sourceIP: string; url: string; port: number; dnsServerIP: string; urlType: 'domain' | 'ip' }; // 浏览器模拟器状态
   gradingTools: {
     fastMode: boolean;
   animationMode: 'step' | 'normal' | 'fast';
-    stepToken: number;
     autoCommentEnabled: boolean;
     autoCommentDraft: string;
-    lastAutoCommentSource: 'ping' | 'dns' | 'http' | null;
+    lastAutoCommentSource: 'ping' | 'tracert' | 'dns' | 'http' | null;
     lastUpdatedAt: number;
     activeStudentId: string | null;
     commentOwnerId: string | null;
   };
-  setTestToolState: (state: { sourceIP: string; destIP: string }) => void;
+  setTestToolState: (state: { sourceIP: string; destIP: string; count?: number; seed?: number }) => void;
   setBrowserState: (state: { sourceIP: string; url: string; port: number; dnsServerIP: string; urlType: 'domain' | 'ip' }) => void;
   setGradingFastMode: (enabled: boolean) => void;
   setAnimationMode: (mode: 'step' | 'normal' | 'fast') => void;
-  stepForward: () => void;
+  pauseSimulation: () => void;
+  resumeSimulation: () => void;
+  stepSimulation: () => void;
+  setSimulationSpeed: (speed: number) => void;
+  runSimulationToCompletion: () => void;
+  subscribeSimulationEvents: (listener: (event: ScheduledEvent<SimulationEvent>) => void) => () => void;
+  getLastSimulationEvent: (flowId: string) => ScheduledEvent<SimulationEvent> | undefined;
+  getSimulationTime: () => number;
   setGradingAutoCommentEnabled: (enabled: boolean) => void;
   setActiveGradingStudent: (studentId: string | null) => void;
-  recordAutoComment: (type: 'ping' | 'dns' | 'http', result: SimulationResult) => void;
+  recordAutoComment: (type: 'ping' | 'tracert' | 'dns' | 'http', result: SimulationResult) => void;
 
   // Actions
   addDevice: (device: Device) => void;
@@ -172,14 +259,32 @@ interface NetworkState {
 
   addConnection: (connection: Connection) => void;
   deleteConnection: (id: string) => void;
-
-  simulatePing: (sourceIP: string, destIP: string) => void;
-  simulateDNSQuery: (sourceIP: string, dnsServerIP: string, domain: string, onComplete?: () => void) => void;
-  simulateHTTPRequest: (sourceIP: string, targetIP: string, httpSuccess: boolean, statusCode: number, onComplete?: () => void, httpMessage?: string) => void;
+  setConnectionCost: (id: string, cost: number | undefined) => void;
+  setConnectionStatus: (id: string, status: 'up' | 'down') => void;
+  setConnectionProperties: (id: string, properties: Pick<Connection, 'latency' | 'bandwidth' | 'lossRate'>) => void;
+  setInterfaceStatus: (deviceId: string, interfaceName: string, status: 'up' | 'down') => void;
+  clearMACTable: (switchId: string) => void;
+  clearARPCache: (deviceId?: string) => void;
+  clearNATTable: (routerId: string) => void;
+
+  // 各模拟返回通信流ID，可同时进行多条
+  simulatePing: (sourceIP: string, destIP: string, options?: { count?: number; seed?: number }) => string;
+  simulateTraceroute: (sourceIP: string, destIP: string) => string;
+  requestDHCPLease: (deviceId: string) => string;
+  configureIPv6SLAAC: (deviceId: string) => { success: boolean; message: string }; // 按路由器通告（RA）的前缀自动生成IPv6地址
+  runDynamicRouting: () => string;
+  generateRoutes: (options: RouteGenerationOptions) => GeneratedRoutingTable[];
+  applyGeneratedRoutes: (tables: GeneratedRoutingTable[]) => void;
+  checkReachability: () => ReachabilityReport;
+  // onComplete 在这条流播放完时调用，参数是这条流自己的结果（其他流可能已经更新了 simulationResult）
+  simulateDNSQuery: (sourceIP: string, dnsServerIP: string, domain: string, onComplete?: (result: SimulationResult) => void) => string;
+  simulateHTTPRequest: (sourceIP: string, targetIP: string, httpSuccess: boolean, statusCode: number, onComplete?: (result: SimulationResult) => void, httpMessage?: string, port?: number) => string;
   clearSimulation: () => void;
-  stopSimulation: () => void;
-  setAnimationCompleteCallback: (callback: (() => void) | null) => void;
-  triggerAnimationComplete: () => void;
+  stopSimulation: () => void; // 停止所有正在进行的通信流
+  clearFinishedFlows: () => void;
+  startCapture: (target: CaptureTarget) => void; // 开始新的抓包（清空上次抓到的帧）
+  stopCapture: () => void;
+  clearCapture: () => void;
   setHTMLPreviewContent: (content: { content: string; url: string; port: number } | null) => void; // 设置预览内容
 
   clearTopology: () => void;
@@ -188,6 +293,19 @@ interface NetworkState {
   autoLayout: (canvasWidth: number, canvasHeight: number) => { scale: number; translateX: number; translateY: number };
 }
 
+// 清除交换机从这条连线所在端口学到的MAC地址（连线删除或断开时）
+const flushSwitchPortMACs = (devices: Device[], connection: Connection): Device[] =>
+  devices.map((device) => {
+    if (!isSwitchDevice(device)) return device;
+    const portId =
+      device.id === connection.source ? connection.sourceInterfaceId :
+      device.id === connection.target ? connection.targetInterfaceId :
+      undefined;
+    const portName = device.interfaces.find((port) => port.id === portId)?.name;
+    if (!portName) return device;
+    return { ...device, macTable: (device.macTable || []).filter((entry) => entry.port !== portName) };
+  });
+
 // LocalStorage持久化
 const STORAGE_KEY = 'network-simulator-state';
 const VERSION_KEY = 'network-simulator-version';
@@ -231,9 +349,238 @@ const saveToStorage = (devices: Device[], connections: Connection[]) => {
   }
 };
 
+// 离散事件调度器：所有模拟按虚拟时间把结果、报文动作和结束排进同一个队列，画布动画只订阅其中的事件
+const simulationScheduler = createEventScheduler<SimulationEvent>();
+let flowCounter = 0;
+// 快速模式的倍速（与原来把等待时间缩短为1/4一致）
+const FAST_MODE_SPEED = 4;
+// 通信流的颜色依次取用（避开表示应答、差错报文、丢弃的绿、橙、红）
+const FLOW_COLORS = ['#3b82f6', '#a855f7', '#ec4899', '#14b8a6', '#eab308', '#6366f1', '#84cc16', '#06b6d4'];
+// 流列表中最多保留的已结束通信流
+const FINISHED_FLOW_LIMIT = 12;
+
+const trimFinishedFlows = (flows: TrafficFlow[]): TrafficFlow[] => {
+  const finished = flows.filter((flow) => flow.status !== 'running');
+  const dropped = new Set(finished.slice(0, Math.max(0, finished.length - FINISHED_FLOW_LIMIT + 1)));
+  return flows.filter((flow) => !dropped.has(flow));
+};
+
+// 流列表中显示的设备：有名称用名称，否则用IP
+const describeEndpoint = (devices: Device[], ip: string): string =>
+  findEndpointByIP(devices, ip)?.name || ip;
+
 export const useNetworkStore = create<NetworkState>((set, get) => {
   const initialState = loadFromStorage();
 
+  const updateFlow = (flowId: string, updates: Partial<TrafficFlow>) => {
+    set((state) => ({ flows: state.flows.map((flow) => (flow.id === flowId ? { ...flow, ...updates } : flow)) }));
+  };
+
+  // 报文动作触发时，把它在链路上产生的帧记入抓包（只记录抓包位置所在链路上的帧）
+  const recordCapture = (flowId: string, frames: CaptureFrame[]) => {
+    const { capture, devices, connections } = get();
+    if (!capture.running) return;
+    const linkIds = getCaptureConnectionIds(capture.target, devices, connections);
+    const captured = frames.filter((frame) => !linkIds || linkIds.has(frame.connectionId));
+    if (captured.length === 0) return;
+    const time = simulationScheduler.now() - capture.startedAt;
+    const nextId = (capture.packets[capture.packets.length - 1]?.id ?? 0) + 1;
+    set({
+      capture: {
+        ...capture,
+        packets: [
+          ...capture.packets,
+          ...captured.map((frame, index) => ({ ...frame, id: nextId + index, time, flowId }))
+        ].slice(-MAX_CAPTURED_PACKETS)
+      }
+    });
+  };
+
+  // 运行动态路由协议并写回各路由器的路由表，返回收敛过程供动画使用
+  const applyDynamicRouting = () => {
+    const { devices, connections, selectedDevice } = get();
+    const convergence = runRoutingProtocols(devices, connections);
+
+    saveToStorage(convergence.devices, connections);
+    set({
+      devices: convergence.devices,
+      selectedDevice: selectedDevice
+        ? convergence.devices.find((d) => d.id === selectedDevice.id) || selectedDevice
+        : null
+    });
+    return convergence;
+  };
+
+  // 拓扑变化后路由表总是立即重算；已有通信流（包括上一次的收敛动画）在播放时不再叠加新的收敛动画
+  const reconvergeDynamicRouting = () => {
+    if (get().isSimulating) {
+      applyDynamicRouting();
+    } else {
+      get().runDynamicRouting();
+    }
+  };
+
+  // 把一次模拟作为一条新的通信流排进调度器：resultDelay 后发布结果，接着依次播放报文动作，最后结束这条流
+  // 多条流可以同时进行，各自的报文按虚拟时间交错播放；返回通信流ID，画布按它订阅报文事件
+  const scheduleSimulation = (
+    simulationType: SimulationEvent['simulationType'],
+    options: {
+      label: string;
+      result: SimulationResult;
+      resultDelay: number;
+      onResult?: () => void; // 发布结果时的附加处理（如自动评语）
+      movements?: PacketMovement[];
+      completeDelay?: number; // 没有动画时，结果显示多久后结束
+      onComplete?: (result: SimulationResult) => void;
+      capture?: CaptureConversation; // 通信的应用层内容，用于抓包时合成各层头部
+    }
+  ): string => {
+    const { result } = options;
+    const flowId = `${simulationType}-${++flowCounter}`;
+    const flow: TrafficFlow = {
+      id: flowId,
+      type: simulationType,
+      label: options.label,
+      color: FLOW_COLORS[(flowCounter - 1) % FLOW_COLORS.length],
+      status: 'running'
+    };
+    set((state) => ({ isSimulating: true, simulationType, flows: [...trimFinishedFlows(state.flows), flow] }));
+
+    // 单步模式下虚拟时钟是停的：结果安排在当前时刻并立即公布，报文停在起点等待“下一步”
+    const paused = simulationScheduler.getState().paused;
+    const resultEvent = simulationScheduler.schedule(paused ? 0 : options.resultDelay, flowId, { type: 'result', simulationType }, () => {
+      updateFlow(flowId, { result });
+      set({ simulationResult: result });
+      options.onResult?.();
+    });
+    const movements = options.movements || [];
+    const { devices, connections } = get();
+    const captureFrames = options.capture
+      ? buildCaptureFrames(movements, {
+        flowId,
+        simulationType,
+        result,
+        conversation: options.capture,
+        devices,
+        describeLinks: (path) => describeCaptureLinks(devices, connections, path)
+      })
+      : [];
+    let time = options.resultDelay;
+    movements.forEach((packet, index) => {
+      const frames = captureFrames[index] || [];
+      simulationScheduler.schedule(
+        time,
+        flowId,
+        { type: 'packet', simulationType, packet },
+        frames.length > 0 ? () => recordCapture(flowId, frames) : undefined
+      );
+      time += packet.duration;
+    });
+    simulationScheduler.schedule(time + (options.completeDelay ?? 0), flowId, { type: 'complete', simulationType }, () => {
+      updateFlow(flowId, { status: result.success ? 'success' : 'failed' });
+      set((state) => ({ isSimulating: state.flows.some((f) => f.status === 'running') }));
+      options.onComplete?.(result);
+    });
+    // 只触发这条流自己的结果事件，其他流正在等待“下一步”的报文不受影响
+    if (paused) {
+      simulationScheduler.trigger(resultEvent);
+    }
+    return flowId;
+  };
+
+  // DNS/HTTP 在发出报文之前就失败（设备不存在、类型不对）：稍后显示错误并结束
+  const scheduleFailure = (
+    type: 'dns' | 'http',
+    label: string,
+    result: SimulationResult,
+    delay: number,
+    onComplete?: (result: SimulationResult) => void
+  ): string =>
+    scheduleSimulation(type, {
+      label,
+      result,
+      resultDelay: delay,
+      onResult: () => get().recordAutoComment(type, result),
+      onComplete
+    });
+
+  // DNS/HTTP 的一次往返：立即公布结果，按去程、回程（或ICMP差错报文）播放报文，播放完结束
+  const scheduleRoundTrip = (
+    type: 'dns' | 'http',
+    label: string,
+    result: SimulationResult,
+    onComplete?: (result: SimulationResult) => void,
+    capture?: CaptureConversation
+  ): string => {
+    const { devices, connections } = get();
+    // 路由失败且没有ICMP差错报文时没有可播放的报文
+    const animate = !!result.icmpError || (result.success && result.path.length > 0);
+    const responseFailed = result.requestSuccess ? result.responseSuccess === false : result.icmpError?.delivered === false;
+    const movements = animate
+      ? buildPacketMovements(
+        [
+          { direction: 'request', path: result.requestPath || [], label: result.requestLabel || '', tone: 'request' },
+          {
+            direction: 'response',
+            path: result.responsePath || [],
+            label: result.responseLabel || '',
+            tone: result.icmpError ? 'icmp' : type === 'http' && !result.httpSuccess ? 'failed' : 'response'
+          }
+        ],
+        { devices, connections, arpEvents: result.arpEvents, switchEvents: result.switchEvents, droppedAtEnd: responseFailed }
+      )
+      : [];
+    return scheduleSimulation(type, {
+      label,
+      result,
+      resultDelay: 0,
+      onResult: () => get().recordAutoComment(type, result),
+      movements,
+      completeDelay: animate ? 0 : 500, // 没有动画时让错误信息先显示一会儿
+      onComplete,
+      capture
+    });
+  };
+
+  // 数据包逐跳发送前先查ARP缓存（未命中时广播ARP），帧经过交换机时更新MAC地址表
+  // 返回ARP过程和泛洪/转发记录供动画使用；IPv6用邻居发现（NDP）代替ARP，family 为 ipv6 时只学习MAC
+  const applyLayer2Learning = (
+    legs: Array<{ path: string[]; direction: SwitchFrameEvent['direction'] }>,
+    family: AddressFamily = 'ipv4'
+  ) => {
+    const { devices, connections, selectedDevice } = get();
+    const arp = family === 'ipv4' ? resolveARP(devices, connections, legs) : { devices, events: [] };
+    const learning = learnMACAddresses(arp.devices, connections, legs);
+    const vlanTags: VLANTagEvent[] = legs.flatMap(({ path, direction }) =>
+      traceFrameVLANs(devices, connections, path).tags.map((tag) => ({ ...tag, direction }))
+    );
+    if (arp.events.length === 0 && learning.events.length === 0) {
+      return { arpEvents: arp.events, switchEvents: learning.events, vlanTags };
+    }
+    saveToStorage(learning.devices, connections);
+    set({
+      devices: learning.devices,
+      selectedDevice: selectedDevice
+        ? learning.devices.find((d) => d.id === selectedDevice.id) || selectedDevice
+        : null
+    });
+    return { arpEvents: arp.events, switchEvents: learning.events, vlanTags };
+  };
+
+  // 把本次通信中新建的NAT转换写回路由器
+  const applyNATTranslations = (nat: NATSession) => {
+    if (nat.size === 0) return;
+    const { devices, connections, selectedDevice } = get();
+    const newDevices = devices.map((d) => (nat.has(d.id) ? { ...d, natTable: nat.get(d.id) } : d));
+    saveToStorage(newDevices, connections);
+    set({
+      devices: newDevices,
+      selectedDevice: selectedDevice
+        ? newDevices.find((d) => d.id === selectedDevice.id) || selectedDevice
+        : null
+    });
+  };
+
   return {
   devices: initialState.devices,
   connections: initialState.connections,
@@ -241,7 +588,9 @@ export const useNetworkStore = create<NetworkState>((set, get) => {
   simulationResult: null,
   isSimulating: false,
   simulationType: null,
-  animationCompleteCallback: null,
+  flows: [],
+  simulationClock: { paused: false, speed: 1 },
+  capture: { running: false, target: { kind: 'all' }, startedAt: 0, startedWallClock: 0, packets: [] },
   htmlPreviewContent: null,
   currentStudentInfo: null,
   testToolState: { sourceIP: '', destIP: '' }, // 默认测试工具状态
@@ -249,7 +598,6 @@ export const useNetworkStore = create<NetworkState>((set, get) => {
   gradingTools: {
     fastMode: false,
     animationMode: 'normal',
-    stepToken: 0,
     autoCommentEnabled: true,
     autoCommentDraft: '',
     lastAutoCommentSource: null,
@@ -261,7 +609,10 @@ export const useNetworkStore = create<NetworkState>((set, get) => {
   setTestToolState: (state) => set({ testToolState: state }),
   setBrowserState: (state) => set({ browserState: state }),
   setGradingFastMode: (enabled) => {
+    simulationScheduler.resume();
+    simulationScheduler.setSpeed(enabled ? FAST_MODE_SPEED : 1);
     set((state) => ({
+      simulationClock: { paused: false, speed: enabled ? FAST_MODE_SPEED : 1 },
       gradingTools: {
         ...state.gradingTools,
         fastMode: enabled,
@@ -270,7 +621,15 @@ export const useNetworkStore = create<NetworkState>((set, get) => {
     }));
   },
   setAnimationMode: (mode) => {
+    // 单步模式即暂停虚拟时钟，由“下一步”逐个推进事件
+    if (mode === 'step') {
+      simulationScheduler.pause();
+    } else {
+      simulationScheduler.resume();
+      simulationScheduler.setSpeed(mode === 'fast' ? FAST_MODE_SPEED : 1);
+    }
     set((state) => ({
+      simulationClock: { paused: mode === 'step', speed: mode === 'fast' ? FAST_MODE_SPEED : 1 },
       gradingTools: {
         ...state.gradingTools,
         animationMode: mode,
@@ -278,14 +637,32 @@ export const useNetworkStore = create<NetworkState>((set, get) => {
       }
     }));
   },
-  stepForward: () => {
-    set((state) => ({
-      gradingTools: {
-        ...state.gradingTools,
-        stepToken: state.gradingTools.stepToken + 1
-      }
-    }));
+  pauseSimulation: () => {
+    simulationScheduler.pause();
+    set((state) => ({ simulationClock: { ...state.simulationClock, paused: true } }));
+  },
+  resumeSimulation: () => {
+    simulationScheduler.resume();
+    set((state) => ({ simulationClock: { ...state.simulationClock, paused: false } }));
+  },
+  // 推进到下一个报文动作（中间的结果发布等事件一并触发）
+  stepSimulation: () => {
+    while (simulationScheduler.getState().pending > 0) {
+      const fired = simulationScheduler.step();
+      if (fired.some((event) => event.payload.type === 'packet')) break;
+    }
+  },
+  setSimulationSpeed: (speed) => {
+    simulationScheduler.setSpeed(speed);
+    set((state) => ({ simulationClock: { ...state.simulationClock, speed } }));
   },
+  // 不等待动画，立即执行完所有排队的事件（批改、连通检查等无需观看的场景）
+  runSimulationToCompletion: () => {
+    simulationScheduler.runToCompletion();
+  },
+  subscribeSimulationEvents: (listener) => simulationScheduler.subscribe(listener),
+  getLastSimulationEvent: (flowId) => simulationScheduler.lastEvent(flowId),
+  getSimulationTime: () => simulationScheduler.now(),
   setGradingAutoCommentEnabled: (enabled) => {
     set((state) => ({
       gradingTools: {
@@ -328,7 +705,7 @@ export const useNetworkStore = create<NetworkState>((set, get) => {
 
   addDevice: (device) => {
     set((state) => {
-      const newDevices = [...state.devices, device];
+      const newDevices = [...state.devices, assignInterfaceMACs(device)];
       saveToStorage(newDevices, state.connections);
       return { devices: newDevices };
     });
@@ -337,7 +714,7 @@ export const useNetworkStore = create<NetworkState>((set, get) => {
   updateDevice: (id, updates) => {
     set((state) => {
       const newDevices = state.devices.map((d) =>
-        d.id === id ? { ...d, ...updates } : d
+        d.id === id ? assignInterfaceMACs({ ...d, ...updates }) : d
       );
       saveToStorage(newDevices, state.connections);
 
@@ -373,6 +750,7 @@ export const useNetworkStore = create<NetworkState>((set, get) => {
   },
 
   addConnection: (connection) => {
+    const connectionCount = get().connections.length;
     set((state) => {
       const { devices, connections } = state;
       const sourceDevice = devices.find((d) => d.id === connection.source);
@@ -392,8 +770,11 @@ export const useNetworkStore = create<NetworkState>((set, get) => {
         return state;
       }
 
-      if (!isRouterDevice(sourceDevice) && !isRouterDevice(targetDevice)) {
-        alert('⚠️ 终端设备之间不能直接连线，请通过路由器连接。');
+      if (
+        !isRouterDevice(sourceDevice) && !isRouterDevice(targetDevice) &&
+        !isSwitchDevice(sourceDevice) && !isSwitchDevice(targetDevice)
+      ) {
+        alert('⚠️ 终端设备之间不能直接连线，请通过路由器或交换机连接。');
         return state;
       }
 
@@ -422,7 +803,24 @@ export const useNetworkStore = create<NetworkState>((set, get) => {
       let updatedDevices = [...devices];
       let newConnection: Connection;
 
-      if (isRouterDevice(sourceDevice) && isRouterDevice(targetDevice)) {
+      if (isSwitchDevice(sourceDevice) || isSwitchDevice(targetDevice)) {
+        // 接到交换机：占用一个空闲端口，网段是否正确由路由模拟时检查
+        const sourcePort = isSwitchDevice(sourceDevice) ? findFreeSwitchPort(sourceDevice, connections) : undefined;
+        const targetPort = isSwitchDevice(targetDevice) ? findFreeSwitchPort(targetDevice, connections) : undefined;
+        const fullSwitch =
+          (isSwitchDevice(sourceDevice) && !sourcePort && sourceDevice) ||
+          (isSwitchDevice(targetDevice) && !targetPort && targetDevice);
+        if (fullSwitch) {
+          alert(`❌ 交换机 ${fullSwitch.name} 的端口已全部占用，无法再连接设备。`);
+          return state;
+        }
+        // 另一端：路由器接LAN接口，终端接自己的网卡
+        newConnection = {
+          ...connection,
+          sourceInterfaceId: (sourcePort || getSwitchLinkInterface(sourceDevice))?.id,
+          targetInterfaceId: (targetPort || getSwitchLinkInterface(targetDevice))?.id
+        };
+      } else if (isRouterDevice(sourceDevice) && isRouterDevice(targetDevice)) {
         const sourceLan = getLanInterface(sourceDevice);
         const targetLan = getLanInterface(targetDevice);
         if (sourceLan && targetLan) {
@@ -478,14 +876,16 @@ export const useNetworkStore = create<NetworkState>((set, get) => {
           return state;
         }
         const subnetMask = lanInterface.subnetMask || DEFAULT_SUBNET_MASK;
-        if (lanInterface.ip === endpoint.ip) {
+        // 自动获取地址的PC还没有IP：先接线，再通过DHCP获取同网段地址
+        const awaitingDHCP = endpoint.ipMode === 'dhcp' && !endpoint.ip;
+        if (!awaitingDHCP && lanInterface.ip === endpoint.ip) {
           alert(
             `❌ IP地址冲突！\n\n${endpoint.name} 的IP地址与路由器 ${router.name} 的LAN接口 (${lanInterface.ip}) 完全相同。\n\n` +
               `💡 请为 ${endpoint.name} 设置同一网段内的其他可用IP。`
           );
           return state;
         }
-        if (!isInSameSubnetHelper(lanInterface.ip, subnetMask, endpoint.ip)) {
+        if (!awaitingDHCP && !isInSameSubnetHelper(lanInterface.ip, subnetMask, endpoint.ip)) {
           const subnet = lanInterface.subnet || deriveSubnet(lanInterface.ip, subnetMask);
           alert(
             `❌ 子网不匹配！\n\n${endpoint.name} 的IP地址: ${endpoint.ip}\n` +
@@ -494,7 +894,13 @@ export const useNetworkStore = create<NetworkState>((set, get) => {
           );
           return state;
         }
-        newConnection = { ...connection };
+        // 连线接在路由器的LAN接口和终端的网卡上
+        const endpointInterface = endpoint.interfaces?.[0];
+        newConnection = {
+          ...connection,
+          sourceInterfaceId: router === sourceDevice ? lanInterface.id : endpointInterface?.id,
+          targetInterfaceId: router === targetDevice ? lanInterface.id : endpointInterface?.id
+        };
       }
 
       const newConnections = [...connections, newConnection];
@@ -510,6 +916,11 @@ export const useNetworkStore = create<NetworkState>((set, get) => {
         selectedDevice: updatedSelectedDevice
       };
     });
+
+    // 启用了动态路由时，新增链路后重新交换路由更新
+    if (get().connections.length > connectionCount && get().devices.some((d) => d.dynamicRouting)) {
+      reconvergeDynamicRouting();
+    }
   },
 
   deleteConnection: (id) => {
@@ -519,8 +930,18 @@ export const useNetworkStore = create<NetworkState>((set, get) => {
 
       const { devices } = state;
       let updatedDevices = [...devices];
-
-      if (connection.sourceInterfaceId && connection.targetInterfaceId) {
+      const touchesSwitch = devices.some(
+        (d) => (d.id === connection.source || d.id === connection.target) && isSwitchDevice(d)
+      );
+      const betweenRouters = devices.filter(
+        (d) => (d.id === connection.source || d.id === connection.target) && isRouterDevice(d)
+      ).length === 2;
+
+      if (touchesSwitch) {
+        // 交换机端口是固定的，不删除；只清除从该端口学到的MAC地址
+        updatedDevices = flushSwitchPortMACs(updatedDevices, connection);
+      } else if (connection.sourceInterfaceId && connection.targetInterfaceId && betweenRouters) {
+        // 路由器之间的连线：删除连线时一并删除为它创建的接口
         updatedDevices = updatedDevices.map((device) => {
           if (device.id === connection.source) {
             return {
@@ -541,22 +962,16 @@ export const useNetworkStore = create<NetworkState>((set, get) => {
         const targetDevice = devices.find((d) => d.id === connection.target);
 
         if (sourceDevice && targetDevice && isRouterDevice(sourceDevice) && isRouterDevice(targetDevice)) {
-          const getNetwork = (ip: string) => {
-            const parts = ip.split('.');
-            return `${parts[0]}.${parts[1]}.${parts[2]}.0`;
-          };
-
           let sourceIfaceToRemove: string | null = null;
           let targetIfaceToRemove: string | null = null;
 
           if (sourceDevice && targetDevice) {
             for (const sourceIface of (sourceDevice.interfaces || [])) {
               if (sourceIface.name === 'LAN') continue;
-              const sourceNet = getNetwork(sourceIface.ip);
               for (const targetIface of (targetDevice.interfaces || [])) {
                 if (targetIface.name === 'LAN') continue;
-                const targetNet = getNetwork(targetIface.ip);
-                if (sourceNet === targetNet) {
+                // 按两端接口的子网掩码判断是否为这条连线所在的网段
+                if (interfacesShareSubnet(sourceIface, targetIface)) {
                   sourceIfaceToRemove = sourceIface.id ?? null;
                   targetIfaceToRemove = targetIface.id ?? null;
                   break;
@@ -594,34 +1009,341 @@ export const useNetworkStore = create<NetworkState>((set, get) => {
         devices: updatedDevices
       };
     });
+
+    // 启用了动态路由时，断开链路后重新交换路由更新，观察坏消息如何传播
+    if (get().devices.some((d) => d.dynamicRouting)) {
+      reconvergeDynamicRouting();
+    }
+  },
+
+  setConnectionCost: (id, cost) => {
+    set((state) => {
+      const newConnections = state.connections.map((c) => (c.id === id ? { ...c, cost } : c));
+      saveToStorage(state.devices, newConnections);
+      return { connections: newConnections };
+    });
+
+    // 链路开销只影响OSPF选路，修改后重新计算最短路径
+    if (get().devices.some((d) => d.dynamicRouting?.protocol === 'ospf')) {
+      reconvergeDynamicRouting();
+    }
+  },
+
+  setConnectionStatus: (id, status) => {
+    set((state) => {
+      const connection = state.connections.find((c) => c.id === id);
+      if (!connection) return state;
+      const newConnections = state.connections.map((c) => (c.id === id ? { ...c, status } : c));
+      // 交换机端口断开时清除从该端口学到的MAC地址
+      const newDevices = status === 'down' ? flushSwitchPortMACs(state.devices, connection) : state.devices;
+      saveToStorage(newDevices, newConnections);
+      return { connections: newConnections, devices: newDevices };
+    });
+    // 链路或接口状态变化后，动态路由重新收敛（静态路由保持不变，靠备用路由切换）
+    if (get().devices.some((d) => d.dynamicRouting)) {
+      reconvergeDynamicRouting();
+    }
+  },
+
+  setConnectionProperties: (id, properties) => {
+    set((state) => {
+      const newConnections = state.connections.map((c) => (c.id === id ? { ...c, ...properties } : c));
+      saveToStorage(state.devices, newConnections);
+      return { connections: newConnections };
+    });
+  },
+
+  setInterfaceStatus: (deviceId, interfaceName, status) => {
+    set((state) => {
+      const newDevices = state.devices.map((d) =>
+        d.id === deviceId
+          ? { ...d, interfaces: d.interfaces.map((iface) => (iface.name === interfaceName ? { ...iface, status } : iface)) }
+          : d
+      );
+      saveToStorage(newDevices, state.connections);
+      return {
+        devices: newDevices,
+        selectedDevice: state.selectedDevice?.id === deviceId
+          ? newDevices.find((d) => d.id === deviceId) || state.selectedDevice
+          : state.selectedDevice
+      };
+    });
+    // 链路或接口状态变化后，动态路由重新收敛（静态路由保持不变，靠备用路由切换）
+    if (get().devices.some((d) => d.dynamicRouting)) {
+      reconvergeDynamicRouting();
+    }
+  },
+
+  clearMACTable: (switchId) => {
+    set((state) => {
+      const newDevices = state.devices.map((d) =>
+        d.id === switchId ? { ...d, macTable: [] } : d
+      );
+      saveToStorage(newDevices, state.connections);
+      return {
+        devices: newDevices,
+        selectedDevice:
+          state.selectedDevice && state.selectedDevice.id === switchId
+            ? { ...state.selectedDevice, macTable: [] }
+            : state.selectedDevice
+      };
+    });
+  },
+
+  clearARPCache: (deviceId) => {
+    set((state) => {
+      const newDevices = state.devices.map((d) =>
+        !deviceId || d.id === deviceId ? { ...d, arpTable: [] } : d
+      );
+      saveToStorage(newDevices, state.connections);
+      return {
+        devices: newDevices,
+        selectedDevice: state.selectedDevice
+          ? newDevices.find((d) => d.id === state.selectedDevice!.id) || state.selectedDevice
+          : null
+      };
+    });
+  },
+
+  clearNATTable: (routerId) => {
+    set((state) => {
+      const newDevices = state.devices.map((d) => (d.id === routerId ? { ...d, natTable: [] } : d));
+      saveToStorage(newDevices, state.connections);
+      return {
+        devices: newDevices,
+        selectedDevice: state.selectedDevice
+          ? newDevices.find((d) => d.id === state.selectedDevice!.id) || state.selectedDevice
+          : null
+      };
+    });
   },
 
-  simulatePing: (sourceIP, destIP) => {
-    const { animationMode, stepToken } = get().gradingTools;
-    console.log('[Tracert] simulatePing start', { animationMode, stepToken, sourceIP, destIP });
+  simulatePing: (sourceIP, destIP, options) => {
+    console.log('[Tracert] simulatePing start', { sourceIP, destIP });
 
-    set({ isSimulating: true, simulationType: 'ping' });
+    const devices = get().devices;
+    const connections = get().connections;
+    const nat: NATSession = new Map();
+    const clientIP = matchSourceFamily(devices, sourceIP, destIP);
+    const { result, icmpError, returnPath } = runPingExchange(devices, connections, clientIP, destIP, nat);
+    applyNATTranslations(nat);
+    // 请求已送达，但应答在回程中被丢弃
+    const replyLost = !result.success && !icmpError && returnPath.length > 0;
+
+    // 帧经过交换机：去程学习源MAC，回程（应答或ICMP差错报文）通常已能直接转发
+    Object.assign(result, applyLayer2Learning([
+      { path: result.path, direction: 'request' },
+      { path: returnPath, direction: 'response' }
+    ], getAddressFamily(destIP)));
+
+    // 连续发送多个回显请求：按链路时延计算往返时间，按丢包率随机丢弃
+    const seed = options?.seed ?? createPingSeed();
+    const pingStatistics = runPingSeries({
+      devices,
+      connections,
+      destIP,
+      requestPath: result.path,
+      returnPath: icmpError ? icmpError.path : returnPath,
+      outcome: result.success ? 'reply' : icmpError?.delivered ? 'unreachable' : 'timeout',
+      count: options?.count ?? PING_DEFAULT_COUNT,
+      seed,
+      errorFrom: icmpError?.fromIP,
+      errorText: icmpError ? ICMP_ERROR_TEXT[icmpError.reason].reply : undefined
+    });
+    if (result.success && pingStatistics.received === 0) {
+      result.success = false;
+      result.message = `❌ 路由正常，但所有回显请求都在有丢包的链路上丢失
+（丢失于 ${[...new Set(pingStatistics.replies.map((r) => r.lostAt).filter(Boolean))].join('、')}）`;
+    }
+    result.pingStatistics = pingStatistics;
+    result.message = `${result.message}
+
+${formatPingReport(pingStatistics)}
+
+🎲 随机种子：${seed}（填入相同的种子可重现本次丢包和时延）`;
+
+    // 请求送达（应答播放到回程中断处）或有ICMP差错报文可回送时才需要动画；其他失败或无路径直接结束
+    const shouldAnimate = result.path.length > 1 && (result.success || !!icmpError || replyLost);
+    const movements = shouldAnimate
+      ? buildPacketMovements(
+        [
+          { direction: 'request', path: result.path, label: '➡ 数据', tone: 'request' },
+          icmpError
+            ? { direction: 'response', path: icmpError.path, label: `⬅ ICMP ${icmpError.description}`, tone: 'icmp' }
+            : { direction: 'response', path: returnPath, label: '⬅ 应答', tone: replyLost ? 'failed' : 'response' }
+        ],
+        {
+          devices,
+          connections,
+          arpEvents: result.arpEvents,
+          switchEvents: result.switchEvents,
+          droppedAtEnd: replyLost || icmpError?.delivered === false
+        }
+      )
+      : [];
+
+    return scheduleSimulation('ping', {
+      label: `${describeEndpoint(devices, sourceIP)} → ${destIP}`,
+      result,
+      resultDelay: 400,
+      onResult: () => {
+        console.log('[Tracert] simulatePing result ready', { result, shouldAnimate });
+        get().recordAutoComment('ping', result);
+      },
+      movements,
+      capture: { clientIP, serverIP: destIP }
+    });
+  },
 
+  simulateTraceroute: (sourceIP, destIP) => {
     const devices = get().devices;
     const connections = get().connections;
-    const result = simulateRouting(devices, connections, sourceIP, destIP);
+    // 静态路由下每个探测包走同一条路径，TTL=n 的探测包在路径第 n 台设备处耗尽
+    const probeSource = matchSourceFamily(devices, sourceIP, destIP);
+    const route = simulateRouting(devices, connections, probeSource, destIP, true);
+    const hops = buildTracerouteHops(devices, connections, route, probeSource, destIP);
+    applyLayer2Learning(
+      hops.flatMap((hop) => [
+        { path: hop.probePath, direction: 'request' as const },
+        { path: hop.replyPath || [], direction: 'response' as const }
+      ]),
+      getAddressFamily(destIP)
+    );
+    const result: SimulationResult = {
+      ...route,
+      success: route.success && hops[hops.length - 1]?.status === 'reached',
+      tracerouteHops: hops,
+      message: formatTracerouteReport(destIP, hops, route)
+    };
+
+    // 失败时也要动画，让学生看到路径停在哪里：依次播放每个探测包和它的应答
+    const movements = buildSequentialMovements(
+      hops.map((hop): PacketPhase[] => hop.probePath.length < 2 ? [] : [
+        { direction: 'request', path: hop.probePath, label: `➡ TTL=${hop.ttl}`, tone: 'request' },
+        ...(hop.replyPath && hop.replyPath.length >= 2
+          ? [{
+            direction: 'response' as const,
+            path: hop.replyPath,
+            label: hop.status === 'reached' ? '⬅ 回显应答' : hop.status === 'unreachable' ? '⬅ ICMP不可达' : '⬅ ICMP超时',
+            tone: hop.status === 'reached' ? 'response' as const : 'icmp' as const
+          }]
+          : [])
+      ]),
+      { devices, connections }
+    );
+
+    return scheduleSimulation('tracert', {
+      label: `${describeEndpoint(devices, sourceIP)} → ${destIP}`,
+      result,
+      resultDelay: 400,
+      onResult: () => get().recordAutoComment('tracert', result),
+      movements,
+      capture: { clientIP: probeSource, serverIP: destIP }
+    });
+  },
 
-    // 成功且有可视化路径时才需要动画；失败或无路径直接结束
-    const shouldAnimate = result.success && result.path.length > 1;
-    const delay = applySpeed(400, animationMode);
+  requestDHCPLease: (deviceId) => {
+    const { devices, connections, selectedDevice } = get();
+    const exchange = runDHCPExchange(devices, connections, deviceId);
 
-    setTimeout(() => {
-      console.log('[Tracert] simulatePing result ready', { animationMode, stepToken, result, shouldAnimate });
+    if (exchange.devices !== devices) {
+      saveToStorage(exchange.devices, connections);
       set({
-        simulationResult: result
+        devices: exchange.devices,
+        selectedDevice: selectedDevice
+          ? exchange.devices.find((d) => d.id === selectedDevice.id) || selectedDevice
+          : null
       });
-      get().recordAutoComment('ping', result);
+    }
 
-      if (!shouldAnimate) {
-        // 没有动画，直接结束
-        set({ isSimulating: false });
-      }
-    }, delay);
+    // DISCOVER → OFFER → REQUEST → ACK 依次播放；没有收到任何应答时没有动画，直接结束
+    const movements = exchange.result.path.length > 1
+      ? buildSequentialMovements(
+        (exchange.result.dhcpMessages || []).map((message): PacketPhase[] => message.path.length < 2 ? [] : [{
+          direction: message.type === 'OFFER' || message.type === 'ACK' ? 'response' : 'request',
+          path: message.path,
+          label: `${message.broadcast ? '📢' : '➡'} DHCP${message.type}`,
+          tone: 'request'
+        }]),
+        { devices, connections }
+      )
+      : [];
+
+    return scheduleSimulation('dhcp', {
+      label: `${devices.find((d) => d.id === deviceId)?.name || deviceId} 获取地址`,
+      result: exchange.result,
+      resultDelay: 300,
+      movements,
+      capture: exchange.capture
+    });
+  },
+
+  configureIPv6SLAAC: (deviceId) => {
+    const { devices, connections, selectedDevice } = get();
+    const slaac = runSLAACConfiguration(devices, connections, deviceId);
+
+    if (slaac.devices !== devices) {
+      saveToStorage(slaac.devices, connections);
+      set({
+        devices: slaac.devices,
+        selectedDevice: selectedDevice
+          ? slaac.devices.find((d) => d.id === selectedDevice.id) || selectedDevice
+          : null
+      });
+    }
+    return { success: slaac.success, message: slaac.message };
+  },
+
+  runDynamicRouting: () => {
+    const { devices, connections } = get();
+    const convergence = applyDynamicRouting();
+
+    // 逐轮播放路由更新；没有路由器交换更新时直接结束
+    const movements = convergence.result.path.length > 1
+      ? buildRoutingRoundMovements(convergence.result.routingRounds || [], { devices, connections })
+      : [];
+
+    return scheduleSimulation('routing', {
+      label: '动态路由收敛',
+      result: convergence.result,
+      resultDelay: 300,
+      movements
+    });
+  },
+
+  generateRoutes: (options) => {
+    const { devices, connections } = get();
+    const routers = devices.filter(isRouterDevice);
+    const adjacencies = findRoutingAdjacencies(routers, devices, connections);
+    // 启用动态路由的路由器由协议维护路由表，只作为中转参与计算
+    return generateStaticRoutes(
+      routers.filter((router) => !router.dynamicRouting),
+      routers,
+      adjacencies,
+      devices.filter((d) => ENDPOINT_TYPES.includes(d.type)),
+      options
+    );
+  },
+
+  applyGeneratedRoutes: (tables) => {
+    set((state) => {
+      const newDevices = state.devices.map((device) => {
+        const table = tables.find((t) => t.router === device.name);
+        return table ? { ...device, routingTable: table.routingTable } : device;
+      });
+      saveToStorage(newDevices, state.connections);
+      return {
+        devices: newDevices,
+        selectedDevice: state.selectedDevice
+          ? newDevices.find((d) => d.id === state.selectedDevice!.id) || state.selectedDevice
+          : null
+      };
+    });
+  },
+
+  checkReachability: () => {
+    const { devices, connections } = get();
+    return buildReachabilityReport(devices, connections);
   },
 
   clearSimulation: () => {
@@ -629,26 +1351,32 @@ export const useNetworkStore = create<NetworkState>((set, get) => {
   },
 
   stopSimulation: () => {
-    set({ isSimulating: false });
+    // 取消所有正在进行的通信流，未触发的报文和结束事件一并丢弃
+    get().flows
+      .filter((flow) => flow.status === 'running')
+      .forEach((flow) => simulationScheduler.cancelFlow(flow.id));
+    set((state) => ({
+      isSimulating: false,
+      flows: state.flows.map((flow) => (flow.status === 'running' ? { ...flow, status: 'stopped' } : flow))
+    }));
   },
 
-  setAnimationCompleteCallback: (callback) => {
-    console.log('🔧 setAnimationCompleteCallback 被调用:', callback ? '设置回调' : '清空回调');
-    set({ animationCompleteCallback: callback });
+  clearFinishedFlows: () => {
+    set((state) => ({ flows: state.flows.filter((flow) => flow.status === 'running') }));
   },
 
-  triggerAnimationComplete: () => {
-    const callback = get().animationCompleteCallback;
-    if (callback) {
-      console.log('🎉 触发动画完成回调');
-      // ✅ 先清空回调槽位，再执行回调
-      // 这样回调内部如果设置新的回调，就不会被清空
-      console.log('🧹 清空回调槽位');
-      set({ animationCompleteCallback: null });
-      callback();
-    } else {
-      console.warn('⚠️ 没有动画完成回调可执行');
-    }
+  startCapture: (target) => {
+    set({
+      capture: { running: true, target, startedAt: simulationScheduler.now(), startedWallClock: Date.now(), packets: [] }
+    });
+  },
+
+  stopCapture: () => {
+    set((state) => ({ capture: { ...state.capture, running: false } }));
+  },
+
+  clearCapture: () => {
+    set((state) => ({ capture: { ...state.capture, packets: [] } }));
   },
 
   setHTMLPreviewContent: (content) => {
@@ -656,20 +1384,14 @@ export const useNetworkStore = create<NetworkState>((set, get) => {
   },
 
   simulateDNSQuery: (sourceIP, dnsServerIP, domain, onComplete) => {
-    const dnsAnimationMode = get().gradingTools.animationMode;
-    set({
-      isSimulating: true,
-      simulationType: 'dns',
-      animationCompleteCallback: onComplete || null
-    });
-
     const devices = get().devices;
     const connections = get().connections;
+    const flowLabel = `${describeEndpoint(devices, sourceIP)} → ${domain}`;
 
     // 构建DNS查询路径：PC → DNS服务器
-    const sourceDevice = devices.find(d => d.ip === sourceIP);
+    const sourceDevice = findEndpointByIP(devices, sourceIP);
     // ✅ 修复：验证DNS设备类型，防止指向非DNS设备
-    const dnsDevice = devices.find(d => d.type === 'dns' && d.ip === dnsServerIP);
+    const dnsDevice = devices.find(d => d.type === 'dns' && (d.ip === dnsServerIP || isSameAddress(d.ipv6, dnsServerIP)));
 
     if (!sourceDevice) {
       const failureResult: SimulationResult = {
@@ -678,18 +1400,7 @@ export const useNetworkStore = create<NetworkState>((set, get) => {
         message: `❌ DNS查询失败：源设备 ${sourceIP} 不存在`,
         steps: []
       };
-      const delay = applySpeed(300, dnsAnimationMode);
-      setTimeout(() => {
-        set({
-          simulationResult: failureResult,
-          isSimulating: false
-        });
-        get().recordAutoComment('dns', failureResult);
-        if (onComplete) {
-          onComplete();
-        }
-      }, delay);
-      return;
+      return scheduleFailure('dns', flowLabel, failureResult, 300, onComplete);
     }
 
     if (!dnsDevice) {
@@ -705,22 +1416,14 @@ export const useNetworkStore = create<NetworkState>((set, get) => {
         message: message,
         steps: []
       };
-      const delay = applySpeed(300, dnsAnimationMode);
-      setTimeout(() => {
-        set({
-          simulationResult: failureResult,
-          isSimulating: false
-        });
-        get().recordAutoComment('dns', failureResult);
-        if (onComplete) {
-          onComplete();
-        }
-      }, delay);
-      return;
+      return scheduleFailure('dns', flowLabel, failureResult, 300, onComplete);
     }
 
-    // 请求阶段：PC → DNS服务器
-    const requestRoute = simulateRouting(devices, connections, sourceIP, dnsServerIP);
+    // 请求阶段：PC → DNS服务器（UDP 53）
+    const nat: NATSession = new Map();
+    const dnsFlow: PacketFlow = { protocol: 'UDP', srcPort: getEphemeralPort(`${sourceIP}-dns`), dstPort: 53 };
+    const clientIP = matchSourceFamily(devices, sourceIP, dnsServerIP);
+    const requestRoute = simulateRouting(devices, connections, clientIP, dnsServerIP, false, dnsFlow, nat);
 
     // ✅ 验证路径终点是否真的是DNS设备（防止同IP不同类型的设备）
     if (requestRoute.success && requestRoute.path.length > 0) {
@@ -734,85 +1437,66 @@ export const useNetworkStore = create<NetworkState>((set, get) => {
           message: `❌ DNS查询失败\n\n路由到达了 ${wrongDevice?.name} (${wrongDevice?.type === 'web' ? 'Web服务器' : wrongDevice?.type})，不是DNS服务器 ${dnsDevice.name}\n\n💡 可能原因：\n- DNS和Web服务器使用了相同IP ${dnsServerIP}\n- 请确保DNS服务器使用独立IP地址`,
           steps: requestRoute.steps || []
         };
-        const delay = applySpeed(500, dnsAnimationMode);
-        setTimeout(() => {
-          set({
-            simulationResult: failureResult,
-            isSimulating: false
-          });
-          get().recordAutoComment('dns', failureResult);
-          if (onComplete) {
-            onComplete();
-          }
-        }, delay);
-        return;
+        return scheduleFailure('dns', flowLabel, failureResult, 500, onComplete);
       }
     }
 
-    // 响应阶段：DNS服务器 → PC（路径反向）
-    const responsePath = requestRoute.success ? [...requestRoute.path].reverse() : [];
+    // 响应阶段：DNS服务器 → PC（按DNS服务器网关和路由表独立路由）
+    const roundTrip = simulateRoundTrip(devices, connections, requestRoute, clientIP, nat);
+    applyNATTranslations(nat);
 
-    // 查找DNS解析结果
-    let resolvedIP = '';
-    if (dnsDevice.dnsRecords) {
-      const record = dnsDevice.dnsRecords.find(r => r.domain.toLowerCase() === domain.toLowerCase());
-      if (record) {
-        resolvedIP = record.ip;
-      }
-    }
+    // 查找DNS解析结果（双栈主机有AAAA记录时优先使用IPv6地址）
+    const resolvedIP = DNSResolver.selectRecord(dnsDevice.dnsRecords || [], domain, !!sourceDevice.ipv6)?.ip || '';
 
-    // 立即设置simulationResult，不要延迟
     const dnsSimulationResult: SimulationResult = {
       ...requestRoute,
+      ...roundTrip,
       isRoundTrip: true,
       requestPath: requestRoute.path,
-      responsePath: responsePath,
       requestLabel: `🔍 DNS查询: ${domain}`,
-      responseLabel: resolvedIP
-        ? `✅ 返回IP: ${resolvedIP}`
-        : `❌ 域名不存在`,
-      message: requestRoute.success
-        ? `✅ DNS查询完成\n${sourceDevice.name} ⇄ ${dnsDevice.name}\n域名: ${domain} → IP: ${resolvedIP || '未找到'}`
-        : requestRoute.message
+      responseLabel: roundTrip.icmpError
+        ? `⚠️ ICMP ${roundTrip.icmpError.description}`
+        : resolvedIP
+          ? `✅ 返回IP: ${resolvedIP}`
+          : `❌ 域名不存在`,
+      message: !requestRoute.success
+        ? (roundTrip.icmpError
+          ? `${requestRoute.message}\n\n${formatICMPError(roundTrip.icmpError, devices, clientIP)}`
+          : requestRoute.message)
+        : roundTrip.responseSuccess
+          ? `✅ DNS查询完成\n${sourceDevice.name} ⇄ ${dnsDevice.name}\n域名: ${domain} → ${isIPv6Address(resolvedIP) ? 'IPv6 (AAAA)' : 'IP'}: ${resolvedIP || '未找到'}`
+          : formatResponseFailure(dnsDevice.name, sourceDevice.name, clientIP, roundTrip.responseMessage)
     };
 
-    set({
-      simulationResult: dnsSimulationResult
-      // ❌ 不要在这里设置 isSimulating: false，应该由动画完成回调来控制
+    Object.assign(dnsSimulationResult, applyLayer2Learning([
+      { path: requestRoute.path, direction: 'request' },
+      { path: roundTrip.responsePath || [], direction: 'response' }
+    ], getAddressFamily(dnsServerIP)));
+
+    // 结果立即公布；isSimulating 由报文播放完的 complete 事件结束
+    return scheduleRoundTrip('dns', flowLabel, dnsSimulationResult, onComplete, {
+      clientIP,
+      serverIP: dnsServerIP,
+      dns: { domain, answer: resolvedIP || undefined }
     });
-    get().recordAutoComment('dns', dnsSimulationResult);
-
-    // 🔧 修复：如果路由失败且没有路径，立即调用回调（不会有动画）
-    if (!requestRoute.success || requestRoute.path.length === 0) {
-      console.warn('⚠️ DNS路由失败或无路径，立即触发回调');
-      const delay = applySpeed(500, dnsAnimationMode);
-      setTimeout(() => {
-        set({ isSimulating: false });
-        if (onComplete) {
-          onComplete();
-        }
-      }, delay); // 短暂延迟，让错误信息显示出来
-    }
   },
 
-  simulateHTTPRequest: (sourceIP, targetIP, httpSuccess, statusCode, onComplete, httpMessage = '') => {
-    const httpAnimationMode = get().gradingTools.animationMode;
+  simulateHTTPRequest: (sourceIP, targetIP, httpSuccess, statusCode, onComplete, httpMessage = '', port = 80) => {
     console.log('📞 simulateHTTPRequest 被调用，设置回调:', onComplete ? '有回调' : '无回调');
     console.log('🌐 HTTP状态:', httpSuccess ? '成功' : '失败', '状态码:', statusCode);
-    set({
-      isSimulating: true,
-      simulationType: 'http',
-      animationCompleteCallback: onComplete || null
-    });
-
     const devices = get().devices;
     const connections = get().connections;
+    const flowLabel = `${describeEndpoint(devices, sourceIP)} → ${targetIP}${port === 80 ? '' : `:${port}`}`;
 
     // ✅ 修复：验证目标设备类型，防止访问非Web设备
-    const targetDevice = devices.find(d => d.ip === targetIP);
+    // 访问NAT路由器的外网地址时，按端口转发规则找到内网的Web服务器
+    const portForward = resolvePortForward(devices, targetIP, 'TCP', port);
+    const targetDevice = portForward
+      ? devices.find(d => d.ip === portForward.rule.insideIP)
+      : findEndpointByIP(devices, targetIP);
 
     if (!targetDevice || targetDevice.type !== 'web') {
-      const wrongTypeDevice = devices.find(d => d.ip === targetIP);
+      const wrongTypeDevice = portForward ? targetDevice : findEndpointByIP(devices, targetIP);
       const message = wrongTypeDevice
         ? `❌ HTTP请求失败\n\nIP ${targetIP} 是 ${wrongTypeDevice.name} (${wrongTypeDevice.type === 'dns' ? 'DNS服务器' : wrongTypeDevice.type === 'pc' ? 'PC' : wrongTypeDevice.type})，不是Web服务器\n\n💡 请确认访问的是Web服务器`
         : `❌ HTTP请求失败\n\n目标IP ${targetIP} 不存在\n\n💡 请检查域名DNS解析结果`;
@@ -826,22 +1510,14 @@ export const useNetworkStore = create<NetworkState>((set, get) => {
         httpStatusCode: 503
       };
 
-      const delay = applySpeed(300, httpAnimationMode);
-      setTimeout(() => {
-        set({
-          simulationResult: failureResult,
-          isSimulating: false
-        });
-        get().recordAutoComment('http', failureResult);
-        if (onComplete) {
-          onComplete();
-        }
-      }, delay);
-      return;
+      return scheduleFailure('http', flowLabel, failureResult, 300, onComplete);
     }
 
-    // 请求阶段：PC → Web服务器
-    const requestRoute = simulateRouting(devices, connections, sourceIP, targetIP);
+    // 请求阶段：PC → Web服务器（TCP，目标端口为浏览器访问的端口）
+    const nat: NATSession = new Map();
+    const httpFlow: PacketFlow = { protocol: 'TCP', srcPort: getEphemeralPort(`${sourceIP}-http`), dstPort: port };
+    const clientIP = matchSourceFamily(devices, sourceIP, targetIP);
+    const requestRoute = simulateRouting(devices, connections, clientIP, targetIP, false, httpFlow, nat);
 
     // ✅ 验证路径终点是否真的是Web设备（防止同IP不同类型的设备）
     if (requestRoute.success && requestRoute.path.length > 0) {
@@ -857,65 +1533,55 @@ export const useNetworkStore = create<NetworkState>((set, get) => {
           httpSuccess: false,
           httpStatusCode: 503
         };
-        const delay = applySpeed(500, httpAnimationMode);
-        setTimeout(() => {
-          set({
-            simulationResult: failureResult,
-            isSimulating: false
-          });
-          get().recordAutoComment('http', failureResult);
-          if (onComplete) {
-            onComplete();
-          }
-        }, delay);
-        return;
+        return scheduleFailure('http', flowLabel, failureResult, 500, onComplete);
       }
     }
 
-    // 响应阶段：Web服务器 → PC（路径反向）
-    const responsePath = requestRoute.success ? [...requestRoute.path].reverse() : [];
+    // 响应阶段：Web服务器 → PC（按Web服务器网关和路由表独立路由）
+    const roundTrip = simulateRoundTrip(devices, connections, requestRoute, clientIP, nat);
+    applyNATTranslations(nat);
+    const sourceName = findEndpointByIP(devices, sourceIP)?.name || sourceIP;
 
     const httpSummary = httpSuccess ? `✅ HTTP ${statusCode} 成功` : `❌ HTTP ${statusCode} 失败`;
-    const mergedMessage = requestRoute.success
-      ? (httpMessage && httpMessage.trim().length > 0 ? `${httpSummary}\n${httpMessage}` : httpSummary)
-      : requestRoute.message;
+    const mergedMessage = !requestRoute.success
+      ? (roundTrip.icmpError
+        ? `${requestRoute.message}\n\n${formatICMPError(roundTrip.icmpError, devices, clientIP)}`
+        : requestRoute.message)
+      : roundTrip.responseSuccess
+        ? (httpMessage && httpMessage.trim().length > 0 ? `${httpSummary}\n${httpMessage}` : httpSummary)
+        : formatResponseFailure(targetDevice.name, sourceName, clientIP, roundTrip.responseMessage);
 
     const httpSimulationResult: SimulationResult = {
       ...requestRoute,
+      ...roundTrip,
       isRoundTrip: true,
       requestPath: requestRoute.path,
-      responsePath: responsePath,
       requestLabel: `📤 HTTP GET /`,
-      responseLabel: httpSuccess
-        ? `📥 HTTP ${statusCode} OK`
-        : `❌ HTTP ${statusCode} 错误`,
+      responseLabel: roundTrip.icmpError
+        ? `⚠️ ICMP ${roundTrip.icmpError.description}`
+        : httpSuccess
+          ? `📥 HTTP ${statusCode} OK`
+          : `❌ HTTP ${statusCode} 错误`,
       message: mergedMessage,
       httpSuccess,
       httpStatusCode: statusCode
     };
 
-    // 立即设置simulationResult，不要延迟
-    set({
-      simulationResult: httpSimulationResult
-      // ❌ 不要在这里设置 isSimulating: false，应该由动画完成回调来控制
+    Object.assign(httpSimulationResult, applyLayer2Learning([
+      { path: requestRoute.path, direction: 'request' },
+      { path: roundTrip.responsePath || [], direction: 'response' }
+    ], getAddressFamily(targetIP)));
+
+    // 结果立即公布；isSimulating 由报文播放完的 complete 事件结束
+    return scheduleRoundTrip('http', flowLabel, httpSimulationResult, onComplete, {
+      clientIP,
+      serverIP: targetIP,
+      http: {
+        host: port === 80 ? targetIP : `${isIPv6Address(targetIP) ? `[${targetIP}]` : targetIP}:${port}`,
+        statusCode,
+        content: statusCode === 200 ? targetDevice.webContent : undefined
+      }
     });
-    get().recordAutoComment('http', httpSimulationResult);
-
-    // 调试：检查回调是否还在
-    const currentCallback = get().animationCompleteCallback;
-    console.log('🔍 设置simulationResult后，回调状态:', currentCallback ? '回调还在' : '回调丢失！');
-
-    // 🔧 修复：如果路由失败且没有路径，立即调用回调（不会有动画）
-    if (!requestRoute.success || requestRoute.path.length === 0) {
-      console.warn('⚠️ HTTP路由失败或无路径，立即触发回调');
-      const delay = applySpeed(500, httpAnimationMode);
-      setTimeout(() => {
-        set({ isSimulating: false });
-        if (onComplete) {
-          onComplete();
-        }
-      }, delay); // 短暂延迟，让错误信息显示出来
-    }
   },
 
   // 清空拓扑
@@ -925,7 +1591,9 @@ export const useNetworkStore = create<NetworkState>((set, get) => {
     const emptyConnections: Connection[] = [];
 
     saveToStorage(emptyDevices, emptyConnections);
+    get().stopSimulation();
     set({
+      flows: [],
       devices: emptyDevices,
       connections: emptyConnections,
       selectedDevice: null,
@@ -981,7 +1649,9 @@ export const useNetworkStore = create<NetworkState>((set, get) => {
 
       const normalizedDevices = normalizeDevices(devices);
       saveToStorage(normalizedDevices, connections);
+      get().stopSimulation();
       set({
+        flows: [],
         devices: normalizedDevices,
         connections: connections,
         selectedDevice: null,
@@ -1058,46 +1728,296 @@ export const useNetworkStore = create<NetworkState>((set, get) => {
   }
 }});
 
-// 辅助函数：获取IP的网段
-function getNetwork(ip: string): string {
-  const parts = ip.split('.');
-  return `${parts[0]}.${parts[1]}.${parts[2]}.0`;
+// 报文的地址族：IPv4和IPv6各用各的地址、网关和路由（双栈设备两套同时运行）
+type AddressFamily = 'ipv4' | 'ipv6';
+
+const getAddressFamily = (ip: string): AddressFamily => (isIPv6Address(ip) ? 'ipv6' : 'ipv4');
+
+// 辅助函数：两个接口是否配置在同一网段（双方掩码都要认可对方）
+function interfacesShareSubnet(a: NetworkInterface, b: NetworkInterface, family: AddressFamily = 'ipv4'): boolean {
+  if (family === 'ipv6') {
+    return !!a.ipv6 && !!b.ipv6 && interfaceContainsIP(a, b.ipv6) && interfaceContainsIP(b, a.ipv6);
+  }
+  return interfaceContainsIP(a, b.ip) && interfaceContainsIP(b, a.ip);
 }
 
-// 辅助函数：检查两个设备之间是否有物理连接
-function hasPhysicalConnection(
-  deviceA: Device,
-  deviceB: Device,
-  connections: Connection[]
-): boolean {
-  return connections.some(
-    (c) =>
-      (c.source === deviceA.id && c.target === deviceB.id) ||
-      (c.source === deviceB.id && c.target === deviceA.id)
+// 辅助函数：设备是否拥有该IP（双栈设备的IPv6地址、路由器的任一接口IP都算）
+function deviceOwnsIP(device: Device, ip: string): boolean {
+  return device.ip === ip || isSameAddress(device.ipv6, ip) || (isRouterDevice(device) && (device.interfaces || []).some(
+    (iface) => iface.ip === ip || isSameAddress(iface.ipv6, ip)
+  ));
+}
+
+// 辅助函数：按IPv4或IPv6地址查找终端设备（不含路由器接口）
+function findEndpointByIP(devices: Device[], ip: string): Device | undefined {
+  return devices.find((d) => d.ip === ip || isSameAddress(d.ipv6, ip));
+}
+
+// 辅助函数：设备发往该目标时使用的源地址（目标是IPv6时用IPv6地址，路由器用第一个启用IPv6的接口）
+function getSourceAddress(device: Device, destIP: string): string {
+  if (getAddressFamily(destIP) === 'ipv4') return device.ip;
+  return device.ipv6 || (device.interfaces || []).find((iface) => iface.ipv6)?.ipv6 || '';
+}
+
+// 辅助函数：把用户选择的源地址换成与目标同一地址族的地址（如双栈PC选了IPv4地址去Ping IPv6目标）
+function matchSourceFamily(devices: Device[], sourceIP: string, destIP: string): string {
+  if (getAddressFamily(sourceIP) === getAddressFamily(destIP)) return sourceIP;
+  const device = findEndpointByIP(devices, sourceIP);
+  return (device && getSourceAddress(device, destIP)) || sourceIP;
+}
+
+// 辅助函数：按名称或接口地址（IPv4、IPv6全局地址或链路本地地址）查找下一站路由器
+function findNextHopRouter(devices: Device[], nextHop: string): Device | undefined {
+  return devices.find((d) => d.name === nextHop) || devices.find((d) =>
+    d.type === 'router' &&
+    d.interfaces?.some((iface) =>
+      iface.ip === nextHop || isSameAddress(iface.ipv6, nextHop) || (!!iface.ipv6 && isSameAddress(getLinkLocalAddress(d, iface), nextHop))
+    )
   );
 }
 
-// 辅助函数：验证IP地址格式
-function validateIP(ip: string): boolean {
-  const parts = ip.split('.');
-  if (parts.length !== 4) return false;
-  return parts.every((part) => {
-    const num = parseInt(part);
-    return !isNaN(num) && num >= 0 && num <= 255;
-  });
+// 辅助函数：路由器查IPv6路由时使用的路由表（启用IPv6的接口自动产生直连前缀路由，手动配置的同名条目优先）
+function withIPv6ConnectedRoutes(router: Device): RouteEntry[] {
+  const table = router.routingTable || [];
+  const connected = (router.interfaces || [])
+    .filter((iface) => iface.ipv6)
+    .map((iface): RouteEntry => ({
+      destination: calculateIPv6Prefix(iface.ipv6!, getInterfacePrefixLength(iface)),
+      prefixLength: getInterfacePrefixLength(iface),
+      nextHop: '直连',
+      metric: 0,
+      interface: iface.name,
+      source: 'connected'
+    }))
+    .filter((entry) => !table.some((route) => isSameAddress(route.destination, entry.destination) && route.prefixLength === entry.prefixLength));
+  return [...connected, ...table];
 }
 
-// 路由查找模拟函数 - 完全重写，严格检查
-function simulateRouting(
+// 辅助函数：按IP查找设备（先匹配主IP，再匹配路由器接口IP）
+function findDeviceByIP(devices: Device[], ip: string): Device | undefined {
+  return devices.find((d) => d.ip === ip) || devices.find((d) => deviceOwnsIP(d, ip));
+}
+
+interface Layer2PathOptions {
+  ignoreLinkState?: boolean; // 把已关闭的链路也算上（用于区分“没有连线”和“链路已关闭”）
+  ignoreVLANs?: boolean; // 不检查VLAN（用于区分“没有连线”和“不在同一VLAN”）
+  fromInterface?: NetworkInterface; // 只走插在发送方这个接口上的连线（按路由的出接口转发）
+  toInterface?: NetworkInterface; // 只接受插在接收方这个接口上的连线
+}
+
+// 辅助函数：连线在设备这一端是否插在指定接口上（子接口按它所在的物理接口算；无法确定接口时视为是）
+function isPluggedInto(device: Device, peer: Device, connection: Connection, iface: NetworkInterface | undefined): boolean {
+  if (!iface) return true;
+  const end = getLinkInterface(device, peer, connection);
+  return !end || end.id === getPhysicalInterface(device, iface).id;
+}
+
+/**
+ * 查找两台设备之间的二层通路：直接连线，或只经过交换机
+ * 帧只在同一VLAN内转发：access端口只承载自己的VLAN，trunk端口承载允许列表中的VLAN（非本征VLAN带802.1Q标签）
+ * @returns 途经的交换机（直连时为空数组）；不连通时返回 null
+ */
+function findLayer2Path(
+  deviceA: Device,
+  deviceB: Device,
   devices: Device[],
   connections: Connection[],
-  sourceIP: string,
+  { ignoreLinkState = false, ignoreVLANs = false, fromInterface, toInterface }: Layer2PathOptions = {}
+): Device[] | null {
+  const senderTag = ignoreVLANs ? undefined : getFrameTag(deviceA, deviceB);
+  const expectedTag = ignoreVLANs ? undefined : getFrameTag(deviceB, deviceA);
+  // 队列中记录帧所在的设备和它在该交换机上所属的VLAN
+  const queue: Array<{ device: Device; switches: Device[]; vlan?: number }> = [{ device: deviceA, switches: [] }];
+  const visited = new Set<string>();
+
+  while (queue.length > 0) {
+    const { device, switches, vlan } = queue.shift()!;
+    const links = connections.filter(
+      (c) => (c.source === device.id || c.target === device.id) && (ignoreLinkState || isConnectionUp(c, devices))
+    );
+
+    for (const link of links) {
+      const neighborId = link.source === device.id ? link.target : link.source;
+      const neighbor = devices.find((d) => d.id === neighborId);
+      if (!neighbor || (device.id === deviceA.id && !isPluggedInto(deviceA, neighbor, link, fromInterface))) {
+        continue;
+      }
+      // 帧离开交换机的端口必须承载该VLAN
+      const egress = isSwitchDevice(device) ? findSwitchPort(device, neighborId, connections) : undefined;
+      if (vlan !== undefined && egress && !portCarriesVLAN(egress, vlan)) {
+        continue;
+      }
+      const tag = device.id === deviceA.id
+        ? senderTag
+        : vlan !== undefined && egress && isTaggedOnPort(egress, vlan) ? vlan : undefined;
+
+      if (neighborId === deviceB.id) {
+        // 子接口只收带对应标签的帧，普通接口只收不带标签的帧
+        if (tag === expectedTag && isPluggedInto(deviceB, device, link, toInterface)) {
+          return switches;
+        }
+        continue;
+      }
+      // 只有交换机能透明转发帧，路由器和终端会终止二层通路
+      if (!isSwitchDevice(neighbor)) {
+        continue;
+      }
+      const ingress = ignoreVLANs ? undefined : findSwitchPort(neighbor, device.id, connections);
+      const nextVLAN = ingress ? getIngressVLAN(ingress, tag) : undefined;
+      const key = `${neighbor.id}:${nextVLAN ?? ''}`;
+      if ((ingress && nextVLAN === undefined) || visited.has(key)) {
+        continue;
+      }
+      visited.add(key);
+      queue.push({ device: neighbor, switches: [...switches, neighbor], vlan: nextVLAN });
+    }
+  }
+
+  return null;
+}
+
+type LinkEnds = Pick<Layer2PathOptions, 'fromInterface' | 'toInterface'>;
+
+// 辅助函数：检查两个设备之间是否有物理连接（可经过交换机）；指定两端接口时连线必须插在这两个接口上
+function hasPhysicalConnection(
+  deviceA: Device,
+  deviceB: Device,
+  devices: Device[],
+  connections: Connection[],
+  ends: LinkEnds = {}
+): boolean {
+  return findLayer2Path(deviceA, deviceB, devices, connections, ends) !== null;
+}
+
+// 辅助函数：两台设备之间不通的原因（连线存在但被关闭、不在同一VLAN，还是根本没有连线）
+function describeLinkFailure(
+  deviceA: Device,
+  deviceB: Device,
+  devices: Device[],
+  connections: Connection[],
+  ends: LinkEnds = {}
+): string {
+  if (findLayer2Path(deviceA, deviceB, devices, connections, { ...ends, ignoreLinkState: true })) {
+    return '链路已关闭(down)';
+  }
+  if (findLayer2Path(deviceA, deviceB, devices, connections, { ...ends, ignoreVLANs: true })) {
+    return `VLAN隔离: ${describeVLANIsolation(deviceA, deviceB, devices, connections)}`;
+  }
+  return '物理连接断开';
+}
+
+// 辅助函数：按路由的出接口转发时连线两端应插的接口（路由未指定出接口时不限制）
+function getRouteLinkEnds(router: Device, route: RouteEntry, peer: Device, family: AddressFamily): LinkEnds {
+  const fromInterface = route.interface ? router.interfaces.find((iface) => iface.name === route.interface) : undefined;
+  const toInterface = fromInterface && isRouterDevice(peer)
+    ? peer.interfaces.find((iface) => interfacesShareSubnet(fromInterface, iface, family))
+    : undefined;
+  return { fromInterface, toInterface };
+}
+
+/**
+ * 检查路由的出接口是否通向下一站（直连路由为目标设备）
+ * 出接口必须存在、与对方在同一网段，且两台设备之间的连线就插在这个接口上
+ * @param destIP 直连路由的目标地址；转发给下一站路由器时不填
+ * @returns 出接口错误的说明；没有问题（或路由未指定出接口）时返回 null
+ */
+function checkOutgoingInterface(
+  router: Device,
+  route: RouteEntry,
+  peer: Device,
+  destIP: string | undefined,
+  family: AddressFamily,
+  devices: Device[],
+  connections: Connection[]
+): string | null {
+  if (!route.interface) return null;
+  const faces = (iface: NetworkInterface) => destIP
+    ? interfaceContainsIP(iface, destIP)
+    : peer.interfaces.some((peerIface) => interfacesShareSubnet(iface, peerIface, family));
+  const correct = router.interfaces.find((iface) => isInterfaceUp(iface) && faces(iface));
+  const hint = correct && correct.name !== route.interface ? `，应从 ${correct.name} 发出` : '';
+
+  const outIface = router.interfaces.find((iface) => iface.name === route.interface);
+  if (!outIface) {
+    return `出接口错误: 没有接口 ${route.interface}${hint}`;
+  }
+  if (!faces(outIface)) {
+    return `出接口错误: ${outIface.name} 与 ${peer.name} 不在同一网段${hint}`;
+  }
+  // 两台设备之间有连线，但没有插在出接口（或对方同网段的接口）上
+  const cabling = { ignoreLinkState: true, ignoreVLANs: true };
+  const ends = getRouteLinkEnds(router, route, peer, family);
+  if (
+    findLayer2Path(router, peer, devices, connections, cabling) &&
+    !findLayer2Path(router, peer, devices, connections, { ...cabling, ...ends })
+  ) {
+    return `出接口错误: ${outIface.name} 上的连线没有接到 ${peer.name}${ends.toInterface ? ` 的 ${ends.toInterface.name}` : ''}${hint}`;
+  }
+  return null;
+}
+
+// 辅助函数：设备发往相邻三层设备的帧在所接交换机上归属的VLAN（没有接交换机时为子接口的VLAN）
+function getAttachedVLAN(device: Device, peer: Device, devices: Device[], connections: Connection[]): number | undefined {
+  const tag = getFrameTag(device, peer);
+  const port = devices
+    .filter(isSwitchDevice)
+    .map((switchDevice) => findSwitchPort(switchDevice, device.id, connections))
+    .find((p) => p);
+  return port ? getIngressVLAN(port, tag) : tag;
+}
+
+// 辅助函数：说明两台设备为什么被VLAN隔开
+function describeVLANIsolation(deviceA: Device, deviceB: Device, devices: Device[], connections: Connection[]): string {
+  const vlanA = getAttachedVLAN(deviceA, deviceB, devices, connections);
+  const vlanB = getAttachedVLAN(deviceB, deviceA, devices, connections);
+  // 帧一进交换机就被丢弃：子接口的标签与端口不符，或端口不承载它的VLAN
+  for (const { device, peer, vlan } of [{ device: deviceA, peer: deviceB, vlan: vlanA }, { device: deviceB, peer: deviceA, vlan: vlanB }]) {
+    if (vlan !== undefined) continue;
+    const tag = getFrameTag(device, peer);
+    return tag !== undefined
+      ? `${device.name} 的子接口发出带 VLAN ${tag} 标签的帧，所接交换机端口不接收（access端口不收带标签的帧，trunk端口需放行该VLAN）`
+      : `${device.name} 所接的交换机端口不接收它发出的帧`;
+  }
+  if (vlanA !== vlanB) {
+    return `${deviceA.name} 在 VLAN ${vlanA}，${deviceB.name} 在 VLAN ${vlanB}，交换机不会在不同VLAN之间转发帧`;
+  }
+  return `VLAN ${vlanA} 的帧在途中的交换机端口被丢弃（trunk端口没有放行该VLAN，或两端标签不一致）`;
+}
+
+// 辅助函数：两台设备之间途经的交换机名称（写入路径，供动画显示）
+function getSwitchHops(deviceA: Device, deviceB: Device, devices: Device[], connections: Connection[]): string[] {
+  return (findLayer2Path(deviceA, deviceB, devices, connections) || []).map((d) => d.name);
+}
+
+// 辅助函数：验证IP地址格式（IPv4或IPv6）
+function validateIP(ip: string): boolean {
+  if (isIPv6Address(ip)) return true;
+  const parts = ip.split('.');
+  if (parts.length !== 4) return false;
+  return parts.every((part) => {
+    const num = parseInt(part);
+    return !isNaN(num) && num >= 0 && num <= 255;
+  });
+}
+
+// 报文的协议和端口（ICMP用查询ID代替端口）
+type PacketFlow = { protocol: TransportProtocol; srcPort: number; dstPort: number };
+
+const ICMP_ECHO_FLOW: PacketFlow = { protocol: 'ICMP', srcPort: ICMP_ECHO_ID, dstPort: ICMP_ECHO_ID };
+
+// 一次通信中各NAT路由器的转换表（只保存有变化的路由器，通信结束后写回设备）
+type NATSession = Map<string, NATEntry[]>;
+
+// 路由查找模拟函数 - 完全重写，严格检查
+function simulateRouting(
+  devices: Device[],
+  connections: Connection[],
+  sourceIP: string,
   destIP: string,
-  showSteps = false
+  showSteps = false,
+  flow: PacketFlow = ICMP_ECHO_FLOW,
+  nat: NATSession = new Map()
 ): SimulationResult {
-  const path: string[] = [];
-  const steps: Array<{ router: string; action: string; routeEntry?: any }> = [];
-
   // 1. 验证IP地址格式
   if (!validateIP(sourceIP)) {
     return {
@@ -1118,7 +2038,7 @@ function simulateRouting(
   }
 
   // 2. 找到源设备
-  const sourceDevice = devices.find((d) => d.ip === sourceIP);
+  const sourceDevice = findEndpointByIP(devices, sourceIP);
   if (!sourceDevice) {
     return {
       success: false,
@@ -1128,10 +2048,257 @@ function simulateRouting(
     };
   }
 
-  path.push(sourceDevice.name);
+  if (!getSourceAddress(sourceDevice, destIP)) {
+    return {
+      success: false,
+      path: [sourceDevice.name],
+      message: `❌ ${sourceDevice.name} 没有配置IPv6地址，无法访问IPv6目标 ${destIP}\n💡 双击设备配置IPv6地址（或选择自动配置 SLAAC）。`,
+      steps: []
+    };
+  }
+
+  return routeThroughNAT(devices, connections, sourceDevice, destIP, flow, 'request', nat, showSteps);
+}
+
+/**
+ * 带NAT的逐跳转发
+ * 报文从内网接口进、外网接口出时，路由器把源地址和端口改写为外网接口地址（PAT）；
+ * 报文到达路由器外网地址时，按转换表（回程）或端口转发规则改写目的地址，再转发给内网主机。
+ * 外网直接发往内网地址的报文会被NAT路由器丢弃
+ * @param sourceIP 报文的源地址，默认为源设备的地址（响应从请求到达的地址发出，如路由器的某个接口）
+ * @returns 路由结果；packetHeaders 记录报文离开每台三层设备时的地址和端口
+ */
+function routeThroughNAT(
+  devices: Device[],
+  connections: Connection[],
+  sourceDevice: Device,
+  destIP: string,
+  flow: PacketFlow,
+  direction: PacketHeaderSnapshot['direction'],
+  nat: NATSession,
+  showSteps = false,
+  sourceIP = getSourceAddress(sourceDevice, destIP)
+): SimulationResult {
+  let header = { srcIP: sourceIP, srcPort: flow.srcPort, dstIP: destIP, dstPort: flow.dstPort };
+  // IPv6地址足够多，不需要NAT
+  const translatable = getAddressFamily(destIP) === 'ipv4';
+  const snapshot = (device: string, natNote?: string): PacketHeaderSnapshot => ({
+    device,
+    protocol: flow.protocol,
+    ...header,
+    direction,
+    ...(natNote ? { natNote } : {})
+  });
+  const endpoint = (ip: string, port: number) => formatEndpoint(flow.protocol, ip, port);
+
+  const headers: PacketHeaderSnapshot[] = [snapshot(sourceDevice.name)];
+  let path: string[] = [];
+  const steps: SimulationResult['steps'] = [];
+  let segmentStart = sourceDevice;
+
+  // 被ACL丢弃：报文停在该路由器，由它回送ICMP“管理禁止”差错报文
+  const aclDrop = (device: Device, inspection: ACLInspection, dropPath: string[]): SimulationResult => ({
+    success: false,
+    path: dropPath,
+    message: `❌ ${device.name} 的访问控制列表丢弃了报文\n${inspection.description}\n报文: ${flow.protocol} ${endpoint(header.srcIP, header.srcPort)} → ${endpoint(header.dstIP, header.dstPort)}\n💡 ${inspection.decision.rule ? '如需放行，请调整该规则或把放行规则移到它前面。' : 'ACL列表末尾隐含“拒绝所有”，需要通过的流量必须有 permit 规则。'}`,
+    steps,
+    packetHeaders: headers,
+    failureType: 'admin-prohibited'
+  });
+
+  // 每改写一次目的地址就从该路由器重新转发一段
+  for (let segment = 0; segment < 4; segment++) {
+    const route = forwardFromDevice(devices, connections, segmentStart, header.dstIP, showSteps);
+    const segmentOffset = path.length;
+    path = [...path, ...route.path.slice(segment === 0 ? 0 : 1)];
+    const pathUpTo = (i: number) => path.slice(0, segmentOffset + i + (segment === 0 ? 1 : 0));
+
+    for (let i = 0; i < route.path.length; i++) {
+      const device = devices.find((d) => d.name === route.path[i]);
+      const routeSteps = route.steps.filter((step) => step.router === route.path[i]);
+      // 源设备自己发出的报文不做检查；交换机和终端只转发/接收
+      if (!device || !isRouterDevice(device) || (segment === 0 && i === 0)) {
+        steps.push(...routeSteps);
+        if (i > 0 && device && !isSwitchDevice(device)) {
+          headers.push(snapshot(device.name));
+        }
+        continue;
+      }
+
+      const previous = i > 0 ? findPreviousLayer3Device(devices, route.path, i) : undefined;
+      const next = i < route.path.length - 1 ? findNextLayer3Device(devices, route.path, i) : undefined;
+      const ingress = findFacingInterface(device, previous);
+      const egress = findFacingInterface(device, next);
+
+      // 入方向ACL在查路由表和地址转换之前检查
+      if (i > 0) {
+        const inbound = inspectACL(device, ingress, 'in', flow.protocol, header);
+        if (inbound) {
+          if (inbound.decision.action === 'deny' || showSteps) steps.push(inbound.step);
+          if (inbound.decision.action === 'deny') return aclDrop(device, inbound, pathUpTo(i));
+        }
+      }
+      steps.push(...routeSteps);
+
+      let natNote: string | undefined;
+      if (translatable && i > 0 && next && isNATEnabled(device)) {
+        // 内网 → 外网：改写源地址和端口
+        // 已有会话（如端口转发进来的连接的应答）无论从哪个接口出去都按原转换改写
+        const table = nat.get(device.id) || device.natTable || [];
+        const existing = ingress?.nat === 'inside'
+          ? findOutboundTranslation(table, flow.protocol, header.srcIP, header.srcPort, header.dstIP, header.dstPort)
+          : undefined;
+        if (existing || (ingress?.nat === 'inside' && egress?.nat === 'outside')) {
+          let entry = existing;
+          if (!entry) {
+            entry = {
+              protocol: flow.protocol,
+              insideIP: header.srcIP,
+              insidePort: header.srcPort,
+              outsideIP: egress!.ip,
+              outsidePort: allocateOutsidePort(table, device, flow.protocol, egress!.ip, header.srcPort),
+              remoteIP: header.dstIP,
+              remotePort: header.dstPort,
+              type: 'dynamic',
+              createdAt: Date.now()
+            };
+            nat.set(device.id, [...table, entry]);
+          }
+          natNote = `源 ${endpoint(header.srcIP, header.srcPort)} → ${endpoint(entry.outsideIP, entry.outsidePort)}（${entry.type === 'port-forward' ? '端口转发' : 'PAT'}）`;
+          header = { ...header, srcIP: entry.outsideIP, srcPort: entry.outsidePort };
+          if (showSteps) {
+            steps.push({ router: device.name, action: `🔁 NAT: ${natNote}` });
+          }
+        } else if (ingress?.nat === 'outside' && egress?.nat === 'inside') {
+          // 外网 → 内网：没有转换记录也没有端口转发，直接丢弃
+          const outsideIP = ingress.ip;
+          return {
+            success: false,
+            path: pathUpTo(i),
+            message: `❌ ${device.name} 丢弃了从外网直接发往内网地址 ${header.dstIP} 的报文\n内网主机在NAT后面，外网只能看到 ${device.name} 的外网地址 ${outsideIP}。\n💡 如需从外网访问内网服务器，请在 ${device.name} 上配置端口转发，并访问 ${outsideIP}。`,
+            steps,
+            packetHeaders: headers
+          };
+        }
+      }
+
+      // 出方向ACL检查地址转换之后的报文
+      if (next) {
+        const outbound = inspectACL(device, egress, 'out', flow.protocol, header);
+        if (outbound) {
+          if (outbound.decision.action === 'deny' || showSteps) steps.push(outbound.step);
+          if (outbound.decision.action === 'deny') return aclDrop(device, outbound, pathUpTo(i));
+        }
+      }
+      // 每段起点的路由器已在上一段记录过（含目的地址还原）
+      if (i > 0) {
+        headers.push(snapshot(device.name, natNote));
+      }
+    }
+
+    if (!route.success) {
+      return { ...route, path, steps, packetHeaders: headers };
+    }
+
+    // 到达NAT路由器的外网地址：回程报文按转换表还原，外网访问按端口转发规则转给内网主机
+    const arrived = devices.find((d) => d.name === path[path.length - 1]);
+    const arrivedOnOutside = !!arrived && isNATEnabled(arrived)
+      && getNATInterfaces(arrived, 'outside').some((iface) => iface.ip === header.dstIP);
+    const table = arrived ? nat.get(arrived.id) || arrived.natTable || [] : [];
+    // ICMP没有端口，只有回程的应答能按查询ID匹配转换表
+    const translation = arrivedOnOutside && (flow.protocol !== 'ICMP' || direction === 'response')
+      ? findInboundTranslation(table, flow.protocol, header.dstIP, header.dstPort, header.srcIP, header.srcPort)
+      : undefined;
+    const forwardRule = arrivedOnOutside && !translation ? findPortForward(arrived!, flow.protocol, header.dstPort) : undefined;
+
+    if (!translation && !forwardRule) {
+      const routerCount = path.filter((name) => devices.find((d) => d.name === name)?.type === 'router').length;
+      return {
+        ...route,
+        path,
+        steps,
+        packetHeaders: headers,
+        message: segment === 0 ? route.message : `✅ 成功到达目的地！经过了 ${routerCount} 跳`
+      };
+    }
+
+    const insideIP = translation ? translation.insideIP : forwardRule!.insideIP;
+    const insidePort = translation ? translation.insidePort : forwardRule!.insidePort;
+    if (forwardRule && !findOutboundTranslation(table, flow.protocol, insideIP, insidePort, header.srcIP, header.srcPort)) {
+      nat.set(arrived!.id, [...table, {
+        protocol: flow.protocol,
+        insideIP,
+        insidePort,
+        outsideIP: header.dstIP,
+        outsidePort: header.dstPort,
+        remoteIP: header.srcIP,
+        remotePort: header.srcPort,
+        type: 'port-forward',
+        createdAt: Date.now()
+      }]);
+    }
+    const note = `目的 ${endpoint(header.dstIP, header.dstPort)} → ${endpoint(insideIP, insidePort)}（${translation ? '按转换表还原' : '端口转发'}）`;
+    header = { ...header, dstIP: insideIP, dstPort: insidePort };
+    headers[headers.length - 1] = snapshot(arrived!.name, note);
+    if (showSteps) {
+      steps.push({ router: arrived!.name, action: `🔁 NAT: ${note}` });
+    }
+    segmentStart = arrived!;
+  }
+
+  return {
+    success: false,
+    path,
+    message: `❌ 地址转换次数过多，可能存在NAT配置环路`,
+    steps,
+    packetHeaders: headers
+  };
+}
+
+// 报文经过路由器接口时的ACL检查结果
+type ACLInspection = { decision: ACLDecision; description: string; step: SimulationResult['steps'][number] };
+
+/**
+ * 报文进入或离开路由器接口时按该接口的ACL检查
+ * @returns 检查结果和步骤说明；接口该方向没有配置ACL时返回 undefined
+ */
+function inspectACL(
+  device: Device,
+  iface: NetworkInterface | undefined,
+  direction: ACLRule['direction'],
+  protocol: TransportProtocol,
+  header: { srcIP: string; dstIP: string; dstPort: number }
+): ACLInspection | undefined {
+  // 访问控制列表按IPv4地址编写，不检查IPv6报文
+  if (!iface || getAddressFamily(header.dstIP) === 'ipv6') return undefined;
+  const decision = evaluateACL(device, iface.name, direction, { protocol, ...header });
+  if (!decision) return undefined;
+
+  const rule = decision.rule ? `第 ${decision.ruleNumber} 条规则「${formatACLRule(decision.rule)}」` : '末尾隐含规则「deny any」';
+  const description = `${iface.name} ${direction === 'in' ? '入' : '出'}方向ACL命中${rule}`;
+  return {
+    decision,
+    description,
+    step: {
+      router: device.name,
+      action: decision.action === 'deny' ? `⛔ ACL: ${description}，丢弃报文` : `🛡️ ACL: ${description}，放行`
+    }
+  };
+}
+
+// 从指定设备出发逐跳转发（路由器回送ICMP差错报文时也从这里开始）
+function forwardFromDevice(
+  devices: Device[],
+  connections: Connection[],
+  sourceDevice: Device,
+  destIP: string,
+  showSteps = false
+): SimulationResult {
+  const path: string[] = [sourceDevice.name];
+  const steps: Array<{ router: string; action: string; routeEntry?: any }> = [];
 
   // 3. 检查是否源和目标是同一设备
-  if (sourceIP === destIP) {
+  if (deviceOwnsIP(sourceDevice, destIP)) {
     return {
       success: true,
       path,
@@ -1140,14 +2307,15 @@ function simulateRouting(
     };
   }
 
+  const family = getAddressFamily(destIP);
   let currentDevice = sourceDevice;
   let hopCount = 0;
   const maxHops = 10;
   const visitedDevices = new Set<string>([sourceDevice.id]); // 防止环路
 
   while (hopCount < maxHops) {
-    // 4. 检查是否到达目的地
-    if (currentDevice.ip === destIP) {
+    // 4. 检查是否到达目的地（路由器的任一接口地址都算到达）
+    if (deviceOwnsIP(currentDevice, destIP)) {
       return {
         success: true,
         path,
@@ -1160,35 +2328,93 @@ function simulateRouting(
 
     // 5. 终端设备（PC/DNS/Web等）处理：找默认网关
     if (currentDevice.type !== 'router') {
-      const currentNetwork = getNetwork(currentDevice.ip);
       const endpointLabel =
         currentDevice.type === 'pc'
           ? `PC ${currentDevice.name}`
           : `${currentDevice.type.toUpperCase()} ${currentDevice.name}`;
+      const endpointIP = getSourceAddress(currentDevice, destIP);
+      if (!endpointIP) {
+        return {
+          success: false,
+          path,
+          message: `❌ ${endpointLabel} 没有配置IPv6地址，无法发送发往 ${destIP} 的IPv6报文\n💡 双击设备配置IPv6地址（或选择自动配置 SLAAC）。`,
+          steps
+        };
+      }
 
-      // 查找同网段的路由器
-      const gateway = devices.find(
-        (d) =>
-          d.type === 'router' &&
-          d.interfaces &&
-          d.interfaces.some((iface) => getNetwork(iface.ip) === currentNetwork)
-      );
+      // 目标与本机在同一网段时双方直接在二层通信：交换机把它们划在不同VLAN时帧过不去，只能经路由器转发
+      const localPeer = findDeviceByIP(devices, destIP);
+      const sameNetwork = family === 'ipv6'
+        ? isInSameIPv6Prefix(endpointIP, getEndpointPrefixLength(currentDevice), destIP)
+        : isInSameSubnetHelper(endpointIP, getEndpointMask(currentDevice), destIP);
+      if (
+        localPeer &&
+        sameNetwork &&
+        !hasPhysicalConnection(currentDevice, localPeer, devices, connections) &&
+        findLayer2Path(currentDevice, localPeer, devices, connections, { ignoreVLANs: true })
+      ) {
+        return {
+          success: false,
+          path,
+          message: `❌ ${endpointLabel} 无法到达同网段的 ${localPeer.name} (${destIP})：VLAN隔离\n${describeVLANIsolation(currentDevice, localPeer, devices, connections)}\n💡 不同VLAN的主机不能直接通信：请为每个VLAN规划不同网段，并通过路由器（单臂路由子接口）转发。`,
+          steps
+        };
+      }
+
+      // 按设备配置的默认网关转发：网关必须是同网段内某个路由器接口的IP
+      // IPv6报文使用IPv6默认网关（可以是路由器接口的链路本地地址）
+      const gatewayAddress = family === 'ipv6' ? currentDevice.ipv6Gateway : currentDevice.gateway;
+      const gatewayCheck = family === 'ipv6'
+        ? validateIPv6Gateway(endpointIP, getEndpointPrefixLength(currentDevice), gatewayAddress, devices)
+        : validateGateway(endpointIP, getEndpointMask(currentDevice), gatewayAddress, devices);
+      if (!gatewayCheck.valid || !gatewayCheck.router || !gatewayCheck.iface) {
+        return {
+          success: false,
+          path,
+          message: `❌ ${endpointLabel} (${endpointIP}) ${family === 'ipv6' ? 'IPv6' : ''}默认网关配置错误：${gatewayCheck.error}\n💡 请双击设备，把${family === 'ipv6' ? 'IPv6' : ''}默认网关设置为所连路由器接口的${family === 'ipv6' ? '地址（或使用 SLAAC 自动获取）' : 'IP'}。`,
+          steps
+        };
+      }
+
+      const gateway = gatewayCheck.router;
+      const gatewayIface = gatewayCheck.iface;
 
-      if (!gateway) {
+      // 网关接口自己的网段也必须包含本机（两端掩码不一致时会出现）
+      if (!interfaceContainsIP(gatewayIface, endpointIP)) {
+        const gatewayNetwork = family === 'ipv6'
+          ? `${gatewayIface.ipv6 || '未配置IPv6'}/${getInterfacePrefixLength(gatewayIface)}`
+          : `${gatewayIface.ip}/${maskToCIDR(gatewayIface.subnetMask || DEFAULT_SUBNET_MASK)}`;
         return {
           success: false,
           path,
-          message: `❌ ${endpointLabel} (${currentDevice.ip}) 找不到默认网关\n网段: ${currentNetwork}`,
+          message: `❌ ${endpointLabel} (${endpointIP}) 不在网关接口 ${gateway.name} ${gatewayIface.name} (${gatewayNetwork}) 的网段内\n💡 请检查两端的${family === 'ipv6' ? '前缀' : '子网掩码'}是否一致。`,
           steps
         };
       }
 
-      // 检查物理连接
-      if (!hasPhysicalConnection(currentDevice, gateway, connections)) {
+      // 检查物理连接：连线要插在网关地址所在的接口上
+      const gatewayEnds = { toInterface: gatewayIface };
+      const cabling = { ignoreLinkState: true, ignoreVLANs: true };
+      if (
+        findLayer2Path(currentDevice, gateway, devices, connections, cabling) &&
+        !findLayer2Path(currentDevice, gateway, devices, connections, { ...cabling, ...gatewayEnds })
+      ) {
         return {
           success: false,
           path,
-          message: `❌ ${endpointLabel} 和网关 ${gateway.name} 之间没有物理连接线！\n请先用 Shift+点击 连接这两个设备。`,
+          message: `❌ ${endpointLabel} 的连线没有接在网关 ${gateway.name} 的 ${gatewayIface.name} 接口上！\n默认网关 ${gatewayAddress} 是 ${gatewayIface.name} 接口的地址，帧从其他接口进入路由器不会被当作发给网关。\n💡 把连线改接到 ${gatewayIface.name} 接口，或把默认网关改成所接接口的地址。`,
+          steps
+        };
+      }
+      if (!hasPhysicalConnection(currentDevice, gateway, devices, connections, gatewayEnds)) {
+        return {
+          success: false,
+          path,
+          message: findLayer2Path(currentDevice, gateway, devices, connections, { ...gatewayEnds, ignoreLinkState: true })
+            ? `❌ ${endpointLabel} 和网关 ${gateway.name} 之间的链路已关闭！\n💡 点击画布上的红色虚线，重新启用链路或接口。`
+            : findLayer2Path(currentDevice, gateway, devices, connections, { ...gatewayEnds, ignoreVLANs: true })
+              ? `❌ ${endpointLabel} 和网关 ${gateway.name} 不在同一VLAN！\n${describeVLANIsolation(currentDevice, gateway, devices, connections)}\n💡 把交换机端口划入网关所在的VLAN，或在路由器上为该VLAN添加子接口（单臂路由）。`
+              : `❌ ${endpointLabel} 和网关 ${gateway.name} 之间没有物理连接线！\n请先用 Shift+点击 连接这两个设备（或经同一台交换机连接）。`,
           steps
         };
       }
@@ -1196,7 +2422,7 @@ function simulateRouting(
       if (showSteps) {
         steps.push({
           router: currentDevice.name,
-          action: `${endpointLabel} 发送数据到默认网关 ${gateway.name}`
+          action: `${endpointLabel} 发送数据到${family === 'ipv6' ? 'IPv6' : ''}默认网关 ${gatewayAddress} (${gateway.name} ${gatewayIface.name})`
         });
       }
 
@@ -1204,40 +2430,32 @@ function simulateRouting(
     }
     // 6. 路由器的处理：查路由表
     else if (currentDevice.type === 'router') {
+      const routingTable = family === 'ipv6' ? withIPv6ConnectedRoutes(currentDevice) : currentDevice.routingTable;
       // 检查路由表是否存在
-      if (!currentDevice.routingTable || currentDevice.routingTable.length === 0) {
+      if (!routingTable || routingTable.length === 0) {
         return {
           success: false,
           path,
           message: `❌ 路由器 ${currentDevice.name} 的路由表为空！\n请配置路由表。`,
-          steps
+          steps,
+          failureType: 'net-unreachable'
         };
       }
 
-      const destNetwork = getNetwork(destIP);
-
-      // 查找所有匹配的路由，支持两种格式：
-      // 1. 精确IP匹配（如 192.168.1.100）- 优先级最高
-      // 2. 网络地址匹配（如 192.168.1.0）- 兜底匹配
-      let matchingRoutes = currentDevice.routingTable.filter((r) => r.destination === destIP);
+      // 最长前缀匹配：按条目的子网掩码计算，前缀越长越精确，
+      // 同样长度的前缀再按权重排序（从最优到次优）
+      const sortedRoutes = findMatchingRoutes(routingTable, destIP);
 
-      // 如果没有精确IP匹配，再尝试网络地址匹配
-      if (matchingRoutes.length === 0) {
-        matchingRoutes = currentDevice.routingTable.filter((r) => r.destination === destNetwork);
-      }
-
-      if (matchingRoutes.length === 0) {
+      if (sortedRoutes.length === 0) {
         return {
           success: false,
           path,
-          message: `❌ 路由器 ${currentDevice.name} 的路由表中没有到达 ${destIP} (${destNetwork}) 的路由！\n当前路由表只有: ${currentDevice.routingTable.map((r) => r.destination).join(', ')}`,
-          steps
+          message: `❌ 路由器 ${currentDevice.name} 的路由表中没有到达 ${destIP} 的路由！\n当前路由表只有: ${routingTable.map((r) => formatRouteDestination(r)).join(', ')}\n💡 可以添加更精确的路由，或添加默认路由 ${family === 'ipv6' ? '::/0' : '0.0.0.0/0'} 指向上游路由器。${family === 'ipv6' ? '\nIPv4和IPv6的路由表是分开的，IPv6目标需要IPv6路由。' : ''}`,
+          steps,
+          failureType: 'net-unreachable'
         };
       }
 
-      // 按权重排序所有匹配的路由（从最优到次优）
-      const sortedRoutes = matchingRoutes.sort((a, b) => a.metric - b.metric);
-
       // 尝试每条路由，直到找到物理连接正常的
       let route: RouteEntry | null = null;
       let failedRoutes: Array<{nextHop: string, metric: number, reason: string}> = [];
@@ -1245,7 +2463,7 @@ function simulateRouting(
       for (const candidateRoute of sortedRoutes) {
         // 处理直连网络（支持多种表示方式）
         if (candidateRoute.nextHop === '-' || candidateRoute.nextHop === '直连' || candidateRoute.nextHop === '0.0.0.0') {
-          const destDevice = devices.find((d) => d.ip === destIP);
+          const destDevice = findDeviceByIP(devices, destIP);
 
           if (!destDevice) {
             failedRoutes.push({
@@ -1256,9 +2474,9 @@ function simulateRouting(
             continue; // 尝试下一条路由
           }
 
-          // 检查路由器是否有该网段的接口
+          // 检查路由器是否有包含目标IP的接口（按接口掩码计算）
           const hasInterface = currentDevice.interfaces?.some(
-            (iface) => getNetwork(iface.ip) === destNetwork
+            (iface) => interfaceContainsIP(iface, destIP)
           );
 
           if (!hasInterface) {
@@ -1270,12 +2488,36 @@ function simulateRouting(
             continue; // 尝试下一条路由
           }
 
+          const downInterface = currentDevice.interfaces.find(
+            (iface) => interfaceContainsIP(iface, destIP) && !isInterfaceUp(iface)
+          );
+          if (downInterface) {
+            failedRoutes.push({
+              nextHop: '直连',
+              metric: candidateRoute.metric,
+              reason: `接口 ${downInterface.name} 已关闭(shutdown)`
+            });
+            continue; // 尝试下一条路由
+          }
+
+          // 按路由指定的出接口发出：出接口要在目标网段内，连线也要插在这个接口上
+          const directInterfaceError = checkOutgoingInterface(currentDevice, candidateRoute, destDevice, destIP, family, devices, connections);
+          if (directInterfaceError) {
+            failedRoutes.push({
+              nextHop: '直连',
+              metric: candidateRoute.metric,
+              reason: directInterfaceError
+            });
+            continue; // 尝试下一条路由
+          }
+
           // 检查物理连接
-          if (!hasPhysicalConnection(currentDevice, destDevice, connections)) {
+          const directEnds = getRouteLinkEnds(currentDevice, candidateRoute, destDevice, family);
+          if (!hasPhysicalConnection(currentDevice, destDevice, devices, connections, directEnds)) {
             failedRoutes.push({
               nextHop: '直连',
               metric: candidateRoute.metric,
-              reason: '物理连接断开'
+              reason: describeLinkFailure(currentDevice, destDevice, devices, connections, directEnds)
             });
             continue; // 尝试下一条路由
           }
@@ -1286,16 +2528,8 @@ function simulateRouting(
         }
         // 转发到下一站路由器
         else {
-          // 先按名称查找，找不到再按IP地址查找
-          let nextRouter = devices.find((d) => d.name === candidateRoute.nextHop);
-
-          if (!nextRouter) {
-            // 尝试按IP地址查找（查找拥有该IP接口的路由器）
-            nextRouter = devices.find((d) =>
-              d.type === 'router' &&
-              d.interfaces?.some((iface) => iface.ip === candidateRoute.nextHop)
-            );
-          }
+          // 先按名称查找，找不到再按IP地址（含IPv6链路本地地址）查找
+          const nextRouter = findNextHopRouter(devices, candidateRoute.nextHop);
 
           if (!nextRouter) {
             failedRoutes.push({
@@ -1315,38 +2549,41 @@ function simulateRouting(
             continue; // 尝试下一条路由
           }
 
-          // 检查物理连接
-          if (!hasPhysicalConnection(currentDevice, nextRouter, connections)) {
+          // 按路由指定的出接口转发：出接口要与下一站同网段，连线也要插在这个接口上
+          const nextHopInterfaceError = checkOutgoingInterface(currentDevice, candidateRoute, nextRouter, undefined, family, devices, connections);
+          if (nextHopInterfaceError) {
             failedRoutes.push({
               nextHop: candidateRoute.nextHop,
               metric: candidateRoute.metric,
-              reason: '物理连接断开'
+              reason: nextHopInterfaceError
             });
             continue; // 尝试下一条路由
           }
 
-          // 检查接口配置（两个路由器的接口IP应该在同一网段）
-          const currentRouterInterfaces = currentDevice.interfaces || [];
-          const nextRouterInterfaces = nextRouter.interfaces || [];
-
-          let hasCommonNetwork = false;
-          for (const currentIface of currentRouterInterfaces) {
-            const currentNet = getNetwork(currentIface.ip);
-            for (const nextIface of nextRouterInterfaces) {
-              const nextNet = getNetwork(nextIface.ip);
-              if (currentNet === nextNet) {
-                hasCommonNetwork = true;
-                break;
-              }
-            }
-            if (hasCommonNetwork) break;
+          // 检查物理连接
+          const nextHopEnds = getRouteLinkEnds(currentDevice, candidateRoute, nextRouter, family);
+          if (!hasPhysicalConnection(currentDevice, nextRouter, devices, connections, nextHopEnds)) {
+            failedRoutes.push({
+              nextHop: candidateRoute.nextHop,
+              metric: candidateRoute.metric,
+              reason: describeLinkFailure(currentDevice, nextRouter, devices, connections, nextHopEnds)
+            });
+            continue; // 尝试下一条路由
           }
 
+          // 检查接口配置（两个路由器的接口IP应该在同一网段，已关闭的接口不算）
+          const currentRouterInterfaces = (currentDevice.interfaces || []).filter(isInterfaceUp);
+          const nextRouterInterfaces = (nextRouter.interfaces || []).filter(isInterfaceUp);
+
+          const hasCommonNetwork = currentRouterInterfaces.some((currentIface) =>
+            nextRouterInterfaces.some((nextIface) => interfacesShareSubnet(currentIface, nextIface, family))
+          );
+
           if (!hasCommonNetwork) {
             failedRoutes.push({
               nextHop: candidateRoute.nextHop,
               metric: candidateRoute.metric,
-              reason: '接口配置错误(没有共同网段)'
+              reason: family === 'ipv6' ? '接口配置错误(没有共同的IPv6前缀)' : '接口配置错误(没有共同网段)'
             });
             continue; // 尝试下一条路由
           }
@@ -1363,25 +2600,46 @@ function simulateRouting(
           .map(f => `${f.nextHop}(权重${f.metric}, ${f.reason})`)
           .join(', ');
 
+        const matchedBy = sortedRoutes.some((r) => isDefaultRoute(r))
+          ? `\n匹配到的路由: ${sortedRoutes.map((r) => formatRouteDestination(r)).join(', ')}`
+          : '';
+
         return {
           success: false,
           path,
-          message: `❌ 路由器 ${currentDevice.name} 的所有路由都不可用！\n目标: ${destIP}\n尝试过的路由: ${failedInfo}\n\n请检查物理连接或路由配置。`,
-          steps
+          message: `❌ 路由器 ${currentDevice.name} 的所有路由都不可用！\n目标: ${destIP}${matchedBy}\n尝试过的路由: ${failedInfo}\n\n请检查物理连接或路由配置。`,
+          steps,
+          failureType: failedRoutes.every((f) => f.nextHop === '直连') ? 'host-unreachable' : 'net-unreachable'
         };
       }
 
-      // 如果使用了备用路由，添加提示信息
+      // 说明选中条目胜出的原因：前缀更长，或前缀相同但权重更小
       const routeIndex = sortedRoutes.indexOf(route);
+      const chosenRoute = route;
+      const winnerPrefix = getRoutePrefixLength(chosenRoute);
+      const shorterMatches = sortedRoutes.filter((r) => getRoutePrefixLength(r) < winnerPrefix);
+      const samePrefixBackups = sortedRoutes.filter(
+        (r) => r !== chosenRoute && getRoutePrefixLength(r) === winnerPrefix && r.metric > chosenRoute.metric
+      );
+      const reasons: string[] = [];
+      if (shorterMatches.length > 0) {
+        reasons.push(`/${winnerPrefix} 比 ${shorterMatches.map((r) => formatRouteDestination(r)).join(', ')} 更精确`);
+      }
+      if (samePrefixBackups.length > 0) {
+        reasons.push(`同前缀中权重最小`);
+      }
+      const reasonText = reasons.length > 0 ? `（${reasons.join('；')}）` : '';
+
+      // 如果使用了备用路由，添加提示信息
       if (routeIndex > 0 && showSteps) {
         const skippedRoutes = failedRoutes.slice(0, routeIndex)
-          .map(f => `${f.nextHop}(权重${f.metric})`)
+          .map(f => `${f.nextHop}(权重${f.metric}, ${f.reason})`)
           .join(', ');
 
         steps.push({
           router: currentDevice.name,
-          action: `⚠️ 最优路由不可用 [${skippedRoutes}]，使用备用路由: ${route.nextHop}(权重${route.metric})`,
-          routeEntry: route
+          action: `⚠️ 最优路由不可用 [${skippedRoutes}]，使用备用路由: ${formatRouteDestination(chosenRoute)} → ${chosenRoute.nextHop}(权重${chosenRoute.metric})${reasonText}`,
+          routeEntry: chosenRoute
         });
       }
 
@@ -1389,16 +2647,16 @@ function simulateRouting(
       if (showSteps && routeIndex === 0) {
         steps.push({
           router: currentDevice.name,
-          action: `查找路由表: 目标网段 ${destNetwork}, 下一站 ${route.nextHop}, 权重 ${route.metric}`,
-          routeEntry: route
+          action: `查找路由表: 目标 ${destIP} 最长前缀匹配 ${formatRouteDestination(chosenRoute)}${reasonText}, 下一站 ${chosenRoute.nextHop}, 权重 ${chosenRoute.metric}`,
+          routeEntry: chosenRoute
         });
       }
 
       // 根据选定的路由设置nextDevice
       if (route.nextHop === '-' || route.nextHop === '直连' || route.nextHop === '0.0.0.0') {
         // 直连网络 - 返回成功
-        const destDevice = devices.find((d) => d.ip === destIP);
-        path.push(destDevice!.name);
+        const destDevice = findDeviceByIP(devices, destIP)!;
+        path.push(...getSwitchHops(currentDevice, destDevice, devices, connections), destDevice.name);
         return {
           success: true,
           path,
@@ -1407,14 +2665,7 @@ function simulateRouting(
         };
       } else {
         // 转发到下一站路由器
-        let nextRouter = devices.find((d) => d.name === route.nextHop);
-        if (!nextRouter) {
-          nextRouter = devices.find((d) =>
-            d.type === 'router' &&
-            d.interfaces?.some((iface) => iface.ip === route.nextHop)
-          );
-        }
-        nextDevice = nextRouter!;
+        nextDevice = findNextHopRouter(devices, route.nextHop)!;
       }
     }
 
@@ -1423,7 +2674,8 @@ function simulateRouting(
         success: false,
         path,
         message: `❌ 在 ${currentDevice.name} 无法继续转发`,
-        steps
+        steps,
+        failureType: 'net-unreachable'
       };
     }
 
@@ -1433,11 +2685,12 @@ function simulateRouting(
         success: false,
         path,
         message: `❌ 检测到路由环路！设备 ${nextDevice.name} 已经访问过。\n路径: ${path.join(' → ')}`,
-        steps
+        steps,
+        failureType: 'ttl-exceeded'
       };
     }
 
-    path.push(nextDevice.name);
+    path.push(...getSwitchHops(currentDevice, nextDevice, devices, connections), nextDevice.name);
     visitedDevices.add(nextDevice.id);
     currentDevice = nextDevice;
     hopCount++;
@@ -1447,16 +2700,1110 @@ function simulateRouting(
     success: false,
     path,
     message: `❌ 超过最大跳数限制 (${maxHops}跳)，可能存在路由环路`,
-    steps
+    steps,
+    failureType: 'ttl-exceeded'
   };
 }
 
+/**
+ * 往返通信的回程：从服务器出发，经服务器网关和沿途路由器的路由表独立路由回客户端
+ * 请求失败时没有响应，回程改为出错路由器回送的ICMP差错报文
+ */
+function simulateRoundTrip(
+  devices: Device[],
+  connections: Connection[],
+  requestRoute: SimulationResult,
+  clientIP: string,
+  nat: NATSession
+): Pick<SimulationResult, 'success' | 'steps' | 'requestSuccess' | 'responseSuccess' | 'responsePath' | 'responseMessage' | 'responseFailureType' | 'icmpError' | 'packetHeaders'> {
+  if (!requestRoute.success) {
+    const icmpError = buildICMPError(devices, connections, requestRoute, clientIP);
+    return {
+      success: false,
+      steps: requestRoute.steps,
+      requestSuccess: false,
+      responseSuccess: false,
+      responsePath: icmpError ? icmpError.path : [],
+      icmpError
+    };
+  }
+
+  // 响应发往请求到达服务器时的源地址（经过NAT时是路由器的外网地址，由该路由器还原）
+  const requestHeaders = requestRoute.packetHeaders || [];
+  const received = requestHeaders[requestHeaders.length - 1];
+  const server = devices.find((d) => d.name === requestRoute.path[requestRoute.path.length - 1])!;
+  const responseRoute = routeThroughNAT(
+    devices,
+    connections,
+    server,
+    received ? received.srcIP : clientIP,
+    received ? { protocol: received.protocol, srcPort: received.dstPort, dstPort: received.srcPort } : ICMP_ECHO_FLOW,
+    'response',
+    nat,
+    false,
+    received?.dstIP
+  );
+  const client = findEndpointByIP(devices, clientIP);
+  const reachedClient = responseRoute.path[responseRoute.path.length - 1] === client?.name;
+  if (responseRoute.success && !reachedClient) {
+    responseRoute.success = false;
+    responseRoute.message = `❌ 响应到达了 ${responseRoute.path[responseRoute.path.length - 1]}，但NAT转换表中没有对应的会话，无法转回 ${clientIP}`;
+  }
+  return {
+    packetHeaders: [...requestHeaders, ...(responseRoute.packetHeaders || [])],
+    success: responseRoute.success,
+    steps: [
+      ...requestRoute.steps,
+      ...responseRoute.steps.map((step) => ({ ...step, action: `[回程] ${step.action}` }))
+    ],
+    requestSuccess: true,
+    responseSuccess: responseRoute.success,
+    responsePath: responseRoute.path,
+    responseMessage: responseRoute.message,
+    responseFailureType: responseRoute.failureType
+  };
+}
+
+/**
+ * 路由失败时，出错的路由器向源主机回送ICMP差错报文
+ * 差错报文同样按路由表转发：回程不通时源主机收不到任何提示，只能等待超时
+ */
+function buildICMPError(
+  devices: Device[],
+  connections: Connection[],
+  failedRoute: SimulationResult,
+  sourceIP: string
+): ICMPErrorReply | undefined {
+  if (failedRoute.success || !failedRoute.failureType || failedRoute.path.length < 2) {
+    return undefined;
+  }
+
+  const router = devices.find((d) => d.name === failedRoute.path[failedRoute.path.length - 1]);
+  if (!router || router.type !== 'router') {
+    return undefined;
+  }
+
+  const previous = findPreviousLayer3Device(devices, failedRoute.path, failedRoute.path.length - 1);
+  const reply = forwardFromDevice(devices, connections, router, sourceIP);
+  return {
+    type: failedRoute.failureType === 'ttl-exceeded' ? 'time-exceeded' : 'destination-unreachable',
+    reason: failedRoute.failureType,
+    description: ICMP_ERROR_TEXT[failedRoute.failureType].description,
+    fromDevice: router.name,
+    fromIP: getIngressInterfaceIP(router, previous, getAddressFamily(sourceIP)),
+    path: reply.path,
+    delivered: reply.success,
+    routeMessage: reply.message
+  };
+}
+
+// 辅助函数：ICMP差错报文的说明（送达时按 Windows 提示显示源主机收到的内容）
+function formatICMPError(icmp: ICMPErrorReply, devices: Device[], sourceIP: string): string {
+  const sourceName = findEndpointByIP(devices, sourceIP)?.name || sourceIP;
+  const kind = icmp.type === 'time-exceeded' ? 'ICMP 超时' : 'ICMP 目标不可达';
+
+  if (icmp.delivered) {
+    return `📨 ${icmp.fromDevice} (${icmp.fromIP}) 回送 ${kind}（${icmp.description}）\n回送路径: ${icmp.path.join(' → ')}\n${sourceName} 显示: 来自 ${icmp.fromIP} 的回复: ${ICMP_ERROR_TEXT[icmp.reason].reply}`;
+  }
+  return `📭 ${icmp.fromDevice} 回送的 ${kind}（${icmp.description}）也无法返回 ${sourceName}，源主机只能等待超时：\n${icmp.routeMessage}\n💡 差错报文同样需要回程路由。`;
+}
+
+/**
+ * 回程失败时的提示：请求已送达，但响应在途中被丢弃
+ */
+function formatResponseFailure(serverName: string, clientName: string, clientIP: string, responseMessage = ''): string {
+  return `❌ 响应无法返回\n请求已到达 ${serverName}，但 ${serverName} → ${clientName} 的回程路由失败：\n${responseMessage}\n\n💡 往返通信需要双向路由：请检查服务器的默认网关，以及沿途路由器是否有返回 ${clientIP} 所在网段的路由。`;
+}
+
+/**
+ * SLAAC 无状态自动配置：主机收到所连路由器接口的路由器通告（RA），
+ * 用通告的 /64 前缀加上自己MAC生成的接口标识组成IPv6地址，默认网关为路由器接口的链路本地地址
+ */
+function runSLAACConfiguration(
+  devices: Device[],
+  connections: Connection[],
+  deviceId: string
+): { devices: Device[]; success: boolean; message: string } {
+  const host = devices.find((d) => d.id === deviceId);
+  if (!host || isRouterDevice(host) || isSwitchDevice(host)) {
+    return { devices, success: false, message: '❌ 只有终端设备可以通过SLAAC自动获取IPv6地址' };
+  }
+
+  const advertiser = devices
+    .filter((d) => isRouterDevice(d) && hasPhysicalConnection(host, d, devices, connections))
+    .map((router) => ({ router, iface: findFacingInterface(router, host) || router.interfaces?.find((iface) => iface.ipv6) }))
+    .find(({ iface }) => !!iface?.ipv6);
+
+  if (!advertiser || !advertiser.iface?.ipv6) {
+    return {
+      devices,
+      success: false,
+      message: `❌ ${host.name} 没有收到路由器通告（RA）
+💡 请先给所连路由器的接口配置IPv6地址（前缀长度 /64），路由器才会通告该前缀。`
+    };
+  }
+
+  const { router, iface } = advertiser;
+  const prefixLength = getInterfacePrefixLength(iface);
+  if (prefixLength !== IPV6_DEFAULT_PREFIX_LENGTH) {
+    return {
+      devices,
+      success: false,
+      message: `❌ ${router.name} 接口 ${iface.name} 的前缀长度为 /${prefixLength}
+💡 SLAAC 要求前缀长度为 /64，剩下的64位由主机MAC生成接口标识（EUI-64）。`
+    };
+  }
+
+  const hostIface = host.interfaces?.[0];
+  const prefix = calculateIPv6Prefix(iface.ipv6!, prefixLength);
+  const address = generateSLAACAddress(prefix, getInterfaceMAC(host, hostIface));
+  const gateway = getLinkLocalAddress(router, iface);
+  const updatedDevices = devices.map((d) => d.id !== host.id ? d : {
+    ...d,
+    ipv6: address,
+    ipv6Gateway: gateway,
+    ipv6Mode: 'slaac' as const,
+    interfaces: d.interfaces.map((port, index) => index === 0 ? { ...port, ipv6: address, ipv6PrefixLength: prefixLength } : port)
+  });
+
+  return {
+    devices: updatedDevices,
+    success: true,
+    message: `✅ ${host.name} 已通过SLAAC获取IPv6地址\n📢 ${router.name} (${iface.name}) 通告前缀 ${prefix}/${prefixLength}\n🔧 接口标识由MAC ${getInterfaceMAC(host, hostIface)} 按EUI-64生成\n🌐 IPv6地址: ${address}/${prefixLength}\n🚪 默认网关: ${gateway}（路由器接口的链路本地地址）`
+  };
+}
+
+/**
+ * DHCP 获取地址：客户端广播 DISCOVER，同一广播域内的DHCP服务器回 OFFER，
+ * 客户端再广播 REQUEST 选定该地址，服务器 ACK 后写入租约
+ * DHCP 广播不能穿过路由器，服务器必须和客户端在同一个二层网络里
+ */
+function runDHCPExchange(
+  devices: Device[],
+  connections: Connection[],
+  clientId: string
+): { devices: Device[]; result: SimulationResult; capture?: CaptureConversation } {
+  const client = devices.find((d) => d.id === clientId);
+  if (!client) {
+    return { devices, result: { success: false, path: [], message: '❌ 设备不存在', steps: [] } };
+  }
+
+  const clientIface = client.interfaces.find((iface) => iface.name === 'eth0');
+  const clientMAC = getInterfaceMAC(client, clientIface);
+  const discoverStep = {
+    router: client.name,
+    action: `📢 广播 DHCPDISCOVER（0.0.0.0 → 255.255.255.255，客户端MAC ${clientMAC}）`
+  };
+
+  // 离客户端最近（经过交换机最少）的DHCP服务器先应答
+  const candidates = devices
+    .filter((d) => d.id !== client.id && d.dhcpServer?.enabled)
+    .map((d) => ({ server: d, switches: findLayer2Path(client, d, devices, connections) }))
+    .filter((c): c is { server: Device; switches: Device[] } => c.switches !== null)
+    .sort((a, b) => a.switches.length - b.switches.length);
+
+  if (candidates.length === 0) {
+    return {
+      devices,
+      result: {
+        success: false,
+        path: [client.name],
+        message: `❌ ${client.name} 没有收到任何 DHCPOFFER（DISCOVER 超时）\n同一网络内没有启用DHCP服务的路由器或服务器。\n💡 DHCP 广播不能穿过路由器：请在所连路由器的LAN接口上启用DHCP，或在同一网络中放一台DHCP服务器。\n（真实 Windows 此时会自动配置 169.254.x.x 地址，只能和同样没有获取到地址的主机通信）`,
+        steps: [discoverStep],
+        dhcpMessages: []
+      }
+    };
+  }
+
+  const { server, switches } = candidates[0];
+  const config = server.dhcpServer!;
+  const serverIP = getDHCPServiceIP(server);
+  const toServer = [client.name, ...switches.map((d) => d.name), server.name];
+  const toClient = [...toServer].reverse();
+  const now = Date.now();
+  const allocation = allocateDHCPAddress(config, client, clientMAC, devices, now);
+  const conflictLines = allocation.conflicts.map(
+    (c) => `❌ 地址冲突：${c.ip} 已被 ${c.device} 手动配置，服务器跳过该地址`
+  );
+  const discover: DHCPMessage = {
+    type: 'DISCOVER',
+    path: toServer,
+    broadcast: true,
+    detail: `谁能给 ${clientMAC} 分配地址？`
+  };
+
+  if (!allocation.ip) {
+    return {
+      devices,
+      result: {
+        success: false,
+        path: toServer,
+        message: [
+          `❌ DHCP 服务器 ${server.name} (${serverIP}) 无法分配地址`,
+          allocation.error,
+          ...conflictLines,
+          '💡 请扩大地址池，或在DHCP服务面板中释放不再使用的租约。'
+        ].join('\n'),
+        steps: [discoverStep, { router: server.name, action: `❌ 不回应 OFFER：${allocation.error}` }],
+        dhcpMessages: [discover]
+      },
+      capture: { clientIP: '0.0.0.0', serverIP, dhcp: { clientMAC, serverIP } }
+    };
+  }
+
+  const ip = allocation.ip;
+  const leaseInfo = `${ip}/${maskToCIDR(config.subnetMask)}，网关 ${config.gateway}${config.dnsServer ? `，DNS ${config.dnsServer}` : ''}，租期 ${config.leaseTime} 秒`;
+  const messages: DHCPMessage[] = [
+    discover,
+    { type: 'OFFER', path: toClient, broadcast: false, detail: `提供 ${leaseInfo}` },
+    { type: 'REQUEST', path: toServer, broadcast: true, detail: `我要使用 ${ip}（选择服务器 ${serverIP}）` },
+    { type: 'ACK', path: toClient, broadcast: false, detail: `确认：${ip} 租给 ${client.name}` }
+  ];
+
+  const lease = {
+    ip,
+    mac: clientMAC,
+    clientId: client.id,
+    clientName: client.name,
+    leasedAt: now,
+    expiresAt: now + config.leaseTime * 1000
+  };
+  // 保留客户端原来的MAC，续租时服务器才能认出同一台设备
+  const eth0 = { ...(clientIface || { id: `${client.id}-eth0`, name: 'eth0' }), ip, subnetMask: config.subnetMask, mac: clientMAC };
+  const updatedDevices = devices.map((d) => {
+    if (d.id === client.id) {
+      return {
+        ...d,
+        ip,
+        gateway: config.gateway,
+        dnsServer: config.dnsServer || undefined,
+        ipMode: 'dhcp' as const,
+        dhcpLease: { server: server.name, leasedAt: lease.leasedAt, expiresAt: lease.expiresAt },
+        interfaces: clientIface
+          ? d.interfaces.map((iface) => (iface.name === 'eth0' ? eth0 : iface))
+          : [eth0, ...d.interfaces]
+      };
+    }
+    if (d.id === server.id) {
+      return { ...d, dhcpServer: upsertLease(config, lease) };
+    }
+    return d;
+  });
+
+  return {
+    devices: updatedDevices,
+    result: {
+      success: true,
+      path: toServer,
+      message: [
+        `✅ ${client.name} 通过DHCP获得地址（由 ${server.name} ${serverIP} 分配）`,
+        `IP地址: ${ip}`,
+        `子网掩码: ${config.subnetMask}`,
+        `默认网关: ${config.gateway}`,
+        `DNS服务器: ${config.dnsServer || '未下发'}`,
+        `租期: ${config.leaseTime} 秒`,
+        ...conflictLines
+      ].join('\n'),
+      steps: messages.map((m) => ({
+        router: m.type === 'OFFER' || m.type === 'ACK' ? server.name : client.name,
+        action: `${m.broadcast ? '📢 广播' : '➡ 单播'} DHCP${m.type}：${m.detail}`
+      })),
+      dhcpMessages: messages
+    },
+    capture: { clientIP: '0.0.0.0', serverIP, dhcp: { clientMAC, offeredIP: ip, serverIP } }
+  };
+}
+
+/**
+ * 一次Ping的请求和应答，不修改设备状态（NAT转换记录在 nat 中，由调用方决定是否写回）
+ * 请求在路由器处失败时由该路由器回送ICMP差错报文；请求送达时应答从目标出发按路由表独立路由回源主机，
+ * 回程同样要经过沿途的ACL，回程不通时源主机只能等待超时
+ * @returns Ping结果、ICMP差错报文，以及应答（或差错报文）实际经过的设备（回程不通时到丢弃处为止）
+ */
+function runPingExchange(
+  devices: Device[],
+  connections: Connection[],
+  sourceIP: string,
+  destIP: string,
+  nat: NATSession
+): { result: SimulationResult; icmpError: ICMPErrorReply | undefined; returnPath: string[] } {
+  const route = simulateRouting(devices, connections, sourceIP, destIP, true, ICMP_ECHO_FLOW, nat);
+
+  const icmpError = buildICMPError(devices, connections, route, sourceIP);
+  const result: SimulationResult = icmpError
+    ? { ...route, icmpError, message: `${route.message}\n\n${formatICMPError(icmpError, devices, sourceIP)}` }
+    : { ...route };
+  if (!route.success) {
+    return { result, icmpError, returnPath: icmpError ? icmpError.path : [] };
+  }
+
+  const roundTrip = simulateRoundTrip(devices, connections, route, sourceIP, nat);
+  Object.assign(result, {
+    steps: roundTrip.steps,
+    packetHeaders: roundTrip.packetHeaders,
+    responsePath: roundTrip.responsePath,
+    responseSuccess: roundTrip.responseSuccess,
+    responseMessage: roundTrip.responseMessage,
+    responseFailureType: roundTrip.responseFailureType
+  });
+  if (!roundTrip.responseSuccess) {
+    const destName = route.path[route.path.length - 1];
+    result.success = false;
+    result.message = `❌ Ping 应答无法返回\n请求已到达 ${destName}，但应答在返回途中失败：\n${roundTrip.responseMessage || ''}\n\n💡 应答按 ${destName} 的网关和沿途路由器的路由表独立返回，回程的路由和ACL也必须放行。`;
+  }
+  return { result, icmpError, returnPath: roundTrip.responsePath || [] };
+}
+
+/**
+ * 对所有终端两两Ping（双向各一次，不播放动画、不修改设备状态），并检查全网路由表：
+ * 报文被丢弃的黑洞、路由环路、没有通信用到的路由、下一站不直连的路由
+ */
+function buildReachabilityReport(devices: Device[], connections: Connection[]): ReachabilityReport {
+  const endpoints = devices.filter((d) => ENDPOINT_TYPES.includes(d.type) && d.ip);
+  const cells: ReachabilityCell[] = [];
+  const usedRoutes = new Set<RouteEntry>();
+  const blackHoles = new Map<string, { router: string; network: string; count: number }>();
+  const loops = new Map<string, { router: string; count: number }>();
+
+  for (const source of endpoints) {
+    for (const destination of endpoints) {
+      if (source.id === destination.id) continue;
+      const { result } = runPingExchange(devices, connections, source.ip, destination.ip, new Map());
+      result.steps.forEach((step) => step.routeEntry && usedRoutes.add(step.routeEntry));
+
+      // 请求送达但应答回不来（回程没有路由、被ACL丢弃……）时，这一对同样不通
+      const replyFailed = result.responseSuccess === false;
+      const status: ReachabilityCell['status'] = result.success
+        ? 'ok'
+        : replyFailed
+          ? 'reply-dropped'
+          : result.failureType === 'ttl-exceeded'
+            ? 'loop'
+            : result.failureType === 'admin-prohibited'
+              ? 'blocked'
+              : result.failureType
+                ? 'no-route'
+                : 'config';
+      const firstLine = (message: string) => message.split('\n')[0].replace(/^❌\s*/, '');
+      cells.push({
+        source: source.name,
+        destination: destination.name,
+        status,
+        reason: result.success
+          ? ''
+          : replyFailed
+            ? `应答无法返回：${firstLine(result.responseMessage || '')}`
+            : firstLine(result.message),
+        path: result.path
+      });
+
+      // 黑洞：请求在路由器处找不到去目标的路由，或应答在路由器处找不到回源主机的路由
+      const recordBlackHole = (path: string[], target: Device) => {
+        const router = devices.find((d) => d.name === path[path.length - 1]);
+        if (!router || !isRouterDevice(router)) return;
+        const network = `${calculateSubnet(target.ip, getEndpointMask(target))}/${maskToCIDR(getEndpointMask(target))}`;
+        const key = `${router.name}|${network}`;
+        const hole = blackHoles.get(key) || { router: router.name, network, count: 0 };
+        blackHoles.set(key, { ...hole, count: hole.count + 1 });
+      };
+      if (status === 'no-route') {
+        recordBlackHole(result.path, destination);
+      }
+      if (replyFailed && (result.responseFailureType === 'net-unreachable' || result.responseFailureType === 'host-unreachable')) {
+        recordBlackHole(result.responsePath || [], source);
+      }
+      if (status === 'loop') {
+        // 环路：从再次到达的设备开始截取路径（最后一步路由的下一站就是再次到达的设备）
+        const lastHop = [...result.steps].reverse().find((step) => step.routeEntry)?.routeEntry?.nextHop;
+        const repeated = devices.find((d) => d.name === lastHop || (isRouterDevice(d) && d.interfaces.some((i) => i.ip === lastHop)));
+        const start = repeated ? result.path.lastIndexOf(repeated.name) : -1;
+        const routersInLoop = (start >= 0 ? result.path.slice(start) : result.path)
+          .filter((name) => devices.find((d) => d.name === name)?.type === 'router');
+        // 同一个环路从不同路由器进入时，统一从名称最小的路由器开始记录
+        const first = routersInLoop.indexOf([...routersInLoop].sort()[0]);
+        const cycle = [...routersInLoop.slice(first), ...routersInLoop.slice(0, first), routersInLoop[first]];
+        const key = cycle.join(' → ');
+        loops.set(key, { router: cycle[0] || source.name, count: (loops.get(key)?.count || 0) + 1 });
+      }
+    }
+  }
+
+  const issues: RoutingHealthIssue[] = [
+    ...[...blackHoles.values()].map((hole): RoutingHealthIssue => ({
+      kind: 'black-hole',
+      router: hole.router,
+      description: `没有到 ${hole.network} 的可用路由，报文在这里被丢弃（影响 ${hole.count} 对终端）`
+    })),
+    ...[...loops.entries()].map(([cycle, loop]): RoutingHealthIssue => ({
+      kind: 'loop',
+      router: loop.router,
+      description: `报文在 ${cycle} 之间循环（影响 ${loop.count} 对终端）`
+    }))
+  ];
+
+  for (const router of devices.filter(isRouterDevice)) {
+    for (const entry of router.routingTable || []) {
+      // 动态路由协议生成的路由由协议维护，不检查
+      if (entry.source) continue;
+      const isConnected = entry.nextHop === '-' || entry.nextHop === '直连' || entry.nextHop === '0.0.0.0';
+
+      if (!isConnected) {
+        const nextRouter = devices.find((d) => d.name === entry.nextHop)
+          || devices.find((d) => isRouterDevice(d) && d.interfaces.some((i) => i.ip === entry.nextHop));
+        const problem = !nextRouter
+          ? `下一站 ${entry.nextHop} 不存在`
+          : !findLayer2Path(router, nextRouter, devices, connections)
+            ? `下一站 ${nextRouter.name} 与本路由器之间没有连线`
+            : !router.interfaces.some((iface) => iface.ip && nextRouter.interfaces.some((peer) => peer.ip && interfacesShareSubnet(iface, peer)))
+              ? `下一站 ${nextRouter.name} 与本路由器没有同一网段的接口`
+              : null;
+        if (problem) {
+          issues.push({ kind: 'invalid-next-hop', router: router.name, route: entry, description: `${formatRouteDestination(entry)}：${problem}` });
+          continue;
+        }
+      }
+
+      if (usedRoutes.has(entry)) continue;
+      const hasBetterRoute = (router.routingTable || []).some(
+        (other) => other !== entry && formatRouteDestination(other) === formatRouteDestination(entry) && other.metric < entry.metric
+      );
+      const hasEndpoints = endpoints.some((d) => routeMatchesIP(entry, d.ip));
+      issues.push({
+        kind: 'unused-route',
+        router: router.name,
+        route: entry,
+        description: `${formatRouteDestination(entry)} → ${entry.nextHop}：${
+          hasBetterRoute
+            ? '备用路由，主路由正常时不会用到'
+            : hasEndpoints
+              ? '终端之间的通信都没有用到这条路由'
+              : '目标网段中没有终端，只在访问路由器接口时才会用到'
+        }`
+      });
+    }
+  }
+
+  return {
+    endpoints: endpoints.map((d) => ({ name: d.name, ip: d.ip })),
+    cells,
+    issues
+  };
+}
+
+/**
+ * 由一次正向路由结果推算路由追踪的逐跳应答
+ * 每台中间设备用收到探测包的入接口IP回应 ICMP 超时；应答同样按路由表送回源主机，
+ * 送不回来的那一跳显示为超时。路由失败时最后一个探测包换成出错路由器的ICMP差错报文
+ */
+function buildTracerouteHops(
+  devices: Device[],
+  connections: Connection[],
+  route: SimulationResult,
+  sourceIP: string,
+  destIP: string
+): TracerouteHop[] {
+  const hops: TracerouteHop[] = [];
+  // 交换机不处理IP报文、不减TTL，只有三层设备算作一跳
+  const layer3Indexes = route.path
+    .map((name, index) => ({ name, index }))
+    .filter(({ name }) => devices.find((d) => d.name === name)?.type !== 'switch')
+    .map(({ index }) => index);
+
+  for (let ttl = 1; ttl < layer3Indexes.length; ttl++) {
+    const pathIndex = layer3Indexes[ttl];
+    const reached = route.success && ttl === layer3Indexes.length - 1;
+    const device = devices.find((d) => d.name === route.path[pathIndex]);
+    const previous = devices.find((d) => d.name === route.path[layer3Indexes[ttl - 1]]);
+    const probePath = route.path.slice(0, pathIndex + 1);
+    const reply = device ? forwardFromDevice(devices, connections, device, sourceIP) : null;
+
+    if (!reply || !reply.success) {
+      hops.push({ ttl, device: '*', ip: '*', status: 'timeout', probePath, replyPath: reply?.path || [] });
+      continue;
+    }
+
+    hops.push({
+      ttl,
+      device: route.path[pathIndex],
+      ip: reached ? destIP : getIngressInterfaceIP(device, previous, getAddressFamily(destIP)),
+      status: reached ? 'reached' : 'time-exceeded',
+      probePath,
+      replyPath: reply.path
+    });
+  }
+
+  if (!route.success) {
+    const icmpError = buildICMPError(devices, connections, route, sourceIP);
+    hops.push(
+      icmpError?.delivered
+        ? {
+            ttl: layer3Indexes.length,
+            device: icmpError.fromDevice,
+            ip: icmpError.fromIP,
+            status: icmpError.type === 'time-exceeded' ? 'time-exceeded' : 'unreachable',
+            probePath: route.path,
+            replyPath: icmpError.path
+          }
+        : {
+            ttl: layer3Indexes.length,
+            device: '*',
+            ip: '*',
+            status: 'timeout',
+            probePath: route.path,
+            replyPath: icmpError?.path
+          }
+    );
+  }
+
+  return hops;
+}
+
+/**
+ * 一组路由器之间的邻接关系（动态路由协议的邻居，也是静态路由可用的下一站）
+ * 邻居：两台路由器各有一个接口在同一网段，且直接连线或只经过交换机；开销为途经连线的开销之和
+ */
+function findRoutingAdjacencies(routers: Device[], devices: Device[], connections: Connection[]): OSPFAdjacency[] {
+  const adjacencies: OSPFAdjacency[] = [];
+  for (const router of routers) {
+    for (const neighbor of routers) {
+      if (neighbor.id === router.id) continue;
+      const switches = findLayer2Path(router, neighbor, devices, connections);
+      if (!switches) continue;
+      for (const iface of router.interfaces.filter((i) => i.ip && isInterfaceUp(i))) {
+        const peerIface = neighbor.interfaces.find((i) => i.ip && isInterfaceUp(i) && interfacesShareSubnet(iface, i));
+        if (peerIface) {
+          adjacencies.push({
+            from: router.name,
+            fromInterface: iface.name,
+            to: neighbor.name,
+            toInterface: peerIface.name,
+            cost: getPathCost([router.id, ...switches.map((sw) => sw.id), neighbor.id], connections),
+            path: [router.name, ...switches.map((sw) => sw.name), neighbor.name]
+          });
+        }
+      }
+    }
+  }
+  return adjacencies;
+}
+
+/**
+ * 分别运行RIP和OSPF（两种协议的路由器之间不交换路由），合并两者的收敛过程
+ * @returns 更新后的设备，以及收敛过程
+ */
+function runRoutingProtocols(devices: Device[], connections: Connection[]): { devices: Device[]; result: SimulationResult } {
+  const enabled = (protocol: 'rip' | 'ospf') =>
+    devices.some((d) => isRouterDevice(d) && d.dynamicRouting?.protocol === protocol);
+  if (!enabled('rip') && !enabled('ospf')) {
+    return {
+      devices,
+      result: { success: false, path: [], message: '❌ 没有启用动态路由的路由器\n💡 请选中路由器，在“动态路由”中选择 RIP 或 OSPF。', steps: [] }
+    };
+  }
+
+  const rip = enabled('rip') ? runRIPConvergence(devices, connections) : null;
+  const ospf = enabled('ospf') ? runOSPFConvergence(rip ? rip.devices : devices, connections) : null;
+  if (!rip || !ospf) {
+    return (rip || ospf)!;
+  }
+
+  return {
+    devices: ospf.devices,
+    result: {
+      success: rip.result.success && ospf.result.success,
+      path: [...rip.result.path, ...ospf.result.path],
+      message: `${rip.result.message}\n\n${ospf.result.message}`,
+      steps: [...rip.result.steps, ...ospf.result.steps],
+      routingRounds: [...(rip.result.routingRounds || []), ...(ospf.result.routingRounds || [])]
+    }
+  };
+}
+
+/**
+ * 启用RIP的路由器之间逐轮交换路由更新，收敛后把学到的路由写入路由表
+ * @returns 更新后的设备，以及收敛过程（每轮的更新报文和路由变化）
+ */
+function runRIPConvergence(devices: Device[], connections: Connection[]): { devices: Device[]; result: SimulationResult } {
+  const routers = devices.filter((d) => isRouterDevice(d) && d.dynamicRouting?.protocol === 'rip');
+  const links: RIPLink[] = findRoutingAdjacencies(routers, devices, connections);
+
+  const restored = routers.map((router) => restoreRIPState(router, links));
+  const invalidated = restored.flatMap((r) => r.changes);
+  const run = runRIPRounds(restored.map((r) => r.state), links);
+  const rounds: RoutingUpdateRound[] = invalidated.length > 0
+    ? [{ protocol: 'rip', round: 0, messages: [], changes: invalidated }, ...run.rounds]
+    : run.rounds;
+
+  const newDevices = devices.map((device) => {
+    const state = run.states.find((s) => s.router === device.name);
+    return state ? { ...device, routingTable: buildRoutingTable(device, state.routes) } : device;
+  });
+
+  const lastRound = rounds[rounds.length - 1]?.round ?? 0;
+  const summary = run.converged
+    ? `✅ RIP 经过 ${lastRound} 轮更新后收敛（第 ${lastRound} 轮没有任何变化）`
+    : `⚠️ RIP 交换了 ${lastRound} 轮仍未收敛`;
+  const learned = newDevices
+    .filter((d) => run.states.some((s) => s.router === d.name))
+    .map((d) => `${d.name}: 学到 ${(d.routingTable || []).filter((entry) => entry.source === 'rip').length} 条路由`);
+  const hints = [
+    ...(invalidated.length > 0 ? [`🔌 链路断开：${invalidated.length} 条路由立即失效，由更新报文通知邻居`] : []),
+    ...(hasCountToInfinity(rounds)
+      ? ['💡 出现了“计数到无穷”：失效的网络在路由器之间被来回通告，跳数一轮轮增加，直到16跳（不可达）才停止。开启水平分割可以避免。']
+      : [])
+  ];
+
+  return {
+    devices: newDevices,
+    result: {
+      success: run.converged,
+      path: routers.map((router) => router.name),
+      message: [summary, ...learned, ...hints].join('\n'),
+      steps: rounds.flatMap((round) =>
+        round.changes.map((change) => ({
+          router: change.router,
+          action: `${round.round === 0 ? '链路断开' : `第${round.round}轮`}: ${formatRoutingChange(change)}`
+        }))
+      ),
+      routingRounds: rounds
+    }
+  };
+}
+
+/**
+ * 启用OSPF的路由器泛洪LSA，各自以自己为根运行SPF，把算出的路由和最短路径树写回设备
+ * @returns 更新后的设备，以及泛洪过程（最后一轮为SPF计算后的路由变化）
+ */
+function runOSPFConvergence(devices: Device[], connections: Connection[]): { devices: Device[]; result: SimulationResult } {
+  const routers = devices.filter((d) => isRouterDevice(d) && d.dynamicRouting?.protocol === 'ospf');
+  const adjacencies = findRoutingAdjacencies(routers, devices, connections);
+  const lsas = routers.map((router) => buildLSA(router, adjacencies));
+  const flood = floodLSAs(routers.map((router) => router.name), adjacencies);
+
+  const changes: RoutingUpdateRound['changes'] = [];
+  const summaries: string[] = [];
+  const newDevices = devices.map((device) => {
+    if (!routers.some((router) => router.id === device.id)) return device;
+    const known = flood.databases.get(device.name);
+    const lsdb = lsas.filter((lsa) => known?.has(lsa.router));
+    const spfTree = runSPF(device.name, lsdb);
+    const routingTable = buildOSPFRoutingTable(device, buildOSPFRoutes(device.name, lsdb, spfTree));
+    changes.push(...diffOSPFRoutes(device.name, device.routingTable || [], routingTable));
+    summaries.push(
+      `${device.name}: 拓扑库 ${lsdb.length} 条LSA，最短路径树到达 ${spfTree.length - 1} 台路由器，` +
+      `算出 ${routingTable.filter((entry) => entry.source === 'ospf').length} 条路由`
+    );
+    return { ...device, routingTable, spfTree };
+  });
+
+  const rounds: RoutingUpdateRound[] = [
+    ...flood.rounds.map((round): RoutingUpdateRound => ({ protocol: 'ospf', round: round.round, messages: round.messages, changes: [] })),
+    { protocol: 'ospf', round: flood.rounds.length + 1, messages: [], changes }
+  ];
+  const partitioned = routers.filter((router) => (flood.databases.get(router.name)?.size || 0) < routers.length);
+  const hints = [
+    ...(changes.length === 0 ? ['路由表没有变化'] : []),
+    ...(partitioned.length > 0
+      ? [`⚠️ 网络被分割：${partitioned.map((router) => router.name).join('、')} 收不到全部路由器的LSA，只能算出可达部分的路由`]
+      : [])
+  ];
+
+  return {
+    devices: newDevices,
+    result: {
+      success: true,
+      path: routers.map((router) => router.name),
+      message: [
+        `✅ OSPF：LSA 经过 ${flood.rounds.length} 轮泛洪，${routers.length} 台路由器、${adjacencies.length / 2} 条链路的拓扑已同步，各路由器运行SPF算出最短路径`,
+        ...summaries,
+        ...hints
+      ].join('\n'),
+      steps: changes.map((change) => ({ router: change.router, action: `SPF计算: ${formatOSPFChange(change)}` })),
+      routingRounds: rounds
+    }
+  };
+}
+
+// 辅助函数：路径中某位置之前最近的三层设备（跳过交换机）
+function findPreviousLayer3Device(devices: Device[], path: string[], index: number): Device | undefined {
+  for (let i = index - 1; i >= 0; i--) {
+    const device = devices.find((d) => d.name === path[i]);
+    if (device && device.type !== 'switch') {
+      return device;
+    }
+  }
+  return undefined;
+}
+
+// 辅助函数：路径中某位置之后最近的三层设备（跳过交换机）
+function findNextLayer3Device(devices: Device[], path: string[], index: number): Device | undefined {
+  for (let i = index + 1; i < path.length; i++) {
+    const device = devices.find((d) => d.name === path[i]);
+    if (device && device.type !== 'switch') {
+      return device;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 帧经过交换机时的MAC地址学习
+ * 交换机记录源MAC和入端口；目的MAC已在表中时只从对应端口转发，否则向其他所有端口泛洪
+ * @param legs 本次通信的各段路径（请求、响应等，按发生顺序）
+ * @returns 更新了MAC表的设备列表，以及每次经过交换机的转发记录
+ */
+function learnMACAddresses(
+  devices: Device[],
+  connections: Connection[],
+  legs: Array<{ path: string[]; direction: SwitchFrameEvent['direction'] }>
+): { devices: Device[]; events: SwitchFrameEvent[] } {
+  let updatedDevices = devices;
+  const events: SwitchFrameEvent[] = [];
+
+  legs.forEach(({ path, direction }) => {
+    const frameVLANs = traceFrameVLANs(updatedDevices, connections, path).vlans;
+    path.forEach((name, index) => {
+      const switchDevice = updatedDevices.find((d) => d.name === name);
+      if (!switchDevice || !isSwitchDevice(switchDevice) || index === 0 || index === path.length - 1) {
+        return;
+      }
+
+      const ingressNeighbor = updatedDevices.find((d) => d.name === path[index - 1]);
+      const frameSource = findPreviousLayer3Device(updatedDevices, path, index);
+      const frameTarget = path
+        .slice(index + 1)
+        .map((n) => updatedDevices.find((d) => d.name === n))
+        .find((d) => d && !isSwitchDevice(d));
+      const ingressPort = ingressNeighbor && findSwitchPort(switchDevice, ingressNeighbor.id, connections);
+      if (!frameSource || !frameTarget || !ingressPort) {
+        return;
+      }
+
+      // 每个VLAN各有一张MAC表：先学习源MAC（同一VLAN内同一MAC换了端口时以最新的为准）
+      const vlan = frameVLANs[index] ?? DEFAULT_VLAN;
+      const inVLAN = (entry: MACTableEntry) => (entry.vlan ?? DEFAULT_VLAN) === vlan;
+      const sourceMAC = getFacingMAC(frameSource, frameTarget);
+      const macTable = [
+        ...(switchDevice.macTable || []).filter((entry) => entry.mac !== sourceMAC || !inVLAN(entry)),
+        { mac: sourceMAC, port: ingressPort.name, device: frameSource.name, vlan, learnedAt: Date.now() }
+      ];
+
+      // 再查目的MAC；未知时只向承载该VLAN的端口泛洪
+      const known = macTable.some((entry) => entry.mac === getFacingMAC(frameTarget, frameSource) && inVLAN(entry));
+      const floodTargets = known
+        ? []
+        : connections
+            .filter((c) => (c.source === switchDevice.id || c.target === switchDevice.id) && isConnectionUp(c, updatedDevices))
+            .map((c) => (c.source === switchDevice.id ? c.target : c.source))
+            .filter((id) => {
+              const port = findSwitchPort(switchDevice, id, connections);
+              return !port || portCarriesVLAN(port, vlan);
+            })
+            .map((id) => updatedDevices.find((d) => d.id === id)?.name)
+            .filter((n): n is string => !!n && n !== path[index - 1] && n !== path[index + 1]);
+
+      events.push({
+        switchName: switchDevice.name,
+        from: path[index - 1],
+        to: path[index + 1],
+        flooded: !known,
+        floodTargets,
+        direction
+      });
+      updatedDevices = updatedDevices.map((d) => (d.id === switchDevice.id ? { ...d, macTable } : d));
+    });
+  });
+
+  return { devices: updatedDevices, events };
+}
+
+// 辅助函数：设备上与相邻三层设备处于同一网段的接口（先按IPv4网段找，只配了IPv6的链路再按IPv6前缀找）
+function findFacingInterface(device: Device, peer: Device | undefined): NetworkInterface | undefined {
+  if (!peer) return undefined;
+  const faces = (family: AddressFamily) => (iface: NetworkInterface) =>
+    peer.type === 'router'
+      ? (peer.interfaces || []).some((peerIface) => interfacesShareSubnet(iface, peerIface, family))
+      : family === 'ipv4' ? interfaceContainsIP(iface, peer.ip) : !!peer.ipv6 && interfaceContainsIP(iface, peer.ipv6);
+  const interfaces = device.interfaces || [];
+  return interfaces.find(faces('ipv4')) || interfaces.find(faces('ipv6'));
+}
+
+// 辅助函数：设备上朝向上一跳的接口IP（找不到时用设备主IP）；IPv6报文的应答用接口的IPv6地址
+function getIngressInterfaceIP(device: Device | undefined, previous: Device | undefined, family: AddressFamily = 'ipv4'): string {
+  if (!device) return '*';
+  const iface = findFacingInterface(device, previous);
+  if (family === 'ipv6') {
+    return iface?.ipv6 || getSourceAddress(device, IPV6_DEFAULT_ROUTE) || '*';
+  }
+  return iface?.ip || device.ip;
+}
+
+// 辅助函数：设备发往相邻三层设备的帧携带的802.1Q标签（只有路由器子接口发出的帧带标签）
+function getFrameTag(device: Device, peer: Device): number | undefined {
+  if (!isRouterDevice(device)) return undefined;
+  const iface = findFacingInterface(device, peer);
+  return iface && isSubInterface(iface) ? iface.vlan : undefined;
+}
+
+// 辅助函数：报文沿路径逐段传送时每段链路上的帧头（抓包用）
+// 交换机不改写MAC：每段的源/目的MAC是前后两台三层设备朝向彼此的接口MAC，与ARP解析到的一致
+function describeCaptureLinks(devices: Device[], connections: Connection[], path: string[]): Array<CaptureLink | undefined> {
+  const { linkTags } = traceFrameVLANs(devices, connections, path);
+  let sender: Device | undefined;
+  return path.slice(0, -1).map((name, index) => {
+    const device = devices.find((d) => d.name === name);
+    if (device && !isSwitchDevice(device)) sender = device;
+    const receiver = findNextLayer3Device(devices, path, index);
+    const connection = findConnectionBetween(name, path[index + 1], devices, connections);
+    if (!sender || !receiver || !connection) return undefined;
+    return {
+      connectionId: connection.id,
+      srcMAC: getInterfaceMAC(sender, findFacingInterface(sender, receiver)),
+      dstMAC: getInterfaceMAC(receiver, findFacingInterface(receiver, sender)),
+      vlan: linkTags[index]
+    };
+  });
+}
+
+/**
+ * 帧沿一段路径传送时的VLAN归属和802.1Q标签变化
+ * 路由器子接口发出时加标签；交换机从access端口收进、trunk端口发出时加标签，反之去标签；子接口收到后去标签
+ * @param path 路径（设备名称，交换机夹在三层设备之间）
+ * @returns 帧在每台交换机上所属的VLAN（与 path 下标对应，三层设备处为 undefined），加/去标签的位置，
+ *          以及帧离开 path[i] 时在链路上携带的标签（linkTags[i]）
+ */
+function traceFrameVLANs(
+  devices: Device[],
+  connections: Connection[],
+  path: string[]
+): { vlans: Array<number | undefined>; tags: Array<Omit<VLANTagEvent, 'direction'>>; linkTags: Array<number | undefined> } {
+  const findByName = (name: string) => devices.find((d) => d.name === name);
+  const vlans: Array<number | undefined> = path.map(() => undefined);
+  const tags: Array<Omit<VLANTagEvent, 'direction'>> = [];
+  const linkTags: Array<number | undefined> = path.map(() => undefined);
+  let sender: Device | undefined;
+  let tag: number | undefined;
+
+  const visit = (name: string, index: number) => {
+    const device = findByName(name);
+    if (!device) return;
+
+    if (!isSwitchDevice(device)) {
+      if (sender && tag !== undefined) {
+        tags.push({ device: name, port: findFacingInterface(device, sender)?.name || '-', action: 'remove', vlan: tag });
+      }
+      const receiver = findNextLayer3Device(devices, path, index);
+      sender = device;
+      tag = receiver ? getFrameTag(device, receiver) : undefined;
+      if (receiver && tag !== undefined) {
+        tags.push({ device: name, port: findFacingInterface(device, receiver)?.name || '-', action: 'add', vlan: tag });
+      }
+      return;
+    }
+
+    const previous = findByName(path[index - 1]);
+    const next = findByName(path[index + 1]);
+    const ingress = previous && findSwitchPort(device, previous.id, connections);
+    const egress = next && findSwitchPort(device, next.id, connections);
+    const vlan = ingress ? getIngressVLAN(ingress, tag) : undefined;
+    vlans[index] = vlan;
+    if (vlan === undefined || !egress) return;
+
+    const egressTag = isTaggedOnPort(egress, vlan) ? vlan : undefined;
+    if (tag === undefined && egressTag !== undefined) {
+      tags.push({ device: name, port: egress.name, action: 'add', vlan });
+    } else if (tag !== undefined && egressTag === undefined) {
+      tags.push({ device: name, port: egress.name, action: 'remove', vlan });
+    }
+    tag = egressTag;
+  };
+  path.forEach((name, index) => {
+    visit(name, index);
+    linkTags[index] = tag;
+  });
+
+  return { vlans, tags, linkTags };
+}
+
+// 辅助函数：设备朝向相邻三层设备的接口MAC（帧的源/目的MAC）
+function getFacingMAC(device: Device, peer: Device): string {
+  return getInterfaceMAC(device, findFacingInterface(device, peer));
+}
+
+// 辅助函数：从交换机出发，收集同一广播域（同一VLAN）内的三层设备（广播帧会被交换机泛洪到这些设备）
+function collectBroadcastDomain(
+  firstSwitch: Device,
+  vlan: number | undefined,
+  devices: Device[],
+  connections: Connection[]
+): string[] {
+  const members: string[] = [];
+  const visited = new Set<string>([firstSwitch.id]);
+  const queue = [{ device: firstSwitch, vlan }];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    connections
+      .filter((c) => (c.source === current.device.id || c.target === current.device.id) && isConnectionUp(c, devices))
+      .map((c) => devices.find((d) => d.id === (c.source === current.device.id ? c.target : c.source)))
+      .forEach((neighbor) => {
+        if (!neighbor || visited.has(neighbor.id)) return;
+        // 广播帧只从承载该VLAN的端口泛洪出去
+        const egress = findSwitchPort(current.device, neighbor.id, connections);
+        if (current.vlan !== undefined && egress && !portCarriesVLAN(egress, current.vlan)) return;
+        if (!isSwitchDevice(neighbor)) {
+          visited.add(neighbor.id);
+          members.push(neighbor.name);
+          return;
+        }
+        const ingress = findSwitchPort(neighbor, current.device.id, connections);
+        const tag = current.vlan !== undefined && egress && isTaggedOnPort(egress, current.vlan) ? current.vlan : undefined;
+        const nextVLAN = current.vlan !== undefined && ingress ? getIngressVLAN(ingress, tag) : current.vlan;
+        if (current.vlan !== undefined && nextVLAN === undefined) return;
+        visited.add(neighbor.id);
+        queue.push({ device: neighbor, vlan: nextVLAN });
+      });
+  }
+
+  return members;
+}
+
+// 辅助函数：写入（或刷新）一条ARP缓存，同时清掉已过期的条目
+function upsertARPEntry(device: Device, entry: ARPEntry): Device {
+  const arpTable = (device.arpTable || []).filter(
+    (existing) => existing.ip !== entry.ip && !isARPEntryExpired(existing, entry.learnedAt)
+  );
+  return { ...device, arpTable: [...arpTable, entry] };
+}
+
+/**
+ * 逐跳发送前的ARP解析
+ * 每一跳发送方先查ARP缓存找下一跳接口的MAC；未命中（或已过期）时广播ARP请求，
+ * 目标设备单播应答。双方都会记住对方：请求方学到应答，目标设备从请求中学到请求方
+ * @param legs 本次通信的各段路径（请求、响应等，按发生顺序）
+ * @returns 更新了ARP缓存（及交换机MAC表）的设备列表，以及发生的ARP过程
+ */
+function resolveARP(
+  devices: Device[],
+  connections: Connection[],
+  legs: Array<{ path: string[]; direction: SwitchFrameEvent['direction'] }>
+): { devices: Device[]; events: ARPExchange[] } {
+  let updatedDevices = devices;
+  const events: ARPExchange[] = [];
+  const now = Date.now();
+  const findByName = (name: string) => updatedDevices.find((d) => d.name === name);
+
+  legs.forEach(({ path, direction }) => {
+    const layer3Indexes = path
+      .map((name, index) => ({ device: findByName(name), index }))
+      .filter(({ device }) => device && !isSwitchDevice(device))
+      .map(({ index }) => index);
+
+    for (let k = 0; k < layer3Indexes.length - 1; k++) {
+      const from = layer3Indexes[k];
+      const to = layer3Indexes[k + 1];
+      const requester = findByName(path[from])!;
+      const target = findByName(path[to])!;
+
+      const senderIface = findFacingInterface(requester, target);
+      const targetIface = findFacingInterface(target, requester);
+      const targetIP = targetIface?.ip || target.ip;
+      const cached = (requester.arpTable || []).find(
+        (entry) => entry.ip === targetIP && !isARPEntryExpired(entry, now)
+      );
+      if (cached) {
+        continue;
+      }
+
+      const senderIP = senderIface?.ip || requester.ip;
+      const senderMAC = getInterfaceMAC(requester, senderIface);
+      const targetMAC = getInterfaceMAC(target, targetIface);
+      const segment = path.slice(from, to + 1);
+      const firstSwitch = to - from > 1 ? findByName(path[from + 1]) : undefined;
+      const segmentVLAN = firstSwitch ? traceFrameVLANs(updatedDevices, connections, segment).vlans[1] : undefined;
+
+      events.push({
+        requester: requester.name,
+        target: target.name,
+        senderIP,
+        senderMAC,
+        targetIP,
+        targetMAC,
+        path: segment,
+        broadcastTo: firstSwitch
+          ? collectBroadcastDomain(firstSwitch, segmentVLAN, updatedDevices, connections).filter(
+              (name) => name !== requester.name && name !== target.name
+            )
+          : [],
+        direction
+      });
+
+      updatedDevices = updatedDevices.map((d) => {
+        if (d.id === requester.id) {
+          return upsertARPEntry(d, { ip: targetIP, mac: targetMAC, interface: senderIface?.name || 'eth0', learnedAt: now });
+        }
+        if (d.id === target.id) {
+          return upsertARPEntry(d, { ip: senderIP, mac: senderMAC, interface: targetIface?.name || 'eth0', learnedAt: now });
+        }
+        return d;
+      });
+
+      // ARP请求广播、应答单播经过交换机时，交换机同样会学习双方的MAC
+      if (firstSwitch) {
+        updatedDevices = learnMACAddresses(updatedDevices, connections, [
+          { path: segment, direction },
+          { path: [...segment].reverse(), direction }
+        ]).devices;
+      }
+    }
+  });
+
+  return { devices: updatedDevices, events };
+}
+
+// 辅助函数：Windows tracert 风格的逐跳报告
+function formatTracerouteReport(destIP: string, hops: TracerouteHop[], route: SimulationResult): string {
+  const lines = [`通过最多 10 个跃点跟踪到 ${destIP} 的路由：`, ''];
+  hops.forEach((hop) => {
+    const ttl = String(hop.ttl).padStart(3, ' ');
+    if (hop.status === 'timeout') {
+      lines.push(`${ttl}     *        *        *     请求超时。`);
+    } else if (hop.status === 'unreachable') {
+      lines.push(`${ttl}  ${hop.ip} [${hop.device}]  报告: 无法访问目标网。`);
+    } else {
+      lines.push(`${ttl}  ${hop.ip} [${hop.device}]${hop.status === 'time-exceeded' ? '  ⏱ TTL超时' : '  ✅ 到达目标'}`);
+    }
+  });
+  lines.push('');
+
+  // 探测包到了，但应答在回程中丢失
+  hops
+    .filter((hop) => hop.status === 'timeout' && hop.replyPath && hop.replyPath.length > 0)
+    .forEach((hop) => {
+      const replier = hop.probePath[hop.probePath.length - 1];
+      lines.push(`⚠️ 第 ${hop.ttl} 跳：${replier} 收到了探测包，但应答在 ${hop.replyPath![hop.replyPath!.length - 1]} 处丢失（缺少回程路由）`);
+    });
+
+  const lastHop = hops[hops.length - 1];
+  if (route.success && lastHop?.status === 'reached') {
+    lines.push('跟踪完成。');
+  } else if (route.success) {
+    lines.push(`❌ 探测包已到达 ${destIP}，但应答无法返回源主机`);
+  } else {
+    const lastDevice = route.path[route.path.length - 1];
+    lines.push(`❌ 路径在 ${lastDevice} 处中断：`);
+    lines.push(route.message);
+  }
+  return lines.join('\n');
+}
+
 function formatAutoComment(
-  type: 'ping' | 'dns' | 'http',
+  type: 'ping' | 'tracert' | 'dns' | 'http',
   result: SimulationResult
 ): string {
-  const labelMap: Record<'ping' | 'dns' | 'http', string> = {
+  const labelMap: Record<'ping' | 'tracert' | 'dns' | 'http', string> = {
     ping: 'Ping测试',
+    tracert: '路由追踪',
     dns: 'DNS解析',
     http: 'HTTP访问'
   };
@@ -1465,10 +3812,16 @@ function formatAutoComment(
   const lines: string[] = [`${icon} ${labelMap[type]}：${result.message}`];
 
   if (!result.success && result.steps && result.steps.length > 0) {
-    lines.push(`排查提示：${result.steps[0].action}`);
+    // 失败前最后一次成功的转发决策，便于定位出问题的设备
+    const lastStep = result.steps[result.steps.length - 1];
+    lines.push(`排查提示：最后一步 ${lastStep.router} - ${lastStep.action}`);
   }
 
-  if (type === 'ping') {
+  if (result.isRoundTrip && result.requestSuccess && result.responseSuccess === false) {
+    lines.push(`回程中断：${(result.responsePath || []).join(' → ')}`);
+  }
+
+  if (type === 'ping' || type === 'tracert') {
     if (result.path && result.path.length > 0) {
       lines.push(`路径：${result.path.join(' → ')}`);
     }
@@ -1490,9 +3843,4 @@ function formatAutoComment(
   }
 
   return lines.join('\n');
-}
-
-function applySpeed(base: number, mode: 'step' | 'normal' | 'fast'): number {
-  if (mode === 'fast') return Math.max(50, Math.round(base * 0.25));
-  return base;
 }
\ No newline at end of file
@@ -1,6 +1,6 @@
 // 网络设备类型定义
 
-export type DeviceType = 'router' | 'pc' | 'server' | 'dns' | 'web';
+export type DeviceType = 'router' | 'switch' | 'pc' | 'server' | 'dns' | 'web';
 
 export interface NetworkInterface {
   id?: string;
@@ -8,14 +8,27 @@ export interface NetworkInterface {
   ip: string;
   subnet?: string; // 网段地址（如 192.168.1.0）
   subnetMask?: string; // 子网掩码（如 255.255.255.0）
+  ipv6?: string; // IPv6全局单播地址（如 2001:db8:1::1），未设置表示只运行IPv4；链路本地地址由MAC自动生成
+  ipv6PrefixLength?: number; // IPv6前缀长度（如 64）
+  mac?: string; // 接口MAC地址（如 02:1a:2b:3c:4d:5e）
+  nat?: 'inside' | 'outside'; // 路由器NAT：内网接口 / 外网接口（未设置表示不参与NAT）
   connectedTo?: string; // 连接的设备ID
+  status?: 'up' | 'down'; // 管理状态：关闭（shutdown）后保留配置但不收发报文，未设置为开启
+  // VLAN：交换机端口为 access（只属于一个VLAN，帧不带标签）或 trunk（用802.1Q标签承载多个VLAN），未设置为 access
+  vlanMode?: 'access' | 'trunk';
+  vlan?: number; // 交换机access端口所属VLAN（未设置为VLAN 1）；路由器子接口收发帧使用的802.1Q标签
+  allowedVlans?: number[]; // trunk端口允许通过的VLAN，未设置为全部允许
+  parent?: string; // 路由器子接口所在的物理接口名称（如 LAN.10 的 LAN），用于单臂路由
 }
 
 export interface RouteEntry {
-  destination: string;  // 目标网络 "192.168.20.0"
+  destination: string;  // 目标网络 "192.168.20.0"（IPv6路由如 "2001:db8:2::"）
+  subnetMask?: string;  // 目标网络掩码 "255.255.255.0"（未填写时按旧规则推断）
+  prefixLength?: number; // IPv6路由的前缀长度（IPv6没有点分掩码）
   nextHop: string;      // 下一站路由器名称 "R2"
   metric: number;       // 权重/跳数
   interface: string;    // 出接口名称
+  source?: 'connected' | 'rip' | 'ospf'; // 路由来源：未设置为手动配置的静态路由，其余由动态路由协议自动生成
 }
 
 export interface Device {
@@ -29,12 +42,154 @@ export interface Device {
   // PC/DNS/Web服务器专用字段
   gateway?: string; // 默认网关IP地址
   dnsServer?: string; // DNS服务器IP地址
+  ipMode?: 'static' | 'dhcp'; // PC的IP获取方式（默认手动配置）
+  // 双栈：终端同时配置IPv4和IPv6地址（IPv6前缀长度保存在eth0接口上）
+  ipv6?: string;
+  ipv6Gateway?: string; // IPv6默认网关（通常是路由器接口的链路本地地址）
+  ipv6Mode?: 'static' | 'slaac'; // IPv6地址获取方式：手动配置 / 按路由器通告的前缀自动生成
+  dhcpLease?: { server: string; leasedAt: number; expiresAt: number }; // 通过DHCP获得的租约
+  // DHCP服务（路由器LAN接口或服务器）
+  dhcpServer?: DHCPServerConfig;
   // DNS服务器专用字段
   dnsRecords?: DNSRecord[];
   // Web服务器专用字段
   webContent?: string;
   domain?: string;
   port?: number;
+  // 路由器NAT：地址转换表和端口转发规则
+  natTable?: NATEntry[];
+  portForwards?: PortForwardRule[];
+  // 路由器访问控制列表（ACL），按接口和方向分组、按顺序匹配
+  aclRules?: ACLRule[];
+  // 路由器动态路由：启用后与直连邻居交换路由更新
+  dynamicRouting?: DynamicRoutingConfig;
+  spfTree?: SPFTreeNode[]; // 链路状态路由最近一次SPF计算得到的最短路径树
+  // 三层设备（PC/服务器/路由器）的ARP缓存
+  arpTable?: ARPEntry[];
+  // 交换机专用字段
+  macTable?: MACTableEntry[];
+}
+
+// 交换机MAC地址表条目：从收到的帧的源MAC学习
+export interface MACTableEntry {
+  mac: string;
+  port: string; // 学习到该MAC的端口名称（如 Fa0/1）
+  device: string; // 该MAC所属设备名称（便于教学显示）
+  vlan?: number; // 学习到该MAC的VLAN（不同VLAN各有一张表），未设置为VLAN 1
+  learnedAt: number;
+}
+
+// DHCP服务配置：地址池、租期和下发给客户端的选项
+export interface DHCPServerConfig {
+  enabled: boolean;
+  interfaceName?: string; // 路由器：在哪个接口上提供服务（默认LAN）
+  startIP: string;
+  endIP: string;
+  subnetMask: string;
+  gateway: string; // 下发的默认网关
+  dnsServer?: string; // 下发的DNS服务器
+  leaseTime: number; // 租期（秒）
+  leases: DHCPLease[];
+}
+
+export interface DHCPLease {
+  ip: string;
+  mac: string;
+  clientId: string;
+  clientName: string;
+  leasedAt: number;
+  expiresAt: number;
+}
+
+// DHCP报文（发现/提供/请求/确认）
+export interface DHCPMessage {
+  type: 'DISCOVER' | 'OFFER' | 'REQUEST' | 'ACK';
+  path: string[];
+  broadcast: boolean;
+  detail: string;
+}
+
+export type TransportProtocol = 'ICMP' | 'TCP' | 'UDP';
+
+// 动态路由配置
+export interface DynamicRoutingConfig {
+  // 距离矢量（RIP）：只知道邻居告诉自己的“距离”和“方向”
+  // 链路状态（OSPF）：每台路由器泛洪自己的链路状态，各自掌握全网拓扑后用Dijkstra算最短路径
+  protocol: 'rip' | 'ospf';
+  splitHorizon: boolean; // 水平分割：不把路由通告回学到它的接口（仅RIP）
+}
+
+// 最短路径树中的一台路由器
+export interface SPFTreeNode {
+  router: string;
+  cost: number; // 从根路由器出发的总开销
+  parent?: string; // 树上的上一台路由器，根没有
+  path: string[]; // 上一台路由器 → (交换机) → 本路由器，根为 [本路由器]
+}
+
+// 一条路由在一轮更新中的变化
+export interface RoutingTableChange {
+  router: string;
+  destination: string; // CIDR写法，如 192.168.1.0/24
+  nextHop: string;
+  metric: number; // RIP中 16 表示不可达
+  previousMetric?: number; // 新学到的路由没有
+  removed?: boolean; // 链路状态路由：目标网络已不可达，路由被删除
+}
+
+// 动态路由的一轮：RIP各路由器同时把自己的路由表发给邻居；OSPF各路由器把新收到的链路状态转发给邻居
+export interface RoutingUpdateRound {
+  protocol: 'rip' | 'ospf';
+  round: number; // RIP第0轮为链路断开后立即失效的路由；OSPF最后一轮为SPF计算，二者都没有报文
+  messages: Array<{ from: string; to: string; path: string[]; routeCount: number }>; // OSPF的routeCount为LSA条数
+  changes: RoutingTableChange[];
+}
+
+// NAT转换表条目：内网地址:端口 ⇄ 外网接口地址:端口（ICMP用查询ID代替端口）
+export interface NATEntry {
+  protocol: TransportProtocol;
+  insideIP: string;
+  insidePort: number;
+  outsideIP: string;
+  outsidePort: number;
+  remoteIP: string; // 通信对端
+  remotePort: number;
+  type: 'dynamic' | 'port-forward'; // 内网主机主动访问外网 / 外网通过端口转发访问内网
+  createdAt: number;
+}
+
+// 端口转发：外网访问路由器外网接口的某个端口时，转给内网主机
+export interface PortForwardRule {
+  id: string;
+  protocol: 'TCP' | 'UDP';
+  outsidePort: number;
+  insideIP: string;
+  insidePort: number;
+}
+
+// ACL匹配的协议：模拟器中 DNS 走 UDP、HTTP 走 TCP
+export type ACLProtocol = 'any' | 'ICMP' | 'DNS' | 'HTTP';
+
+// 访问控制列表规则：报文进入（in）或离开（out）接口时，从上到下匹配，第一条命中的规则决定放行或丢弃
+export interface ACLRule {
+  id: string;
+  interfaceName: string;
+  direction: 'in' | 'out';
+  action: 'permit' | 'deny';
+  protocol: ACLProtocol;
+  source: string; // 源网络地址（any 为 0.0.0.0）
+  sourceMask: string; // 源网络掩码（any 为 0.0.0.0）
+  destination: string;
+  destinationMask: string;
+  port?: number; // 目的端口，不填表示任意端口（仅 DNS/HTTP）
+}
+
+// ARP缓存条目：IP地址 → MAC地址，超过老化时间后失效
+export interface ARPEntry {
+  ip: string;
+  mac: string;
+  interface: string; // 学习到该条目的本机接口名称
+  learnedAt: number;
 }
 
 export interface Connection {
@@ -43,6 +198,11 @@ export interface Connection {
   target: string;
   sourceInterfaceId?: string;
   targetInterfaceId?: string;
+  cost?: number; // 链路开销（OSPF按开销之和选路），未设置时为默认值
+  status?: 'up' | 'down'; // 管理状态：关闭后保留连线和两端配置，用于演示链路故障，未设置为开启
+  latency?: number; // 单向传播时延（毫秒），未设置时按链路类型取默认值
+  bandwidth?: number; // 带宽（Mbps），未设置时按链路类型取默认值
+  lossRate?: number; // 丢包率（%），未设置为0
 }
 
 export interface IPPacket {
@@ -68,9 +228,212 @@ export interface SimulationResult {
   responsePath?: string[]; // 响应路径
   requestLabel?: string; // 请求标签（如"DNS查询: www.school.com"）
   responseLabel?: string; // 响应标签（如"返回IP: 192.168.2.50"）
+  requestSuccess?: boolean; // 请求是否到达服务器
+  responseSuccess?: boolean; // 响应是否按回程路由返回客户端
+  responseMessage?: string; // 回程路由结果说明
+  responseFailureType?: SimulationResult['failureType']; // 回程失败的原因（同 failureType）
   // HTTP请求状态
   httpSuccess?: boolean; // HTTP请求是否成功
   httpStatusCode?: number; // HTTP状态码（200, 404, 503等）
+  // 路由追踪（tracert）逐跳结果
+  tracerouteHops?: TracerouteHop[];
+  // 路由失败类别（决定出错路由器回送哪种ICMP差错报文）
+  failureType?: 'net-unreachable' | 'host-unreachable' | 'ttl-exceeded' | 'admin-prohibited';
+  icmpError?: ICMPErrorReply; // 出错路由器回送给源主机的ICMP差错报文
+  switchEvents?: SwitchFrameEvent[]; // 帧经过交换机时的泛洪/转发记录
+  arpEvents?: ARPExchange[]; // 发送前ARP缓存未命中时的ARP请求/应答
+  dhcpMessages?: DHCPMessage[]; // DHCP获取地址的报文交换
+  packetHeaders?: PacketHeaderSnapshot[]; // 报文在每台三层设备处的地址/端口（NAT路由器会改写）
+  routingRounds?: RoutingUpdateRound[]; // 动态路由收敛过程（逐轮的路由更新）
+  pingStatistics?: PingStatistics; // 连续多次Ping的逐次应答和统计
+  vlanTags?: VLANTagEvent[]; // 帧在哪里加上/去掉802.1Q标签
+}
+
+// 帧加上或去掉802.1Q标签：从trunk端口或路由器子接口发出时加标签，从access端口发出或子接口收到时去标签
+export interface VLANTagEvent {
+  device: string;
+  port: string; // 发生的端口或子接口
+  action: 'add' | 'remove';
+  vlan: number;
+  direction: 'request' | 'response';
+}
+
+// 报文离开某台设备时的IP头部和端口
+export interface PacketHeaderSnapshot {
+  device: string;
+  protocol: TransportProtocol;
+  srcIP: string;
+  srcPort: number;
+  dstIP: string;
+  dstPort: number;
+  direction: 'request' | 'response';
+  natNote?: string; // 在该设备处发生的地址转换说明
+}
+
+// 一次ARP解析：发送方广播询问下一跳IP的MAC，目标设备单播应答
+export interface ARPExchange {
+  requester: string; // 发出ARP请求的设备
+  target: string; // 被询问（并应答）的设备
+  senderIP: string;
+  senderMAC: string;
+  targetIP: string;
+  targetMAC: string;
+  path: string[]; // 请求方 → (交换机) → 目标设备
+  broadcastTo: string[]; // 同一广播域内收到请求但不应答的其他设备
+  direction: 'request' | 'response'; // 发生在去程还是回程
+}
+
+// 帧经过交换机：目的MAC未知时泛洪，已学习时只从对应端口转发
+export interface SwitchFrameEvent {
+  switchName: string;
+  from: string; // 上一台设备
+  to: string; // 下一台设备
+  flooded: boolean;
+  floodTargets: string[]; // 泛洪时收到帧副本的其他设备
+  direction: 'request' | 'response';
+}
+
+// 路由追踪的一跳：TTL 在该设备耗尽（或到达目标/超时）
+export interface TracerouteHop {
+  ttl: number;
+  device: string; // 应答设备名称，超时为 '*'
+  ip: string; // 应答的接口IP，超时为 '*'
+  status: 'time-exceeded' | 'reached' | 'unreachable' | 'timeout';
+  probePath: string[]; // 本次探测包经过的设备
+  replyPath?: string[]; // 应答报文实际经过的设备（按路由表回送，可能中途丢失）
+}
+
+// 模拟事件：由离散事件调度器按虚拟时间触发，动画层只订阅这些事件
+export interface SimulationEvent {
+  type: 'result' | 'packet' | 'complete'; // 结果就绪 / 报文动作 / 这次通信结束
+  simulationType: 'ping' | 'tracert' | 'dns' | 'http' | 'dhcp' | 'routing';
+  packet?: PacketMovement;
+}
+
+// 一条通信流：同一时间可以有多条流在网络中传输，各用一种颜色
+export interface TrafficFlow {
+  id: string; // 调度器中的通信流ID
+  type: SimulationEvent['simulationType'];
+  label: string; // 如“PC1 → 10.1.0.10”
+  color: string;
+  status: 'running' | 'success' | 'failed' | 'stopped';
+  result?: SimulationResult; // 结果就绪后才有
+}
+
+// 报文在画布上的一个动作：沿一段链路移动、ARP请求/应答、在某台设备处被丢弃，
+// 或动态路由的一轮（所有路由器同时发送更新 round，全部到达后展示路由变化 settle）
+export interface PacketMovement {
+  kind: 'hop' | 'arp-request' | 'arp-reply' | 'drop' | 'round' | 'settle';
+  direction: 'request' | 'response';
+  from: string;
+  to: string; // ARP和丢弃时与 from 相同
+  travel: number; // 在链路上移动的虚拟时间（毫秒），非移动动作为0
+  duration: number; // 到下一个动作开始的虚拟时间（毫秒）
+  label: string;
+  tone: 'request' | 'response' | 'icmp' | 'failed';
+  arp?: ARPExchange;
+  switchEvent?: SwitchFrameEvent; // 从交换机出发时，交换机泛洪或查表转发的记录
+  group?: number; // 属于第几个探测包 / DHCP报文 / 路由更新轮次
+}
+
+// 抓包位置：全部链路、一条链路，或设备的一个接口（即该接口所接的链路）
+export type CaptureTarget =
+  | { kind: 'all' }
+  | { kind: 'link'; connectionId: string }
+  | { kind: 'interface'; deviceId: string; interfaceId: string };
+
+// 抓到的一个帧：逐层记录头部字段，列表、详情和导出pcap都由这些字段生成
+export interface CapturedPacket {
+  id: number; // 序号，从1开始
+  time: number; // 距开始抓包的虚拟时间（毫秒）
+  flowId: string;
+  connectionId: string; // 帧所在的链路
+  ethernet: { srcMAC: string; dstMAC: string; vlan?: number }; // vlan 为帧携带的802.1Q标签
+  arp?: { opcode: 'request' | 'reply'; senderMAC: string; senderIP: string; targetMAC: string; targetIP: string };
+  ip?: { srcIP: string; dstIP: string; ttl: number }; // IPv4/IPv6 由地址判断
+  icmp?: {
+    type: 'echo-request' | 'echo-reply' | 'unreachable' | 'time-exceeded';
+    reason?: NonNullable<SimulationResult['failureType']>; // 不可达的原因（决定代码）
+    id: number;
+    sequence: number;
+    quoted?: { srcIP: string; dstIP: string; protocol: TransportProtocol; srcPort: number; dstPort: number }; // 差错报文引用的原报文
+  };
+  udp?: { srcPort: number; dstPort: number };
+  tcp?: { srcPort: number; dstPort: number; seq: number; ack: number };
+  dns?: { id: number; response: boolean; domain: string; recordType: 'A' | 'AAAA'; answer?: string };
+  http?: { startLine: string; headers: string[]; body?: string };
+  dhcp?: { type: DHCPMessage['type']; transactionId: number; clientMAC: string; yourIP?: string; requestedIP?: string; serverIP?: string };
+}
+
+// 抓包状态
+export interface CaptureState {
+  running: boolean;
+  target: CaptureTarget;
+  startedAt: number; // 开始抓包时的虚拟时间（毫秒）
+  startedWallClock: number; // 开始抓包时的真实时间，导出pcap时作为时间戳的起点
+  packets: CapturedPacket[];
+}
+
+// 一次回显请求的结果
+export interface PingReply {
+  sequence: number;
+  status: 'reply' | 'timeout' | 'unreachable';
+  from?: string; // 应答来源IP（目标主机，或回送ICMP差错报文的路由器接口）
+  errorText?: string; // 差错报文在命令行中的显示，如“无法访问目标网。”
+  time?: number; // 往返时间（毫秒）
+  ttl?: number; // 应答到达时剩余的TTL
+  lostAt?: string; // 超时时报文在哪条链路上丢失（如“R1 → R2”）
+}
+
+// 连续Ping的统计（仿 Windows ping 的汇总）
+export interface PingStatistics {
+  destIP: string;
+  bytes: number;
+  seed: number; // 丢包使用的随机种子，填入相同的种子可重现结果
+  replies: PingReply[];
+  sent: number;
+  received: number;
+  lost: number;
+  lossPercent: number;
+  min?: number;
+  max?: number;
+  avg?: number;
+}
+
+// ICMP差错报文：由出错的路由器发出，按路由表送回源主机
+export interface ICMPErrorReply {
+  type: 'destination-unreachable' | 'time-exceeded';
+  reason: NonNullable<SimulationResult['failureType']>;
+  description: string; // 如"网络不可达"
+  fromDevice: string; // 发出差错报文的路由器
+  fromIP: string; // 发出接口IP
+  path: string[]; // 差错报文经过的设备
+  delivered: boolean; // 是否送达源主机
+  routeMessage: string; // 差错报文回送的路由结果
+}
+
+// 连通矩阵中一对终端之间的检测结果（源 → 目标的Ping，含回程应答）
+export interface ReachabilityCell {
+  source: string; // 源设备名称
+  destination: string; // 目标设备名称
+  status: 'ok' | 'no-route' | 'loop' | 'blocked' | 'reply-dropped' | 'config';
+  reason: string; // 失败原因，成功时为空
+  path: string[];
+}
+
+// 路由健康检查发现的问题
+export interface RoutingHealthIssue {
+  kind: 'black-hole' | 'loop' | 'unused-route' | 'invalid-next-hop';
+  router: string;
+  description: string;
+  route?: RouteEntry;
+}
+
+// 全网连通性检测报告
+export interface ReachabilityReport {
+  endpoints: Array<{ name: string; ip: string }>;
+  cells: ReachabilityCell[];
+  issues: RoutingHealthIssue[];
 }
 
 // 动画相关类型
@@ -90,7 +453,7 @@ export interface DNSRecord {
   id: string;
   domain: string;
   ip: string;
-  type: 'A'; // DNS记录类型(仅支持A记录)
+  type: 'A' | 'AAAA'; // A记录指向IPv4地址，AAAA记录指向IPv6地址
 }
 
 // DNS查询请求
@@ -0,0 +1,177 @@
+/**
+ * 访问控制列表（ACL）工具函数
+ *
+ * 用于解析和显示ACL规则中的网络、校验规则，以及按顺序匹配报文
+ */
+
+import { ACLProtocol, ACLRule, Device, TransportProtocol } from '../types';
+import { isIPv4Format, validateIPAddress } from './ipValidator';
+import { calculateSubnet, cidrToMask, isValidRouteMask, maskToCIDR } from './subnetUtils';
+
+const ANY_ADDRESS = '0.0.0.0';
+
+// 选择协议时默认填入的目的端口
+export const ACL_DEFAULT_PORTS: Partial<Record<ACLProtocol, number>> = {
+  DNS: 53,
+  HTTP: 80
+};
+
+// 报文在ACL检查时可见的字段
+export interface ACLPacket {
+  protocol: TransportProtocol;
+  srcIP: string;
+  dstIP: string;
+  dstPort: number;
+}
+
+// 一次ACL检查的结果；ruleNumber 为规则在该接口该方向列表中的序号，列表末尾隐含的 deny any 没有序号
+export interface ACLDecision {
+  action: ACLRule['action'];
+  rule?: ACLRule;
+  ruleNumber?: number;
+}
+
+/**
+ * 解析规则中的网络写法：any、单个主机IP，或 CIDR（如 192.168.1.0/24）
+ * @param input 用户输入
+ * @returns 网络地址和掩码；格式错误时返回 null
+ */
+export function parseACLAddress(input: string): { address: string; mask: string } | null {
+  const value = input.trim();
+  if (value === '' || value.toLowerCase() === 'any') {
+    return { address: ANY_ADDRESS, mask: ANY_ADDRESS };
+  }
+
+  const [address, prefix] = value.split('/');
+  if (prefix === undefined) {
+    return validateIPAddress(address).valid ? { address, mask: '255.255.255.255' } : null;
+  }
+  if (!isIPv4Format(address)) {
+    return null;
+  }
+  if (!/^\d{1,2}$/.test(prefix) || Number(prefix) > 32) {
+    return null;
+  }
+  return { address, mask: cidrToMask(Number(prefix)) };
+}
+
+/**
+ * 显示规则中的网络：掩码为 0.0.0.0 时显示 any，/32 只显示主机IP
+ * @param address 网络地址
+ * @param mask 掩码
+ */
+export function formatACLAddress(address: string, mask: string): string {
+  const prefix = maskToCIDR(mask);
+  if (prefix === 0) return 'any';
+  if (prefix === 32) return address;
+  return `${address}/${prefix}`;
+}
+
+/**
+ * 规则的一行描述，如 "deny HTTP 192.168.1.0/24 → any 端口 80"
+ * @param rule ACL规则
+ */
+export function formatACLRule(rule: ACLRule): string {
+  const protocol = rule.protocol === 'any' ? 'IP' : rule.protocol;
+  const port = rule.port !== undefined ? ` 端口 ${rule.port}` : '';
+  return `${rule.action} ${protocol} ${formatACLAddress(rule.source, rule.sourceMask)} → ${formatACLAddress(rule.destination, rule.destinationMask)}${port}`;
+}
+
+/**
+ * 报文对应的ACL协议：模拟器中 UDP 只用于DNS，TCP 只用于HTTP
+ * @param protocol 传输层协议
+ */
+export function getACLProtocol(protocol: TransportProtocol): ACLProtocol {
+  if (protocol === 'UDP') return 'DNS';
+  if (protocol === 'TCP') return 'HTTP';
+  return 'ICMP';
+}
+
+/**
+ * 某接口某方向上的规则（保持配置顺序）
+ * @param device 路由器
+ * @param interfaceName 接口名称
+ * @param direction 'in' | 'out'
+ */
+export function getInterfaceACL(device: Device, interfaceName: string, direction: ACLRule['direction']): ACLRule[] {
+  return (device.aclRules || []).filter((rule) => rule.interfaceName === interfaceName && rule.direction === direction);
+}
+
+/**
+ * 判断报文是否命中规则
+ * @param rule ACL规则
+ * @param packet 报文
+ */
+export function matchesACLRule(rule: ACLRule, packet: ACLPacket): boolean {
+  if (rule.protocol !== 'any' && rule.protocol !== getACLProtocol(packet.protocol)) {
+    return false;
+  }
+  if (rule.port !== undefined && rule.port !== packet.dstPort) {
+    return false;
+  }
+  return calculateSubnet(packet.srcIP, rule.sourceMask) === calculateSubnet(rule.source, rule.sourceMask)
+    && calculateSubnet(packet.dstIP, rule.destinationMask) === calculateSubnet(rule.destination, rule.destinationMask);
+}
+
+/**
+ * 按顺序检查接口上的ACL：第一条命中的规则生效；列表不为空但都没命中时，按末尾隐含的 deny any 丢弃
+ * @param device 路由器
+ * @param interfaceName 报文进入或离开的接口
+ * @param direction 'in' | 'out'
+ * @param packet 报文
+ * @returns 检查结果；该接口该方向没有配置ACL时返回 undefined（直接放行）
+ */
+export function evaluateACL(
+  device: Device,
+  interfaceName: string,
+  direction: ACLRule['direction'],
+  packet: ACLPacket
+): ACLDecision | undefined {
+  const rules = getInterfaceACL(device, interfaceName, direction);
+  if (rules.length === 0) {
+    return undefined;
+  }
+
+  const index = rules.findIndex((rule) => matchesACLRule(rule, packet));
+  if (index < 0) {
+    return { action: 'deny' };
+  }
+  return { action: rules[index].action, rule: rules[index], ruleNumber: index + 1 };
+}
+
+/**
+ * 校验ACL规则
+ * @param rule 待保存的规则
+ * @param device 路由器（规则必须绑定在它已有的接口上）
+ * @returns { valid, error? }
+ */
+export function validateACLRule(rule: ACLRule, device: Device): { valid: boolean; error?: string } {
+  if (!(device.interfaces || []).some((iface) => iface.name === rule.interfaceName)) {
+    return { valid: false, error: `接口 ${rule.interfaceName} 不存在` };
+  }
+
+  const networks: Array<[string, string, string]> = [
+    ['源网络', rule.source, rule.sourceMask],
+    ['目的网络', rule.destination, rule.destinationMask]
+  ];
+  for (const [label, address, mask] of networks) {
+    if (!isIPv4Format(address) || !isValidRouteMask(mask)) {
+      return { valid: false, error: `${label}格式错误，请填写 any、主机IP 或 网络/前缀（如 192.168.1.0/24）` };
+    }
+    const network = calculateSubnet(address, mask);
+    if (network !== address) {
+      return { valid: false, error: `${label} ${address} 不是 /${maskToCIDR(mask)} 网段的网络地址，应为 ${network}` };
+    }
+  }
+
+  if (rule.port !== undefined) {
+    if (rule.protocol !== 'DNS' && rule.protocol !== 'HTTP') {
+      return { valid: false, error: '只有 DNS 和 HTTP 规则可以指定端口' };
+    }
+    if (!Number.isInteger(rule.port) || rule.port <= 0 || rule.port > 65535) {
+      return { valid: false, error: '端口需为1-65535的整数' };
+    }
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,122 @@
+/**
+ * ARP 与 MAC 地址工具函数
+ *
+ * 为接口生成固定的MAC地址，判断ARP缓存是否过期，并按 Windows `arp -a` 格式输出ARP表
+ */
+
+import { ARPEntry, ARPExchange, Device, NetworkInterface, SwitchFrameEvent } from '../types';
+import { getPhysicalInterface, isSubInterface } from './vlanUtils';
+
+// ARP缓存老化时间（教学演示用2分钟，真实系统通常为几分钟到几小时）
+export const ARP_CACHE_TIMEOUT_MS = 2 * 60 * 1000;
+
+/**
+ * 由种子字符串生成固定的MAC地址（同一种子每次得到相同结果）
+ * @param seed 种子（通常为接口ID）
+ * @returns MAC地址（如 02:1a:2b:3c:4d:5e，02 开头表示本地管理地址）
+ */
+export function generateMAC(seed: string): string {
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) {
+    hash = (hash * 31 + seed.charCodeAt(i)) >>> 0;
+  }
+  const bytes = [0x02];
+  for (let i = 0; i < 5; i++) {
+    hash = (hash * 1103515245 + 12345) >>> 0;
+    bytes.push((hash >>> 16) & 0xff);
+  }
+  return bytes.map((b) => b.toString(16).padStart(2, '0')).join(':');
+}
+
+/**
+ * 获取接口的MAC地址（未保存时按接口ID生成；子接口使用所在物理接口的MAC）
+ * @param device 接口所属设备
+ * @param iface 接口；为空时按设备ID生成
+ * @returns MAC地址
+ */
+export function getInterfaceMAC(device: Device, iface?: NetworkInterface): string {
+  if (!iface) {
+    return generateMAC(device.id);
+  }
+  const physical = getPhysicalInterface(device, iface);
+  return physical.mac || generateMAC(physical.id || `${device.id}-${physical.name}`);
+}
+
+/**
+ * 为设备所有还没有MAC地址的接口分配MAC地址
+ * @param device 设备
+ * @returns 接口都带有MAC地址的设备（无需修改时返回原对象）
+ */
+export function assignInterfaceMACs(device: Device): Device {
+  if (!device.interfaces || device.interfaces.every((iface) => iface.mac || isSubInterface(iface))) {
+    return device;
+  }
+  return {
+    ...device,
+    interfaces: device.interfaces.map((iface) =>
+      iface.mac || isSubInterface(iface) ? iface : { ...iface, mac: getInterfaceMAC(device, iface) }
+    )
+  };
+}
+
+/**
+ * 判断ARP缓存条目是否已过期
+ * @param entry ARP条目
+ * @param now 当前时间戳
+ */
+export function isARPEntryExpired(entry: ARPEntry, now: number = Date.now()): boolean {
+  return now - entry.learnedAt >= ARP_CACHE_TIMEOUT_MS;
+}
+
+/**
+ * 查找某一段转发前需要的ARP过程
+ * @param events 本次通信的ARP记录
+ * @param path 当前播放的路径
+ * @param index 当前所在设备在路径中的位置
+ * @param direction 去程或回程
+ * @returns 该设备发出数据前的ARP过程；缓存命中时返回 undefined
+ */
+export function findARPExchange(
+  events: ARPExchange[] | undefined,
+  path: string[],
+  index: number,
+  direction: SwitchFrameEvent['direction']
+): ARPExchange | undefined {
+  return events?.find(
+    (event) =>
+      event.direction === direction &&
+      event.requester === path[index] &&
+      event.path[1] === path[index + 1]
+  );
+}
+
+/**
+ * 按 Windows `arp -a` 格式输出设备的ARP缓存（已过期的条目不显示）
+ * @param device 设备
+ * @param now 当前时间戳
+ * @returns 多行文本
+ */
+export function formatARPTable(device: Device, now: number = Date.now()): string {
+  const entries = (device.arpTable || []).filter((entry) => !isARPEntryExpired(entry, now));
+  if (entries.length === 0) {
+    return '未找到 ARP 项。';
+  }
+
+  const lines: string[] = [];
+  const interfaceNames = Array.from(new Set(entries.map((entry) => entry.interface)));
+  interfaceNames.forEach((name, index) => {
+    const iface = device.interfaces.find((i) => i.name === name);
+    if (index > 0) lines.push('');
+    lines.push(`接口: ${iface?.ip || device.ip} --- ${name}`);
+    lines.push('  Internet 地址         物理地址              类型      剩余时间');
+    entries
+      .filter((entry) => entry.interface === name)
+      .forEach((entry) => {
+        const remaining = Math.ceil((ARP_CACHE_TIMEOUT_MS - (now - entry.learnedAt)) / 1000);
+        lines.push(
+          `  ${entry.ip.padEnd(22)}${entry.mac.replace(/:/g, '-').padEnd(22)}动态      ${remaining}秒`
+        );
+      });
+  });
+  return lines.join('\n');
+}
@@ -0,0 +1,891 @@
+/**
+ * 抓包工具函数
+ *
+ * 把模拟中的报文动作还原成逐层的帧（以太网/ARP/IP/ICMP/UDP/TCP/DNS/HTTP/DHCP），
+ * 提供列表摘要、逐层详情、过滤表达式（仿 Wireshark 显示过滤器），并合成真实的报文字节导出为 pcap 文件
+ */
+
+import {
+  CapturedPacket,
+  CaptureTarget,
+  Connection,
+  Device,
+  PacketMovement,
+  SimulationEvent,
+  SimulationResult,
+  TransportProtocol
+} from '../types';
+import { isIPv6Address, normalizeIPv6, parseIPv6 } from './ipv6Utils';
+import { getLinkInterface } from './linkUtils';
+
+// 抓包最多保留的帧数
+export const MAX_CAPTURED_PACKETS = 5000;
+
+// 未抓包前按帧的内容生成的记录（序号和时间在抓到时填写）
+export type CaptureFrame = Omit<CapturedPacket, 'id' | 'time' | 'flowId'>;
+
+// 一次通信的应用层内容（由发起模拟的地方提供）
+export interface CaptureConversation {
+  clientIP: string; // 去程的源地址
+  serverIP: string; // 去程的目的地址
+  dns?: { domain: string; answer?: string };
+  http?: { host: string; statusCode: number; content?: string };
+  dhcp?: { clientMAC: string; offeredIP?: string; serverIP?: string };
+}
+
+// 帧在一段链路上的二层信息：两端三层设备朝向彼此的接口MAC，以及帧携带的802.1Q标签
+export interface CaptureLink {
+  connectionId: string;
+  srcMAC: string;
+  dstMAC: string;
+  vlan?: number;
+}
+
+const BROADCAST_MAC = 'ff:ff:ff:ff:ff:ff';
+const ZERO_MAC = '00:00:00:00:00:00';
+const HOST_TTL = 128; // Windows 主机发出报文的初始TTL
+const ROUTER_TTL = 255; // 路由器发出的ICMP差错报文
+const DEFAULT_CLIENT_PORT = 49152;
+const ICMP_PAYLOAD = 'abcdefghijklmnopqrstuvwabcdefghi'; // Windows ping 的32字节数据
+
+// 按通信流ID生成稳定的编号（DNS事务ID、DHCP事务ID）
+const hashFlowId = (flowId: string) =>
+  [...flowId].reduce((hash, ch) => (hash * 31 + ch.charCodeAt(0)) >>> 0, 7);
+
+const HTTP_STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  204: 'No Content',
+  400: 'Bad Request',
+  404: 'Not Found',
+  503: 'Service Unavailable'
+};
+
+// 把连续的逐段移动还原成一条路径（同一方向、同一组，且首尾相接）
+interface CaptureLeg {
+  direction: PacketMovement['direction'];
+  group?: number;
+  tone: PacketMovement['tone'];
+  path: string[];
+  movementIndexes: number[];
+}
+
+const collectLegs = (movements: PacketMovement[]): CaptureLeg[] => {
+  const legs: CaptureLeg[] = [];
+  movements.forEach((movement, index) => {
+    if (movement.kind !== 'hop') return;
+    const leg = legs[legs.length - 1];
+    if (leg && leg.direction === movement.direction && leg.group === movement.group && leg.path[leg.path.length - 1] === movement.from) {
+      leg.path.push(movement.to);
+      leg.movementIndexes.push(index);
+    } else {
+      legs.push({ direction: movement.direction, group: movement.group, tone: movement.tone, path: [movement.from, movement.to], movementIndexes: [index] });
+    }
+  });
+  return legs;
+};
+
+/**
+ * 把一次通信的报文动作还原成每个动作在链路上产生的帧
+ * @param movements 报文动作（与调度器中的顺序一致）
+ * @param options.describeLinks 报文沿路径逐段传送时每段链路的二层信息（与 path 的各段对应）
+ * @returns 与 movements 下标对应的帧（ARP广播/应答经过几段链路就有几帧）
+ */
+export function buildCaptureFrames(
+  movements: PacketMovement[],
+  options: {
+    flowId: string;
+    simulationType: SimulationEvent['simulationType'];
+    result: SimulationResult;
+    conversation: CaptureConversation;
+    devices: Device[];
+    describeLinks: (path: string[]) => Array<CaptureLink | undefined>;
+  }
+): CaptureFrame[][] {
+  const { simulationType, result, conversation, devices, describeLinks } = options;
+  const frames: CaptureFrame[][] = movements.map(() => []);
+  const transactionId = hashFlowId(options.flowId);
+  const isRouter = (name: string) => devices.find((d) => d.name === name)?.type === 'router';
+
+  // 报文离开 path[hop] 时的IP地址和端口：取已经过的最后一台三层设备的记录（NAT路由器会改写）
+  const resolveAddresses = (leg: CaptureLeg, hop: number) => {
+    const passed = leg.path.slice(0, hop + 1);
+    const snapshot = (result.packetHeaders || [])
+      .filter((header) => header.direction === leg.direction && passed.includes(header.device))
+      .sort((a, b) => passed.lastIndexOf(a.device) - passed.lastIndexOf(b.device))
+      .pop();
+    if (snapshot) return snapshot;
+    const serverPort = simulationType === 'dns' ? 53 : simulationType === 'http' ? 80 : 1;
+    const request = { srcIP: conversation.clientIP, dstIP: conversation.serverIP, srcPort: DEFAULT_CLIENT_PORT, dstPort: serverPort };
+    return leg.direction === 'request'
+      ? request
+      : { srcIP: request.dstIP, dstIP: request.srcIP, srcPort: request.dstPort, dstPort: request.srcPort };
+  };
+
+  // 经过的路由器每台把TTL减1
+  const remainingTTL = (leg: CaptureLeg, hop: number, initial: number) =>
+    initial - leg.path.slice(1, hop + 1).filter(isRouter).length;
+
+  // 出错的路由器回送给源主机的ICMP差错报文，引用原报文的地址和端口
+  const buildICMPError = (
+    leg: CaptureLeg,
+    hop: number,
+    link: CaptureLink,
+    error: { fromIP: string; type: 'unreachable' | 'time-exceeded'; reason?: NonNullable<SimulationResult['failureType']> },
+    quotedProtocol: TransportProtocol
+  ): CaptureFrame => {
+    // 引用的是客户端发出的原报文
+    const original = (result.packetHeaders || []).find((header) => header.direction === 'request')
+      || { srcPort: quotedProtocol === 'ICMP' ? 1 : DEFAULT_CLIENT_PORT, dstPort: quotedProtocol === 'UDP' ? 53 : quotedProtocol === 'TCP' ? 80 : 1 };
+    return {
+      connectionId: link.connectionId,
+      ethernet: { srcMAC: link.srcMAC, dstMAC: link.dstMAC, vlan: link.vlan },
+      ip: { srcIP: error.fromIP, dstIP: conversation.clientIP, ttl: remainingTTL(leg, hop, ROUTER_TTL) },
+      icmp: {
+        type: error.type,
+        reason: error.reason,
+        id: 0,
+        sequence: 0,
+        quoted: {
+          srcIP: conversation.clientIP,
+          dstIP: conversation.serverIP,
+          protocol: quotedProtocol,
+          srcPort: original.srcPort,
+          dstPort: original.dstPort
+        }
+      }
+    };
+  };
+
+  const buildLegFrame = (leg: CaptureLeg, hop: number, link: CaptureLink): CaptureFrame | undefined => {
+    const ethernet = { srcMAC: link.srcMAC, dstMAC: link.dstMAC, vlan: link.vlan };
+    const base = { connectionId: link.connectionId, ethernet };
+    const request = leg.direction === 'request';
+    const addresses = resolveAddresses(leg, hop);
+    const ttl = remainingTTL(leg, hop, leg.path[0] && isRouter(leg.path[0]) ? ROUTER_TTL : HOST_TTL);
+    const ip = { srcIP: addresses.srcIP, dstIP: addresses.dstIP, ttl };
+    const icmpError = result.icmpError;
+
+    switch (simulationType) {
+      case 'ping':
+        if (leg.tone === 'icmp' && icmpError) {
+          const type = icmpError.type === 'time-exceeded' ? 'time-exceeded' : 'unreachable';
+          return buildICMPError(leg, hop, link, { fromIP: icmpError.fromIP, type, reason: icmpError.reason }, 'ICMP');
+        }
+        return {
+          ...base,
+          ip,
+          icmp: {
+            type: request ? 'echo-request' : 'echo-reply',
+            id: request ? addresses.srcPort : addresses.dstPort,
+            sequence: 1
+          }
+        };
+
+      case 'tracert': {
+        const probe = result.tracerouteHops?.[leg.group ?? 0];
+        if (!probe) return undefined;
+        if (request) {
+          return {
+            ...base,
+            ip: { srcIP: conversation.clientIP, dstIP: conversation.serverIP, ttl: remainingTTL(leg, hop, probe.ttl) },
+            icmp: { type: 'echo-request', id: 1, sequence: probe.ttl }
+          };
+        }
+        if (probe.status === 'reached') {
+          return {
+            ...base,
+            ip: { srcIP: conversation.serverIP, dstIP: conversation.clientIP, ttl },
+            icmp: { type: 'echo-reply', id: 1, sequence: probe.ttl }
+          };
+        }
+        return buildICMPError(leg, hop, link, {
+          fromIP: probe.ip,
+          type: probe.status === 'unreachable' ? 'unreachable' : 'time-exceeded',
+          reason: probe.status === 'unreachable' ? 'net-unreachable' : undefined
+        }, 'ICMP');
+      }
+
+      case 'dns':
+      case 'http': {
+        const protocol: TransportProtocol = simulationType === 'dns' ? 'UDP' : 'TCP';
+        if (leg.tone === 'icmp' && icmpError) {
+          const type = icmpError.type === 'time-exceeded' ? 'time-exceeded' : 'unreachable';
+          return buildICMPError(leg, hop, link, { fromIP: icmpError.fromIP, type, reason: icmpError.reason }, protocol);
+        }
+        const ports = { srcPort: addresses.srcPort, dstPort: addresses.dstPort };
+        if (simulationType === 'dns') {
+          const answer = conversation.dns?.answer;
+          return {
+            ...base,
+            ip,
+            udp: ports,
+            dns: {
+              id: transactionId & 0xffff,
+              response: !request,
+              domain: conversation.dns?.domain || '',
+              recordType: (answer ? isIPv6Address(answer) : isIPv6Address(conversation.clientIP)) ? 'AAAA' : 'A',
+              answer: request ? undefined : answer
+            }
+          };
+        }
+        const http = request ? buildHTTPRequest(conversation) : buildHTTPResponse(conversation);
+        return {
+          ...base,
+          ip,
+          tcp: { ...ports, seq: 1, ack: request ? 1 : 1 + encodeText(formatHTTPText(buildHTTPRequest(conversation))).length },
+          http
+        };
+      }
+
+      case 'dhcp': {
+        const message = result.dhcpMessages?.[leg.group ?? 0];
+        const dhcp = conversation.dhcp;
+        if (!message || !dhcp) return undefined;
+        const fromServer = message.type === 'OFFER' || message.type === 'ACK';
+        const offered = fromServer ? dhcp.offeredIP : undefined;
+        return {
+          connectionId: link.connectionId,
+          ethernet: {
+            srcMAC: fromServer ? link.srcMAC : dhcp.clientMAC,
+            dstMAC: message.broadcast ? BROADCAST_MAC : link.dstMAC,
+            vlan: link.vlan
+          },
+          ip: {
+            srcIP: fromServer ? dhcp.serverIP || '0.0.0.0' : '0.0.0.0',
+            dstIP: message.broadcast || !offered ? '255.255.255.255' : offered,
+            ttl
+          },
+          udp: fromServer ? { srcPort: 67, dstPort: 68 } : { srcPort: 68, dstPort: 67 },
+          dhcp: {
+            type: message.type,
+            transactionId,
+            clientMAC: dhcp.clientMAC,
+            yourIP: offered,
+            // REQUEST 用选项写明要使用的地址和选中的服务器；DISCOVER 还不知道服务器是谁
+            requestedIP: message.type === 'REQUEST' ? dhcp.offeredIP : undefined,
+            serverIP: message.type === 'DISCOVER' ? undefined : dhcp.serverIP
+          }
+        };
+      }
+
+      default:
+        return undefined;
+    }
+  };
+
+
+  // ARP请求沿路径广播到目标设备，应答原路单播返回
+  movements.forEach((movement, index) => {
+    const arp = movement.arp;
+    if (!arp || (movement.kind !== 'arp-request' && movement.kind !== 'arp-reply')) return;
+    const request = movement.kind === 'arp-request';
+    const path = request ? arp.path : [...arp.path].reverse();
+    describeLinks(path).forEach((link) => {
+      if (!link) return;
+      frames[index].push({
+        connectionId: link.connectionId,
+        ethernet: request
+          ? { srcMAC: arp.senderMAC, dstMAC: BROADCAST_MAC, vlan: link.vlan }
+          : { srcMAC: arp.targetMAC, dstMAC: arp.senderMAC, vlan: link.vlan },
+        arp: request
+          ? { opcode: 'request', senderMAC: arp.senderMAC, senderIP: arp.senderIP, targetMAC: ZERO_MAC, targetIP: arp.targetIP }
+          : { opcode: 'reply', senderMAC: arp.targetMAC, senderIP: arp.targetIP, targetMAC: arp.senderMAC, targetIP: arp.senderIP }
+      });
+    });
+  });
+
+  collectLegs(movements).forEach((leg) => {
+    const links = describeLinks(leg.path);
+    leg.movementIndexes.forEach((movementIndex, hop) => {
+      const link = links[hop];
+      if (!link) return;
+      const frame = buildLegFrame(leg, hop, link);
+      if (frame) frames[movementIndex].push(frame);
+    });
+  });
+  return frames;
+}
+
+const buildHTTPRequest = (conversation: CaptureConversation): NonNullable<CapturedPacket['http']> => ({
+  startLine: 'GET / HTTP/1.1',
+  headers: [`Host: ${conversation.http?.host || conversation.serverIP}`, 'User-Agent: NetworkSimulator/1.0', 'Accept: */*']
+});
+
+const buildHTTPResponse = (conversation: CaptureConversation): NonNullable<CapturedPacket['http']> => {
+  const statusCode = conversation.http?.statusCode || 200;
+  const body = conversation.http?.content;
+  return {
+    startLine: `HTTP/1.1 ${statusCode} ${HTTP_STATUS_TEXT[statusCode] || 'Unknown'}`,
+    headers: [
+      'Content-Type: text/html; charset=utf-8',
+      `Content-Length: ${body ? encodeText(body).length : 0}`,
+      'Server: NetworkSimulator/1.0',
+      'Connection: keep-alive'
+    ],
+    body
+  };
+};
+
+const formatHTTPText = (http: NonNullable<CapturedPacket['http']>) =>
+  `${[http.startLine, ...http.headers].join('\r\n')}\r\n\r\n${http.body || ''}`;
+
+/**
+ * 抓包位置对应的链路
+ * @param target 抓包位置
+ * @returns 链路ID集合；抓全部链路时返回 null
+ */
+export function getCaptureConnectionIds(target: CaptureTarget, devices: Device[], connections: Connection[]): Set<string> | null {
+  if (target.kind === 'all') return null;
+  if (target.kind === 'link') return new Set([target.connectionId]);
+  const device = devices.find((d) => d.id === target.deviceId);
+  return new Set(connections.filter((connection) => {
+    if (!device || (connection.source !== device.id && connection.target !== device.id)) return false;
+    const peer = devices.find((d) => d.id === (connection.source === device.id ? connection.target : connection.source));
+    return !!peer && getLinkInterface(device, peer, connection)?.id === target.interfaceId;
+  }).map((connection) => connection.id));
+}
+
+// ===== 列表摘要 =====
+
+const isIPv6Packet = (packet: CapturedPacket) => !!packet.ip && isIPv6Address(packet.ip.srcIP);
+
+const ICMP_UNREACHABLE_TEXT: Record<NonNullable<CapturedPacket['icmp']>['reason'] & string, { v4: string; v6: string }> = {
+  'net-unreachable': { v4: 'Network unreachable', v6: 'no route to destination' },
+  'host-unreachable': { v4: 'Host unreachable', v6: 'Address unreachable' },
+  'admin-prohibited': { v4: 'Communication administratively filtered', v6: 'Administratively prohibited' },
+  'ttl-exceeded': { v4: 'Time to live exceeded in transit', v6: 'hop limit exceeded in transit' }
+};
+
+const DHCP_TYPE_TEXT: Record<NonNullable<CapturedPacket['dhcp']>['type'], string> = {
+  DISCOVER: 'Discover',
+  OFFER: 'Offer',
+  REQUEST: 'Request',
+  ACK: 'ACK'
+};
+
+const hex = (value: number, digits: number) => `0x${value.toString(16).padStart(digits, '0')}`;
+
+/**
+ * 帧的协议名称（最上层的协议）
+ * @param packet 抓到的帧
+ */
+export function getPacketProtocol(packet: CapturedPacket): string {
+  if (packet.arp) return 'ARP';
+  if (packet.dhcp) return 'DHCP';
+  if (packet.dns) return 'DNS';
+  if (packet.http) return 'HTTP';
+  if (packet.icmp) return isIPv6Packet(packet) ? 'ICMPv6' : 'ICMP';
+  if (packet.tcp) return 'TCP';
+  if (packet.udp) return 'UDP';
+  return 'Ethernet';
+}
+
+const describeICMP = (packet: CapturedPacket): string => {
+  const icmp = packet.icmp!;
+  const v6 = isIPv6Packet(packet);
+  if (icmp.type === 'echo-request' || icmp.type === 'echo-reply') {
+    const kind = icmp.type === 'echo-request' ? 'request' : 'reply';
+    return v6
+      ? `Echo (ping) ${kind} id=${hex(icmp.id, 4)}, seq=${icmp.sequence}, hop limit=${packet.ip?.ttl}`
+      : `Echo (ping) ${kind}  id=${hex(icmp.id, 4)}, seq=${icmp.sequence}/${icmp.sequence * 256}, ttl=${packet.ip?.ttl}`;
+  }
+  if (icmp.type === 'time-exceeded') {
+    return v6 ? 'Time Exceeded (hop limit exceeded in transit)' : 'Time-to-live exceeded (Time to live exceeded in transit)';
+  }
+  const reason = ICMP_UNREACHABLE_TEXT[icmp.reason || 'net-unreachable'];
+  return v6 ? `Destination Unreachable (${reason.v6})` : `Destination unreachable (${reason.v4})`;
+};
+
+/**
+ * 列表中一行的内容（仿 Wireshark 的 Source / Destination / Protocol / Info 列）
+ * @param packet 抓到的帧
+ */
+export function summarizeCapturedPacket(packet: CapturedPacket): { source: string; destination: string; protocol: string; info: string; length: number } {
+  const { ethernet, arp, ip, dns, http, dhcp, tcp, udp } = packet;
+  const source = ip?.srcIP || ethernet.srcMAC;
+  const destination = ip?.dstIP || (ethernet.dstMAC === BROADCAST_MAC ? 'Broadcast' : ethernet.dstMAC);
+  let info = '';
+  if (arp) {
+    info = arp.opcode === 'request' ? `Who has ${arp.targetIP}? Tell ${arp.senderIP}` : `${arp.senderIP} is at ${arp.senderMAC}`;
+  } else if (dhcp) {
+    info = `DHCP ${DHCP_TYPE_TEXT[dhcp.type]} - Transaction ID ${hex(dhcp.transactionId, 8)}`;
+  } else if (dns) {
+    const query = `${dns.recordType} ${dns.domain}`;
+    info = !dns.response
+      ? `Standard query ${hex(dns.id, 4)} ${query}`
+      : dns.answer
+        ? `Standard query response ${hex(dns.id, 4)} ${query} ${dns.recordType} ${dns.answer}`
+        : `Standard query response ${hex(dns.id, 4)} No such name ${query}`;
+  } else if (http) {
+    info = http.body ? `${http.startLine}  (text/html)` : http.startLine;
+  } else if (packet.icmp) {
+    info = describeICMP(packet);
+  } else if (tcp) {
+    info = `${tcp.srcPort} → ${tcp.dstPort} [PSH, ACK] Seq=${tcp.seq} Ack=${tcp.ack}`;
+  } else if (udp) {
+    info = `${udp.srcPort} → ${udp.dstPort}`;
+  }
+  return { source, destination, protocol: getPacketProtocol(packet), info, length: encodeCapturedPacket(packet).length };
+}
+
+// ===== 逐层详情 =====
+
+/**
+ * 帧的逐层头部（仿 Wireshark 的详情树）
+ * @param packet 抓到的帧
+ * @returns 每层的标题和字段
+ */
+export function describeCapturedPacketLayers(packet: CapturedPacket): Array<{ title: string; fields: string[] }> {
+  const { ethernet, arp, ip, icmp, udp, tcp, dns, http, dhcp } = packet;
+  const length = encodeCapturedPacket(packet).length;
+  const v6 = isIPv6Packet(packet);
+  const ipPayload = encodeIPPayload(packet);
+  const layers: Array<{ title: string; fields: string[] }> = [
+    {
+      title: `Frame ${packet.id}: ${length} bytes on wire (${length * 8} bits)`,
+      fields: [`相对时间: ${(packet.time / 1000).toFixed(6)} 秒`, `Frame Length: ${length} bytes`, `Protocols in frame: ${getPacketProtocols(packet).join(':')}`]
+    },
+    {
+      title: `Ethernet II, Src: ${ethernet.srcMAC}, Dst: ${ethernet.dstMAC}`,
+      fields: [
+        `Destination: ${ethernet.dstMAC}${ethernet.dstMAC === BROADCAST_MAC ? ' (Broadcast)' : ''}`,
+        `Source: ${ethernet.srcMAC}`,
+        `Type: ${ethernet.vlan !== undefined ? '802.1Q Virtual LAN (0x8100)' : describeEtherType(packet)}`
+      ]
+    }
+  ];
+  if (ethernet.vlan !== undefined) {
+    layers.push({
+      title: `802.1Q Virtual LAN, PRI: 0, DEI: 0, ID: ${ethernet.vlan}`,
+      fields: ['Priority: Best Effort (default) (0)', `ID: ${ethernet.vlan}`, `Type: ${describeEtherType(packet)}`]
+    });
+  }
+  if (arp) {
+    layers.push({
+      title: `Address Resolution Protocol (${arp.opcode})`,
+      fields: [
+        'Hardware type: Ethernet (1)',
+        'Protocol type: IPv4 (0x0800)',
+        `Opcode: ${arp.opcode} (${arp.opcode === 'request' ? 1 : 2})`,
+        `Sender MAC address: ${arp.senderMAC}`,
+        `Sender IP address: ${arp.senderIP}`,
+        `Target MAC address: ${arp.targetMAC}`,
+        `Target IP address: ${arp.targetIP}`
+      ]
+    });
+  }
+  if (ip) {
+    const protocol = getIPProtocolNumber(packet);
+    layers.push(v6
+      ? {
+        title: `Internet Protocol Version 6, Src: ${ip.srcIP}, Dst: ${ip.dstIP}`,
+        fields: ['Version: 6', `Payload Length: ${ipPayload.length}`, `Next Header: ${protocol.name} (${protocol.v6})`, `Hop Limit: ${ip.ttl}`, `Source Address: ${ip.srcIP}`, `Destination Address: ${ip.dstIP}`]
+      }
+      : {
+        title: `Internet Protocol Version 4, Src: ${ip.srcIP}, Dst: ${ip.dstIP}`,
+        fields: ['Version: 4', 'Header Length: 20 bytes (5)', `Total Length: ${20 + ipPayload.length}`, `Identification: ${hex(packet.id & 0xffff, 4)} (${packet.id & 0xffff})`, `Time to Live: ${ip.ttl}`, `Protocol: ${protocol.name} (${protocol.v4})`, `Source Address: ${ip.srcIP}`, `Destination Address: ${ip.dstIP}`]
+      });
+  }
+  if (icmp) {
+    const codes = encodeICMPTypeCode(packet);
+    const fields = [`Type: ${codes.type}`, `Code: ${codes.code}`, describeICMP(packet)];
+    if (icmp.type === 'echo-request' || icmp.type === 'echo-reply') {
+      fields.push(`Identifier: ${icmp.id} (${hex(icmp.id, 4)})`, `Sequence Number: ${icmp.sequence}`, `Data (${ICMP_PAYLOAD.length} bytes)`);
+    } else if (icmp.quoted) {
+      fields.push(`原报文: ${icmp.quoted.protocol} ${icmp.quoted.srcIP} → ${icmp.quoted.dstIP}`);
+    }
+    layers.push({ title: v6 ? 'Internet Control Message Protocol v6' : 'Internet Control Message Protocol', fields });
+  }
+  if (udp) {
+    layers.push({
+      title: `User Datagram Protocol, Src Port: ${udp.srcPort}, Dst Port: ${udp.dstPort}`,
+      fields: [`Source Port: ${udp.srcPort}`, `Destination Port: ${udp.dstPort}`, `Length: ${ipPayload.length}`]
+    });
+  }
+  if (tcp) {
+    layers.push({
+      title: `Transmission Control Protocol, Src Port: ${tcp.srcPort}, Dst Port: ${tcp.dstPort}, Seq: ${tcp.seq}, Ack: ${tcp.ack}, Len: ${ipPayload.length - 20}`,
+      fields: [`Source Port: ${tcp.srcPort}`, `Destination Port: ${tcp.dstPort}`, `Sequence Number: ${tcp.seq}    (relative sequence number)`, `Acknowledgment Number: ${tcp.ack}    (relative ack number)`, 'Flags: 0x018 (PSH, ACK)', 'Window: 64240']
+    });
+  }
+  if (dns) {
+    const fields = [
+      `Transaction ID: ${hex(dns.id, 4)}`,
+      `Flags: ${dns.response ? (dns.answer ? '0x8180 Standard query response, No error' : '0x8183 Standard query response, No such name') : '0x0100 Standard query'}`,
+      'Questions: 1',
+      `Answer RRs: ${dns.answer ? 1 : 0}`,
+      `Queries: ${dns.domain}: type ${dns.recordType}, class IN`
+    ];
+    if (dns.answer) fields.push(`Answers: ${dns.domain}: type ${dns.recordType}, class IN, addr ${dns.answer}`);
+    layers.push({ title: `Domain Name System (${dns.response ? 'response' : 'query'})`, fields });
+  }
+  if (http) {
+    layers.push({
+      title: 'Hypertext Transfer Protocol',
+      fields: [http.startLine, ...http.headers, ...(http.body ? [`Line-based text data: text/html (${http.body.split('\n').length} lines)`] : [])]
+    });
+  }
+  if (dhcp) {
+    layers.push({
+      title: `Dynamic Host Configuration Protocol (${DHCP_TYPE_TEXT[dhcp.type]})`,
+      fields: [
+        `Message type: ${dhcp.type === 'DISCOVER' || dhcp.type === 'REQUEST' ? 'Boot Request (1)' : 'Boot Reply (2)'}`,
+        `Transaction ID: ${hex(dhcp.transactionId, 8)}`,
+        `Your (client) IP address: ${dhcp.yourIP || '0.0.0.0'}`,
+        `Client MAC address: ${dhcp.clientMAC}`,
+        `Option: (53) DHCP Message Type (${DHCP_TYPE_TEXT[dhcp.type]})`,
+        ...(dhcp.serverIP ? [`Option: (54) DHCP Server Identifier (${dhcp.serverIP})`] : []),
+        ...(dhcp.requestedIP ? [`Option: (50) Requested IP Address (${dhcp.requestedIP})`] : [])
+      ]
+    });
+  }
+  return layers;
+}
+
+const describeEtherType = (packet: CapturedPacket) =>
+  packet.arp ? 'ARP (0x0806)' : isIPv6Packet(packet) ? 'IPv6 (0x86dd)' : 'IPv4 (0x0800)';
+
+// 帧中依次出现的协议（过滤表达式按这些名称匹配）
+const getPacketProtocols = (packet: CapturedPacket): string[] => {
+  const v6 = isIPv6Packet(packet);
+  return [
+    'eth',
+    ...(packet.ethernet.vlan !== undefined ? ['vlan'] : []),
+    ...(packet.arp ? ['arp'] : []),
+    ...(packet.ip ? [v6 ? 'ipv6' : 'ip'] : []),
+    ...(packet.icmp ? [v6 ? 'icmpv6' : 'icmp'] : []),
+    ...(packet.udp ? ['udp'] : []),
+    ...(packet.tcp ? ['tcp'] : []),
+    ...(packet.dns ? ['dns'] : []),
+    ...(packet.http ? ['http'] : []),
+    ...(packet.dhcp ? ['dhcp'] : [])
+  ];
+};
+
+// ===== 过滤表达式 =====
+
+type PacketPredicate = (packet: CapturedPacket) => boolean;
+
+// 字段名 → 帧中该字段的值（没有该字段时为空数组）
+const FILTER_FIELDS: Record<string, (packet: CapturedPacket) => string[]> = {
+  'ip.addr': (p) => (p.ip && !isIPv6Packet(p) ? [p.ip.srcIP, p.ip.dstIP] : []),
+  'ip.src': (p) => (p.ip && !isIPv6Packet(p) ? [p.ip.srcIP] : []),
+  'ip.dst': (p) => (p.ip && !isIPv6Packet(p) ? [p.ip.dstIP] : []),
+  'ip.ttl': (p) => (p.ip && !isIPv6Packet(p) ? [String(p.ip.ttl)] : []),
+  'ipv6.addr': (p) => (p.ip && isIPv6Packet(p) ? [p.ip.srcIP, p.ip.dstIP].map(normalizeIPv6) : []),
+  'ipv6.src': (p) => (p.ip && isIPv6Packet(p) ? [normalizeIPv6(p.ip.srcIP)] : []),
+  'ipv6.dst': (p) => (p.ip && isIPv6Packet(p) ? [normalizeIPv6(p.ip.dstIP)] : []),
+  'eth.addr': (p) => [p.ethernet.srcMAC, p.ethernet.dstMAC],
+  'eth.src': (p) => [p.ethernet.srcMAC],
+  'eth.dst': (p) => [p.ethernet.dstMAC],
+  'vlan.id': (p) => (p.ethernet.vlan !== undefined ? [String(p.ethernet.vlan)] : []),
+  'arp.src.proto_ipv4': (p) => (p.arp ? [p.arp.senderIP] : []),
+  'arp.dst.proto_ipv4': (p) => (p.arp ? [p.arp.targetIP] : []),
+  'tcp.port': (p) => (p.tcp ? [String(p.tcp.srcPort), String(p.tcp.dstPort)] : []),
+  'tcp.srcport': (p) => (p.tcp ? [String(p.tcp.srcPort)] : []),
+  'tcp.dstport': (p) => (p.tcp ? [String(p.tcp.dstPort)] : []),
+  'udp.port': (p) => (p.udp ? [String(p.udp.srcPort), String(p.udp.dstPort)] : []),
+  'udp.srcport': (p) => (p.udp ? [String(p.udp.srcPort)] : []),
+  'udp.dstport': (p) => (p.udp ? [String(p.udp.dstPort)] : []),
+  'dns.qry.name': (p) => (p.dns ? [p.dns.domain] : []),
+  'http.response.code': (p) => (p.http?.startLine.startsWith('HTTP/') ? [p.http.startLine.split(' ')[1]] : []),
+  'frame.number': (p) => [String(p.id)]
+};
+
+const FILTER_PROTOCOLS = ['eth', 'vlan', 'arp', 'ip', 'ipv6', 'icmp', 'icmpv6', 'udp', 'tcp', 'dns', 'http', 'dhcp'];
+
+// 比较前统一写法：MAC用小写冒号分隔，IPv6用压缩写法
+const normalizeFilterValue = (field: string, value: string) => {
+  if (field.startsWith('eth.')) return value.toLowerCase().replace(/-/g, ':');
+  if (field.startsWith('ipv6.') && parseIPv6(value)) return normalizeIPv6(value);
+  return value.toLowerCase();
+};
+
+/**
+ * 编译过滤表达式（仿 Wireshark 显示过滤器）
+ * 支持协议名（dns、http、arp、icmp……）、字段比较（ip.addr==10.0.0.1、tcp.port!=80）、
+ * && / and、|| / or、! / not 和括号
+ * @param expression 过滤表达式；为空时匹配全部
+ * @returns 匹配函数，或表达式错误的说明
+ */
+export function compileCaptureFilter(expression: string): { match: PacketPredicate } | { error: string } {
+  const tokens = expression.match(/\(|\)|&&|\|\||==|!=|!|[^\s()!=&|]+/g) || [];
+  if (tokens.length === 0) return { match: () => true };
+  let position = 0;
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+
+  const parseOr = (): PacketPredicate => {
+    let left = parseAnd();
+    while (peek() === '||' || peek()?.toLowerCase() === 'or') {
+      next();
+      const a = left;
+      const b = parseAnd();
+      left = (p) => a(p) || b(p);
+    }
+    return left;
+  };
+  const parseAnd = (): PacketPredicate => {
+    let left = parseNot();
+    while (peek() === '&&' || peek()?.toLowerCase() === 'and') {
+      next();
+      const a = left;
+      const b = parseNot();
+      left = (p) => a(p) && b(p);
+    }
+    return left;
+  };
+  const parseNot = (): PacketPredicate => {
+    if (peek() === '!' || peek()?.toLowerCase() === 'not') {
+      next();
+      const inner = parseNot();
+      return (p) => !inner(p);
+    }
+    return parsePrimary();
+  };
+  const parsePrimary = (): PacketPredicate => {
+    const token = next();
+    if (token === undefined) throw new Error('过滤表达式不完整');
+    if (token === '(') {
+      const inner = parseOr();
+      if (next() !== ')') throw new Error('缺少右括号 )');
+      return inner;
+    }
+    const name = token.toLowerCase();
+    const field = FILTER_FIELDS[name];
+    if (peek() === '==' || peek() === '!=') {
+      const operator = next();
+      const value = next();
+      if (!field) throw new Error(`"${token}" 不是可以比较的字段`);
+      if (value === undefined || ['(', ')', '&&', '||', '!', '==', '!='].includes(value)) throw new Error(`${token} ${operator} 后面缺少要比较的值`);
+      const expected = normalizeFilterValue(name, value);
+      return operator === '=='
+        ? (p) => field(p).some((actual) => normalizeFilterValue(name, actual) === expected)
+        : (p) => field(p).every((actual) => normalizeFilterValue(name, actual) !== expected);
+    }
+    if (field) return (p) => field(p).length > 0;
+    if (FILTER_PROTOCOLS.includes(name) || name === 'bootp') {
+      const protocol = name === 'bootp' ? 'dhcp' : name;
+      return (p) => getPacketProtocols(p).includes(protocol);
+    }
+    throw new Error(`"${token}" 不是有效的协议或字段`);
+  };
+
+  try {
+    const match = parseOr();
+    if (position < tokens.length) throw new Error(`"${tokens[position]}" 附近有语法错误`);
+    return { match };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : '过滤表达式错误' };
+  }
+}
+
+// ===== 合成报文字节 =====
+
+const u16 = (value: number) => [(value >> 8) & 0xff, value & 0xff];
+const u32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+const encodeText = (text: string) => Array.from(new TextEncoder().encode(text));
+const macBytes = (mac: string) => mac.split(/[:-]/).map((part) => parseInt(part, 16) || 0);
+const ipv4Bytes = (ip: string) => {
+  const parts = ip.split('.').map(Number);
+  return parts.length === 4 && parts.every((part) => part >= 0 && part <= 255) ? parts : [0, 0, 0, 0];
+};
+const ipv6Bytes = (ip: string) => (parseIPv6(ip) || Array(8).fill(0)).flatMap(u16);
+
+// 互联网校验和：16位反码求和再取反
+const checksum = (bytes: number[]) => {
+  let sum = 0;
+  for (let i = 0; i < bytes.length; i += 2) {
+    sum += (bytes[i] << 8) + (bytes[i + 1] || 0);
+  }
+  while (sum > 0xffff) sum = (sum & 0xffff) + (sum >> 16);
+  return ~sum & 0xffff;
+};
+
+const getIPProtocolNumber = (packet: CapturedPacket) =>
+  packet.icmp
+    ? { name: isIPv6Packet(packet) ? 'ICMPv6' : 'ICMP', v4: 1, v6: 58 }
+    : packet.tcp
+      ? { name: 'TCP', v4: 6, v6: 6 }
+      : { name: 'UDP', v4: 17, v6: 17 };
+
+// ICMP/ICMPv6 的类型和代码
+const encodeICMPTypeCode = (packet: CapturedPacket): { type: number; code: number } => {
+  const icmp = packet.icmp!;
+  const v6 = isIPv6Packet(packet);
+  switch (icmp.type) {
+    case 'echo-request':
+      return { type: v6 ? 128 : 8, code: 0 };
+    case 'echo-reply':
+      return { type: v6 ? 129 : 0, code: 0 };
+    case 'time-exceeded':
+      return { type: v6 ? 3 : 11, code: 0 };
+    default: {
+      const v4Codes = { 'net-unreachable': 0, 'host-unreachable': 1, 'admin-prohibited': 13, 'ttl-exceeded': 0 };
+      const v6Codes = { 'net-unreachable': 0, 'host-unreachable': 3, 'admin-prohibited': 1, 'ttl-exceeded': 0 };
+      const reason = icmp.reason || 'net-unreachable';
+      return { type: v6 ? 1 : 3, code: v6 ? v6Codes[reason] : v4Codes[reason] };
+    }
+  }
+};
+
+// 伪首部（UDP/TCP/ICMPv6 的校验和覆盖源、目的地址）
+const pseudoHeader = (srcIP: string, dstIP: string, protocol: number, length: number) =>
+  isIPv6Address(srcIP)
+    ? [...ipv6Bytes(srcIP), ...ipv6Bytes(dstIP), ...u32(length), 0, 0, 0, protocol]
+    : [...ipv4Bytes(srcIP), ...ipv4Bytes(dstIP), 0, protocol, ...u16(length)];
+
+const encodeIPHeader = (srcIP: string, dstIP: string, ttl: number, protocol: { v4: number; v6: number }, payloadLength: number, id: number) => {
+  if (isIPv6Address(srcIP)) {
+    return [0x60, 0, 0, 0, ...u16(payloadLength), protocol.v6, ttl, ...ipv6Bytes(srcIP), ...ipv6Bytes(dstIP)];
+  }
+  const header = [0x45, 0, ...u16(20 + payloadLength), ...u16(id & 0xffff), 0, 0, ttl, protocol.v4, 0, 0, ...ipv4Bytes(srcIP), ...ipv4Bytes(dstIP)];
+  const sum = checksum(header);
+  header[10] = sum >> 8;
+  header[11] = sum & 0xff;
+  return header;
+};
+
+const encodeDNS = (dns: NonNullable<CapturedPacket['dns']>) => {
+  const flags = !dns.response ? 0x0100 : dns.answer ? 0x8180 : 0x8183;
+  const name = [...dns.domain.split('.').filter(Boolean).flatMap((label) => {
+    const bytes = encodeText(label).slice(0, 63);
+    return [bytes.length, ...bytes];
+  }), 0];
+  const type = dns.recordType === 'AAAA' ? 28 : 1;
+  const bytes = [...u16(dns.id), ...u16(flags), ...u16(1), ...u16(dns.answer ? 1 : 0), 0, 0, 0, 0, ...name, ...u16(type), ...u16(1)];
+  if (dns.answer) {
+    const address = dns.recordType === 'AAAA' ? ipv6Bytes(dns.answer) : ipv4Bytes(dns.answer);
+    bytes.push(0xc0, 0x0c, ...u16(type), ...u16(1), ...u32(3600), ...u16(address.length), ...address);
+  }
+  return bytes;
+};
+
+const encodeDHCP = (dhcp: NonNullable<CapturedPacket['dhcp']>) => {
+  const fromServer = dhcp.type === 'OFFER' || dhcp.type === 'ACK';
+  const messageType = { DISCOVER: 1, OFFER: 2, REQUEST: 3, ACK: 5 }[dhcp.type];
+  const bytes = [
+    fromServer ? 2 : 1, 1, 6, 0,
+    ...u32(dhcp.transactionId),
+    0, 0, 0, 0,
+    ...[0, 0, 0, 0],
+    ...ipv4Bytes(dhcp.yourIP || '0.0.0.0'),
+    ...ipv4Bytes(fromServer && dhcp.serverIP ? dhcp.serverIP : '0.0.0.0'),
+    ...[0, 0, 0, 0],
+    ...macBytes(dhcp.clientMAC), ...Array(10).fill(0),
+    ...Array(64 + 128).fill(0),
+    99, 130, 83, 99,
+    53, 1, messageType
+  ];
+  if (dhcp.serverIP) bytes.push(54, 4, ...ipv4Bytes(dhcp.serverIP));
+  if (dhcp.requestedIP) bytes.push(50, 4, ...ipv4Bytes(dhcp.requestedIP));
+  bytes.push(255);
+  // BOOTP 报文至少300字节
+  return [...bytes, ...Array(Math.max(0, 300 - bytes.length)).fill(0)];
+};
+
+// ICMP差错报文引用的原报文：IP头部加上传输层的前8个字节
+const encodeQuotedDatagram = (quoted: NonNullable<NonNullable<CapturedPacket['icmp']>['quoted']>) => {
+  const protocol = quoted.protocol === 'ICMP'
+    ? { v4: 1, v6: 58 }
+    : quoted.protocol === 'TCP' ? { v4: 6, v6: 6 } : { v4: 17, v6: 17 };
+  const v6 = isIPv6Address(quoted.srcIP);
+  const transport = quoted.protocol === 'ICMP'
+    ? [v6 ? 128 : 8, 0, 0, 0, ...u16(quoted.srcPort), ...u16(1)]
+    : quoted.protocol === 'TCP'
+      ? [...u16(quoted.srcPort), ...u16(quoted.dstPort), ...u32(1)]
+      : [...u16(quoted.srcPort), ...u16(quoted.dstPort), ...u16(8), 0, 0];
+  return [...encodeIPHeader(quoted.srcIP, quoted.dstIP, 1, protocol, 8, 0), ...transport];
+};
+
+// IP报文的数据部分（ICMP/UDP/TCP 头部和应用层数据）
+const encodeIPPayload = (packet: CapturedPacket): number[] => {
+  const { ip, icmp, udp, tcp, dns, http, dhcp } = packet;
+  if (!ip) return [];
+  const v6 = isIPv6Packet(packet);
+  if (icmp) {
+    const { type, code } = encodeICMPTypeCode(packet);
+    const body = icmp.type === 'echo-request' || icmp.type === 'echo-reply'
+      ? [...u16(icmp.id), ...u16(icmp.sequence), ...encodeText(ICMP_PAYLOAD)]
+      : [0, 0, 0, 0, ...(icmp.quoted ? encodeQuotedDatagram(icmp.quoted) : [])];
+    const message = [type, code, 0, 0, ...body];
+    const sum = checksum(v6 ? [...pseudoHeader(ip.srcIP, ip.dstIP, 58, message.length), ...message] : message);
+    message[2] = sum >> 8;
+    message[3] = sum & 0xff;
+    return message;
+  }
+  const application = dns ? encodeDNS(dns) : dhcp ? encodeDHCP(dhcp) : http ? encodeText(formatHTTPText(http)) : [];
+  if (udp) {
+    const segment = [...u16(udp.srcPort), ...u16(udp.dstPort), ...u16(8 + application.length), 0, 0, ...application];
+    const sum = checksum([...pseudoHeader(ip.srcIP, ip.dstIP, 17, segment.length), ...segment]) || 0xffff;
+    segment[6] = sum >> 8;
+    segment[7] = sum & 0xff;
+    return segment;
+  }
+  if (tcp) {
+    const segment = [...u16(tcp.srcPort), ...u16(tcp.dstPort), ...u32(tcp.seq), ...u32(tcp.ack), 0x50, 0x18, ...u16(64240), 0, 0, 0, 0, ...application];
+    const sum = checksum([...pseudoHeader(ip.srcIP, ip.dstIP, 6, segment.length), ...segment]);
+    segment[16] = sum >> 8;
+    segment[17] = sum & 0xff;
+    return segment;
+  }
+  return application;
+};
+
+/**
+ * 合成帧的字节（以太网帧，不含FCS；不足60字节时补0）
+ * @param packet 抓到的帧
+ */
+export function encodeCapturedPacket(packet: CapturedPacket): Uint8Array {
+  const { ethernet, arp, ip } = packet;
+  let etherType = 0x0800;
+  let payload: number[] = [];
+  if (arp) {
+    etherType = 0x0806;
+    payload = [
+      0, 1, 0x08, 0x00, 6, 4, ...u16(arp.opcode === 'request' ? 1 : 2),
+      ...macBytes(arp.senderMAC), ...ipv4Bytes(arp.senderIP),
+      ...macBytes(arp.targetMAC), ...ipv4Bytes(arp.targetIP)
+    ];
+  } else if (ip) {
+    const ipPayload = encodeIPPayload(packet);
+    etherType = isIPv6Packet(packet) ? 0x86dd : 0x0800;
+    payload = [...encodeIPHeader(ip.srcIP, ip.dstIP, ip.ttl, getIPProtocolNumber(packet), ipPayload.length, packet.id), ...ipPayload];
+  }
+  const tag = ethernet.vlan !== undefined ? [0x81, 0x00, ...u16(ethernet.vlan & 0x0fff)] : [];
+  const frame = [...macBytes(ethernet.dstMAC), ...macBytes(ethernet.srcMAC), ...tag, ...u16(etherType), ...payload];
+  return Uint8Array.from([...frame, ...Array(Math.max(0, 60 - frame.length)).fill(0)]);
+}
+
+/**
+ * 生成 pcap 文件（libpcap 格式，链路类型为以太网），可用 Wireshark 打开
+ * @param packets 抓到的帧
+ * @param startedWallClock 开始抓包时的真实时间（毫秒），各帧的时间戳在此基础上加上抓到的时间
+ * @returns 文件内容
+ */
+export function buildPcapFile(packets: CapturedPacket[], startedWallClock: number): ArrayBuffer {
+  const frames = packets.map((packet) => ({ packet, bytes: encodeCapturedPacket(packet) }));
+  const size = 24 + frames.reduce((total, { bytes }) => total + 16 + bytes.length, 0);
+  const buffer = new Uint8Array(size);
+  const view = new DataView(buffer.buffer);
+  // 全局头部：魔数、版本 2.4、时区、精度、快照长度、链路类型（1 = Ethernet）
+  view.setUint32(0, 0xa1b2c3d4, true);
+  view.setUint16(4, 2, true);
+  view.setUint16(6, 4, true);
+  view.setInt32(8, 0, true);
+  view.setUint32(12, 0, true);
+  view.setUint32(16, 65535, true);
+  view.setUint32(20, 1, true);
+
+  let offset = 24;
+  frames.forEach(({ packet, bytes }) => {
+    const timestamp = startedWallClock + packet.time;
+    view.setUint32(offset, Math.floor(timestamp / 1000), true);
+    view.setUint32(offset + 4, Math.floor((timestamp % 1000) * 1000), true);
+    view.setUint32(offset + 8, bytes.length, true);
+    view.setUint32(offset + 12, bytes.length, true);
+    buffer.set(bytes, offset + 16);
+    offset += 16 + bytes.length;
+  });
+  return buffer.buffer;
+}
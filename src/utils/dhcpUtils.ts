@@ -0,0 +1,188 @@
+/**
+ * DHCP 工具函数
+ *
+ * 用于生成默认地址池、校验DHCP配置，以及从地址池中分配租约
+ */
+
+import { Device, DHCPLease, DHCPServerConfig } from '../types';
+import { validateIPAddress } from './ipValidator';
+import { calculateSubnet, ipToNumber, isInSameSubnet, isValidSubnetMask, numberToIP } from './subnetUtils';
+
+export const DEFAULT_LEASE_TIME = 3600; // 1小时
+
+/**
+ * 按服务接口生成默认配置：地址池 .100 ~ .199，网关为服务接口本身
+ * @param serverIP 提供DHCP服务的接口IP
+ * @param subnetMask 该接口的子网掩码
+ * @param gateway 下发的默认网关（路由器为接口本身，服务器为它自己的网关）
+ * @returns DHCP配置（默认未启用）
+ */
+export function createDefaultDHCPConfig(serverIP: string, subnetMask: string, gateway: string = serverIP): DHCPServerConfig {
+  const network = ipToNumber(calculateSubnet(serverIP, subnetMask) || serverIP);
+  return {
+    enabled: false,
+    startIP: numberToIP(network + 100),
+    endIP: numberToIP(network + 199),
+    subnetMask,
+    gateway,
+    dnsServer: '',
+    leaseTime: DEFAULT_LEASE_TIME,
+    leases: []
+  };
+}
+
+/**
+ * 校验DHCP配置
+ * @param config DHCP配置
+ * @param serverIP 提供服务的接口IP（地址池必须和它在同一网段）
+ * @returns { valid, error? }
+ */
+export function validateDHCPConfig(config: DHCPServerConfig, serverIP: string): { valid: boolean; error?: string } {
+  if (!isValidSubnetMask(config.subnetMask)) {
+    return { valid: false, error: '子网掩码格式错误' };
+  }
+
+  const fields: Array<[string, string]> = [
+    ['起始地址', config.startIP],
+    ['结束地址', config.endIP],
+    ['默认网关', config.gateway]
+  ];
+  if (config.dnsServer) {
+    fields.push(['DNS服务器', config.dnsServer]);
+  }
+  for (const [index, [label, value]] of fields.entries()) {
+    // 地址池和网关按地址池的掩码判断网段地址、广播地址；DNS服务器可能在其他网段
+    const check = index < 3 ? validateIPAddress(value, config.subnetMask) : validateIPAddress(value);
+    if (!check.valid) {
+      return { valid: false, error: `${label}错误：${check.error}` };
+    }
+  }
+
+  const network = `${calculateSubnet(serverIP, config.subnetMask)}`;
+  for (const [label, value] of fields.slice(0, 3)) {
+    if (!isInSameSubnet(serverIP, config.subnetMask, value)) {
+      return { valid: false, error: `${label} ${value} 不在服务网段 ${network} 内` };
+    }
+  }
+
+  const start = ipToNumber(config.startIP);
+  const end = ipToNumber(config.endIP);
+  if (start > end) {
+    return { valid: false, error: '起始地址不能大于结束地址' };
+  }
+  const serverNumber = ipToNumber(serverIP);
+  if (serverNumber >= start && serverNumber <= end) {
+    return { valid: false, error: `地址池包含了服务器自己的地址 ${serverIP}` };
+  }
+  const gatewayNumber = ipToNumber(config.gateway);
+  if (gatewayNumber >= start && gatewayNumber <= end) {
+    return { valid: false, error: `地址池包含了默认网关 ${config.gateway}` };
+  }
+
+  if (!Number.isInteger(config.leaseTime) || config.leaseTime <= 0) {
+    return { valid: false, error: '租期需为正整数（秒）' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * 地址池中仍在有效期内的租约
+ * @param config DHCP配置
+ * @param now 当前时间戳
+ */
+export function getActiveLeases(config: DHCPServerConfig, now: number = Date.now()): DHCPLease[] {
+  return config.leases.filter((lease) => lease.expiresAt > now);
+}
+
+/**
+ * 地址池中被其他设备手动（静态）占用的地址
+ * @param config DHCP配置
+ * @param devices 当前所有设备
+ * @returns 冲突地址及占用它的设备
+ */
+export function findPoolConflicts(config: DHCPServerConfig, devices: Device[]): Array<{ ip: string; device: string }> {
+  const start = ipToNumber(config.startIP);
+  const end = ipToNumber(config.endIP);
+  return devices
+    .filter((d) => d.ip && d.ipMode !== 'dhcp' && validateIPAddress(d.ip).valid)
+    .filter((d) => {
+      const value = ipToNumber(d.ip);
+      return value >= start && value <= end;
+    })
+    .map((d) => ({ ip: d.ip, device: d.name }));
+}
+
+/**
+ * 从地址池中为客户端选择地址
+ * 客户端已有有效租约时续租原地址；否则选第一个既没有租出、也没有被静态占用的地址
+ * @param config DHCP配置
+ * @param client 客户端设备
+ * @param clientMAC 客户端MAC地址
+ * @param devices 当前所有设备
+ * @param now 当前时间戳
+ * @returns 分配到的地址，以及跳过的冲突地址；地址池耗尽时返回 error
+ */
+export function allocateDHCPAddress(
+  config: DHCPServerConfig,
+  client: Device,
+  clientMAC: string,
+  devices: Device[],
+  now: number = Date.now()
+): { ip?: string; conflicts: Array<{ ip: string; device: string }>; error?: string } {
+  const activeLeases = getActiveLeases(config, now);
+  const conflicts = findPoolConflicts(config, devices.filter((d) => d.id !== client.id));
+  const conflictIPs = new Set(conflicts.map((c) => c.ip));
+  const usedByDHCP = new Set(
+    devices.filter((d) => d.id !== client.id && d.ipMode === 'dhcp' && d.ip).map((d) => d.ip)
+  );
+
+  const existing = activeLeases.find((lease) => lease.mac === clientMAC);
+  if (existing && !conflictIPs.has(existing.ip)) {
+    return { ip: existing.ip, conflicts };
+  }
+
+  const leasedIPs = new Set(activeLeases.filter((lease) => lease.mac !== clientMAC).map((lease) => lease.ip));
+  const start = ipToNumber(config.startIP);
+  const end = ipToNumber(config.endIP);
+  for (let value = start; value <= end; value++) {
+    const ip = numberToIP(value);
+    if (!leasedIPs.has(ip) && !conflictIPs.has(ip) && !usedByDHCP.has(ip)) {
+      return { ip, conflicts };
+    }
+  }
+
+  const total = end - start + 1;
+  const leasedCount = [...new Set([...leasedIPs, ...usedByDHCP])]
+    .filter((ip) => ipToNumber(ip) >= start && ipToNumber(ip) <= end).length;
+  return {
+    conflicts,
+    error: `地址池已耗尽：共 ${total} 个地址，${leasedCount} 个已租出，${conflictIPs.size} 个与手动配置的地址冲突`
+  };
+}
+
+/**
+ * 写入（或续租）一条租约，同时清掉已过期的租约
+ * @param config DHCP配置
+ * @param lease 新租约
+ * @returns 更新后的配置
+ */
+export function upsertLease(config: DHCPServerConfig, lease: DHCPLease): DHCPServerConfig {
+  const leases = config.leases.filter(
+    (existing) => existing.mac !== lease.mac && existing.ip !== lease.ip && existing.expiresAt > lease.leasedAt
+  );
+  return { ...config, leases: [...leases, lease] };
+}
+
+/**
+ * 提供DHCP服务的接口IP：路由器为配置的接口（默认LAN），服务器为本机IP
+ * @param device 路由器或服务器
+ * @returns 服务接口IP；路由器找不到接口时返回设备主IP
+ */
+export function getDHCPServiceIP(device: Device): string {
+  if (device.type !== 'router') {
+    return device.ip;
+  }
+  const name = device.dhcpServer?.interfaceName || 'LAN';
+  return device.interfaces.find((iface) => iface.name === name)?.ip || device.ip;
+}
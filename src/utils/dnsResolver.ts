@@ -1,4 +1,5 @@
-import { Device, DNSQuery, DNSQueryResult } from '../types';
+import { Device, DNSQuery, DNSQueryResult, DNSRecord } from '../types';
+import { isIPv6Address, isSameAddress } from './ipv6Utils';
 
 /**
  * DNS解析器
@@ -21,7 +22,7 @@ export class DNSResolver {
 
     // 1. 查找DNS服务器
     const dnsServer = this.devices.find(
-      (d) => d.type === 'dns' && d.ip === query.dnsServerIP
+      (d) => d.type === 'dns' && (d.ip === query.dnsServerIP || isSameAddress(d.ipv6, query.dnsServerIP))
     );
 
     if (!dnsServer) {
@@ -58,10 +59,12 @@ export class DNSResolver {
       };
     }
 
-    // 3. 查找匹配的DNS记录
-    const record = dnsServer.dnsRecords.find(
-      (r) => r.domain.toLowerCase() === query.domain.toLowerCase()
+    // 3. 查找匹配的DNS记录（双栈主机有AAAA记录时优先使用IPv6）
+    const sourceDevice = this.devices.find(
+      (d) => d.ip === query.sourceIP || isSameAddress(d.ipv6, query.sourceIP)
     );
+    const preferIPv6 = !!sourceDevice?.ipv6;
+    const record = DNSResolver.selectRecord(dnsServer.dnsRecords, query.domain, preferIPv6);
 
     if (!record) {
       steps.push({
@@ -82,8 +85,17 @@ export class DNSResolver {
       details: `${record.domain} → ${record.ip} (${record.type}记录)`,
     });
 
+    if (record.type === 'AAAA') {
+      steps.push({
+        action: '🌐 优先使用IPv6',
+        details: `${sourceDevice?.name || query.sourceIP} 是双栈主机，域名同时有AAAA记录时优先连接IPv6地址`,
+      });
+    }
+
     // 4. 验证目标IP对应的设备是否存在
-    const targetDevice = this.devices.find((d) => d.ip === record.ip);
+    const targetDevice = this.devices.find(
+      (d) => d.ip === record.ip || isSameAddress(d.ipv6, record.ip)
+    );
 
     if (!targetDevice) {
       steps.push({
@@ -123,6 +135,28 @@ export class DNSResolver {
     return domainRegex.test(domain);
   }
 
+  /**
+   * 选出域名的解析记录
+   * @param records DNS服务器上的记录
+   * @param domain 查询的域名
+   * @param preferIPv6 查询方是否为双栈主机（有AAAA记录时优先返回）
+   */
+  static selectRecord(records: DNSRecord[], domain: string, preferIPv6: boolean): DNSRecord | undefined {
+    const matches = records.filter((r) => r.domain.toLowerCase() === domain.toLowerCase());
+    return (
+      (preferIPv6 ? matches.find((r) => r.type === 'AAAA') : undefined) ||
+      matches.find((r) => r.type === 'A') ||
+      matches[0]
+    );
+  }
+
+  /**
+   * 验证记录地址格式（A记录为IPv4地址，AAAA记录为IPv6地址）
+   */
+  static validateRecordIP(ip: string, type: DNSRecord['type']): boolean {
+    return type === 'AAAA' ? isIPv6Address(ip) : DNSResolver.validateIP(ip);
+  }
+
   /**
    * 验证IP地址格式
    */
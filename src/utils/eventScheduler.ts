@@ -0,0 +1,185 @@
+/**
+ * 离散事件调度器
+ *
+ * 所有模拟（Ping、DNS、HTTP……）都把要发生的事情（报文出发、结果就绪、通信结束）按虚拟时间排进同一个事件队列，
+ * 调度器按时间顺序逐个触发并通知订阅者。暂停时虚拟时间停止；单步时直接跳到下一个事件；
+ * 倍速改变虚拟时间与真实时间的比例；也可以不等待，立即把队列执行完（用于批改等无界面检查）
+ */
+
+export interface ScheduledEvent<T> {
+  id: number;
+  time: number; // 触发的虚拟时间（毫秒）
+  flowId: string; // 所属的通信流，用于按流订阅或取消
+  payload: T;
+  action?: () => void; // 触发时执行（在通知订阅者之前）
+}
+
+export interface EventSchedulerState {
+  time: number;
+  paused: boolean;
+  speed: number;
+  pending: number;
+}
+
+export interface EventScheduler<T> {
+  schedule: (delay: number, flowId: string, payload: T, action?: () => void) => ScheduledEvent<T>;
+  cancelFlow: (flowId: string) => void;
+  subscribe: (listener: (event: ScheduledEvent<T>) => void) => () => void;
+  lastEvent: (flowId: string) => ScheduledEvent<T> | undefined;
+  now: () => number;
+  pause: () => void;
+  resume: () => void;
+  step: () => ScheduledEvent<T>[];
+  trigger: (event: ScheduledEvent<T>) => void;
+  setSpeed: (speed: number) => void;
+  runToCompletion: () => void;
+  getState: () => EventSchedulerState;
+}
+
+// 防止事件在触发时无限地安排新事件
+const MAX_EVENTS_PER_RUN = 10000;
+
+/**
+ * 创建一个事件调度器
+ * @param options.setTimer / clearTimer 真实时间的定时器（默认 setTimeout，可替换以便测试）
+ * @param options.clock 真实时间（毫秒）
+ */
+export function createEventScheduler<T>(options: {
+  setTimer?: (callback: () => void, ms: number) => unknown;
+  clearTimer?: (timer: unknown) => void;
+  clock?: () => number;
+} = {}): EventScheduler<T> {
+  const setTimer = options.setTimer ?? ((callback: () => void, ms: number) => setTimeout(callback, ms));
+  const clearTimer = options.clearTimer ?? ((timer: unknown) => clearTimeout(timer as ReturnType<typeof setTimeout>));
+  const clock = options.clock ?? (() => Date.now());
+
+  let queue: ScheduledEvent<T>[] = [];
+  const listeners = new Set<(event: ScheduledEvent<T>) => void>();
+  // 每个通信流最近触发的事件：订阅者晚于事件挂载时（如动画组件在结果发布后才渲染）据此补上当前状态
+  const lastFired = new Map<string, ScheduledEvent<T>>();
+  let nextId = 1;
+  let paused = false;
+  let speed = 1;
+  // 虚拟时间 = anchorVirtual + (真实时间 - anchorReal) × 倍速（暂停时不走）
+  let anchorVirtual = 0;
+  let anchorReal = clock();
+  let timer: unknown = null;
+
+  const now = () => (paused ? anchorVirtual : anchorVirtual + (clock() - anchorReal) * speed);
+
+  const setAnchor = (virtualTime: number) => {
+    anchorVirtual = virtualTime;
+    anchorReal = clock();
+  };
+
+  const fire = (event: ScheduledEvent<T>) => {
+    queue = queue.filter((e) => e !== event);
+    // 单步或立即执行时虚拟时间直接跳到事件时间
+    setAnchor(Math.max(event.time, now()));
+    lastFired.set(event.flowId, event);
+    event.action?.();
+    listeners.forEach((listener) => listener(event));
+  };
+
+  // 按真实时间等待队首事件
+  const arm = () => {
+    if (timer !== null) {
+      clearTimer(timer);
+      timer = null;
+    }
+    if (paused || queue.length === 0) return;
+    const wait = Math.max(0, (queue[0].time - now()) / speed);
+    timer = setTimer(() => {
+      timer = null;
+      const current = now();
+      let count = 0;
+      while (!paused && queue.length > 0 && queue[0].time <= current && count++ < MAX_EVENTS_PER_RUN) {
+        fire(queue[0]);
+      }
+      arm();
+    }, wait);
+  };
+
+  const insert = (event: ScheduledEvent<T>) => {
+    // 同一时间的事件按安排的先后触发
+    const index = queue.findIndex((e) => e.time > event.time);
+    queue = index < 0 ? [...queue, event] : [...queue.slice(0, index), event, ...queue.slice(index)];
+  };
+
+  return {
+    schedule: (delay, flowId, payload, action) => {
+      const event: ScheduledEvent<T> = { id: nextId++, time: now() + Math.max(0, delay), flowId, payload, action };
+      insert(event);
+      arm();
+      return event;
+    },
+
+    cancelFlow: (flowId) => {
+      queue = queue.filter((e) => e.flowId !== flowId);
+      arm();
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    lastEvent: (flowId) => lastFired.get(flowId),
+
+    now,
+
+    pause: () => {
+      if (paused) return;
+      setAnchor(now());
+      paused = true;
+      arm();
+    },
+
+    resume: () => {
+      if (!paused) return;
+      paused = false;
+      setAnchor(anchorVirtual);
+      arm();
+    },
+
+    // 跳到下一个事件的时间，触发这一时刻的所有事件
+    step: () => {
+      if (queue.length === 0) return [];
+      const time = queue[0].time;
+      const fired: ScheduledEvent<T>[] = [];
+      while (queue.length > 0 && queue[0].time === time) {
+        fired.push(queue[0]);
+        fire(queue[0]);
+      }
+      arm();
+      return fired;
+    },
+
+    // 立即触发队列中的某个事件（不触发排在它前面的其他事件），如暂停时让新通信流先公布结果
+    trigger: (event) => {
+      if (!queue.includes(event)) return;
+      fire(event);
+      arm();
+    },
+
+    setSpeed: (value) => {
+      if (!(value > 0)) return;
+      setAnchor(now());
+      speed = value;
+      arm();
+    },
+
+    // 不等待真实时间，按顺序立即触发所有事件（包括触发过程中新安排的事件）
+    runToCompletion: () => {
+      let count = 0;
+      while (queue.length > 0 && count++ < MAX_EVENTS_PER_RUN) {
+        fire(queue[0]);
+      }
+      arm();
+    },
+
+    getState: () => ({ time: now(), paused, speed, pending: queue.length })
+  };
+}
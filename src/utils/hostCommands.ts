@@ -0,0 +1,381 @@
+/**
+ * 终端设备命令提示符工具函数（仿 Windows）
+ *
+ * 解析 ipconfig、ping、tracert、nslookup、arp、curl 等命令，
+ * 生成与 Windows 命令行一致的输出；需要发送报文的命令交给控制台调用 store 中的模拟（画布上同步播放动画）
+ */
+
+import { Connection, Device, DNSQueryResult, HTTPResponse, PingStatistics, SimulationResult, TracerouteHop } from '../types';
+import { formatARPTable, getInterfaceMAC } from './arpUtils';
+import { HTTPHandler } from './httpHandler';
+import { isIPv4Format } from './ipValidator';
+import { getLinkLocalAddress, isIPv6Address } from './ipv6Utils';
+import { findConnectionBetween, getLinkProperties } from './linkUtils';
+import { PING_DEFAULT_COUNT, PING_MAX_COUNT, formatPingReport } from './pingUtils';
+import { DEFAULT_SUBNET_MASK } from './subnetUtils';
+import { displayWidth } from './terminalUtils';
+
+// 与路由追踪的最大跳数一致
+const TRACERT_MAX_HOPS = 10;
+
+// 需要发送报文的命令：由控制台调用 store 中的模拟
+export type HostCommandEffect =
+  | { type: 'ping'; host: string; count: number; dnsServerIP?: string }
+  | { type: 'tracert'; host: string; dnsServerIP?: string }
+  | { type: 'nslookup'; domain: string; serverIP: string }
+  | { type: 'curl'; host: string; port: number; url: string; includeHeaders: boolean; dnsServerIP?: string }
+  | { type: 'clear-arp' };
+
+export interface HostCommandResult {
+  output: string[];
+  effect?: HostCommandEffect;
+  clearScreen?: boolean;
+}
+
+export interface HostCommandContext {
+  device: Device; // 执行命令的终端设备
+  devices: Device[];
+  connections: Connection[];
+}
+
+// ipconfig 的一行：“   IPv4 地址 . . . . . . . . . . . . : 192.168.1.10”
+const field = (label: string, value: string) => {
+  const padding = Math.max(2, 34 - displayWidth(label));
+  return `   ${label} ${'. '.repeat(Math.floor(padding / 2))}${padding % 2 ? ' ' : ''}: ${value}`;
+};
+
+/**
+ * 命令提示符，如 C:\Users\PC1>
+ * @param device 终端设备
+ */
+export function getHostPrompt(device: Device): string {
+  return `C:\\Users\\${device.name}>`;
+}
+
+/**
+ * ipconfig 和 ipconfig /all 的输出
+ * @param context 命令上下文
+ * @param all 是否显示完整信息（/all）
+ */
+export function formatIPConfig(context: HostCommandContext, all: boolean): string[] {
+  const { device, connections } = context;
+  const iface = device.interfaces?.[0];
+  const connected = connections.some((c) => c.source === device.id || c.target === device.id);
+  const lines = ['', 'Windows IP 配置', ''];
+
+  if (all) {
+    lines.push(
+      field('主机名', device.name),
+      field('主 DNS 后缀', ''),
+      field('节点类型', '混合'),
+      field('IP 路由已启用', '否'),
+      ''
+    );
+  }
+
+  lines.push('以太网适配器 以太网:', '');
+  if (!connected) {
+    lines.push(field('媒体状态', '媒体已断开连接'), field('连接特定的 DNS 后缀', ''));
+    if (all) {
+      lines.push(
+        field('描述', 'Realtek PCIe GbE Family Controller'),
+        field('物理地址', getInterfaceMAC(device, iface).replace(/:/g, '-').toUpperCase())
+      );
+    }
+    return lines;
+  }
+
+  const dhcp = device.ipMode === 'dhcp';
+  const preferred = all ? '(首选)' : '';
+  lines.push(field('连接特定的 DNS 后缀', ''));
+  if (all) {
+    lines.push(
+      field('描述', 'Realtek PCIe GbE Family Controller'),
+      field('物理地址', getInterfaceMAC(device, iface).replace(/:/g, '-').toUpperCase()),
+      field('DHCP 已启用', dhcp ? '是' : '否'),
+      field('自动配置已启用', '是')
+    );
+  }
+  if (device.ipv6) {
+    lines.push(field('IPv6 地址', `${device.ipv6}${preferred}`));
+    lines.push(field('本地链接 IPv6 地址', `${getLinkLocalAddress(device, iface)}%${iface ? 3 : 1}${preferred}`));
+  }
+  if (device.ip) {
+    lines.push(
+      field('IPv4 地址', `${device.ip}${preferred}`),
+      field('子网掩码', iface?.subnetMask || DEFAULT_SUBNET_MASK)
+    );
+  } else if (dhcp) {
+    // 还没有获得DHCP租约：Windows会用MAC的最后两个字节自动配置 169.254.x.x
+    const [high, low] = getInterfaceMAC(device, iface).split(':').slice(-2).map((part) => parseInt(part, 16));
+    lines.push(field('自动配置 IPv4 地址', `169.254.${high}.${low}${preferred}`), field('子网掩码', '255.255.0.0'));
+  }
+  if (all && dhcp && device.dhcpLease) {
+    lines.push(
+      field('获得租约的时间', new Date(device.dhcpLease.leasedAt).toLocaleString('zh-CN')),
+      field('租约过期的时间', new Date(device.dhcpLease.expiresAt).toLocaleString('zh-CN'))
+    );
+  }
+  // 双栈主机的默认网关：IPv6网关在上一行，IPv4网关在下一行对齐
+  const gateways = [device.ipv6Gateway, device.gateway].filter((gateway): gateway is string => !!gateway);
+  lines.push(field('默认网关', gateways[0] || ''));
+  gateways.slice(1).forEach((gateway) => lines.push(`${' '.repeat(displayWidth(field('默认网关', '')))}${gateway}`));
+  if (all) {
+    if (dhcp && device.dhcpLease) lines.push(field('DHCP 服务器', device.dhcpLease.server));
+    lines.push(field('DNS 服务器', device.dnsServer || ''));
+    lines.push(field('TCPIP 上的 NetBIOS', '已启用'));
+  }
+  return lines;
+}
+
+/**
+ * 仿 Windows ping 的输出（按域名 ping 时第一行同时显示域名和解析出的地址）
+ * @param stats 连续Ping的统计
+ * @param host 输入的域名
+ */
+export function formatWindowsPing(stats: PingStatistics, host?: string): string[] {
+  const lines = formatPingReport(stats).split('\n');
+  if (host) {
+    lines[0] = `正在 Ping ${host} [${stats.destIP}] 具有 ${stats.bytes} 字节的数据:`;
+  }
+  return ['', ...lines];
+}
+
+/**
+ * 仿 Windows tracert 的输出：每跳三次探测的往返时间（按链路时延计算）和应答的路由器
+ * @param context 命令上下文
+ * @param destIP 目标地址
+ * @param hops 路由追踪的每一跳
+ * @param host 输入的域名
+ */
+export function formatWindowsTracert(context: HostCommandContext, destIP: string, hops: TracerouteHop[], host?: string): string[] {
+  const lines = host
+    ? ['', `通过最多 ${TRACERT_MAX_HOPS} 个跃点跟踪`, `到 ${host} [${destIP}] 的路由:`, '']
+    : ['', `通过最多 ${TRACERT_MAX_HOPS} 个跃点跟踪到 ${destIP} 的路由`, ''];
+
+  const roundTrip = (path: string[]) => path.slice(1).reduce((total, name, i) => {
+    const connection = findConnectionBetween(path[i], name, context.devices, context.connections);
+    return total + (connection ? getLinkProperties(connection, context.devices).latency * 2 : 0);
+  }, 0);
+  const formatTime = (ms: number) => (ms < 1 ? '  <1 毫秒' : `${String(Math.round(ms)).padStart(4)} ms  `);
+
+  hops.forEach((hop) => {
+    const ttl = String(hop.ttl).padStart(3);
+    if (hop.status === 'timeout') {
+      lines.push(`${ttl}     *        *        *     请求超时。`);
+    } else if (hop.status === 'unreachable') {
+      lines.push(`${ttl}  ${hop.ip}  报告: 无法访问目标网。`);
+    } else {
+      const time = formatTime(roundTrip(hop.probePath));
+      lines.push(`${ttl}  ${time} ${time} ${time} ${hop.device} [${hop.ip}]`);
+    }
+  });
+
+  lines.push('', '跟踪完成。');
+  return lines;
+}
+
+/**
+ * 仿 Windows nslookup 的输出
+ * @param context 命令上下文
+ * @param serverIP 查询的DNS服务器
+ * @param domain 查询的域名
+ * @param dnsResult DNS服务器的解析结果；查询报文没能往返时为 null（请求超时）
+ */
+export function formatNslookup(context: HostCommandContext, serverIP: string, domain: string, dnsResult: DNSQueryResult | null): string[] {
+  if (!dnsResult) {
+    const timeout = ['DNS request timed out.', '    timeout was 2 seconds.'];
+    return [...timeout, '服务器:  UnKnown', `Address:  ${serverIP}`, '', ...timeout, '*** 请求 UnKnown 超时'];
+  }
+  const serverName = context.devices.find((d) => d.type === 'dns' && d.ip === serverIP)?.name || 'UnKnown';
+  const header = [`服务器:  ${serverName}`, `Address:  ${serverIP}`, ''];
+  if (!dnsResult.resolvedIP) {
+    return [...header, `*** ${serverName} 找不到 ${domain}: Non-existent domain`];
+  }
+  return [...header, `名称:    ${domain}`, `Address:  ${dnsResult.resolvedIP}`];
+}
+
+/**
+ * 仿 curl 的输出：成功时输出网页内容（-i 同时输出响应头），连接失败时输出 curl 的错误信息
+ * @param host URL中的主机
+ * @param port 目标端口
+ * @param response Web服务器的响应
+ * @param simulation HTTP报文往返的模拟结果
+ * @param includeHeaders 是否输出响应头（-i）
+ */
+export function formatCurlResult(
+  host: string,
+  port: number,
+  response: HTTPResponse,
+  simulation: SimulationResult,
+  includeHeaders: boolean
+): string[] {
+  // 目标不是Web服务器或端口没有监听：对方拒绝连接
+  if (response.statusCode === 503 && (simulation.success || simulation.path.length === 0)) {
+    return [`curl: (7) Failed to connect to ${host} port ${port} after 2 ms: Connection refused`];
+  }
+  if (!simulation.success || response.statusCode === 404) {
+    return [`curl: (28) Failed to connect to ${host} port ${port} after 21045 ms: Timed out`];
+  }
+  const log = includeHeaders ? HTTPHandler.formatResponseLog(response) : response.content || '';
+  return log.split('\n');
+}
+
+const PING_USAGE = [
+  '',
+  '用法: ping [-n count] 目标名称',
+  '',
+  '选项:',
+  '    -n count       要发送的回显请求数。'
+];
+
+const HELP = [
+  '有关某个命令的详细信息，请键入 命令名 /?',
+  'ARP        显示和修改 IP 到物理地址的转换表（arp -a、arp -d）。',
+  'CLS        清除屏幕。',
+  'CURL       访问网页（如 curl http://www.example.com）。',
+  'IPCONFIG   显示 IP 配置（ipconfig /all 显示完整信息）。',
+  'NSLOOKUP   查询域名对应的 IP 地址（nslookup 域名 [DNS服务器]）。',
+  'PING       测试与目标主机的连通性（ping [-n 次数] 目标）。',
+  'TRACERT    跟踪到目标主机经过的路由器。'
+];
+
+/**
+ * ping/tracert 无法解析目标名称时的提示
+ * @param command 命令
+ * @param host 输入的目标名称
+ */
+export function formatUnresolvedHost(command: 'ping' | 'tracert', host: string): string[] {
+  return command === 'ping' ? [`Ping 请求找不到主机 ${host}。请检查该名称，然后重试。`] : [`无法解析目标系统名称 ${host}。`];
+}
+
+// ping/tracert 的目标可以是域名：由控制台先向本机配置的DNS服务器查询；没有配置DNS服务器时无法解析
+const resolveTarget = (context: HostCommandContext, target: string): { host: string; dnsServerIP?: string } | null => {
+  if (isIPv4Format(target) || isIPv6Address(target)) {
+    return { host: target };
+  }
+  return context.device.dnsServer ? { host: target, dnsServerIP: context.device.dnsServer } : null;
+};
+
+const runPing = (context: HostCommandContext, args: string[]): HostCommandResult => {
+  let count = PING_DEFAULT_COUNT;
+  let target = '';
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.toLowerCase() === '-n') {
+      const value = Number(args[++i]);
+      if (!Number.isInteger(value) || value < 1 || value > PING_MAX_COUNT) {
+        return { output: [`错误的值: 选项 -n 的值有误，有效范围从 1 到 ${PING_MAX_COUNT}。`] };
+      }
+      count = value;
+    } else if (arg.startsWith('-') || arg.startsWith('/')) {
+      return { output: [`选项 ${arg} 不正确。`, ...PING_USAGE] };
+    } else {
+      target = arg;
+    }
+  }
+  if (!target) {
+    return { output: ['必须指定 IP 地址。', ...PING_USAGE] };
+  }
+  const resolved = resolveTarget(context, target);
+  if (!resolved) {
+    return { output: formatUnresolvedHost('ping', target) };
+  }
+  if (!context.device.ip && !context.device.ipv6) {
+    return { output: ['PING: 传输失败。常见故障。'] };
+  }
+  return { output: [], effect: { type: 'ping', count, ...resolved } };
+};
+
+const runTracert = (context: HostCommandContext, args: string[]): HostCommandResult => {
+  const target = args.find((arg) => !arg.startsWith('-'));
+  if (!target) {
+    return { output: ['', '用法: tracert 目标名称'] };
+  }
+  const resolved = resolveTarget(context, target);
+  if (!resolved) {
+    return { output: formatUnresolvedHost('tracert', target) };
+  }
+  return { output: [], effect: { type: 'tracert', ...resolved } };
+};
+
+const runNslookup = (context: HostCommandContext, args: string[]): HostCommandResult => {
+  const [domain, server] = args;
+  if (!domain) {
+    return { output: ['用法: nslookup 域名 [DNS服务器]'] };
+  }
+  const serverIP = server || context.device.dnsServer;
+  if (!serverIP) {
+    return { output: ['*** 默认服务器不可用（本机没有配置DNS服务器）', '💡 可以指定DNS服务器：nslookup 域名 DNS服务器地址'] };
+  }
+  return { output: [], effect: { type: 'nslookup', domain, serverIP } };
+};
+
+const runCurl = (context: HostCommandContext, args: string[]): HostCommandResult => {
+  const includeHeaders = args.some((arg) => arg === '-i' || arg === '--include');
+  const target = args.find((arg) => !arg.startsWith('-'));
+  if (!target) {
+    return { output: ['curl: try \'curl --help\' for more information'] };
+  }
+  const url = /^[a-z]+:\/\//i.test(target) ? target : `http://${target}`;
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { output: [`curl: (3) URL using bad/illegal format or missing URL`] };
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return { output: [`curl: (1) Protocol "${parsed.protocol.replace(':', '')}" not supported`] };
+  }
+  const host = HTTPHandler.getURLHost(parsed);
+  const port = parsed.port ? Number(parsed.port) : parsed.protocol === 'https:' ? 443 : 80;
+  if (HTTPHandler.checkIsIPAddress(host)) {
+    return { output: [], effect: { type: 'curl', host, port, url, includeHeaders } };
+  }
+  if (!context.device.dnsServer) {
+    return { output: [`curl: (6) Could not resolve host: ${host}`] };
+  }
+  return { output: [], effect: { type: 'curl', host, port, url, includeHeaders, dnsServerIP: context.device.dnsServer } };
+};
+
+/**
+ * 执行一行命令（命令和选项不区分大小写）
+ * @param context 命令上下文
+ * @param line 输入的命令
+ * @returns 立即输出的内容，以及需要交给 store 执行的模拟
+ */
+export function executeHostCommand(context: HostCommandContext, line: string): HostCommandResult {
+  const [command, ...args] = line.trim().split(/\s+/);
+  if (!command) {
+    return { output: [] };
+  }
+  switch (command.toLowerCase()) {
+    case 'ipconfig': {
+      const option = args[0]?.toLowerCase();
+      if (option && option !== '/all') {
+        return { output: ['', `错误: 无法识别或不完整的命令行。`, '', '用法: ipconfig [/all]'] };
+      }
+      return { output: formatIPConfig(context, option === '/all') };
+    }
+    case 'ping':
+      return runPing(context, args);
+    case 'tracert':
+      return runTracert(context, args);
+    case 'nslookup':
+      return runNslookup(context, args);
+    case 'arp': {
+      const option = args[0]?.toLowerCase();
+      if (option === '-a' || option === '-g') return { output: ['', ...formatARPTable(context.device).split('\n')] };
+      if (option === '-d') return { output: [], effect: { type: 'clear-arp' } };
+      return { output: ['', '显示和修改地址解析协议(ARP)使用的“IP 到物理”地址转换表。', '', 'ARP -a', 'ARP -d'] };
+    }
+    case 'curl':
+      return runCurl(context, args);
+    case 'cls':
+      return { output: [], clearScreen: true };
+    case 'help':
+      return { output: HELP };
+    default:
+      return { output: [`'${command}' 不是内部或外部命令，也不是可运行的程序`, '或批处理文件。'] };
+  }
+}
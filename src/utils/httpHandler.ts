@@ -1,5 +1,7 @@
 import { Device, HTTPRequest, HTTPResponse, DNSQuery, DNSQueryResult } from '../types';
 import { DNSResolver } from './dnsResolver';
+import { resolvePortForward } from './natUtils';
+import { isIPv6Address, isSameAddress, stripIPv6Brackets } from './ipv6Utils';
 
 /**
  * HTTP请求处理器
@@ -18,6 +20,9 @@ export class HTTPHandler {
    * 判断输入是否为IP地址
    */
   private static isIPAddress(input: string): boolean {
+    // IPv6地址（URL中写成 [2001:db8::10]）
+    if (isIPv6Address(stripIPv6Brackets(input))) return true;
+
     // 匹配IPv4地址格式
     const ipPattern = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
     const match = input.match(ipPattern);
@@ -91,7 +96,8 @@ export class HTTPHandler {
     }
 
     // 2. 使用IP直接处理HTTP请求
-    return this.validateAndFetchWebServer(request.targetIP, request.port || 80, request.targetIP);
+    const targetIP = stripIPv6Brackets(request.targetIP);
+    return this.validateAndFetchWebServer(targetIP, request.port || 80, targetIP);
   }
 
   /**
@@ -106,14 +112,21 @@ export class HTTPHandler {
     requestPort: number,
     displayName: string
   ): HTTPResponse {
+    // 0. 访问NAT路由器的外网地址：按端口转发规则转给内网主机
+    const portForward = resolvePortForward(this.devices, targetIP, 'TCP', requestPort);
+    if (portForward) {
+      targetIP = portForward.rule.insideIP;
+      requestPort = portForward.rule.insidePort;
+    }
+
     // 1. 查找Web服务器
     const webServer = this.devices.find(
-      (d) => d.type === 'web' && d.ip === targetIP
+      (d) => d.type === 'web' && (d.ip === targetIP || isSameAddress(d.ipv6, targetIP))
     );
 
     if (!webServer) {
       // ✅ 优化：区分"IP不存在"和"IP存在但不是Web服务器"
-      const existingDevice = this.devices.find((d) => d.ip === targetIP);
+      const existingDevice = this.devices.find((d) => d.ip === targetIP || isSameAddress(d.ipv6, targetIP));
 
       if (!existingDevice) {
         // IP地址在网络中不存在
@@ -175,6 +188,13 @@ export class HTTPHandler {
     return HTTPHandler.isIPAddress(input);
   }
 
+  /**
+   * 从URL中取出主机部分（IPv6地址去掉方括号，如 http://[2001:db8::10]:8080/ → 2001:db8::10）
+   */
+  static getURLHost(url: URL): string {
+    return stripIPv6Brackets(url.hostname);
+  }
+
   /**
    * 获取所有Web服务器
    */
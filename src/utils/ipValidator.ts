@@ -2,12 +2,33 @@
  * IP地址验证工具函数
  */
 
+import { Device, NetworkInterface } from '../types';
+import { DEFAULT_SUBNET_MASK, calculateSubnet, ipToNumber, isInSameSubnet, maskToCIDR, numberToIP } from './subnetUtils';
+import {
+  calculateIPv6Prefix,
+  getLinkLocalAddress,
+  isInSameIPv6Prefix,
+  isLinkLocalIPv6,
+  isSameAddress,
+  parseIPv6
+} from './ipv6Utils';
+
+/**
+ * 是否为点分十进制IPv4地址格式（只检查格式和范围，网络地址可以以0结尾，如 192.168.1.0）
+ * @param value 待检查的字符串
+ * @returns 是否为IPv4地址格式
+ */
+export function isIPv4Format(value: string): boolean {
+  return /^\d{1,3}(\.\d{1,3}){3}$/.test(value) && value.split('.').every((part) => Number(part) <= 255);
+}
+
 /**
  * 验证IP地址格式和范围
  * @param ip IP地址字符串
+ * @param subnetMask 地址所在网段的子网掩码（用于判断网段地址和广播地址，默认 /24）
  * @returns { valid: boolean, error?: string }
  */
-export function validateIPAddress(ip: string): { valid: boolean; error?: string } {
+export function validateIPAddress(ip: string, subnetMask: string = DEFAULT_SUBNET_MASK): { valid: boolean; error?: string } {
   // 空字符串检查
   if (!ip || ip.trim() === '') {
     return { valid: false, error: 'IP地址不能为空' };
@@ -54,13 +75,17 @@ export function validateIPAddress(ip: string): { valid: boolean; error?: string
     return { valid: false, error: '无效的IP地址（255开头为广播地址）' };
   }
 
-  // C类教学场景下：最后一段0通常为网段地址，255为广播地址
-  if (segments[3] === 0) {
-    return { valid: false, error: 'IP地址的最后一段不能为0（如 192.168.1.0 是网段地址，不能分配给设备）' };
-  }
-
-  if (segments[3] === 255) {
-    return { valid: false, error: 'IP地址的最后一段不能为255（如 192.168.1.255 是广播地址，不能分配给设备）' };
+  // 按子网掩码判断网段地址和广播地址（/24 时即最后一段为0或255）；/31 点到点链路的两个地址都可用
+  const prefixLength = maskToCIDR(subnetMask);
+  if (prefixLength < 31) {
+    const network = calculateSubnet(ip, subnetMask);
+    const broadcast = numberToIP((ipToNumber(network) | ~ipToNumber(subnetMask)) >>> 0);
+    if (ip === network) {
+      return { valid: false, error: `${ip} 是网段 ${network}/${prefixLength} 的网段地址，不能分配给设备` };
+    }
+    if (ip === broadcast) {
+      return { valid: false, error: `${ip} 是网段 ${network}/${prefixLength} 的广播地址，不能分配给设备` };
+    }
   }
 
   return { valid: true };
@@ -106,3 +131,154 @@ export function validateIPInput(ip: string): { warning?: string } {
 
   return {};
 }
+
+/**
+ * 默认网关检查（终端设备：PC/DNS/Web服务器）
+ * 路由模拟和设备编辑器共用同一套规则，保证提示一致
+ * @param ip 终端设备IP
+ * @param subnetMask 终端设备子网掩码
+ * @param gateway 配置的默认网关
+ * @param devices 当前所有设备
+ * @returns { valid, error?, router?, iface? } 校验通过时返回网关所在的路由器和接口
+ */
+export function validateGateway(
+  ip: string,
+  subnetMask: string,
+  gateway: string | undefined,
+  devices: Device[]
+): { valid: boolean; error?: string; router?: Device; iface?: NetworkInterface } {
+  if (!gateway || gateway.trim() === '') {
+    return { valid: false, error: '未配置默认网关，数据包不知道该交给哪台路由器' };
+  }
+
+  const format = validateIPAddress(gateway);
+  if (!format.valid) {
+    return { valid: false, error: `默认网关格式错误：${format.error}` };
+  }
+
+  if (gateway === ip) {
+    return { valid: false, error: `默认网关 ${gateway} 不能是本机IP` };
+  }
+
+  if (!isInSameSubnet(ip, subnetMask, gateway)) {
+    return {
+      valid: false,
+      error: `默认网关 ${gateway} 不在本机网段 ${calculateSubnet(ip, subnetMask)}/${maskToCIDR(subnetMask)} 内`
+    };
+  }
+
+  for (const device of devices) {
+    if (device.type !== 'router') continue;
+    const iface = device.interfaces?.find((i) => i.ip === gateway);
+    if (iface) {
+      return { valid: true, router: device, iface };
+    }
+  }
+
+  const owner = devices.find((d) => d.ip === gateway);
+  if (owner) {
+    return { valid: false, error: `默认网关 ${gateway} 是 ${owner.name} 的地址，不是路由器接口` };
+  }
+
+  return { valid: false, error: `默认网关 ${gateway} 不存在，没有任何路由器接口使用这个IP` };
+}
+
+/**
+ * 验证IPv6地址格式（用于手动配置接口或主机地址）
+ * @param ip IPv6地址字符串
+ * @returns { valid: boolean, error?: string }
+ */
+export function validateIPv6Address(ip: string): { valid: boolean; error?: string } {
+  if (!ip || ip.trim() === '') {
+    return { valid: false, error: 'IPv6地址不能为空' };
+  }
+
+  const groups = parseIPv6(ip);
+  if (!groups) {
+    return {
+      valid: false,
+      error: 'IPv6地址格式错误，应由8组1~4位十六进制数组成，用冒号分隔，连续的0可以用一次 :: 省略（如 2001:db8:1::10）'
+    };
+  }
+
+  if (groups.every((group) => group === 0)) {
+    return { valid: false, error: ':: 是未指定地址（相当于IPv4的0.0.0.0），不能分配给设备' };
+  }
+
+  if (groups.slice(0, 7).every((group) => group === 0) && groups[7] === 1) {
+    return { valid: false, error: '::1 是IPv6回环地址（相当于127.0.0.1），请使用其他地址' };
+  }
+
+  if ((groups[0] & 0xff00) === 0xff00) {
+    return { valid: false, error: 'ff00::/8 是组播地址，不能分配给设备' };
+  }
+
+  if (isLinkLocalIPv6(ip)) {
+    return { valid: false, error: 'fe80:: 开头是链路本地地址，由接口MAC自动生成，这里请填写全局单播地址（如 2001:db8:1::10）' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * 验证IPv6前缀长度
+ * @param prefixLength 前缀长度
+ * @returns { valid: boolean, error?: string }
+ */
+export function validateIPv6PrefixLength(prefixLength: number): { valid: boolean; error?: string } {
+  if (!Number.isInteger(prefixLength) || prefixLength < 1 || prefixLength > 128) {
+    return { valid: false, error: 'IPv6前缀长度必须是 1~128 之间的整数（局域网通常为 /64）' };
+  }
+  return { valid: true };
+}
+
+/**
+ * IPv6默认网关检查（终端设备）
+ * 网关可以是路由器接口的链路本地地址（SLAAC从路由器通告中学到的就是它），也可以是同一前缀内的全局地址
+ * @param ipv6 终端设备IPv6地址
+ * @param prefixLength 终端设备前缀长度
+ * @param gateway 配置的IPv6默认网关
+ * @param devices 当前所有设备
+ * @returns { valid, error?, router?, iface? } 校验通过时返回网关所在的路由器和接口
+ */
+export function validateIPv6Gateway(
+  ipv6: string,
+  prefixLength: number,
+  gateway: string | undefined,
+  devices: Device[]
+): { valid: boolean; error?: string; router?: Device; iface?: NetworkInterface } {
+  if (!gateway || gateway.trim() === '') {
+    return { valid: false, error: '未配置IPv6默认网关，IPv6报文不知道该交给哪台路由器' };
+  }
+
+  if (!parseIPv6(gateway)) {
+    return { valid: false, error: `IPv6默认网关 ${gateway} 格式错误` };
+  }
+
+  const linkLocal = isLinkLocalIPv6(gateway);
+  if (!linkLocal && isSameAddress(gateway, ipv6)) {
+    return { valid: false, error: `IPv6默认网关 ${gateway} 不能是本机地址` };
+  }
+
+  if (!linkLocal && !isInSameIPv6Prefix(ipv6, prefixLength, gateway)) {
+    return {
+      valid: false,
+      error: `IPv6默认网关 ${gateway} 不在本机前缀 ${calculateIPv6Prefix(ipv6, prefixLength)}/${prefixLength} 内`
+    };
+  }
+
+  for (const device of devices) {
+    if (device.type !== 'router') continue;
+    const iface = device.interfaces?.find((i) =>
+      i.ipv6 && (linkLocal ? isSameAddress(getLinkLocalAddress(device, i), gateway) : isSameAddress(i.ipv6, gateway))
+    );
+    if (iface) {
+      return { valid: true, router: device, iface };
+    }
+  }
+
+  return {
+    valid: false,
+    error: `IPv6默认网关 ${gateway} 不存在，没有任何启用了IPv6的路由器接口使用这个地址`
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * IPv6 地址工具函数
+ *
+ * 用于IPv6地址的解析、压缩写法、前缀计算，以及由MAC地址生成链路本地地址和SLAAC地址（EUI-64）
+ */
+
+import { Device, NetworkInterface } from '../types';
+import { getInterfaceMAC } from './arpUtils';
+
+export const IPV6_DEFAULT_PREFIX_LENGTH = 64;
+export const IPV6_DEFAULT_ROUTE = '::';
+
+/**
+ * 把IPv6地址解析为8个16位分组
+ * @param address IPv6地址（支持 :: 省略写法，如 2001:db8::1）
+ * @returns 8个分组的数值；格式错误时返回 null
+ */
+export function parseIPv6(address: string): number[] | null {
+  const text = address.trim().toLowerCase();
+  if (!/^[0-9a-f:]+$/.test(text) || text.split('::').length > 2) {
+    return null;
+  }
+
+  const [head, tail] = text.split('::');
+  const toGroups = (part: string | undefined) => (part ? part.split(':') : []);
+  const headGroups = toGroups(head);
+  const tailGroups = toGroups(tail);
+  const missing = 8 - headGroups.length - tailGroups.length;
+  if (tail === undefined ? missing !== 0 : missing < 1) {
+    return null;
+  }
+
+  const groups = [...headGroups, ...Array(tail === undefined ? 0 : missing).fill('0'), ...tailGroups];
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/.test(group))) {
+    return null;
+  }
+  return groups.map((group) => parseInt(group, 16));
+}
+
+/**
+ * 是否为IPv6地址（含 :: 省略写法）
+ * @param address 地址字符串
+ */
+export function isIPv6Address(address: string): boolean {
+  return address.includes(':') && parseIPv6(address) !== null;
+}
+
+/**
+ * 把8个分组转换为标准的压缩写法（去掉前导0，最长的一段连续0写成 ::）
+ * @param groups 8个16位分组
+ * @returns 压缩后的地址（如 2001:db8::1）
+ */
+export function formatIPv6(groups: number[]): string {
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let i = 0; i < 8; ) {
+    if (groups[i] !== 0) {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < 8 && groups[j] === 0) j++;
+    if (j - i > bestLength && j - i > 1) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j;
+  }
+
+  const hex = groups.map((group) => group.toString(16));
+  if (bestStart < 0) {
+    return hex.join(':');
+  }
+  return `${hex.slice(0, bestStart).join(':')}::${hex.slice(bestStart + bestLength).join(':')}`;
+}
+
+/**
+ * 把IPv6地址统一为压缩写法（便于比较和显示）
+ * @param address IPv6地址
+ * @returns 压缩写法；不是IPv6地址时原样返回
+ */
+export function normalizeIPv6(address: string): string {
+  const groups = parseIPv6(address);
+  return groups ? formatIPv6(groups) : address;
+}
+
+/**
+ * 比较两个地址是否相同（IPv6的不同写法视为同一地址）
+ * @param a 地址
+ * @param b 地址
+ */
+export function isSameAddress(a: string | undefined, b: string | undefined): boolean {
+  if (!a || !b) return false;
+  return a === b || (isIPv6Address(a) && isIPv6Address(b) && normalizeIPv6(a) === normalizeIPv6(b));
+}
+
+/**
+ * 计算IPv6前缀（网络部分）
+ * @param address IPv6地址
+ * @param prefixLength 前缀长度（0~128）
+ * @returns 压缩写法的前缀（如 2001:db8:1::）；格式错误时返回空字符串
+ */
+export function calculateIPv6Prefix(address: string, prefixLength: number = IPV6_DEFAULT_PREFIX_LENGTH): string {
+  const groups = parseIPv6(address);
+  if (!groups || prefixLength < 0 || prefixLength > 128) {
+    return '';
+  }
+  return formatIPv6(
+    groups.map((group, i) => {
+      const bits = Math.min(16, Math.max(0, prefixLength - i * 16));
+      return bits === 0 ? 0 : group & ((0xffff << (16 - bits)) & 0xffff);
+    })
+  );
+}
+
+/**
+ * 判断两个IPv6地址是否在同一前缀内
+ * @param address1 第一个地址
+ * @param prefixLength 前缀长度
+ * @param address2 第二个地址
+ */
+export function isInSameIPv6Prefix(address1: string, prefixLength: number, address2: string): boolean {
+  const prefix1 = calculateIPv6Prefix(address1, prefixLength);
+  return prefix1 !== '' && prefix1 === calculateIPv6Prefix(address2, prefixLength);
+}
+
+/**
+ * 是否为链路本地地址（fe80::/10，只在同一链路内有效，路由器不转发）
+ * @param address IPv6地址
+ */
+export function isLinkLocalIPv6(address: string): boolean {
+  const groups = parseIPv6(address);
+  return !!groups && (groups[0] & 0xffc0) === 0xfe80;
+}
+
+/**
+ * 由MAC地址生成EUI-64接口标识（中间插入 ff:fe，并翻转第7位）
+ * @param mac MAC地址（如 02:1a:2b:3c:4d:5e）
+ * @returns 接口标识的4个16位分组
+ */
+export function macToEUI64(mac: string): number[] {
+  const bytes = mac.split(/[:-]/).map((part) => parseInt(part, 16) || 0);
+  const eui = [bytes[0] ^ 0x02, bytes[1], bytes[2], 0xff, 0xfe, bytes[3], bytes[4], bytes[5]];
+  return [0, 2, 4, 6].map((i) => (eui[i] << 8) | eui[i + 1]);
+}
+
+/**
+ * 由MAC地址生成链路本地地址（fe80::/64 + EUI-64）
+ * @param mac 接口MAC地址
+ */
+export function generateLinkLocalAddress(mac: string): string {
+  return formatIPv6([0xfe80, 0, 0, 0, ...macToEUI64(mac)]);
+}
+
+/**
+ * 接口的链路本地地址（每个启用IPv6的接口都有，由接口MAC生成）
+ * @param device 接口所属设备
+ * @param iface 接口；为空时按设备生成
+ */
+export function getLinkLocalAddress(device: Device, iface?: NetworkInterface): string {
+  return generateLinkLocalAddress(getInterfaceMAC(device, iface));
+}
+
+/**
+ * SLAAC无状态自动配置：路由器通告的 /64 前缀 + 由MAC生成的接口标识
+ * @param prefix 路由器通告的前缀（如 2001:db8:1::）
+ * @param mac 主机接口MAC地址
+ * @returns 全局单播地址；前缀格式错误时返回空字符串
+ */
+export function generateSLAACAddress(prefix: string, mac: string): string {
+  const groups = parseIPv6(calculateIPv6Prefix(prefix, IPV6_DEFAULT_PREFIX_LENGTH) || '');
+  if (!groups) {
+    return '';
+  }
+  return formatIPv6([...groups.slice(0, 4), ...macToEUI64(mac)]);
+}
+
+/**
+ * 去掉URL中IPv6地址的方括号（如 [2001:db8::10] → 2001:db8::10）
+ * @param host URL中的主机部分
+ */
+export function stripIPv6Brackets(host: string): string {
+  const match = host.trim().match(/^\[([^\]]+)\]$/);
+  return match ? match[1] : host.trim();
+}
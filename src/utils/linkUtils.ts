@@ -0,0 +1,133 @@
+/**
+ * 链路状态工具函数
+ *
+ * 连线和接口都可以手动关闭（shutdown）：配置保留，但报文不再经过。
+ * 用于判断一条连线接在设备的哪个接口上、这条链路当前是否可用，以及链路的时延、带宽和丢包率
+ */
+
+import { Connection, Device, NetworkInterface } from '../types';
+import { interfaceContainsIP } from './subnetUtils';
+import { getPhysicalInterface } from './vlanUtils';
+
+/**
+ * 接口是否处于开启状态（未设置视为开启）
+ * @param iface 接口
+ */
+export function isInterfaceUp(iface: NetworkInterface): boolean {
+  return iface.status !== 'down';
+}
+
+/**
+ * 连线接在设备的哪个接口上
+ * 连线记录了接口ID时按ID查找；否则路由器按对端地址所在网段推断（推断出子接口时返回它所在的物理接口）
+ * @param device 连线一端的设备
+ * @param peer 连线另一端的设备
+ * @param connection 连线
+ * @returns 接口；无法确定时返回 undefined
+ */
+export function getLinkInterface(device: Device, peer: Device, connection: Connection): NetworkInterface | undefined {
+  const interfaceId = device.id === connection.source ? connection.sourceInterfaceId : connection.targetInterfaceId;
+  if (interfaceId) {
+    return device.interfaces.find((iface) => iface.id === interfaceId);
+  }
+  if (device.type !== 'router') return undefined;
+  const iface = device.interfaces.find((i) =>
+    i.ip && (peer.type === 'router'
+      ? peer.interfaces.some((peerIface) => peerIface.ip && interfaceContainsIP(i, peerIface.ip) && interfaceContainsIP(peerIface, i.ip))
+      : !!peer.ip && interfaceContainsIP(i, peer.ip))
+  );
+  return iface && getPhysicalInterface(device, iface);
+}
+
+/**
+ * 连线端点的标注：所接接口的名称和地址（如 eth1 10.0.0.1；交换机只标端口名）
+ * @param device 连线一端的设备
+ * @param peer 连线另一端的设备
+ * @param connection 连线
+ * @returns 标注文字；无法确定接口时为空字符串
+ */
+export function describeLinkEnd(device: Device, peer: Device, connection: Connection): string {
+  const iface = getLinkInterface(device, peer, connection);
+  if (device.type === 'switch') return iface?.name || '';
+  if (device.type !== 'router') {
+    const name = iface?.name || device.interfaces?.[0]?.name || 'eth0';
+    return device.ip ? `${name} ${device.ip}` : name;
+  }
+  if (!iface) return '';
+  return iface.ip ? `${iface.name} ${iface.ip}` : iface.name;
+}
+
+/**
+ * 链路是否可用：连线本身和两端所接的接口都没有被关闭
+ * @param connection 连线
+ * @param devices 全部设备
+ */
+export function isConnectionUp(connection: Connection, devices: Device[]): boolean {
+  if (connection.status === 'down') return false;
+  const source = devices.find((d) => d.id === connection.source);
+  const target = devices.find((d) => d.id === connection.target);
+  if (!source || !target) return true;
+  const ends = [getLinkInterface(source, target, connection), getLinkInterface(target, source, connection)];
+  return ends.every((iface) => !iface || isInterfaceUp(iface));
+}
+
+// 链路类型：终端接入、交换机/路由器之间的局域网链路、路由器之间的广域网链路
+export type LinkKind = 'access' | 'lan' | 'wan';
+
+export interface LinkProperties {
+  latency: number; // 单向传播时延（毫秒）
+  bandwidth: number; // 带宽（Mbps）
+  lossRate: number; // 丢包率（%）
+}
+
+export const LINK_KIND_LABELS: Record<LinkKind, string> = {
+  access: '终端接入（百兆以太网）',
+  lan: '局域网（千兆以太网）',
+  wan: '广域网（路由器互联）'
+};
+
+export const LINK_DEFAULTS: Record<LinkKind, LinkProperties> = {
+  access: { latency: 1, bandwidth: 100, lossRate: 0 },
+  lan: { latency: 1, bandwidth: 1000, lossRate: 0 },
+  wan: { latency: 10, bandwidth: 10, lossRate: 0 }
+};
+
+/**
+ * 按两端设备类型判断链路类型
+ * @param a 连线一端的设备
+ * @param b 连线另一端的设备
+ */
+export function getLinkKind(a: Device, b: Device): LinkKind {
+  const isInfrastructure = (d: Device) => d.type === 'router' || d.type === 'switch';
+  if (!isInfrastructure(a) || !isInfrastructure(b)) return 'access';
+  return a.type === 'router' && b.type === 'router' ? 'wan' : 'lan';
+}
+
+/**
+ * 连线的时延、带宽和丢包率，未设置的项按链路类型取默认值
+ * @param connection 连线
+ * @param devices 全部设备
+ */
+export function getLinkProperties(connection: Connection, devices: Device[]): LinkProperties {
+  const source = devices.find((d) => d.id === connection.source);
+  const target = devices.find((d) => d.id === connection.target);
+  const defaults = source && target ? LINK_DEFAULTS[getLinkKind(source, target)] : LINK_DEFAULTS.access;
+  return {
+    latency: connection.latency ?? defaults.latency,
+    bandwidth: connection.bandwidth && connection.bandwidth > 0 ? connection.bandwidth : defaults.bandwidth,
+    lossRate: Math.min(100, Math.max(0, connection.lossRate ?? defaults.lossRate))
+  };
+}
+
+/**
+ * 按设备名称查找两台相邻设备之间的连线
+ * @param a 设备名称
+ * @param b 设备名称
+ * @param devices 全部设备
+ * @param connections 全部连线
+ */
+export function findConnectionBetween(a: string, b: string, devices: Device[], connections: Connection[]): Connection | undefined {
+  const idA = devices.find((d) => d.name === a)?.id;
+  const idB = devices.find((d) => d.name === b)?.id;
+  return connections.find((c) => (c.source === idA && c.target === idB) || (c.source === idB && c.target === idA));
+}
@@ -0,0 +1,195 @@
+/**
+ * NAT/PAT 工具函数
+ *
+ * 判断路由器的内网/外网接口，在NAT转换表中查找或分配外网端口，以及校验端口转发规则
+ */
+
+import { Device, NATEntry, NetworkInterface, PortForwardRule, TransportProtocol } from '../types';
+import { validateIPAddress } from './ipValidator';
+import { interfaceContainsIP } from './subnetUtils';
+
+export const ICMP_ECHO_ID = 1; // Windows ping 使用的查询ID
+export const PAT_PORT_START = 1024; // 原端口已被占用时，PAT从这里开始分配外网端口
+export const EPHEMERAL_PORT_START = 49152; // 客户端临时端口范围 49152 ~ 65535
+
+/**
+ * 由种子字符串得到固定的客户端临时端口（同一台设备每次相同，便于对照NAT表）
+ * @param seed 种子（通常为设备ID）
+ * @returns 49152 ~ 65535 之间的端口号
+ */
+export function getEphemeralPort(seed: string): number {
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) {
+    hash = (hash * 31 + seed.charCodeAt(i)) >>> 0;
+  }
+  return EPHEMERAL_PORT_START + (hash % (65536 - EPHEMERAL_PORT_START));
+}
+
+/**
+ * 显示地址和端口：TCP/UDP 为 IP:端口，ICMP 显示查询ID
+ * @param protocol 协议
+ * @param ip IP地址
+ * @param port 端口（ICMP为查询ID）
+ */
+export function formatEndpoint(protocol: TransportProtocol, ip: string, port: number): string {
+  return protocol === 'ICMP' ? `${ip} (ID ${port})` : `${ip}:${port}`;
+}
+
+/**
+ * 路由器上标记为内网或外网的接口
+ * @param device 路由器
+ * @param role 'inside' | 'outside'
+ */
+export function getNATInterfaces(device: Device, role: NonNullable<NetworkInterface['nat']>): NetworkInterface[] {
+  return (device.interfaces || []).filter((iface) => iface.nat === role);
+}
+
+/**
+ * 路由器是否启用了NAT：至少有一个内网接口和一个外网接口
+ * @param device 设备
+ */
+export function isNATEnabled(device: Device): boolean {
+  return device.type === 'router'
+    && getNATInterfaces(device, 'inside').length > 0
+    && getNATInterfaces(device, 'outside').length > 0;
+}
+
+/**
+ * 内网 → 外网方向：查找同一会话已有的转换
+ * @returns 匹配的转换条目
+ */
+export function findOutboundTranslation(
+  table: NATEntry[],
+  protocol: TransportProtocol,
+  insideIP: string,
+  insidePort: number,
+  remoteIP: string,
+  remotePort: number
+): NATEntry | undefined {
+  return table.find(
+    (entry) =>
+      entry.protocol === protocol &&
+      entry.insideIP === insideIP &&
+      entry.insidePort === insidePort &&
+      entry.remoteIP === remoteIP &&
+      entry.remotePort === remotePort
+  );
+}
+
+/**
+ * 外网 → 内网方向：按外网地址:端口和对端查找转换（即回程报文属于哪个会话）
+ * @returns 匹配的转换条目
+ */
+export function findInboundTranslation(
+  table: NATEntry[],
+  protocol: TransportProtocol,
+  outsideIP: string,
+  outsidePort: number,
+  remoteIP: string,
+  remotePort: number
+): NATEntry | undefined {
+  return table.find(
+    (entry) =>
+      entry.protocol === protocol &&
+      entry.outsideIP === outsideIP &&
+      entry.outsidePort === outsidePort &&
+      entry.remoteIP === remoteIP &&
+      entry.remotePort === remotePort
+  );
+}
+
+/**
+ * 查找匹配的端口转发规则（ICMP没有端口，不能转发）
+ * @param device 路由器
+ * @param protocol 协议
+ * @param outsidePort 外网访问的端口
+ */
+export function findPortForward(device: Device, protocol: TransportProtocol, outsidePort: number): PortForwardRule | undefined {
+  if (protocol === 'ICMP') return undefined;
+  return (device.portForwards || []).find((rule) => rule.protocol === protocol && rule.outsidePort === outsidePort);
+}
+
+/**
+ * PAT分配外网端口：优先保留原端口，已被占用时从1024起找空闲端口
+ * @param table 当前NAT转换表
+ * @param device 路由器（端口转发占用的端口不能再分配）
+ * @param protocol 协议
+ * @param outsideIP 外网接口IP
+ * @param preferredPort 内网主机的原端口
+ */
+export function allocateOutsidePort(
+  table: NATEntry[],
+  device: Device,
+  protocol: TransportProtocol,
+  outsideIP: string,
+  preferredPort: number
+): number {
+  const used = new Set(
+    table.filter((entry) => entry.protocol === protocol && entry.outsideIP === outsideIP).map((entry) => entry.outsidePort)
+  );
+  (device.portForwards || [])
+    .filter((rule) => rule.protocol === protocol)
+    .forEach((rule) => used.add(rule.outsidePort));
+
+  if (!used.has(preferredPort)) {
+    return preferredPort;
+  }
+  let port = PAT_PORT_START;
+  while (used.has(port)) {
+    port++;
+  }
+  return port;
+}
+
+/**
+ * 目标IP是否为某台NAT路由器的外网接口，且该端口配置了端口转发
+ * @param devices 当前所有设备
+ * @param ip 目标IP
+ * @param protocol 协议
+ * @param port 目标端口
+ * @returns 路由器和转发规则
+ */
+export function resolvePortForward(
+  devices: Device[],
+  ip: string,
+  protocol: TransportProtocol,
+  port: number
+): { router: Device; rule: PortForwardRule } | undefined {
+  const router = devices.find(
+    (d) => isNATEnabled(d) && getNATInterfaces(d, 'outside').some((iface) => iface.ip === ip)
+  );
+  const rule = router && findPortForward(router, protocol, port);
+  return router && rule ? { router, rule } : undefined;
+}
+
+/**
+ * 校验端口转发规则
+ * @param rule 待添加的规则
+ * @param device 路由器（内网主机必须在某个内网接口的网段内）
+ * @returns { valid, error? }
+ */
+export function validatePortForwardRule(rule: PortForwardRule, device: Device): { valid: boolean; error?: string } {
+  const isPort = (value: number) => Number.isInteger(value) && value > 0 && value <= 65535;
+  if (!isPort(rule.outsidePort) || !isPort(rule.insidePort)) {
+    return { valid: false, error: '端口需为1-65535的整数' };
+  }
+
+  const ipCheck = validateIPAddress(rule.insideIP);
+  if (!ipCheck.valid) {
+    return { valid: false, error: `内网主机IP错误：${ipCheck.error}` };
+  }
+
+  const insideIfaces = getNATInterfaces(device, 'inside');
+  if (!insideIfaces.some((iface) => interfaceContainsIP(iface, rule.insideIP))) {
+    return { valid: false, error: `${rule.insideIP} 不在任何内网（inside）接口的网段内` };
+  }
+
+  const duplicate = (device.portForwards || []).find(
+    (existing) => existing.id !== rule.id && existing.protocol === rule.protocol && existing.outsidePort === rule.outsidePort
+  );
+  if (duplicate) {
+    return { valid: false, error: `${rule.protocol} 外网端口 ${rule.outsidePort} 已转发给 ${duplicate.insideIP}` };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,265 @@
+/**
+ * 链路状态路由（OSPF）工具函数
+ *
+ * 每台路由器把“我和谁相连、开销多少、有哪些直连网络”打包成链路状态通告（LSA）泛洪给全网，
+ * 所有路由器得到同一份拓扑数据库后，各自以自己为根运行 Dijkstra 算出最短路径树，再据此生成路由表
+ */
+
+import { Connection, Device, RouteEntry, RoutingTableChange, SPFTreeNode } from '../types';
+import { getRouteMask } from './routeUtils';
+import { ipToNumber, maskToCIDR } from './subnetUtils';
+import { getConnectedRoutes, getStaticRoutes } from './ripUtils';
+
+export const OSPF_DEFAULT_COST = 10;
+const CONNECTED = '直连';
+
+// 两台启用OSPF的路由器之间的邻接关系（单向）
+export interface OSPFAdjacency {
+  from: string;
+  fromInterface: string;
+  to: string;
+  toInterface: string;
+  cost: number;
+  path: string[]; // 发送方 → (交换机) → 接收方
+}
+
+// 一台路由器的链路状态通告
+export interface LinkStateAdvertisement {
+  router: string;
+  neighbors: Array<{ router: string; interface: string; cost: number; path: string[] }>;
+  networks: Array<{ destination: string; subnetMask: string; interface: string }>;
+}
+
+// LSA泛洪的一轮：每台路由器把上一轮新收到的LSA转发给其他邻居
+export interface LSAFloodRound {
+  round: number;
+  messages: Array<{ from: string; to: string; path: string[]; routeCount: number }>;
+}
+
+const routeKey = (route: { destination: string; subnetMask: string }) =>
+  `${route.destination}/${maskToCIDR(route.subnetMask)}`;
+
+/**
+ * 连线的开销，未设置时为默认值
+ * @param connection 连线
+ */
+export function getConnectionCost(connection: Connection): number {
+  return connection.cost && connection.cost > 0 ? connection.cost : OSPF_DEFAULT_COST;
+}
+
+/**
+ * 一条二层通路（路由器 → 交换机… → 路由器）上各段连线的开销之和
+ * @param deviceIds 通路上依次经过的设备ID
+ * @param connections 全网连线
+ */
+export function getPathCost(deviceIds: string[], connections: Connection[]): number {
+  let cost = 0;
+  for (let i = 0; i < deviceIds.length - 1; i++) {
+    const connection = connections.find(
+      (c) =>
+        (c.source === deviceIds[i] && c.target === deviceIds[i + 1]) ||
+        (c.source === deviceIds[i + 1] && c.target === deviceIds[i])
+    );
+    cost += connection ? getConnectionCost(connection) : OSPF_DEFAULT_COST;
+  }
+  return cost;
+}
+
+/**
+ * 由路由器的邻接关系和直连网络生成它的LSA
+ * @param device 启用OSPF的路由器
+ * @param adjacencies 全网的邻接关系
+ */
+export function buildLSA(device: Device, adjacencies: OSPFAdjacency[]): LinkStateAdvertisement {
+  return {
+    router: device.name,
+    neighbors: adjacencies
+      .filter((adjacency) => adjacency.from === device.name)
+      .map((adjacency) => ({ router: adjacency.to, interface: adjacency.fromInterface, cost: adjacency.cost, path: adjacency.path })),
+    networks: getConnectedRoutes(device).map((route) => ({
+      destination: route.destination,
+      subnetMask: route.subnetMask,
+      interface: route.interface
+    }))
+  };
+}
+
+/**
+ * 模拟LSA泛洪：第1轮各路由器把自己的LSA发给邻居，之后每轮只转发上一轮新收到的LSA（不发回给来源），
+ * 直到没有新的LSA为止
+ * @param routers 启用OSPF的路由器名称
+ * @param adjacencies 邻接关系
+ * @returns 每一轮的报文，以及泛洪结束后各路由器拓扑数据库中有哪些路由器的LSA
+ */
+export function floodLSAs(
+  routers: string[],
+  adjacencies: OSPFAdjacency[]
+): { rounds: LSAFloodRound[]; databases: Map<string, Set<string>> } {
+  const databases = new Map(routers.map((router) => [router, new Set([router])]));
+  // 上一轮新收到的LSA及其来源
+  let fresh = new Map(routers.map((router) => [router, [{ lsa: router, from: '' }]]));
+  const rounds: LSAFloodRound[] = [];
+
+  while ([...fresh.values()].some((items) => items.length > 0)) {
+    const next = new Map<string, Array<{ lsa: string; from: string }>>(routers.map((router) => [router, []]));
+    const messages: LSAFloodRound['messages'] = [];
+
+    for (const adjacency of adjacencies) {
+      const outgoing = (fresh.get(adjacency.from) || []).filter((item) => item.from !== adjacency.to);
+      if (outgoing.length === 0) continue;
+      messages.push({ from: adjacency.from, to: adjacency.to, path: adjacency.path, routeCount: outgoing.length });
+
+      const database = databases.get(adjacency.to);
+      if (!database) continue;
+      for (const item of outgoing) {
+        if (database.has(item.lsa)) continue;
+        database.add(item.lsa);
+        next.get(adjacency.to)!.push({ lsa: item.lsa, from: adjacency.from });
+      }
+    }
+
+    rounds.push({ round: rounds.length + 1, messages });
+    fresh = next;
+  }
+
+  return { rounds, databases };
+}
+
+/**
+ * 以某台路由器为根运行 Dijkstra，得到到达其他路由器的最短路径树
+ * 开销相同的路径保留先找到的那条
+ * @param root 根路由器名称
+ * @param lsdb 根路由器的拓扑数据库
+ */
+export function runSPF(root: string, lsdb: LinkStateAdvertisement[]): SPFTreeNode[] {
+  const tree: SPFTreeNode[] = [];
+  const candidates: SPFTreeNode[] = [{ router: root, cost: 0, path: [root] }];
+
+  while (candidates.length > 0) {
+    // 每次把开销最小的候选路由器加入树
+    let bestIndex = 0;
+    candidates.forEach((candidate, index) => {
+      if (candidate.cost < candidates[bestIndex].cost) bestIndex = index;
+    });
+    const [node] = candidates.splice(bestIndex, 1);
+    if (tree.some((n) => n.router === node.router)) continue;
+    tree.push(node);
+
+    const lsa = lsdb.find((l) => l.router === node.router);
+    for (const neighbor of lsa?.neighbors || []) {
+      // 双方的LSA都声明了这条链路才算数
+      const reverse = lsdb.find((l) => l.router === neighbor.router)?.neighbors.some((n) => n.router === node.router);
+      if (!reverse || tree.some((n) => n.router === neighbor.router)) continue;
+
+      const cost = node.cost + neighbor.cost;
+      const existing = candidates.find((c) => c.router === neighbor.router);
+      if (existing && existing.cost <= cost) continue;
+      if (existing) candidates.splice(candidates.indexOf(existing), 1);
+      candidates.push({ router: neighbor.router, cost, parent: node.router, path: neighbor.path });
+    }
+  }
+
+  return tree;
+}
+
+/**
+ * 由最短路径树生成路由：每个网络取开销最小的宣告者，下一跳为树上通往它的第一台路由器
+ * @param root 根路由器名称
+ * @param lsdb 拓扑数据库
+ * @param tree 最短路径树
+ */
+export function buildOSPFRoutes(root: string, lsdb: LinkStateAdvertisement[], tree: SPFTreeNode[]): RouteEntry[] {
+  const rootLSA = lsdb.find((l) => l.router === root);
+  const routes = new Map<string, RouteEntry>();
+
+  for (const network of rootLSA?.networks || []) {
+    routes.set(routeKey(network), {
+      destination: network.destination,
+      subnetMask: network.subnetMask,
+      nextHop: CONNECTED,
+      metric: 0,
+      interface: network.interface,
+      source: 'connected'
+    });
+  }
+
+  for (const node of tree) {
+    if (node.router === root) continue;
+    // 沿树向根回溯，找到根的直接下一跳
+    let firstHop = node;
+    while (firstHop.parent && firstHop.parent !== root) {
+      firstHop = tree.find((n) => n.router === firstHop.parent) || firstHop;
+    }
+    const outInterface = rootLSA?.neighbors.find(
+      (neighbor) => neighbor.router === firstHop.router && neighbor.path.join() === firstHop.path.join()
+    )?.interface || '';
+
+    for (const network of lsdb.find((l) => l.router === node.router)?.networks || []) {
+      const existing = routes.get(routeKey(network));
+      if (existing && existing.metric <= node.cost) continue;
+      routes.set(routeKey(network), {
+        destination: network.destination,
+        subnetMask: network.subnetMask,
+        nextHop: firstHop.router,
+        metric: node.cost,
+        interface: outInterface,
+        source: 'ospf'
+      });
+    }
+  }
+
+  return [...routes.values()];
+}
+
+/**
+ * 把OSPF路由写回设备路由表：保留手动配置的路由，同一目标网络已有静态路由时不写入
+ * @param device 路由器
+ * @param routes OSPF算出的路由
+ */
+export function buildOSPFRoutingTable(device: Device, routes: RouteEntry[]): RouteEntry[] {
+  const manual = getStaticRoutes(device.routingTable);
+  const manualKeys = new Set(manual.map((entry) => routeKey({ destination: entry.destination, subnetMask: getRouteMask(entry) })));
+  const computed = routes
+    .filter((route) => !manualKeys.has(routeKey({ destination: route.destination, subnetMask: getRouteMask(route) })))
+    .sort((a, b) => ipToNumber(a.destination) - ipToNumber(b.destination));
+  return [...manual, ...computed];
+}
+
+/**
+ * 重新计算前后路由表的差异（新增、开销或下一跳改变、删除）
+ * @param router 路由器名称
+ * @param before 原路由表
+ * @param after 新路由表
+ */
+export function diffOSPFRoutes(router: string, before: RouteEntry[], after: RouteEntry[]): RoutingTableChange[] {
+  const dynamic = (table: RouteEntry[]) => table.filter((entry) => entry.source === 'ospf');
+  const keyOf = (entry: RouteEntry) => routeKey({ destination: entry.destination, subnetMask: getRouteMask(entry) });
+  const changes: RoutingTableChange[] = [];
+
+  for (const entry of dynamic(after)) {
+    const old = dynamic(before).find((e) => keyOf(e) === keyOf(entry));
+    if (!old || old.metric !== entry.metric || old.nextHop !== entry.nextHop) {
+      changes.push({ router, destination: keyOf(entry), nextHop: entry.nextHop, metric: entry.metric, previousMetric: old?.metric });
+    }
+  }
+  for (const old of dynamic(before)) {
+    if (!dynamic(after).some((e) => keyOf(e) === keyOf(old))) {
+      changes.push({ router, destination: keyOf(old), nextHop: old.nextHop, metric: old.metric, previousMetric: old.metric, removed: true });
+    }
+  }
+  return changes;
+}
+
+/**
+ * 一条OSPF路由变化的说明，如“新路由 10.1.0.0/24，经 R3，开销 20”
+ * @param change 路由变化
+ */
+export function formatOSPFChange(change: RoutingTableChange): string {
+  if (change.removed) {
+    return `${change.destination} 已不可达，删除路由`;
+  }
+  if (change.previousMetric === undefined) {
+    return `新路由 ${change.destination}，经 ${change.nextHop}，开销 ${change.metric}`;
+  }
+  return `${change.destination} 开销 ${change.previousMetric} → ${change.metric}（经 ${change.nextHop}）`;
+}
@@ -0,0 +1,137 @@
+/**
+ * 报文动画时间线
+ *
+ * 把一次通信的去程/回程路径展开成按顺序播放的报文动作（ARP请求/应答、逐段移动、丢弃），
+ * 由调度器按虚拟时间触发，画布只负责把收到的动作画出来
+ */
+
+import { ARPExchange, Connection, Device, PacketMovement, RoutingUpdateRound, SwitchFrameEvent } from '../types';
+import { findARPExchange } from './arpUtils';
+import { findConnectionBetween, getLinkProperties } from './linkUtils';
+
+// 各动作的虚拟时长（毫秒），与原来动画的节奏一致
+const ARP_STAGE_DURATION = 900;
+const HOP_GAP = 60; // 到达一台设备后稍作停留再转发
+const PHASE_GAP = 200; // 去程结束到回程开始
+const DROP_DURATION = 1200;
+const ROUND_HOLD = 1500; // 一轮路由更新全部到达后展示路由变化的时长
+
+// 一个方向的报文
+export interface PacketPhase {
+  direction: 'request' | 'response';
+  path: string[];
+  label: string;
+  tone: PacketMovement['tone'];
+}
+
+/**
+ * 在一段链路上移动的时长：时延1ms约0.6秒，时延每大10倍多0.5秒
+ * @param latency 链路单向时延（毫秒）
+ */
+export function getHopDuration(latency: number): number {
+  return Math.min(2400, 600 + 500 * Math.log10(Math.max(1, latency)));
+}
+
+/**
+ * 把去程、回程路径展开成报文动作
+ * @param phases 依次播放的各方向报文
+ * @param options.droppedAtEnd 最后一个方向的报文在终点处被丢弃（如回程路由失败）
+ */
+export function buildPacketMovements(
+  phases: PacketPhase[],
+  options: {
+    devices: Device[];
+    connections: Connection[];
+    arpEvents?: ARPExchange[];
+    switchEvents?: SwitchFrameEvent[];
+    droppedAtEnd?: boolean;
+  }
+): PacketMovement[] {
+  const { devices, connections, arpEvents, switchEvents } = options;
+  const movements: PacketMovement[] = [];
+
+  phases.forEach((phase, phaseIndex) => {
+    const { direction, path, label, tone } = phase;
+    for (let i = 0; i < path.length - 1; i++) {
+      const from = path[i];
+      const to = path[i + 1];
+      // 发送前ARP缓存未命中：先广播请求，再等目标单播应答
+      const arp = findARPExchange(arpEvents, path, i, direction);
+      if (arp) {
+        const arpBase = { direction, from, to: from, travel: 0, duration: ARP_STAGE_DURATION, tone, arp };
+        movements.push({ ...arpBase, kind: 'arp-request', label: `📢 ARP广播：谁是 ${arp.targetIP}？` });
+        movements.push({ ...arpBase, kind: 'arp-reply', label: `↩ ARP应答：${arp.targetMAC}` });
+      }
+
+      const connection = findConnectionBetween(from, to, devices, connections);
+      const travel = getHopDuration(connection ? getLinkProperties(connection, devices).latency : 1);
+      const switchEvent = switchEvents?.find(
+        (event) => event.switchName === from && event.direction === direction && event.from === path[i - 1] && event.to === to
+      );
+      movements.push({ kind: 'hop', direction, from, to, travel, duration: travel + HOP_GAP, label, tone, switchEvent });
+    }
+    if (phaseIndex < phases.length - 1 && movements.length > 0) {
+      movements[movements.length - 1].duration += PHASE_GAP;
+    }
+  });
+
+  const lastPhase = phases[phases.length - 1];
+  const dropAt = lastPhase?.path[lastPhase.path.length - 1];
+  if (options.droppedAtEnd && dropAt) {
+    movements.push({
+      kind: 'drop',
+      direction: lastPhase.direction,
+      from: dropAt,
+      to: dropAt,
+      travel: 0,
+      duration: DROP_DURATION,
+      label: `❌ 响应在 ${dropAt} 被丢弃`,
+      tone: 'failed'
+    });
+  }
+  return movements;
+}
+
+/**
+ * 依次发送的多个报文（如路由追踪的各个探测包、DHCP的四个报文），每组的动作标上组号
+ * @param groups 每组依次播放的各方向报文
+ */
+export function buildSequentialMovements(
+  groups: PacketPhase[][],
+  options: { devices: Device[]; connections: Connection[] }
+): PacketMovement[] {
+  const movements: PacketMovement[] = [];
+  groups.forEach((phases, group) => {
+    const groupMovements = buildPacketMovements(phases, options).map((movement) => ({ ...movement, group }));
+    if (movements.length > 0 && groupMovements.length > 0) {
+      movements[movements.length - 1].duration += PHASE_GAP;
+    }
+    movements.push(...groupMovements);
+  });
+  return movements;
+}
+
+/**
+ * 动态路由收敛：每一轮所有路由器同时发送更新（round），最慢的报文到达后展示本轮的路由变化（settle）
+ * @param rounds 各轮路由更新
+ */
+export function buildRoutingRoundMovements(
+  rounds: RoutingUpdateRound[],
+  options: { devices: Device[]; connections: Connection[] }
+): PacketMovement[] {
+  const { devices, connections } = options;
+  const pathDuration = (path: string[]) =>
+    path.slice(0, -1).reduce((total, name, i) => {
+      const connection = findConnectionBetween(name, path[i + 1], devices, connections);
+      return total + getHopDuration(connection ? getLinkProperties(connection, devices).latency : 1) + HOP_GAP;
+    }, 0);
+
+  return rounds.flatMap((round, group) => {
+    const messages = round.messages.filter((message) => message.path.length >= 2);
+    const anchor = messages[0]?.from || '';
+    const base = { direction: 'request' as const, from: anchor, to: anchor, label: '', tone: 'request' as const, group };
+    const travel = Math.max(0, ...messages.map((message) => pathDuration(message.path)));
+    const settle: PacketMovement = { ...base, kind: 'settle', travel: 0, duration: ROUND_HOLD };
+    return messages.length > 0 ? [{ ...base, kind: 'round', travel, duration: travel }, settle] : [settle];
+  });
+}
@@ -0,0 +1,161 @@
+/**
+ * 连续Ping工具函数
+ *
+ * 按路径上各条链路的时延、带宽计算每个回显请求的往返时间，按丢包率随机丢弃报文，
+ * 并生成仿 Windows ping 的逐次应答和统计汇总。随机数由种子决定，同一种子可在课堂上重现同样的结果
+ */
+
+import { Connection, Device, PingReply, PingStatistics } from '../types';
+import { findConnectionBetween, getLinkProperties } from './linkUtils';
+
+export const PING_DEFAULT_COUNT = 4;
+export const PING_MAX_COUNT = 100;
+export const PING_PAYLOAD_BYTES = 32;
+// 线路上的帧长：数据 + ICMP头(8) + IP头(20) + 以太网头和校验(18)
+const FRAME_BYTES = PING_PAYLOAD_BYTES + 8 + 20 + 18;
+// 同一条链路上每次的时延抖动（占传播时延的比例）
+const JITTER_RATIO = 0.1;
+
+/**
+ * 可设置种子的伪随机数发生器（mulberry32），返回 [0, 1) 之间的数
+ * @param seed 随机种子
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 生成一个新的随机种子（未指定种子时使用，结果中会显示出来以便重现）
+ */
+export function createPingSeed(): number {
+  return Math.floor(Math.random() * 100000);
+}
+
+/**
+ * 应答到达源主机时剩余的TTL：初始值（路由器255、主机128）减去回程经过的路由器数
+ * @param returnPath 应答经过的设备（应答方 → 源主机）
+ * @param devices 全部设备
+ */
+export function getReplyTTL(returnPath: string[], devices: Device[]): number {
+  const replier = devices.find((d) => d.name === returnPath[0]);
+  const initialTTL = replier?.type === 'router' ? 255 : 128;
+  const routersOnPath = returnPath
+    .slice(1, -1)
+    .filter((name) => devices.find((d) => d.name === name)?.type === 'router').length;
+  return initialTTL - routersOnPath;
+}
+
+/**
+ * 报文沿路径逐段传输：每段先按丢包率判断是否丢失，再累加传播时延、发送时延和抖动
+ * @returns 总时延；丢失时返回丢失的链路
+ */
+function transmit(
+  path: string[],
+  devices: Device[],
+  connections: Connection[],
+  random: () => number
+): { delay: number; lostAt?: string } {
+  let delay = 0;
+  for (let i = 0; i < path.length - 1; i++) {
+    const connection = findConnectionBetween(path[i], path[i + 1], devices, connections);
+    if (!connection) continue;
+    const link = getLinkProperties(connection, devices);
+    if (link.lossRate > 0 && random() * 100 < link.lossRate) {
+      return { delay, lostAt: `${path[i]} → ${path[i + 1]}` };
+    }
+    // 带宽单位Mbps，即每毫秒发送 bandwidth×1000 比特
+    delay += link.latency + (FRAME_BYTES * 8) / (link.bandwidth * 1000) + random() * link.latency * JITTER_RATIO;
+  }
+  return { delay };
+}
+
+/**
+ * 连续发送多个回显请求并统计结果
+ * 路由不通时每次结果相同（请求超时，或收到路由器回送的差错报文）；路由通时每次独立按丢包率决定是否丢失
+ * @param options.requestPath 请求经过的设备
+ * @param options.returnPath 应答（或ICMP差错报文）经过的设备
+ * @param options.outcome 单次Ping的结果：收到应答 / 收到差错报文 / 超时
+ */
+export function runPingSeries(options: {
+  devices: Device[];
+  connections: Connection[];
+  destIP: string;
+  requestPath: string[];
+  returnPath: string[];
+  outcome: 'reply' | 'unreachable' | 'timeout';
+  count: number;
+  seed: number;
+  errorFrom?: string;
+  errorText?: string;
+}): PingStatistics {
+  const { devices, connections, requestPath, returnPath, outcome, seed } = options;
+  const count = Math.min(PING_MAX_COUNT, Math.max(1, Math.floor(options.count) || PING_DEFAULT_COUNT));
+  const random = createSeededRandom(seed);
+  const ttl = getReplyTTL(returnPath, devices);
+
+  const replies: PingReply[] = Array.from({ length: count }, (_, index) => {
+    const sequence = index + 1;
+    if (outcome === 'timeout') return { sequence, status: 'timeout' };
+
+    const request = transmit(requestPath, devices, connections, random);
+    if (request.lostAt) return { sequence, status: 'timeout', lostAt: request.lostAt };
+    const reply = transmit(returnPath, devices, connections, random);
+    if (reply.lostAt) return { sequence, status: 'timeout', lostAt: reply.lostAt };
+
+    if (outcome === 'unreachable') {
+      return { sequence, status: 'unreachable', from: options.errorFrom, errorText: options.errorText };
+    }
+    return { sequence, status: 'reply', from: options.destIP, time: request.delay + reply.delay, ttl };
+  });
+
+  // 与 Windows 一致：收到差错报文也算“已接收”，但只有回显应答才有往返时间
+  const received = replies.filter((r) => r.status !== 'timeout').length;
+  const times = replies.filter((r) => r.time !== undefined).map((r) => r.time!);
+  return {
+    destIP: options.destIP,
+    bytes: PING_PAYLOAD_BYTES,
+    seed,
+    replies,
+    sent: count,
+    received,
+    lost: count - received,
+    lossPercent: Math.round(((count - received) / count) * 100),
+    min: times.length > 0 ? Math.min(...times) : undefined,
+    max: times.length > 0 ? Math.max(...times) : undefined,
+    avg: times.length > 0 ? times.reduce((sum, t) => sum + t, 0) / times.length : undefined
+  };
+}
+
+const formatTime = (time: number) => (time < 1 ? '<1ms' : `=${Math.round(time)}ms`);
+
+/**
+ * 仿 Windows ping 命令的输出
+ * @param stats 连续Ping的统计
+ */
+export function formatPingReport(stats: PingStatistics): string {
+  const lines = [`正在 Ping ${stats.destIP} 具有 ${stats.bytes} 字节的数据:`];
+  for (const reply of stats.replies) {
+    if (reply.status === 'reply') {
+      lines.push(`来自 ${reply.from} 的回复: 字节=${stats.bytes} 时间${formatTime(reply.time!)} TTL=${reply.ttl}`);
+    } else if (reply.status === 'unreachable') {
+      lines.push(`来自 ${reply.from} 的回复: ${reply.errorText}`);
+    } else {
+      lines.push('请求超时。');
+    }
+  }
+  lines.push('');
+  lines.push(`${stats.destIP} 的 Ping 统计信息:`);
+  lines.push(`    数据包: 已发送 = ${stats.sent}，已接收 = ${stats.received}，丢失 = ${stats.lost} (${stats.lossPercent}% 丢失)，`);
+  if (stats.min !== undefined && stats.max !== undefined && stats.avg !== undefined) {
+    lines.push('往返行程的估计时间(以毫秒为单位):');
+    lines.push(`    最短 = ${Math.round(stats.min)}ms，最长 = ${Math.round(stats.max)}ms，平均 = ${Math.round(stats.avg)}ms`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,269 @@
+/**
+ * 距离矢量路由（RIP）工具函数
+ *
+ * 每一轮各路由器同时把自己的路由表发给直连邻居，邻居按“邻居的跳数 + 1”更新自己的表，
+ * 直到某一轮没有任何变化（收敛）。跳数 16 表示不可达
+ */
+
+import { Device, RouteEntry, RoutingTableChange, RoutingUpdateRound } from '../types';
+import { getRouteMask } from './routeUtils';
+import { DEFAULT_SUBNET_MASK, calculateSubnet, ipToNumber, maskToCIDR } from './subnetUtils';
+
+export const RIP_INFINITY = 16;
+export const RIP_MAX_ROUNDS = 30;
+const CONNECTED = '直连';
+
+// RIP进程中的一条路由
+export interface RIPRoute {
+  destination: string;
+  subnetMask: string;
+  nextHop: string; // 邻居路由器名称，直连网络为“直连”
+  metric: number;
+  interface: string;
+}
+
+// 一台路由器的RIP路由表
+export interface RIPRouterState {
+  router: string;
+  splitHorizon: boolean;
+  routes: RIPRoute[];
+}
+
+// 两台启用RIP的路由器之间的一条单向通告通道
+export interface RIPLink {
+  from: string;
+  fromInterface: string;
+  to: string;
+  toInterface: string;
+  path: string[]; // 发送方 → (交换机) → 接收方
+}
+
+const routeKey = (route: { destination: string; subnetMask: string }) =>
+  `${route.destination}/${maskToCIDR(route.subnetMask)}`;
+
+const cloneStates = (states: RIPRouterState[]): RIPRouterState[] =>
+  states.map((state) => ({ ...state, routes: state.routes.map((route) => ({ ...route })) }));
+
+/**
+ * 路由器各接口所在的直连网络（跳数为0），已关闭的接口不算
+ * @param device 路由器
+ */
+export function getConnectedRoutes(device: Device): RIPRoute[] {
+  return (device.interfaces || [])
+    .filter((iface) => iface.ip && iface.status !== 'down')
+    .map((iface) => {
+      const subnetMask = iface.subnetMask || DEFAULT_SUBNET_MASK;
+      return {
+        destination: calculateSubnet(iface.ip, subnetMask),
+        subnetMask,
+        nextHop: CONNECTED,
+        metric: 0,
+        interface: iface.name
+      };
+    })
+    .filter((route, index, routes) => routes.findIndex((r) => routeKey(r) === routeKey(route)) === index);
+}
+
+/**
+ * 路由表中手动配置的静态路由
+ * @param routingTable 路由表
+ */
+export function getStaticRoutes(routingTable: RouteEntry[] = []): RouteEntry[] {
+  return routingTable.filter((entry) => !entry.source);
+}
+
+/**
+ * 由路由表中上次学到的路由恢复RIP状态：
+ * 下一跳邻居已断开、或直连接口已删除的路由立即记为不可达（16），再由更新通告给邻居
+ * @param device 启用RIP的路由器
+ * @param links 全网的通告通道
+ * @returns RIP路由表，以及立即失效的路由
+ */
+export function restoreRIPState(device: Device, links: RIPLink[]): { state: RIPRouterState; changes: RoutingTableChange[] } {
+  const connected = getConnectedRoutes(device);
+  const connectedKeys = new Set(connected.map(routeKey));
+  const routes: RIPRoute[] = [...connected];
+  const changes: RoutingTableChange[] = [];
+
+  for (const entry of device.routingTable || []) {
+    // 静态路由和OSPF算出的路由不属于RIP进程
+    if (!entry.source || entry.source === 'ospf') continue;
+    const route: RIPRoute = {
+      destination: entry.destination,
+      subnetMask: getRouteMask(entry),
+      nextHop: entry.nextHop,
+      metric: entry.metric,
+      interface: entry.interface
+    };
+    if (connectedKeys.has(routeKey(route)) || routes.some((r) => routeKey(r) === routeKey(route))) continue;
+
+    const neighborAlive = entry.source === 'rip'
+      && links.some((link) => link.to === device.name && link.from === entry.nextHop && link.toInterface === entry.interface);
+    if (!neighborAlive) {
+      changes.push({ router: device.name, destination: routeKey(route), nextHop: route.nextHop, metric: RIP_INFINITY, previousMetric: route.metric });
+      route.metric = RIP_INFINITY;
+    }
+    routes.push(route);
+  }
+
+  return {
+    state: { router: device.name, splitHorizon: device.dynamicRouting?.splitHorizon ?? true, routes },
+    changes
+  };
+}
+
+/**
+ * 发送方在某个接口上通告的路由：开启水平分割时，不把从该接口学到的路由再通告回去
+ * @param state 发送方的RIP路由表
+ * @param interfaceName 发送接口
+ */
+export function getAdvertisedRoutes(state: RIPRouterState, interfaceName: string): RIPRoute[] {
+  return state.routes.filter(
+    (route) => !(state.splitHorizon && route.nextHop !== CONNECTED && route.interface === interfaceName)
+  );
+}
+
+/**
+ * 逐轮交换路由更新直到收敛
+ * 同一轮内所有路由器发送的都是本轮开始时的路由表；
+ * 来自当前下一跳的通告总是被采纳（哪怕跳数变大），来自其他邻居的只有更短才采纳
+ * @param states 各路由器的初始RIP路由表
+ * @param links 通告通道
+ * @param maxRounds 最多交换的轮数
+ * @returns 每一轮的报文和变化、最终路由表，以及是否收敛
+ */
+export function runRIPRounds(
+  states: RIPRouterState[],
+  links: RIPLink[],
+  maxRounds: number = RIP_MAX_ROUNDS
+): { rounds: RoutingUpdateRound[]; states: RIPRouterState[]; converged: boolean } {
+  const rounds: RoutingUpdateRound[] = [];
+  let current = cloneStates(states);
+
+  for (let round = 1; round <= maxRounds; round++) {
+    const next = cloneStates(current);
+    const messages: RoutingUpdateRound['messages'] = [];
+
+    for (const link of links) {
+      const sender = current.find((state) => state.router === link.from);
+      const receiver = next.find((state) => state.router === link.to);
+      if (!sender || !receiver) continue;
+
+      const advertised = getAdvertisedRoutes(sender, link.fromInterface);
+      messages.push({ from: link.from, to: link.to, path: link.path, routeCount: advertised.length });
+
+      for (const offer of advertised) {
+        const metric = Math.min(offer.metric + 1, RIP_INFINITY);
+        const existing = receiver.routes.find((route) => routeKey(route) === routeKey(offer));
+        if (!existing) {
+          if (metric < RIP_INFINITY) {
+            receiver.routes.push({ destination: offer.destination, subnetMask: offer.subnetMask, nextHop: link.from, metric, interface: link.toInterface });
+          }
+          continue;
+        }
+        // 自己的直连网络不会被邻居的通告覆盖
+        if (existing.nextHop === CONNECTED && existing.metric < RIP_INFINITY) continue;
+
+        const fromCurrentNextHop = existing.nextHop === link.from && existing.interface === link.toInterface;
+        if (fromCurrentNextHop || metric < existing.metric) {
+          existing.nextHop = link.from;
+          existing.interface = link.toInterface;
+          existing.metric = metric;
+        }
+      }
+
+      // 下一跳邻居不再通告的路由视为超时失效
+      const advertisedKeys = new Set(advertised.map(routeKey));
+      receiver.routes
+        .filter((route) => route.nextHop === link.from && route.interface === link.toInterface && !advertisedKeys.has(routeKey(route)))
+        .forEach((route) => {
+          route.metric = RIP_INFINITY;
+        });
+    }
+
+    const changes = diffRIPStates(current, next);
+    rounds.push({ protocol: 'rip', round, messages, changes });
+    current = next;
+    if (changes.length === 0) {
+      return { rounds, states: current, converged: true };
+    }
+  }
+
+  return { rounds, states: current, converged: false };
+}
+
+/**
+ * 两轮之间路由表的变化（新学到、跳数或下一跳改变）
+ */
+function diffRIPStates(before: RIPRouterState[], after: RIPRouterState[]): RoutingTableChange[] {
+  const changes: RoutingTableChange[] = [];
+  for (const state of after) {
+    const previous = before.find((s) => s.router === state.router);
+    for (const route of state.routes) {
+      const old = previous?.routes.find((r) => routeKey(r) === routeKey(route));
+      if (!old || old.metric !== route.metric || old.nextHop !== route.nextHop) {
+        changes.push({
+          router: state.router,
+          destination: routeKey(route),
+          nextHop: route.nextHop,
+          metric: route.metric,
+          previousMetric: old?.metric
+        });
+      }
+    }
+  }
+  return changes;
+}
+
+/**
+ * 把RIP路由表写回设备路由表：保留手动配置的路由，同一目标网络已有静态路由时不写入学到的路由
+ * @param device 路由器
+ * @param routes RIP路由表
+ */
+export function buildRoutingTable(device: Device, routes: RIPRoute[]): RouteEntry[] {
+  const manual = getStaticRoutes(device.routingTable);
+  const manualKeys = new Set(manual.map((entry) => routeKey({ destination: entry.destination, subnetMask: getRouteMask(entry) })));
+  const learned = routes
+    .filter((route) => route.metric < RIP_INFINITY && !manualKeys.has(routeKey(route)))
+    .sort((a, b) => ipToNumber(a.destination) - ipToNumber(b.destination))
+    .map((route): RouteEntry => ({
+      destination: route.destination,
+      subnetMask: route.subnetMask,
+      nextHop: route.nextHop,
+      metric: route.metric,
+      interface: route.interface,
+      source: route.nextHop === CONNECTED ? 'connected' : 'rip'
+    }));
+  return [...manual, ...learned];
+}
+
+/**
+ * 是否出现了“计数到无穷”：同一条路由的跳数在多轮中不断增加
+ * @param rounds 收敛过程
+ */
+export function hasCountToInfinity(rounds: RoutingUpdateRound[]): boolean {
+  const increases = new Map<string, number>();
+  for (const round of rounds) {
+    for (const change of round.changes) {
+      if (change.previousMetric !== undefined && change.metric > change.previousMetric) {
+        const key = `${change.router}|${change.destination}`;
+        increases.set(key, (increases.get(key) || 0) + 1);
+      }
+    }
+  }
+  return [...increases.values()].some((count) => count >= 2);
+}
+
+/**
+ * 一条路由变化的说明，如“学到 192.168.1.0/24，经 R1，2跳”
+ * @param change 路由变化
+ */
+export function formatRoutingChange(change: RoutingTableChange): string {
+  if (change.metric >= RIP_INFINITY) {
+    return `${change.destination} 不可达（${RIP_INFINITY}跳）`;
+  }
+  if (change.previousMetric === undefined) {
+    return `学到 ${change.destination}，经 ${change.nextHop}，${change.metric}跳`;
+  }
+  return `${change.destination} ${change.previousMetric >= RIP_INFINITY ? '不可达' : `${change.previousMetric}跳`} → ${change.metric}跳（经 ${change.nextHop}）`;
+}
@@ -0,0 +1,185 @@
+/**
+ * 静态路由自动生成工具函数
+ *
+ * 按“经过的路由器最少”为每台路由器找出到达各目标网络的下一跳，生成精简且正确的静态路由表；
+ * 可选为有冗余链路的网络再加一条权重更高的备用路由，并能与当前路由表逐条对比
+ */
+
+import { Device, RouteEntry } from '../types';
+import { formatRouteDestination, getRouteMask } from './routeUtils';
+import { calculateSubnet, ipToNumber } from './subnetUtils';
+import { getConnectedRoutes } from './ripUtils';
+
+const CONNECTED = '直连';
+const DEFAULT_ROUTE = '0.0.0.0';
+
+// 生成选项
+export interface RouteGenerationOptions {
+  includeBackupRoutes: boolean; // 有冗余路径时加一条备用路由（权重更高）
+  includeLinkNetworks: boolean; // 路由器之间的互联网段也写入路由表（默认只写有主机的网段）
+  defaultRouteForStubs: boolean; // 只有一个邻居的末端路由器只配一条默认路由
+}
+
+// 两台路由器之间的邻居关系（单向，from 从 fromInterface 发出可以到达 to）
+export interface RouterAdjacency {
+  from: string;
+  fromInterface: string;
+  to: string;
+}
+
+// 一台路由器生成的路由表
+export interface GeneratedRoutingTable {
+  router: string;
+  routingTable: RouteEntry[];
+}
+
+// 路由表对比的一行
+export interface RouteDiffLine {
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  entry: RouteEntry;
+  previous?: RouteEntry; // changed 时为原来的条目
+}
+
+interface TargetNetwork {
+  destination: string;
+  subnetMask: string;
+  owners: string[]; // 直连该网络的路由器
+}
+
+const networkKey = (network: { destination: string; subnetMask: string }) => `${network.destination}/${network.subnetMask}`;
+const entryKey = (entry: RouteEntry) => `${networkKey({ destination: entry.destination, subnetMask: getRouteMask(entry) })}|${entry.nextHop}`;
+
+/**
+ * 从某台路由器出发，到其他路由器要经过几跳（广度优先搜索）
+ */
+function hopDistances(start: string, adjacencies: RouterAdjacency[]): Map<string, number> {
+  const distances = new Map([[start, 0]]);
+  const queue = [start];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const adjacency of adjacencies.filter((a) => a.from === current)) {
+      if (distances.has(adjacency.to)) continue;
+      distances.set(adjacency.to, distances.get(current)! + 1);
+      queue.push(adjacency.to);
+    }
+  }
+  return distances;
+}
+
+/**
+ * 需要写入路由表的目标网络：路由器LAN口和有主机（PC/服务器）的网段，可选加上路由器互联网段
+ */
+function collectTargetNetworks(routers: Device[], endpoints: Device[], includeLinkNetworks: boolean): TargetNetwork[] {
+  const networks = new Map<string, TargetNetwork>();
+  for (const router of routers) {
+    for (const route of getConnectedRoutes(router)) {
+      const hasHosts = endpoints.some((d) => d.ip && calculateSubnet(d.ip, route.subnetMask) === route.destination);
+      if (route.interface !== 'LAN' && !hasHosts && !includeLinkNetworks) continue;
+      const key = networkKey(route);
+      const network = networks.get(key) || { destination: route.destination, subnetMask: route.subnetMask, owners: [] };
+      network.owners.push(router.name);
+      networks.set(key, network);
+    }
+  }
+  return [...networks.values()].sort((a, b) => ipToNumber(a.destination) - ipToNumber(b.destination));
+}
+
+/**
+ * 为每台路由器生成静态路由表
+ * 主路由选经过路由器最少的邻居，权重为跳数；备用路由只选不会把报文绕回本路由器的邻居
+ * （邻居到目标的跳数不超过本路由器），权重至少比主路由大1
+ * @param routers 要生成路由表的路由器
+ * @param allRouters 全网路由器（不生成路由表的路由器也可作为中转）
+ * @param adjacencies 路由器之间的邻居关系
+ * @param endpoints PC和服务器，用于判断哪些网段有主机
+ * @param options 生成选项
+ */
+export function generateStaticRoutes(
+  routers: Device[],
+  allRouters: Device[],
+  adjacencies: RouterAdjacency[],
+  endpoints: Device[],
+  options: RouteGenerationOptions
+): GeneratedRoutingTable[] {
+  const networks = collectTargetNetworks(allRouters, endpoints, options.includeLinkNetworks);
+  const distances = new Map(allRouters.map((router) => [router.name, hopDistances(router.name, adjacencies)]));
+  // 某台路由器到目标网络要经过几台路由器（直连为0，不可达为 Infinity）
+  const hopsToNetwork = (router: string, network: TargetNetwork) =>
+    Math.min(...network.owners.map((owner) => distances.get(router)?.get(owner) ?? Infinity));
+
+  return routers.map((router) => {
+    const connected = getConnectedRoutes(router);
+    const connectedKeys = new Set(connected.map(networkKey));
+    const neighbors = adjacencies
+      .filter((a) => a.from === router.name)
+      .filter((a, index, list) => list.findIndex((b) => b.to === a.to) === index);
+
+    const routingTable: RouteEntry[] = connected
+      .filter((route) => networks.some((network) => networkKey(network) === networkKey(route)))
+      .map((route) => ({
+        destination: route.destination,
+        subnetMask: route.subnetMask,
+        nextHop: CONNECTED,
+        metric: 0,
+        interface: route.interface
+      }));
+
+    const remote = networks.filter((network) => !connectedKeys.has(networkKey(network)) && hopsToNetwork(router.name, network) < Infinity);
+    if (options.defaultRouteForStubs && neighbors.length === 1 && remote.length > 0) {
+      routingTable.push({ destination: DEFAULT_ROUTE, subnetMask: DEFAULT_ROUTE, nextHop: neighbors[0].to, metric: 1, interface: neighbors[0].fromInterface });
+      return { router: router.name, routingTable };
+    }
+
+    for (const network of remote) {
+      const candidates = neighbors
+        .map((neighbor) => ({ neighbor, hops: hopsToNetwork(neighbor.to, network) }))
+        .filter((candidate) => candidate.hops < Infinity)
+        .sort((a, b) => a.hops - b.hops);
+      const [primary, ...others] = candidates;
+      if (!primary) continue;
+      const metric = primary.hops + 1;
+      routingTable.push({ destination: network.destination, subnetMask: network.subnetMask, nextHop: primary.neighbor.to, metric, interface: primary.neighbor.fromInterface });
+
+      const backup = options.includeBackupRoutes ? others.find((candidate) => candidate.hops <= metric) : undefined;
+      if (backup) {
+        routingTable.push({
+          destination: network.destination,
+          subnetMask: network.subnetMask,
+          nextHop: backup.neighbor.to,
+          metric: Math.max(backup.hops + 1, metric + 1),
+          interface: backup.neighbor.fromInterface
+        });
+      }
+    }
+
+    return { router: router.name, routingTable };
+  });
+}
+
+/**
+ * 把生成的路由表与当前路由表逐条对比（同一目标网络、同一下一站视为同一条路由）
+ * @param current 当前路由表
+ * @param generated 生成的路由表
+ */
+export function diffRoutingTables(current: RouteEntry[], generated: RouteEntry[]): RouteDiffLine[] {
+  const lines: RouteDiffLine[] = generated.map((entry) => {
+    const previous = current.find((e) => entryKey(e) === entryKey(entry));
+    if (!previous) return { status: 'added', entry };
+    const same = previous.metric === entry.metric && previous.interface === entry.interface;
+    return same ? { status: 'unchanged', entry } : { status: 'changed', entry, previous };
+  });
+  for (const entry of current) {
+    if (!generated.some((e) => entryKey(e) === entryKey(entry))) {
+      lines.push({ status: 'removed', entry });
+    }
+  }
+  return lines;
+}
+
+/**
+ * 路由条目的一行说明，如“192.168.2.0/24 → R2 (eth1, 权重1)”
+ * @param entry 路由条目
+ */
+export function formatGeneratedRoute(entry: RouteEntry): string {
+  return `${formatRouteDestination(entry)} → ${entry.nextHop} (${entry.interface}, 权重${entry.metric})`;
+}
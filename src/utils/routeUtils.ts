@@ -0,0 +1,133 @@
+/**
+ * 路由表工具函数
+ *
+ * 用于路由条目的掩码推断、最长前缀匹配和显示格式化（IPv4路由用子网掩码，IPv6路由用前缀长度）
+ */
+
+import { RouteEntry } from '../types';
+import { calculateSubnet, cidrToMask, maskToCIDR } from './subnetUtils';
+import { IPV6_DEFAULT_ROUTE, isIPv6Address, isInSameIPv6Prefix, normalizeIPv6 } from './ipv6Utils';
+
+const HOST_ROUTE_MASK = '255.255.255.255';
+const LEGACY_NETWORK_MASK = '255.255.255.0';
+export const DEFAULT_ROUTE_DESTINATION = '0.0.0.0';
+export const DEFAULT_ROUTE_MASK = '0.0.0.0';
+
+/**
+ * 是否为IPv6路由（目标网络是IPv6前缀）
+ * @param entry 路由条目
+ */
+export function isIPv6Route(entry: RouteEntry): boolean {
+  return isIPv6Address(entry.destination);
+}
+
+/**
+ * 获取路由条目的子网掩码（IPv4路由）
+ * 旧版本保存的条目没有掩码：0.0.0.0 视为默认路由，末段为0视为 /24 网段路由，否则视为 /32 主机路由
+ * @param entry 路由条目
+ * @returns 子网掩码（如 255.255.255.128）
+ */
+export function getRouteMask(entry: RouteEntry): string {
+  if (entry.subnetMask) {
+    return entry.subnetMask;
+  }
+  if (entry.destination === DEFAULT_ROUTE_DESTINATION) {
+    return DEFAULT_ROUTE_MASK;
+  }
+  const parts = entry.destination.split('.');
+  return parts[3] === '0' ? LEGACY_NETWORK_MASK : HOST_ROUTE_MASK;
+}
+
+/**
+ * 获取路由条目的前缀长度
+ * @param entry 路由条目
+ * @returns CIDR前缀（如 25）
+ */
+export function getRoutePrefixLength(entry: RouteEntry): number {
+  if (isIPv6Route(entry)) {
+    // 未填写前缀长度时：:: 视为默认路由，否则视为 /128 主机路由
+    return entry.prefixLength ?? (normalizeIPv6(entry.destination) === IPV6_DEFAULT_ROUTE ? 0 : 128);
+  }
+  return maskToCIDR(getRouteMask(entry));
+}
+
+/**
+ * 是否为默认路由（0.0.0.0/0 或 ::/0，匹配所有同类地址的目标）
+ * @param entry 路由条目
+ */
+export function isDefaultRoute(entry: RouteEntry): boolean {
+  return getRoutePrefixLength(entry) === 0;
+}
+
+/**
+ * 解析CIDR写法的目标网络（如 192.168.0.0/16、2001:db8:2::/64）
+ * @param input 用户输入
+ * @returns 拆分后的网络地址和掩码（IPv6为前缀长度）；不含前缀时返回 null
+ */
+export function parseCIDRDestination(
+  input: string
+): { destination: string; subnetMask?: string; prefixLength?: number } | null {
+  const match = input.trim().match(/^([\da-fA-F.:]+)\/(\d{1,3})$/);
+  if (!match) {
+    return null;
+  }
+  const prefix = Number(match[2]);
+  if (isIPv6Address(match[1])) {
+    return prefix <= 128 ? { destination: normalizeIPv6(match[1]), prefixLength: prefix } : null;
+  }
+  if (prefix < 0 || prefix > 32) {
+    return null;
+  }
+  return { destination: match[1], subnetMask: cidrToMask(prefix) };
+}
+
+/**
+ * 判断目标IP是否落在路由条目描述的网段内
+ * @param entry 路由条目
+ * @param destIP 目标IP地址
+ * @returns 是否匹配
+ */
+export function routeMatchesIP(entry: RouteEntry, destIP: string): boolean {
+  // IPv4和IPv6各查各的路由：IPv4的默认路由不会匹配IPv6目标
+  if (isIPv6Route(entry) !== isIPv6Address(destIP)) {
+    return false;
+  }
+  if (isIPv6Route(entry)) {
+    const prefixLength = getRoutePrefixLength(entry);
+    return prefixLength === 0 || isInSameIPv6Prefix(entry.destination, prefixLength, destIP);
+  }
+  const mask = getRouteMask(entry);
+  const routeNetwork = calculateSubnet(entry.destination, mask);
+  if (!routeNetwork) {
+    return false;
+  }
+  return routeNetwork === calculateSubnet(destIP, mask);
+}
+
+/**
+ * 最长前缀匹配
+ * @param routingTable 路由表
+ * @param destIP 目标IP地址
+ * @returns 所有命中的路由条目，按前缀长度从长到短、权重从小到大排序
+ */
+export function findMatchingRoutes(routingTable: RouteEntry[], destIP: string): RouteEntry[] {
+  return routingTable
+    .filter((entry) => routeMatchesIP(entry, destIP))
+    .sort((a, b) => {
+      const prefixDiff = getRoutePrefixLength(b) - getRoutePrefixLength(a);
+      if (prefixDiff !== 0) {
+        return prefixDiff;
+      }
+      return a.metric - b.metric;
+    });
+}
+
+/**
+ * 以CIDR形式显示路由目标
+ * @param entry 路由条目
+ * @returns 显示文本（如 192.168.1.128/25、2001:db8:2::/64，默认路由显示为 0.0.0.0/0(默认路由)）
+ */
+export function formatRouteDestination(entry: RouteEntry): string {
+  const text = `${entry.destination}/${getRoutePrefixLength(entry)}`;
+  return isDefaultRoute(entry) ? `${text}(默认路由)` : text;
+}
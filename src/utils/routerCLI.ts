@@ -0,0 +1,730 @@
+/**
+ * 路由器命令行工具函数（仿 Cisco IOS）
+ *
+ * 解析 enable、configure terminal、interface、ip address、ip route、show、ping、traceroute 等命令，
+ * 把命令转换为与图形界面相同的设备配置（由命令行控制台交给 store 执行），
+ * 并生成 show ip route、show ip interface brief、show running-config 的输出
+ */
+
+import { Connection, Device, NetworkInterface, PingStatistics, RouteEntry, TracerouteHop } from '../types';
+import { isIPv4Format, validateIPAddress } from './ipValidator';
+import { isIPv6Address } from './ipv6Utils';
+import { getLinkInterface, isConnectionUp, isInterfaceUp } from './linkUtils';
+import { formatRouteDestination, getRouteMask, isDefaultRoute, isIPv6Route } from './routeUtils';
+import {
+  DEFAULT_SUBNET_MASK,
+  calculateSubnet,
+  interfaceContainsIP,
+  ipToNumber,
+  isInSameSubnet,
+  isValidRouteMask,
+  isValidSubnetMask,
+  maskToCIDR,
+  numberToIP
+} from './subnetUtils';
+import { displayWidth } from './terminalUtils';
+import { getPhysicalInterface, isSubInterface } from './vlanUtils';
+
+// IOS 的 ping 默认连续发送5个回显请求
+export const IOS_PING_COUNT = 5;
+
+// 用户模式 >、特权模式 #、全局配置模式 (config)#、接口配置模式 (config-if)#
+export type CLIMode = 'user' | 'privileged' | 'config' | 'interface';
+
+export interface CLISession {
+  mode: CLIMode;
+  interfaceName?: string; // 接口配置模式下正在配置的接口
+}
+
+export const INITIAL_CLI_SESSION: CLISession = { mode: 'user' };
+
+// 命令的效果：由控制台调用 store 中与图形界面相同的操作
+export type CLIEffect =
+  | { type: 'update'; updates: Partial<Device> }
+  | { type: 'interface-status'; interfaceName: string; status: 'up' | 'down' }
+  | { type: 'ping'; destIP: string }
+  | { type: 'traceroute'; destIP: string };
+
+export interface CLIResult {
+  output: string[];
+  session: CLISession;
+  effect?: CLIEffect;
+}
+
+export interface CLIContext {
+  device: Device; // 正在配置的路由器
+  devices: Device[];
+  connections: Connection[];
+}
+
+interface CommandOutcome {
+  output?: string[];
+  session?: CLISession;
+  effect?: CLIEffect;
+}
+
+// 命令树的一个节点：关键字（可缩写），或参数（任意输入，经 param 校验）
+interface CommandNode {
+  word: string; // 关键字；参数节点为占位符（如 A.B.C.D）
+  help: string;
+  param?: (value: string) => boolean;
+  children?: CommandNode[];
+  run?: (words: string[]) => CommandOutcome; // 命令在此结束时执行；words 为展开后的关键字和参数
+}
+
+interface Token {
+  text: string;
+  start: number;
+}
+
+const tokenize = (line: string): Token[] =>
+  [...line.matchAll(/\S+/g)].map((match) => ({ text: match[0], start: match.index ?? 0 }));
+
+const isDistance = (value: string) => /^\d{1,3}$/.test(value) && Number(value) >= 1 && Number(value) <= 255;
+
+const isConnectedNextHop = (route: RouteEntry) =>
+  route.nextHop === '直连' || route.nextHop === '-' || route.nextHop === '0.0.0.0';
+
+const findInterface = (device: Device, name: string | undefined) =>
+  device.interfaces.find((iface) => iface.name.toLowerCase() === (name || '').toLowerCase());
+
+// 按关键字（不区分大小写，可缩写）或参数匹配当前位置的候选节点
+const matchNodes = (nodes: CommandNode[], text: string): CommandNode[] => {
+  const lower = text.toLowerCase();
+  const keywords = nodes.filter((node) => !node.param);
+  const exact = keywords.find((node) => node.word.toLowerCase() === lower);
+  if (exact) return [exact];
+  const prefixed = keywords.filter((node) => node.word.toLowerCase().startsWith(lower));
+  if (prefixed.length > 0) return prefixed;
+  return nodes.filter((node) => node.param?.(text));
+};
+
+interface WalkResult {
+  node?: CommandNode; // 最后匹配的节点；没有输入时为空
+  words: string[];
+  errorAt?: number; // 第几个词无法识别
+  ambiguous?: boolean;
+}
+
+const walkTokens = (roots: CommandNode[], tokens: Token[]): WalkResult => {
+  let nodes = roots;
+  let node: CommandNode | undefined;
+  const words: string[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const matches = matchNodes(nodes, tokens[i].text);
+    if (matches.length !== 1) {
+      return { node, words, errorAt: i, ambiguous: matches.length > 1 };
+    }
+    node = matches[0];
+    words.push(node.param ? tokens[i].text : node.word);
+    nodes = node.children || [];
+  }
+  return { node, words };
+};
+
+// 查找拥有这个地址的路由器接口
+const findRouterByInterfaceIP = (devices: Device[], ip: string) =>
+  devices.find((d) => d.type === 'router' && d.interfaces.some((iface) => iface.ip === ip));
+
+// 路由表里的下一站是路由器名称，显示时换成对端面向本路由器的接口地址
+const getNextHopIP = (context: CLIContext, route: RouteEntry): string => {
+  const router = context.devices.find((d) => d.type === 'router' && d.name === route.nextHop);
+  if (!router) return route.nextHop;
+  const outInterface = findInterface(context.device, route.interface);
+  const facing =
+    router.interfaces.find((peer) => peer.ip && outInterface && interfaceContainsIP(outInterface, peer.ip)) ||
+    router.interfaces.find((peer) => peer.ip && context.device.interfaces.some((iface) => interfaceContainsIP(iface, peer.ip)));
+  return facing?.ip || router.ip;
+};
+
+// 接口网段的直连路由（其余“直连”条目是指向出接口的静态路由）
+const isInterfaceRoute = (device: Device, route: RouteEntry) => {
+  const iface = findInterface(device, route.interface);
+  return isConnectedNextHop(route) && !!iface?.ip &&
+    calculateSubnet(iface.ip, iface.subnetMask || DEFAULT_SUBNET_MASK) === route.destination &&
+    getRouteMask(route) === (iface.subnetMask || DEFAULT_SUBNET_MASK);
+};
+
+const getRouteCode = (device: Device, route: RouteEntry) => {
+  if (route.source === 'rip') return 'R';
+  if (route.source === 'ospf') return 'O';
+  if (isInterfaceRoute(device, route)) return 'C';
+  return isDefaultRoute(route) ? 'S*' : 'S';
+};
+
+const ADMIN_DISTANCES: Record<string, number> = { R: 120, O: 110 };
+
+// 静态路由的权重就是 ip route 命令中的管理距离（1-255）；图形界面允许的权重0在IOS中没有对应值，按默认距离1显示和导出
+const getStaticDistance = (route: RouteEntry) => Math.max(route.metric, 1);
+
+/**
+ * show ip route 的输出
+ * @param context 命令行上下文
+ */
+export function formatShowIPRoute(context: CLIContext): string[] {
+  const routes = (context.device.routingTable || []).filter((route) => !isIPv6Route(route));
+  const defaultRoute = routes.find((route) => isDefaultRoute(route) && !isConnectedNextHop(route));
+  const lines = [
+    'Codes: C - connected, S - static, R - RIP, O - OSPF',
+    '       * - candidate default',
+    '',
+    defaultRoute
+      ? `Gateway of last resort is ${getNextHopIP(context, defaultRoute)} to network 0.0.0.0`
+      : 'Gateway of last resort is not set',
+    ''
+  ];
+  routes.forEach((route) => {
+    const code = getRouteCode(context.device, route);
+    const network = `${route.destination}/${maskToCIDR(getRouteMask(route))}`;
+    if (isConnectedNextHop(route)) {
+      lines.push(`${code.padEnd(5)}${network} is directly connected, ${route.interface}`);
+      return;
+    }
+    // 动态路由显示 [管理距离/度量值]；静态路由的权重就是管理距离，度量值为0
+    const [distance, metric] = route.source ? [ADMIN_DISTANCES[code], route.metric] : [getStaticDistance(route), 0];
+    lines.push(`${code.padEnd(5)}${network} [${distance}/${metric}] via ${getNextHopIP(context, route)}, ${route.interface}`);
+  });
+  return lines;
+}
+
+// 接口状态：手动关闭显示 administratively down；没有接线或链路断开显示 down
+const getInterfaceStatus = (context: CLIContext, iface: NetworkInterface) => {
+  const { device, devices, connections } = context;
+  const physical = getPhysicalInterface(device, iface);
+  if (!isInterfaceUp(iface) || !isInterfaceUp(physical)) return 'administratively down';
+  const link = connections.find((connection) => {
+    const peerId = connection.source === device.id ? connection.target : connection.target === device.id ? connection.source : null;
+    const peer = devices.find((d) => d.id === peerId);
+    return !!peer && getLinkInterface(device, peer, connection)?.id === physical.id;
+  });
+  return link && isConnectionUp(link, devices) ? 'up' : 'down';
+};
+
+/**
+ * show ip interface brief 的输出
+ * @param context 命令行上下文
+ */
+export function formatInterfaceBrief(context: CLIContext): string[] {
+  const row = (name: string, ip: string, ok: string, method: string, status: string, protocol: string) =>
+    `${name.padEnd(23)}${ip.padEnd(16)}${ok.padEnd(4)}${method.padEnd(7)}${status.padEnd(22)}${protocol}`;
+  return [
+    row('Interface', 'IP-Address', 'OK?', 'Method', 'Status', 'Protocol'),
+    ...context.device.interfaces.map((iface) => {
+      const status = getInterfaceStatus(context, iface);
+      return row(
+        iface.name,
+        iface.ip || 'unassigned',
+        iface.ip ? 'YES' : 'NO',
+        iface.ip ? 'manual' : 'unset',
+        status,
+        status === 'up' ? 'up' : 'down'
+      );
+    })
+  ];
+}
+
+/**
+ * 生成路由器的 running-config（show running-config 和导出配置共用）
+ * @param context 命令行上下文
+ * @returns 配置文本
+ */
+export function buildRunningConfig(context: CLIContext): string {
+  const { device } = context;
+  const rip = device.dynamicRouting?.protocol === 'rip' ? device.dynamicRouting : undefined;
+  const ospf = device.dynamicRouting?.protocol === 'ospf';
+  const lines = ['!', `hostname ${device.name}`, '!'];
+
+  if (device.interfaces.some((iface) => iface.ipv6)) {
+    lines.push('ipv6 unicast-routing', '!');
+  }
+
+  // 物理接口在前，子接口在后
+  const interfaces = [...device.interfaces.filter((iface) => !isSubInterface(iface)), ...device.interfaces.filter(isSubInterface)];
+  interfaces.forEach((iface) => {
+    lines.push(`interface ${iface.name}`);
+    if (isSubInterface(iface)) lines.push(` encapsulation dot1Q ${iface.vlan}`);
+    lines.push(iface.ip ? ` ip address ${iface.ip} ${iface.subnetMask || DEFAULT_SUBNET_MASK}` : ' no ip address');
+    if (iface.nat) lines.push(` ip nat ${iface.nat}`);
+    if (rip && !rip.splitHorizon) lines.push(' no ip split-horizon');
+    if (iface.ipv6) lines.push(` ipv6 address ${iface.ipv6}/${iface.ipv6PrefixLength || 64}`);
+    if (!isInterfaceUp(iface)) lines.push(' shutdown');
+    lines.push('!');
+  });
+
+  const networks = [...new Set(device.interfaces
+    .filter((iface) => iface.ip)
+    .map((iface) => `${calculateSubnet(iface.ip, iface.subnetMask || DEFAULT_SUBNET_MASK)} ${iface.subnetMask || DEFAULT_SUBNET_MASK}`))];
+  if (rip) {
+    lines.push('router rip', ' version 2', ...networks.map((network) => ` network ${network.split(' ')[0]}`), ' no auto-summary', '!');
+  }
+  if (ospf) {
+    // OSPF 的 network 命令使用反掩码
+    const wildcard = (mask: string) => numberToIP(~ipToNumber(mask) >>> 0);
+    lines.push('router ospf 1', ...networks.map((network) => {
+      const [subnet, mask] = network.split(' ');
+      return ` network ${subnet} ${wildcard(mask)} area 0`;
+    }), '!');
+  }
+
+  // 只列出手动配置的静态路由（直连路由由接口地址产生，动态路由由协议学到）
+  // 按权重排序：粘贴回去时未写距离的路由依次顺延，同一目标网络的优先顺序保持不变
+  const staticRoutes = (device.routingTable || [])
+    .filter((route) => !route.source && !isIPv6Route(route) && !isInterfaceRoute(device, route))
+    .sort((a, b) => a.metric - b.metric);
+  staticRoutes.forEach((route) => {
+    const target = isConnectedNextHop(route) ? route.interface : getNextHopIP(context, route);
+    const distance = !isConnectedNextHop(route) && getStaticDistance(route) !== 1 ? ` ${getStaticDistance(route)}` : '';
+    lines.push(`ip route ${route.destination} ${getRouteMask(route)} ${target}${distance}`);
+  });
+  if (staticRoutes.length > 0) lines.push('!');
+  lines.push('end');
+
+  const body = lines.join('\n');
+  return `Building configuration...\n\nCurrent configuration : ${new TextEncoder().encode(body).length} bytes\n${body}\n`;
+}
+
+const configureInterfaceAddress = (context: CLIContext, iface: NetworkInterface, ip: string, mask: string): CommandOutcome => {
+  const { device, devices } = context;
+  // 与 IOS 一致：接受任意连续掩码（如 /23、点到点链路的 /31），与图形界面使用同一规则
+  if (!isValidSubnetMask(mask)) {
+    return { output: [`Bad mask ${mask} for address ${ip}`] };
+  }
+  if (!isIPv4Format(ip)) {
+    return { output: [`Not a valid host address - ${ip}`] };
+  }
+  const subnet = calculateSubnet(ip, mask);
+  const broadcast = numberToIP((ipToNumber(subnet) | ~ipToNumber(mask)) >>> 0);
+  const prefixLength = maskToCIDR(mask);
+  // 网段地址和广播地址不能配给接口；/31 没有网络地址和广播地址，两个地址都可用
+  if (prefixLength < 31 && (ip === subnet || ip === broadcast)) {
+    return { output: [`Bad mask /${prefixLength} for address ${ip}`] };
+  }
+  // 保留地址（0.x、127.x……）不能用
+  if (!validateIPAddress(ip, mask).valid) {
+    return { output: [`Not a valid host address - ${ip}`] };
+  }
+  const overlapping = device.interfaces.find(
+    (other) => other.name !== iface.name && other.ip && (interfaceContainsIP(other, ip) || isInSameSubnet(ip, mask, other.ip))
+  );
+  if (overlapping) {
+    return { output: [`% ${subnet} overlaps with ${overlapping.name}`] };
+  }
+
+  // 接口网段的直连路由跟着地址一起修改（没有时补上）
+  const oldSubnet = iface.ip ? calculateSubnet(iface.ip, iface.subnetMask || DEFAULT_SUBNET_MASK) : '';
+  const table = device.routingTable || [];
+  const connectedIndex = table.findIndex(
+    (route) => isConnectedNextHop(route) && !isIPv6Route(route) && route.interface === iface.name && (!oldSubnet || route.destination === oldSubnet)
+  );
+  const routingTable = connectedIndex >= 0
+    ? table.map((route, i) => (i === connectedIndex ? { ...route, destination: subnet, subnetMask: mask } : route))
+    : [...table, { destination: subnet, subnetMask: mask, nextHop: '直连', metric: 0, interface: iface.name }];
+
+  const updates: Partial<Device> = {
+    interfaces: device.interfaces.map((i) => (i.name === iface.name ? { ...i, ip, subnetMask: mask, subnet } : i)),
+    routingTable
+  };
+  // 路由器的主IP就是LAN接口的地址（与图形界面一致）
+  if (iface.name === 'LAN') updates.ip = ip;
+
+  const duplicate = devices.find((d) => d.id !== device.id && (d.ip === ip || d.interfaces?.some((i) => i.ip === ip)));
+  return {
+    output: duplicate ? [`%IP-4-DUPADDR: Duplicate address ${ip} on ${iface.name}, sourced by ${duplicate.name}`] : [],
+    effect: { type: 'update', updates }
+  };
+};
+
+// ip route / no ip route 的第三个参数：出接口名称或下一跳地址
+const resolveRouteTarget = (context: CLIContext, target: string): { nextHop: string; interface: string } | string => {
+  const { device, devices } = context;
+  const outInterface = findInterface(device, target);
+  if (outInterface) {
+    return { nextHop: '直连', interface: outInterface.name };
+  }
+  if (device.interfaces.some((iface) => iface.ip === target)) {
+    return "%Invalid next hop address (it's this router)";
+  }
+  const router = findRouterByInterfaceIP(devices, target);
+  if (!router) {
+    return `% 下一跳 ${target} 不是任何路由器的接口地址`;
+  }
+  const facing = device.interfaces.find((iface) => interfaceContainsIP(iface, target));
+  if (!facing) {
+    return `% 下一跳 ${target} 与本路由器的接口都不在同一网段，无法确定出接口`;
+  }
+  return { nextHop: router.name, interface: facing.name };
+};
+
+const addStaticRoute = (context: CLIContext, words: string[]): CommandOutcome => {
+  const [, , destination, mask, target, distance] = words;
+  if (!isValidRouteMask(mask) || calculateSubnet(destination, mask) !== destination) {
+    return { output: ['%Inconsistent address and mask'] };
+  }
+  const resolved = resolveRouteTarget(context, target);
+  if (typeof resolved === 'string') {
+    return { output: [resolved] };
+  }
+  const direct = resolved.nextHop === '直连';
+  if (direct && destination === '0.0.0.0' && mask === '0.0.0.0') {
+    return { output: ['% 默认路由必须指定下一跳地址：ip route 0.0.0.0 0.0.0.0 <下一跳IP>'] };
+  }
+
+  // 直连的权重固定为0；静态路由默认为1（相当于IOS的管理距离）
+  const entry: RouteEntry = {
+    destination,
+    subnetMask: mask,
+    ...resolved,
+    metric: direct ? 0 : distance ? Number(distance) : 1
+  };
+  const table = context.device.routingTable || [];
+  const sameRoute = (route: RouteEntry) =>
+    !route.source && route.destination === destination && getRouteMask(route) === mask &&
+    route.nextHop === entry.nextHop && route.interface === entry.interface;
+  // 与 IOS 一致：重复输入已有的路由（未指定距离）不改变任何配置
+  if (!distance && table.some(sameRoute)) {
+    return {};
+  }
+
+  // 同一目标网络的不同路由权重不能重复（与图形界面保存路由表的规则一致）：
+  // 指定了距离就拒绝，新增路由未指定距离时顺延到下一个没被占用的权重
+  const usedMetrics = new Set(
+    table
+      .filter((route) => !sameRoute(route) && formatRouteDestination(route) === formatRouteDestination(entry))
+      .map((route) => route.metric)
+  );
+  if (usedMetrics.has(entry.metric)) {
+    if (distance) {
+      return { output: [`% 目标网络 ${formatRouteDestination(entry)} 已有权重为 ${entry.metric} 的路由，同一目标网络的不同路由必须使用不同的权重`] };
+    }
+    while (usedMetrics.has(entry.metric)) entry.metric++;
+  }
+
+  const routingTable = table.some(sameRoute)
+    ? table.map((route) => (sameRoute(route) ? entry : route))
+    : [...table, entry];
+  return { effect: { type: 'update', updates: { routingTable } } };
+};
+
+const removeStaticRoute = (context: CLIContext, words: string[]): CommandOutcome => {
+  const [, , , destination, mask, target] = words;
+  const resolved = target ? resolveRouteTarget(context, target) : undefined;
+  if (typeof resolved === 'string') {
+    return { output: ['%No matching route to delete'] };
+  }
+  const table = context.device.routingTable || [];
+  const matchesTarget = (route: RouteEntry) => !resolved || (
+    (route.nextHop === resolved.nextHop || (resolved.nextHop === '直连' && isConnectedNextHop(route))) &&
+    route.interface === resolved.interface
+  );
+  const matches = (route: RouteEntry) =>
+    !route.source && !isIPv6Route(route) && !isInterfaceRoute(context.device, route) &&
+    route.destination === destination && getRouteMask(route) === mask && matchesTarget(route);
+  if (!table.some(matches)) {
+    return { output: ['%No matching route to delete'] };
+  }
+  return { effect: { type: 'update', updates: { routingTable: table.filter((route) => !matches(route)) } } };
+};
+
+const setShutdown = (iface: NetworkInterface, shutdown: boolean): CommandOutcome => {
+  if (isInterfaceUp(iface) !== shutdown) return {};
+  return {
+    output: [shutdown
+      ? `%LINK-5-CHANGED: Interface ${iface.name}, changed state to administratively down`
+      : `%LINK-3-UPDOWN: Interface ${iface.name}, changed state to up`],
+    effect: { type: 'interface-status', interfaceName: iface.name, status: shutdown ? 'down' : 'up' }
+  };
+};
+
+const buildCommandTree = (context: CLIContext, session: CLISession): CommandNode[] => {
+  const { device } = context;
+  const currentInterface = findInterface(device, session.interfaceName);
+  const anyInput = () => true;
+
+  // ping/traceroute 以路由器的主IP（LAN接口地址）作为源地址
+  const probe = (type: 'ping' | 'traceroute') => (words: string[]): CommandOutcome => {
+    const destIP = words[words.length - 1];
+    if (!isIPv4Format(destIP) && !isIPv6Address(destIP)) {
+      return { output: ['% Unrecognized host or address, or protocol not running.'] };
+    }
+    if (!device.ip) {
+      return { output: ['% 路由器没有可用的源地址，请先为LAN接口配置IP地址'] };
+    }
+    const header = type === 'ping'
+      ? [`Sending ${IOS_PING_COUNT}, 100-byte ICMP Echos to ${destIP}, timeout is 2 seconds:`]
+      : [`Tracing the route to ${destIP}`, ''];
+    return { output: ['Type escape sequence to abort.', ...header], effect: { type, destIP } };
+  };
+
+  const show = (privileged: boolean): CommandNode => ({
+    word: 'show',
+    help: 'Show running system information',
+    children: [
+      {
+        word: 'ip',
+        help: 'IP information',
+        children: [
+          {
+            word: 'interface',
+            help: 'IP interface status and configuration',
+            children: [{ word: 'brief', help: 'Brief summary of IP status and configuration', run: () => ({ output: formatInterfaceBrief(context) }) }]
+          },
+          { word: 'route', help: 'IP routing table', run: () => ({ output: formatShowIPRoute(context) }) }
+        ]
+      },
+      ...(privileged
+        ? [{ word: 'running-config', help: 'Current operating configuration', run: () => ({ output: buildRunningConfig(context).split('\n') }) }]
+        : [])
+    ]
+  });
+
+  const execCommands = (privileged: boolean): CommandNode[] => [
+    { word: 'ping', help: 'Send echo messages', children: [{ word: 'WORD', help: 'Ping destination address', param: anyInput, run: probe('ping') }] },
+    show(privileged),
+    { word: 'traceroute', help: 'Trace route to destination', children: [{ word: 'WORD', help: 'Trace route to destination address', param: anyInput, run: probe('traceroute') }] }
+  ];
+
+  const logout = (): CommandOutcome => ({
+    output: ['', `${device.name} con0 is now available`, '', 'Press RETURN to get started.', ''],
+    session: INITIAL_CLI_SESSION
+  });
+
+  const interfaceCommand: CommandNode = {
+    word: 'interface',
+    help: 'Select an interface to configure',
+    children: device.interfaces.map((iface) => ({
+      word: iface.name,
+      help: isSubInterface(iface) ? `VLAN ${iface.vlan} sub-interface` : 'Router interface',
+      run: () => ({ session: { mode: 'interface', interfaceName: iface.name } })
+    }))
+  };
+
+  const end: CommandNode = {
+    word: 'end',
+    help: 'Exit from configure mode',
+    run: () => ({ output: ['%SYS-5-CONFIG_I: Configured from console by console'], session: { mode: 'privileged' } })
+  };
+
+  const doCommand: CommandNode = { word: 'do', help: 'To run exec commands in config mode', children: execCommands(true) };
+
+  // 下一跳：本路由器的出接口名称，或下一跳路由器的接口地址（可再跟管理距离）
+  const routeTargets = (run: (words: string[]) => CommandOutcome, withDistance: boolean): CommandNode[] => [
+    ...device.interfaces.map((iface) => ({ word: iface.name, help: 'Outgoing interface', run })),
+    {
+      word: 'A.B.C.D',
+      help: 'Forwarding router\'s address',
+      param: isIPv4Format,
+      run,
+      children: withDistance ? [{ word: '<1-255>', help: 'Distance metric for this route', param: isDistance, run }] : undefined
+    }
+  ];
+
+  const routePrefix = (run: (words: string[]) => CommandOutcome, withDistance: boolean, requireTarget: boolean): CommandNode => ({
+    word: 'route',
+    help: 'Establish static routes',
+    children: [{
+      word: 'A.B.C.D',
+      help: 'Destination prefix',
+      param: isIPv4Format,
+      children: [{
+        word: 'A.B.C.D',
+        help: 'Destination prefix mask',
+        param: isIPv4Format,
+        run: requireTarget ? undefined : run,
+        children: routeTargets(run, withDistance)
+      }]
+    }]
+  });
+
+  switch (session.mode) {
+    case 'user':
+      return [
+        { word: 'enable', help: 'Turn on privileged commands', run: () => ({ session: { mode: 'privileged' } }) },
+        { word: 'exit', help: 'Exit from the EXEC', run: logout },
+        ...execCommands(false)
+      ];
+    case 'privileged':
+      return [
+        {
+          word: 'configure',
+          help: 'Enter configuration mode',
+          children: [{
+            word: 'terminal',
+            help: 'Configure from the terminal',
+            run: () => ({ output: ['Enter configuration commands, one per line.  End with CNTL/Z.'], session: { mode: 'config' } })
+          }]
+        },
+        { word: 'disable', help: 'Turn off privileged commands', run: () => ({ session: { mode: 'user' } }) },
+        { word: 'exit', help: 'Exit from the EXEC', run: logout },
+        ...execCommands(true)
+      ];
+    case 'config':
+      return [
+        doCommand,
+        end,
+        { word: 'exit', help: 'Exit from configure mode', run: () => ({ session: { mode: 'privileged' } }) },
+        interfaceCommand,
+        { word: 'ip', help: 'Global IP configuration subcommands', children: [routePrefix((words) => addStaticRoute(context, words), true, true)] },
+        {
+          word: 'no',
+          help: 'Negate a command or set its defaults',
+          children: [{ word: 'ip', help: 'Global IP configuration subcommands', children: [routePrefix((words) => removeStaticRoute(context, words), false, false)] }]
+        }
+      ];
+    case 'interface':
+      if (!currentInterface) return [end];
+      return [
+        doCommand,
+        end,
+        { word: 'exit', help: 'Exit from interface configuration mode', run: () => ({ session: { mode: 'config' } }) },
+        interfaceCommand,
+        {
+          word: 'ip',
+          help: 'Interface Internet Protocol config commands',
+          children: [{
+            word: 'address',
+            help: 'Set the IP address of an interface',
+            children: [{
+              word: 'A.B.C.D',
+              help: 'IP address',
+              param: isIPv4Format,
+              children: [{
+                word: 'A.B.C.D',
+                help: 'IP subnet mask',
+                param: isIPv4Format,
+                run: ([, , ip, mask]) => configureInterfaceAddress(context, currentInterface, ip, mask)
+              }]
+            }]
+          }]
+        },
+        {
+          word: 'no',
+          help: 'Negate a command or set its defaults',
+          children: [{ word: 'shutdown', help: 'Shutdown the selected interface', run: () => setShutdown(currentInterface, false) }]
+        },
+        { word: 'shutdown', help: 'Shutdown the selected interface', run: () => setShutdown(currentInterface, true) }
+      ];
+  }
+};
+
+/**
+ * 命令提示符，如 R1>、R1#、R1(config)#、R1(config-if)#
+ * @param device 路由器
+ * @param session 命令行会话
+ */
+export function getCLIPrompt(device: Device, session: CLISession): string {
+  const suffix: Record<CLIMode, string> = { user: '>', privileged: '#', config: '(config)#', interface: '(config-if)#' };
+  return `${device.name}${suffix[session.mode]}`;
+}
+
+/**
+ * 执行一行命令
+ * @param context 命令行上下文
+ * @param session 当前会话
+ * @param line 输入的命令（关键字可缩写，如 conf t、sh ip ro）
+ * @returns 输出、新的会话状态，以及需要交给 store 执行的效果
+ */
+export function executeCLICommand(context: CLIContext, session: CLISession, line: string): CLIResult {
+  const tokens = tokenize(line);
+  if (tokens.length === 0) {
+    return { output: [], session };
+  }
+  const walked = walkTokens(buildCommandTree(context, session), tokens);
+  if (walked.ambiguous) {
+    return { output: [`% Ambiguous command:  "${line.trim()}"`], session };
+  }
+  if (walked.errorAt !== undefined) {
+    const prompt = getCLIPrompt(context.device, session);
+    const offset = displayWidth(prompt) + displayWidth(line.slice(0, tokens[walked.errorAt].start));
+    return { output: [`${' '.repeat(offset)}^`, "% Invalid input detected at '^' marker."], session };
+  }
+  if (!walked.node?.run) {
+    return { output: ['% Incomplete command.'], session };
+  }
+  const outcome = walked.node.run(walked.words);
+  return { output: outcome.output || [], session: outcome.session || session, effect: outcome.effect };
+}
+
+// 补全和帮助共用：找到光标所在位置的候选节点
+const findCandidates = (context: CLIContext, session: CLISession, line: string) => {
+  const tokens = tokenize(line);
+  const endsWithSpace = line === '' || /\s$/.test(line);
+  const partial = endsWithSpace ? '' : tokens[tokens.length - 1].text;
+  const roots = buildCommandTree(context, session);
+  const walked = walkTokens(roots, endsWithSpace ? tokens : tokens.slice(0, -1));
+  if (walked.errorAt !== undefined) return null;
+  const nodes = walked.node ? walked.node.children || [] : roots;
+  return { partial, nodes, parent: walked.node };
+};
+
+/**
+ * Tab 补全：唯一匹配时补全关键字，有多个候选时补全到公共前缀并列出候选
+ * @param context 命令行上下文
+ * @param session 当前会话
+ * @param line 已输入的内容
+ */
+export function completeCLICommand(context: CLIContext, session: CLISession, line: string): { line: string; options: string[] } {
+  const found = findCandidates(context, session, line);
+  if (!found) return { line, options: [] };
+  const options = found.nodes
+    .filter((node) => !node.param && node.word.toLowerCase().startsWith(found.partial.toLowerCase()))
+    .map((node) => node.word);
+  const head = line.slice(0, line.length - found.partial.length);
+  if (options.length === 1) {
+    return { line: `${head}${options[0]} `, options: [] };
+  }
+  const common = options.reduce((prefix, option) => {
+    let i = 0;
+    while (i < prefix.length && prefix[i].toLowerCase() === option[i]?.toLowerCase()) i++;
+    return prefix.slice(0, i);
+  }, options[0] || '');
+  return { line: common.length > found.partial.length ? `${head}${common}` : line, options };
+}
+
+/**
+ * ? 帮助：列出当前位置可以输入的关键字或参数
+ * @param context 命令行上下文
+ * @param session 当前会话
+ * @param line 已输入的内容（不含 ?）
+ */
+export function describeCLIOptions(context: CLIContext, session: CLISession, line: string): string[] {
+  const found = findCandidates(context, session, line);
+  if (!found) return ['% Unrecognized command'];
+  if (found.partial) {
+    const words = found.nodes
+      .filter((node) => !node.param && node.word.toLowerCase().startsWith(found.partial.toLowerCase()))
+      .map((node) => node.word);
+    return words.length > 0 ? [words.join('  ')] : ['% Unrecognized command'];
+  }
+  return [
+    ...found.nodes.map((node) => `  ${node.word.padEnd(16)} ${node.help}`),
+    ...(found.parent?.run ? ['  <cr>'] : [])
+  ];
+}
+
+/**
+ * IOS 风格的 ping 结果：每个回显请求一个符号（! 收到应答，. 超时，U 不可达）和成功率
+ * @param statistics 连续Ping的统计
+ */
+export function formatIOSPing(statistics: PingStatistics): string[] {
+  const marks = statistics.replies
+    .map((reply) => (reply.status === 'reply' ? '!' : reply.status === 'unreachable' ? 'U' : '.'))
+    .join('');
+  const percent = statistics.sent > 0 ? Math.round((statistics.received / statistics.sent) * 100) : 0;
+  const roundTrip = statistics.received > 0
+    ? `, round-trip min/avg/max = ${[statistics.min, statistics.avg, statistics.max].map((ms) => Math.round(ms || 0)).join('/')} ms`
+    : '';
+  return [marks, `Success rate is ${percent} percent (${statistics.received}/${statistics.sent})${roundTrip}`];
+}
+
+/**
+ * IOS 风格的 traceroute 结果：每跳一行，超时显示 * * *，不可达显示 !H
+ * @param hops 路由追踪的每一跳
+ */
+export function formatIOSTraceroute(hops: TracerouteHop[]): string[] {
+  return hops.map((hop) => {
+    const ttl = String(hop.ttl).padStart(3);
+    if (hop.status === 'timeout') return `${ttl}  *  *  *`;
+    const name = hop.device && hop.device !== '*' ? ` (${hop.device})` : '';
+    return `${ttl} ${hop.ip}${name}${hop.status === 'unreachable' ? ' !H  !H  !H' : ''}`;
+  });
+}
@@ -4,13 +4,19 @@
  * 用于子网计算、校验和IP地址匹配
  */
 
+import { NetworkInterface } from '../types';
+import { IPV6_DEFAULT_PREFIX_LENGTH, isIPv6Address, isInSameIPv6Prefix } from './ipv6Utils';
+
+/** 接口未填写子网掩码时使用的默认掩码（/24） */
+export const DEFAULT_SUBNET_MASK = '255.255.255.0';
+
 /**
  * 计算子网地址
  * @param ip IP地址（如 192.168.1.10）
  * @param subnetMask 子网掩码（如 255.255.255.0）
  * @returns 子网地址（如 192.168.1.0）
  */
-export function calculateSubnet(ip: string, subnetMask: string = '255.255.255.0'): string {
+export function calculateSubnet(ip: string, subnetMask: string = DEFAULT_SUBNET_MASK): string {
   try {
     const ipParts = ip.split('.').map(Number);
     const maskParts = subnetMask.split('.').map(Number);
@@ -36,7 +42,7 @@ export function calculateSubnet(ip: string, subnetMask: string = '255.255.255.0'
  */
 export function isInSameSubnet(
   ip1: string,
-  subnetMask: string = '255.255.255.0',
+  subnetMask: string = DEFAULT_SUBNET_MASK,
   ip2: string
 ): boolean {
   const subnet1 = calculateSubnet(ip1, subnetMask);
@@ -50,36 +56,47 @@ export function isInSameSubnet(
 }
 
 /**
- * 验证子网掩码格式是否有效
+ * 判断IP是否落在接口所在的网段内（IPv4按接口自己的掩码，未填写时按 /24；IPv6按接口前缀长度）
+ * @param iface 接口
+ * @param ip IPv4或IPv6地址
+ * @returns 接口已配置对应协议的地址且IP在其网段内
+ */
+export function interfaceContainsIP(iface: NetworkInterface, ip: string): boolean {
+  if (isIPv6Address(ip)) {
+    return !!iface.ipv6 && isInSameIPv6Prefix(iface.ipv6, iface.ipv6PrefixLength || IPV6_DEFAULT_PREFIX_LENGTH, ip);
+  }
+  return !!iface.ip && isInSameSubnet(iface.ip, iface.subnetMask || DEFAULT_SUBNET_MASK, ip);
+}
+
+/**
+ * 验证接口子网掩码是否有效（/1 到 /31 之间的任意连续掩码，如 /23、点到点链路的 /31）
+ * 图形界面和命令行配置接口、DHCP地址池、子接口都使用这一规则
  * @param mask 子网掩码
  * @returns 是否有效
  */
 export function isValidSubnetMask(mask: string): boolean {
-  const parts = mask.split('.').map(Number);
-
-  if (parts.length !== 4) {
+  if (!isValidRouteMask(mask)) {
     return false;
   }
 
-  // 检查每个部分是否在 0-255 范围内
-  if (parts.some(p => isNaN(p) || p < 0 || p > 255)) {
+  const cidr = maskToCIDR(mask);
+  return cidr >= 1 && cidr <= 31;
+}
+
+/**
+ * 验证路由条目的子网掩码（允许 /0 默认路由到 /32 主机路由之间的任意连续掩码）
+ * @param mask 子网掩码
+ * @returns 是否有效
+ */
+export function isValidRouteMask(mask: string): boolean {
+  const parts = mask.split('.');
+
+  if (parts.length !== 4 || parts.some(p => !/^\d{1,3}$/.test(p))) {
     return false;
   }
 
-  // 常见的有效子网掩码（初中教学常用）
-  const validMasks = [
-    '255.255.255.0',   // /24 - C类网络（最常用）
-    '255.255.0.0',     // /16 - B类网络
-    '255.0.0.0',       // /8 - A类网络
-    '255.255.255.128', // /25
-    '255.255.255.192', // /26
-    '255.255.255.224', // /27
-    '255.255.255.240', // /28
-    '255.255.255.248', // /29
-    '255.255.255.252', // /30
-  ];
-
-  return validMasks.includes(mask);
+  const cidr = maskToCIDR(mask);
+  return cidr >= 0 && cidr <= 32 && cidrToMask(cidr) === mask;
 }
 
 /**
@@ -113,3 +130,21 @@ export function cidrToMask(cidr: number): string {
 
   return mask.join('.');
 }
+
+/**
+ * 将IP地址转换为32位整数（便于比较大小、遍历地址范围）
+ * @param ip IP地址（如 192.168.1.10）
+ * @returns 无符号整数
+ */
+export function ipToNumber(ip: string): number {
+  return ip.split('.').reduce((acc, part) => ((acc << 8) + Number(part)) >>> 0, 0);
+}
+
+/**
+ * 将32位整数转换回IP地址
+ * @param value 无符号整数
+ * @returns IP地址
+ */
+export function numberToIP(value: number): string {
+  return [24, 16, 8, 0].map((shift) => (value >>> shift) & 0xff).join('.');
+}
@@ -0,0 +1,63 @@
+/**
+ * 二层交换机工具函数
+ *
+ * 用于生成交换机端口，以及按连接查找交换机端口
+ */
+
+import { Connection, Device, NetworkInterface } from '../types';
+
+export const SWITCH_PORT_COUNT = 8;
+
+/**
+ * 生成交换机端口（二层端口没有IP地址）
+ * @param deviceId 交换机ID
+ * @param count 端口数量
+ * @returns 端口列表（Fa0/1 ~ Fa0/N）
+ */
+export function createSwitchPorts(deviceId: string, count: number = SWITCH_PORT_COUNT): NetworkInterface[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: `${deviceId}-fa0-${index + 1}`,
+    name: `Fa0/${index + 1}`,
+    ip: ''
+  }));
+}
+
+/**
+ * 查找交换机上连接某台邻居设备的端口
+ * @param switchDevice 交换机
+ * @param neighborId 邻居设备ID
+ * @param connections 所有连接
+ * @returns 端口；未连接时返回 undefined
+ */
+export function findSwitchPort(
+  switchDevice: Device,
+  neighborId: string,
+  connections: Connection[]
+): NetworkInterface | undefined {
+  const connection = connections.find(
+    (c) =>
+      (c.source === switchDevice.id && c.target === neighborId) ||
+      (c.target === switchDevice.id && c.source === neighborId)
+  );
+  if (!connection) {
+    return undefined;
+  }
+  const portId = connection.source === switchDevice.id ? connection.sourceInterfaceId : connection.targetInterfaceId;
+  return switchDevice.interfaces.find((port) => port.id === portId);
+}
+
+/**
+ * 查找交换机上第一个空闲端口
+ * @param switchDevice 交换机
+ * @param connections 所有连接
+ * @returns 空闲端口；端口已用完时返回 undefined
+ */
+export function findFreeSwitchPort(switchDevice: Device, connections: Connection[]): NetworkInterface | undefined {
+  const usedPortIds = new Set(
+    connections.flatMap((c) => [
+      c.source === switchDevice.id ? c.sourceInterfaceId : undefined,
+      c.target === switchDevice.id ? c.targetInterfaceId : undefined
+    ])
+  );
+  return switchDevice.interfaces.find((port) => port.id && !usedPortIds.has(port.id));
+}
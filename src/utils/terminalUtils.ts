@@ -0,0 +1,14 @@
+/**
+ * 命令行终端工具函数
+ *
+ * 命令行输出的文本排版（如按显示宽度对齐）
+ */
+
+/**
+ * 文本在等宽终端中占用的列数（中文字符占两格），用于对齐输出
+ * @param text 文本
+ * @returns 显示宽度
+ */
+export function displayWidth(text: string): number {
+  return [...text].reduce((width, ch) => width + (/[⺀-￯]/.test(ch) ? 2 : 1), 0);
+}
@@ -0,0 +1,199 @@
+/**
+ * VLAN 与 802.1Q 工具函数
+ *
+ * 用于判断交换机端口属于哪个VLAN、trunk端口是否放行某个VLAN，以及路由器子接口（单臂路由）的创建和显示
+ */
+
+import { Device, NetworkInterface } from '../types';
+import { validateIPAddress } from './ipValidator';
+import { calculateSubnet, isInSameSubnet, isValidSubnetMask } from './subnetUtils';
+
+// 默认VLAN，也是trunk端口的本征VLAN（本征VLAN的帧在trunk上不带标签）
+export const DEFAULT_VLAN = 1;
+export const MAX_VLAN_ID = 4094;
+
+/**
+ * 是否为trunk端口
+ * @param port 交换机端口
+ */
+export function isTrunkPort(port: NetworkInterface): boolean {
+  return port.vlanMode === 'trunk';
+}
+
+/**
+ * access端口所属VLAN
+ * @param port 交换机端口
+ */
+export function getAccessVLAN(port: NetworkInterface): number {
+  return port.vlan || DEFAULT_VLAN;
+}
+
+/**
+ * 端口是否承载该VLAN：access端口只承载自己的VLAN，trunk端口承载允许列表中的VLAN
+ * @param port 交换机端口
+ * @param vlan VLAN ID
+ */
+export function portCarriesVLAN(port: NetworkInterface, vlan: number): boolean {
+  if (isTrunkPort(port)) {
+    return !port.allowedVlans || port.allowedVlans.includes(vlan);
+  }
+  return getAccessVLAN(port) === vlan;
+}
+
+/**
+ * 帧从该端口发出时是否带802.1Q标签（trunk端口上除本征VLAN外都带标签）
+ * @param port 交换机端口
+ * @param vlan 帧所属VLAN
+ */
+export function isTaggedOnPort(port: NetworkInterface, vlan: number): boolean {
+  return isTrunkPort(port) && vlan !== DEFAULT_VLAN;
+}
+
+/**
+ * 帧进入交换机端口后归属的VLAN
+ * @param port 入端口
+ * @param tag 帧携带的802.1Q标签；不带标签时为 undefined
+ * @returns VLAN ID；端口不接收该帧时返回 undefined（如带标签的帧进入access端口）
+ */
+export function getIngressVLAN(port: NetworkInterface, tag: number | undefined): number | undefined {
+  if (tag !== undefined) {
+    return isTrunkPort(port) && portCarriesVLAN(port, tag) ? tag : undefined;
+  }
+  const vlan = isTrunkPort(port) ? DEFAULT_VLAN : getAccessVLAN(port);
+  return portCarriesVLAN(port, vlan) ? vlan : undefined;
+}
+
+/**
+ * 是否为路由器子接口
+ * @param iface 接口
+ */
+export function isSubInterface(iface: NetworkInterface): boolean {
+  return !!iface.parent;
+}
+
+/**
+ * 接口所在的物理接口（子接口返回它的父接口，物理接口返回自身）
+ * @param device 接口所属设备
+ * @param iface 接口
+ */
+export function getPhysicalInterface(device: Device, iface: NetworkInterface): NetworkInterface {
+  return iface.parent ? device.interfaces.find((i) => i.name === iface.parent) || iface : iface;
+}
+
+/**
+ * 路由器上处理某个VLAN的子接口
+ * @param device 路由器
+ * @param vlan VLAN ID
+ */
+export function findSubInterface(device: Device, vlan: number): NetworkInterface | undefined {
+  return device.interfaces.find((iface) => isSubInterface(iface) && iface.vlan === vlan);
+}
+
+/**
+ * 创建路由器子接口（如 LAN.10），收发的帧带该VLAN的802.1Q标签
+ * @param deviceId 路由器ID
+ * @param parent 物理接口
+ * @param vlan VLAN ID
+ * @param ip 子接口IP（该VLAN的网关地址）
+ * @param subnetMask 子网掩码
+ */
+export function createSubInterface(
+  deviceId: string,
+  parent: NetworkInterface,
+  vlan: number,
+  ip: string,
+  subnetMask: string
+): NetworkInterface {
+  const name = `${parent.name}.${vlan}`;
+  return { id: `${deviceId}-${name}`, name, ip, subnetMask, parent: parent.name, vlan };
+}
+
+/**
+ * 校验新建的路由器子接口
+ * @param device 路由器（interfaces 为编辑中的接口列表）
+ * @param subInterface 新子接口
+ * @returns 校验结果；失败时 error 为原因
+ */
+export function validateSubInterface(device: Device, subInterface: NetworkInterface): { valid: boolean; error?: string } {
+  if (!isValidVLAN(subInterface.vlan ?? NaN)) {
+    return { valid: false, error: `VLAN ID 需为 ${DEFAULT_VLAN}-${MAX_VLAN_ID} 的整数` };
+  }
+  if (device.interfaces.some((iface) => iface.name === subInterface.name)) {
+    return { valid: false, error: `子接口 ${subInterface.name} 已存在` };
+  }
+  if (findSubInterface(device, subInterface.vlan!)) {
+    return { valid: false, error: `VLAN ${subInterface.vlan} 已有子接口（一个VLAN只需要一个网关）` };
+  }
+
+  const mask = subInterface.subnetMask || '';
+  if (!isValidSubnetMask(mask)) {
+    return { valid: false, error: '子网掩码格式错误（如 255.255.255.0）' };
+  }
+  const ipCheck = validateIPAddress(subInterface.ip, mask);
+  if (!ipCheck.valid) {
+    return { valid: false, error: `IP地址错误：${ipCheck.error}` };
+  }
+
+  // 每个子接口是一个独立网段，不能与路由器其他接口重叠
+  const overlapping = device.interfaces.find(
+    (iface) => iface.ip && (isInSameSubnet(iface.ip, iface.subnetMask || mask, subInterface.ip) || isInSameSubnet(subInterface.ip, mask, iface.ip))
+  );
+  if (overlapping) {
+    return { valid: false, error: `${calculateSubnet(subInterface.ip, mask)} 与接口 ${overlapping.name} (${overlapping.ip}) 的网段重叠` };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * 验证VLAN ID（1~4094）
+ * @param vlan VLAN ID
+ */
+export function isValidVLAN(vlan: number): boolean {
+  return Number.isInteger(vlan) && vlan >= DEFAULT_VLAN && vlan <= MAX_VLAN_ID;
+}
+
+/**
+ * 解析trunk允许的VLAN列表（如 "10,20,30-32"）
+ * @param text 用户输入；留空表示全部允许
+ * @returns VLAN列表（空输入返回 undefined 表示全部）；格式错误时返回 null
+ */
+export function parseVLANList(text: string): number[] | undefined | null {
+  if (text.trim() === '' || text.trim().toLowerCase() === 'all') {
+    return undefined;
+  }
+  const vlans = new Set<number>();
+  for (const part of text.split(',').map((p) => p.trim()).filter(Boolean)) {
+    const range = part.match(/^(\d+)(?:-(\d+))?$/);
+    if (!range) return null;
+    const start = Number(range[1]);
+    const end = Number(range[2] ?? range[1]);
+    if (!isValidVLAN(start) || !isValidVLAN(end) || end < start) return null;
+    for (let vlan = start; vlan <= end; vlan++) vlans.add(vlan);
+  }
+  return [...vlans].sort((a, b) => a - b);
+}
+
+/**
+ * 以紧凑形式显示VLAN列表（连续的写成区间，如 10,20,30-32）
+ * @param vlans VLAN列表；未设置表示全部
+ */
+export function formatVLANList(vlans: number[] | undefined): string {
+  if (!vlans) return '全部';
+  const parts: string[] = [];
+  vlans.forEach((vlan, index) => {
+    if (index > 0 && vlan === vlans[index - 1] + 1) return;
+    let end = vlan;
+    while (vlans.includes(end + 1)) end++;
+    parts.push(end === vlan ? String(vlan) : `${vlan}-${end}`);
+  });
+  return parts.join(',');
+}
+
+/**
+ * 交换机端口的VLAN配置说明（如 “access VLAN 10”“trunk 10,20”）
+ * @param port 交换机端口
+ */
+export function describePortVLAN(port: NetworkInterface): string {
+  return isTrunkPort(port) ? `trunk ${formatVLANList(port.allowedVlans)}` : `access VLAN ${getAccessVLAN(port)}`;
+}